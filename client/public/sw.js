@@ -0,0 +1,137 @@
+// Service Worker - app shell and reference data caching
+//
+// Registered as /sw.js?build=<id>; every build registers a new URL, which is
+// what makes the browser install a new worker and the app show its update prompt.
+const BUILD_ID = new URL(self.location.href).searchParams.get('build') || 'dev';
+const SHELL_CACHE = `therapyflow-shell-${BUILD_ID}`;
+const API_CACHE = 'therapyflow-api';
+const NETWORK_TIMEOUT_MS = 4000;
+
+// Read-only data the dashboard and list pages need to open offline.
+// Sessions are kept in IndexedDB by the sessions feature instead.
+const CACHED_API_PATHS = [/^\/api\/patients(\/|$)/i, /^\/api\/certifications(\/|$)/i];
+
+/**
+ * index.html plus the scripts and styles it references
+ */
+const getShellUrls = async () => {
+  const response = await fetch('/', { cache: 'no-store' });
+  const html = await response.clone().text();
+  const assets = [...html.matchAll(/(?:src|href)="(\/[^"]+\.(?:js|css))"/g)].map((match) => match[1]);
+  return { response, assets: ['/manifest.webmanifest', ...assets] };
+};
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    (async () => {
+      const cache = await caches.open(SHELL_CACHE);
+      const { response, assets } = await getShellUrls();
+      await cache.put('/', response);
+      await cache.addAll(assets);
+    })()
+  );
+  // No skipWaiting here: the page asks for it once the user accepts the update
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    (async () => {
+      const keys = await caches.keys();
+      await Promise.all(
+        keys
+          .filter((key) => key.startsWith('therapyflow-shell-') && key !== SHELL_CACHE)
+          .map((key) => caches.delete(key))
+      );
+      await self.clients.claim();
+    })()
+  );
+});
+
+self.addEventListener('message', (event) => {
+  switch (event.data?.type) {
+    case 'SKIP_WAITING':
+      self.skipWaiting();
+      break;
+    // Cached API responses belong to the signed-in user
+    case 'CLEAR_API_CACHE':
+      event.waitUntil(caches.delete(API_CACHE));
+      break;
+  }
+});
+
+const withTimeout = (promise, ms) =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error('Network timeout')), ms);
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (error) => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+
+/**
+ * Fresh data when the network answers in time, the last copy otherwise
+ */
+const networkFirst = async (request) => {
+  const cache = await caches.open(API_CACHE);
+  try {
+    const response = await withTimeout(fetch(request), NETWORK_TIMEOUT_MS);
+    if (response.ok) {
+      await cache.put(request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request);
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+/**
+ * Hashed build assets never change, so the cached copy is always right
+ */
+const cacheFirst = async (request) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(SHELL_CACHE);
+    await cache.put(request, response.clone());
+  }
+  return response;
+};
+
+/**
+ * Client-side routes all load index.html; fall back to the cached shell offline
+ */
+const navigate = async (request) => {
+  try {
+    return await withTimeout(fetch(request), NETWORK_TIMEOUT_MS);
+  } catch (error) {
+    const cached = await caches.match('/', { cacheName: SHELL_CACHE });
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(navigate(request));
+  } else if (CACHED_API_PATHS.some((pattern) => pattern.test(url.pathname))) {
+    event.respondWith(networkFirst(request));
+  } else if (url.pathname.startsWith('/assets/')) {
+    event.respondWith(cacheFirst(request));
+  }
+});
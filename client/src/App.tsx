@@ -1,17 +1,23 @@
+import { QueryClientProvider } from "@tanstack/react-query";
 import { AuthProvider } from "./features/auth/context/AuthContext";
 import { ThemeProvider } from "./shared/contexts/ThemeContext";
 import { NotificationProvider } from "./shared/components/ui/NotificationSystem";
+import { AppUpdatePrompt } from "./shared/components/feedback";
 import AppContent from "./components/AppContent";
+import { queryClient } from "./shared/utils/queryClient";
 
 function App() {
   return (
-    <ThemeProvider>
-      <AuthProvider>
-        <NotificationProvider>
-          <AppContent />
-        </NotificationProvider>
-      </AuthProvider>
-    </ThemeProvider>
+    <QueryClientProvider client={queryClient}>
+      <ThemeProvider>
+        <AuthProvider>
+          <NotificationProvider>
+            <AppContent />
+            <AppUpdatePrompt />
+          </NotificationProvider>
+        </AuthProvider>
+      </ThemeProvider>
+    </QueryClientProvider>
   );
 }
 
@@ -9,9 +9,15 @@ import {
 import { UserRole } from "../features/auth/types/auth.types";
 import Login from "../pages/Login";
 import Dashboard from "../pages/Dashboard";
-import { CertificationsPage } from "../features/certifications";
-import { SessionsPage } from "../features/sessions";
+import {
+  CertificationsPage,
+  CertificationReviewPage,
+} from "../features/certifications";
+import { SessionsPage, SessionsCalendarPage } from "../features/sessions";
 import PatientsPage from "../features/patients/pages/PatientsPage";
+import { SchoolsPage } from "../features/schools";
+import { ReportsPage } from "../features/reports";
+import { PortalPage } from "../features/portal";
 import InviteCreate from "../pages/InviteCreate";
 import InviteReset from "../pages/InviteReset";
 import UserManagement from "../pages/UserManagement";
@@ -40,36 +46,94 @@ const AppContent: React.FC = () => {
                   </PrivateRoute>
                 }
               />
+              <Route
+                path="/portal"
+                element={
+                  <PrivateRoute requiredRoles={[UserRole.PATIENT]}>
+                    <PortalPage />
+                  </PrivateRoute>
+                }
+              />
               <Route
                 path="/certifications"
                 element={
                   <PrivateRoute
-                    requiredRoles={[UserRole.ADMIN, UserRole.THERAPIST]}
+                    requiredRoles={[
+                      UserRole.ADMIN,
+                      UserRole.THERAPIST,
+                      UserRole.SECRETARY,
+                    ]}
                   >
                     <CertificationsPage />
                   </PrivateRoute>
                 }
               />
+              <Route
+                path="/certifications/review"
+                element={
+                  <PrivateRoute requiredRoles={[UserRole.ADMIN]}>
+                    <CertificationReviewPage />
+                  </PrivateRoute>
+                }
+              />
               <Route
                 path="/sessions"
                 element={
                   <PrivateRoute
-                    requiredRoles={[UserRole.ADMIN, UserRole.THERAPIST]}
+                    requiredRoles={[
+                      UserRole.ADMIN,
+                      UserRole.THERAPIST,
+                      UserRole.SECRETARY,
+                    ]}
                   >
                     <SessionsPage />
                   </PrivateRoute>
                 }
               />
+              <Route
+                path="/sessions/calendar"
+                element={
+                  <PrivateRoute
+                    requiredRoles={[
+                      UserRole.ADMIN,
+                      UserRole.THERAPIST,
+                      UserRole.SECRETARY,
+                    ]}
+                  >
+                    <SessionsCalendarPage />
+                  </PrivateRoute>
+                }
+              />
               <Route
                 path="/patients"
                 element={
                   <PrivateRoute
-                    requiredRoles={[UserRole.ADMIN, UserRole.THERAPIST]}
+                    requiredRoles={[
+                      UserRole.ADMIN,
+                      UserRole.THERAPIST,
+                      UserRole.SECRETARY,
+                    ]}
                   >
                     <PatientsPage />
                   </PrivateRoute>
                 }
               />
+              <Route
+                path="/schools"
+                element={
+                  <PrivateRoute requiredRoles={[UserRole.ADMIN]}>
+                    <SchoolsPage />
+                  </PrivateRoute>
+                }
+              />
+              <Route
+                path="/reports"
+                element={
+                  <PrivateRoute requiredRoles={[UserRole.ADMIN]}>
+                    <ReportsPage />
+                  </PrivateRoute>
+                }
+              />
               <Route
                 path="/user-management"
                 element={
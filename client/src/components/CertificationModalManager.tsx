@@ -10,6 +10,7 @@ import type {
 import type { CertificationDocument, BackendTherapySession } from "../types";
 import { CertificationService } from "../services/certificationService";
 import { SessionService } from "../services/sessionService";
+import { downloadBlob } from "../shared/utils/download";
 
 // Import existing components (will be refactored later)
 import CertificationDetailsView from "./CertificationDetailsView";
@@ -250,15 +251,7 @@ export default function CertificationModalManager({
       setLoading(true);
       const blob = await CertificationService.downloadPdf(certificationId);
 
-      // Create download link
-      const url = window.URL.createObjectURL(blob);
-      const link = document.createElement("a");
-      link.href = url;
-      link.download = `certification-${certificationId}.pdf`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      window.URL.revokeObjectURL(url);
+      downloadBlob(blob, `certification-${certificationId}.pdf`);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to download PDF");
     } finally {
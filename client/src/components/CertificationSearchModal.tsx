@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from "react";
 import type { CertificationDocument } from "../types/certification";
-import { apiClient } from "../services/apiClient";
+import { certificationService } from "../features/certifications";
 
 interface CertificationSearchModalProps {
   isOpen: boolean;
@@ -19,28 +19,38 @@ export const CertificationSearchModal: React.FC<
   const [error, setError] = useState("");
 
   useEffect(() => {
-    if (isOpen && searchTerm.trim()) {
-      searchCertifications();
-    }
-  }, [searchTerm, isOpen]);
+    if (!isOpen || !searchTerm.trim()) return;
+
+    // Cancelled when the term changes, so an older search cannot overwrite newer results
+    const request = new AbortController();
+
+    const searchCertifications = async () => {
+      setLoading(true);
+      setError("");
 
-  const searchCertifications = async () => {
-    if (!searchTerm.trim()) return;
+      try {
+        // Search by patient name, month/year, or therapy type
+        const response = await certificationService.getCertifications(
+          { search: searchTerm },
+          { signal: request.signal }
+        );
+        setCertifications(response.certifications);
+      } catch (err) {
+        if (request.signal.aborted) return;
+        setError("Failed to search certifications. Please try again.");
+        console.error("Search error:", err);
+      } finally {
+        if (!request.signal.aborted) setLoading(false);
+      }
+    };
 
-    setLoading(true);
-    setError("");
+    searchCertifications();
 
-    try {
-      // Search by patient name, month/year, or therapy type
-      const response = await api.certifications.getAll({ search: searchTerm });
-      setCertifications(response.data || []);
-    } catch (err) {
-      setError("Failed to search certifications. Please try again.");
-      console.error("Search error:", err);
-    } finally {
+    return () => {
+      request.abort();
       setLoading(false);
-    }
-  };
+    };
+  }, [searchTerm, isOpen]);
 
   const handleCertificationSelect = (certification: CertificationDocument) => {
     onCertificationSelected(certification);
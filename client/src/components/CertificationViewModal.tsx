@@ -13,6 +13,7 @@ import { useResponsive } from "../hooks/useResponsive";
 
 import CertificationService from "../services/certificationService";
 import TherapySessionService from "../services/therapySessionService";
+import { downloadBlob } from "../shared/utils/download";
 
 interface CertificationViewModalProps {
   isOpen: boolean;
@@ -247,23 +248,13 @@ const CertificationViewModal: React.FC<CertificationViewModalProps> = ({
     try {
       const blob = await CertificationService.generatePdf(certification.id);
 
-      // Create download link
-      const url = window.URL.createObjectURL(blob);
-      const link = document.createElement("a");
-      link.href = url;
-
       // Create filename
       const patientName =
         certification.patient?.fullName?.replace(/\s+/g, "_") || "Unknown";
-      link.download = `Certification_${patientName}_${certification.month}_${certification.year}.pdf`;
-
-      // Trigger download
-      document.body.appendChild(link);
-      link.click();
-
-      // Cleanup
-      window.URL.revokeObjectURL(url);
-      document.body.removeChild(link);
+      downloadBlob(
+        blob,
+        `Certification_${patientName}_${certification.month}_${certification.year}.pdf`
+      );
     } catch (error) {
       console.error("Error downloading PDF:", error);
       alert("Failed to download PDF. Please try again.");
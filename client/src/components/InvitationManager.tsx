@@ -1,30 +1,19 @@
 import React, { useState, useEffect } from "react";
 import { useAuth } from "../features/auth";
-
-interface UserInvitationResponse {
-  id: string;
-  email: string;
-  userRole: string;
-  invitationType: string;
-  expiryDate: string;
-  isUsed: boolean;
-  createdAt: string;
-  createdByUserName: string;
-  notes: string;
-  invitationLink: string;
-}
-
-interface CreateUserInvitationRequest {
-  email: string;
-  userRole: string;
-  invitationType: string;
-  expiryDays: number;
-  notes: string;
-}
+import {
+  AssignedTherapistsField,
+  invitationService,
+  useTherapistOptions,
+} from "../features/users";
+import type {
+  CreateUserInvitationRequest,
+  UserInvitation,
+} from "../features/users";
 
 const InvitationManager: React.FC = () => {
   const { user } = useAuth();
-  const [invitations, setInvitations] = useState<UserInvitationResponse[]>([]);
+  const { therapists } = useTherapistOptions();
+  const [invitations, setInvitations] = useState<UserInvitation[]>([]);
   const [loading, setLoading] = useState(true);
   const [showCreateForm, setShowCreateForm] = useState(false);
   const [showPasswordResetForm, setShowPasswordResetForm] = useState(false);
@@ -48,20 +37,11 @@ const InvitationManager: React.FC = () => {
 
   const fetchInvitations = async () => {
     try {
-      const response = await fetch("/api/user/invitations", {
-        headers: {
-          Authorization: `Bearer ${localStorage.getItem("token")}`,
-        },
-      });
-
-      if (response.ok) {
-        const result = await response.json();
-        setInvitations(result.data || []);
-      } else {
-        setError("Failed to fetch invitations");
-      }
+      setInvitations(await invitationService.getInvitations());
     } catch (err) {
-      setError("Failed to fetch invitations");
+      setError(
+        err instanceof Error ? err.message : "Failed to fetch invitations"
+      );
     } finally {
       setLoading(false);
     }
@@ -83,33 +63,21 @@ const InvitationManager: React.FC = () => {
     setSuccess(null);
 
     try {
-      const response = await fetch("/api/user/invitations", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${localStorage.getItem("token")}`,
-        },
-        body: JSON.stringify(formData),
+      await invitationService.createInvitation(formData);
+      setSuccess("Invitation created successfully!");
+      setFormData({
+        email: "",
+        userRole: "therapist",
+        invitationType: "createaccount",
+        expiryDays: 7,
+        notes: "",
       });
-
-      const result = await response.json();
-
-      if (response.ok) {
-        setSuccess("Invitation created successfully!");
-        setFormData({
-          email: "",
-          userRole: "therapist",
-          invitationType: "createaccount",
-          expiryDays: 7,
-          notes: "",
-        });
-        setShowCreateForm(false);
-        fetchInvitations();
-      } else {
-        setError(result.message || "Failed to create invitation");
-      }
+      setShowCreateForm(false);
+      fetchInvitations();
     } catch (err) {
-      setError("Failed to create invitation");
+      setError(
+        err instanceof Error ? err.message : "Failed to create invitation"
+      );
     } finally {
       setSubmitting(false);
     }
@@ -127,29 +95,17 @@ const InvitationManager: React.FC = () => {
     setSuccess(null);
 
     try {
-      const response = await fetch("/api/user/password-reset", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${localStorage.getItem("token")}`,
-        },
-        body: JSON.stringify(passwordResetEmail),
-      });
-
-      const result = await response.json();
-
-      if (response.ok) {
-        setSuccess("Password reset invitation created successfully!");
-        setPasswordResetEmail("");
-        setShowPasswordResetForm(false);
-        fetchInvitations();
-      } else {
-        setError(
-          result.message || "Failed to create password reset invitation"
-        );
-      }
+      await invitationService.createPasswordResetInvitation(passwordResetEmail);
+      setSuccess("Password reset invitation created successfully!");
+      setPasswordResetEmail("");
+      setShowPasswordResetForm(false);
+      fetchInvitations();
     } catch (err) {
-      setError("Failed to create password reset invitation");
+      setError(
+        err instanceof Error
+          ? err.message
+          : "Failed to create password reset invitation"
+      );
     } finally {
       setSubmitting(false);
     }
@@ -159,41 +115,25 @@ const InvitationManager: React.FC = () => {
     if (!confirm("Are you sure you want to delete this invitation?")) return;
 
     try {
-      const response = await fetch(`/api/user/invitations/${id}`, {
-        method: "DELETE",
-        headers: {
-          Authorization: `Bearer ${localStorage.getItem("token")}`,
-        },
-      });
-
-      if (response.ok) {
-        setSuccess("Invitation deleted successfully!");
-        fetchInvitations();
-      } else {
-        setError("Failed to delete invitation");
-      }
+      await invitationService.deleteInvitation(id);
+      setSuccess("Invitation deleted successfully!");
+      fetchInvitations();
     } catch (err) {
-      setError("Failed to delete invitation");
+      setError(
+        err instanceof Error ? err.message : "Failed to delete invitation"
+      );
     }
   };
 
   const handleResend = async (id: string) => {
     try {
-      const response = await fetch(`/api/user/invitations/${id}/resend`, {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${localStorage.getItem("token")}`,
-        },
-      });
-
-      if (response.ok) {
-        setSuccess("Invitation resent successfully!");
-        fetchInvitations();
-      } else {
-        setError("Failed to resend invitation");
-      }
+      await invitationService.resendInvitation(id);
+      setSuccess("Invitation resent successfully!");
+      fetchInvitations();
     } catch (err) {
-      setError("Failed to resend invitation");
+      setError(
+        err instanceof Error ? err.message : "Failed to resend invitation"
+      );
     }
   };
 
@@ -339,6 +279,7 @@ const InvitationManager: React.FC = () => {
                   className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
                 >
                   <option value="therapist">Therapist</option>
+                  <option value="secretary">Secretary</option>
                   <option value="admin">Admin</option>
                 </select>
               </div>
@@ -358,6 +299,23 @@ const InvitationManager: React.FC = () => {
                 />
               </div>
             </div>
+            {formData.userRole === "secretary" && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Assigned Therapists
+                </label>
+                <AssignedTherapistsField
+                  therapists={therapists}
+                  selectedIds={formData.assignedTherapistIds || []}
+                  onChange={(ids) =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      assignedTherapistIds: ids,
+                    }))
+                  }
+                />
+              </div>
+            )}
             <div>
               <label className="block text-sm font-medium text-gray-700">
                 Notes
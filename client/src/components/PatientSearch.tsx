@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useRef } from "react";
-import { apiClient } from "../services/apiClient";
+import { patientService } from "../features/patients";
 import type { Patient } from "../types";
 
 interface PatientSearchProps {
@@ -38,29 +38,38 @@ const PatientSearch: React.FC<PatientSearchProps> = ({
 
   // Search patients when search term changes
   useEffect(() => {
+    // Cancelled when the term changes, so an older search cannot overwrite newer results
+    const request = new AbortController();
+
     const searchPatients = async () => {
       if (searchTerm.trim().length < 2) {
         setPatients([]);
+        setLoading(false);
         return;
       }
 
       try {
         setLoading(true);
-        const response = await api.patients.getAll({
-          search: searchTerm.trim(),
-        });
-        setPatients(response.data || []);
+        const response = await patientService.getPatients(
+          { search: searchTerm.trim() },
+          { signal: request.signal }
+        );
+        setPatients(response.patients);
         setIsOpen(true);
       } catch (error) {
+        if (request.signal.aborted) return;
         console.error("Error searching patients:", error);
         setPatients([]);
       } finally {
-        setLoading(false);
+        if (!request.signal.aborted) setLoading(false);
       }
     };
 
     const debounceTimer = setTimeout(searchPatients, 300);
-    return () => clearTimeout(debounceTimer);
+    return () => {
+      clearTimeout(debounceTimer);
+      request.abort();
+    };
   }, [searchTerm]);
 
   const handlePatientSelect = (patient: Patient) => {
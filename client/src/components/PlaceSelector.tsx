@@ -1,45 +1,91 @@
-import React, { useState } from "react";
+import React, { useMemo, useState } from "react";
+import { useSchools } from "../features/schools/hooks/useSchools";
+import {
+  findSchoolByName,
+  searchSchools,
+  SCHOOL_PLACE,
+} from "../features/schools/utils/schoolDirectory";
+import type { School } from "../features/schools/types/school.types";
 
 interface PlaceSelectorProps {
   selectedPlace?: string;
   selectedSchool?: string;
   onPlaceSelect: (place: string, school?: string) => void;
+  label?: string;
   className?: string;
 }
 
+const PLACES = ["Centro", "Virtual", SCHOOL_PLACE];
+
+const MAX_VISIBLE_SCHOOLS = 8;
+
 const PlaceSelector: React.FC<PlaceSelectorProps> = ({
   selectedPlace,
   selectedSchool,
   onPlaceSelect,
+  label = "Location",
   className = "",
 }) => {
-  const [showSchoolOptions, setShowSchoolOptions] = useState(
-    selectedPlace === "Escuela"
-  );
+  const {
+    schools,
+    isLoading,
+    error,
+    createSchool,
+    toggleFavorite,
+    recordUsage,
+  } = useSchools();
+  const [query, setQuery] = useState("");
+  const [isAdding, setIsAdding] = useState(false);
+  const [addError, setAddError] = useState<string | null>(null);
 
-  const places = ["Centro", "Virtual", "Escuela"];
+  const showSchoolOptions = selectedPlace === SCHOOL_PLACE;
 
-  const schools = [
-    "Escuela Primaria Central",
-    "Escuela Secundaria Norte",
-    "Instituto Tecnológico",
-    "Colegio San Juan",
-    "Escuela María Montessori",
-    "Instituto Bilingüe",
-  ];
+  // Keep locations saved before the directory existed selectable
+  const places =
+    selectedPlace && !PLACES.includes(selectedPlace)
+      ? [...PLACES, selectedPlace]
+      : PLACES;
+
+  const matchingSchools = useMemo(
+    () => searchSchools(schools, query).slice(0, MAX_VISIBLE_SCHOOLS),
+    [schools, query]
+  );
+  const canAddSchool =
+    query.trim().length > 0 && !findSchoolByName(schools, query);
 
   const handlePlaceChange = (place: string) => {
-    if (place === "Escuela") {
-      setShowSchoolOptions(true);
+    if (place === SCHOOL_PLACE) {
       onPlaceSelect(place, selectedSchool);
     } else {
-      setShowSchoolOptions(false);
       onPlaceSelect(place);
     }
   };
 
-  const handleSchoolChange = (school: string) => {
-    onPlaceSelect("Escuela", school);
+  const handleSchoolSelect = (school: School) => {
+    onPlaceSelect(SCHOOL_PLACE, school.name);
+    setQuery("");
+    recordUsage(school.id);
+  };
+
+  const handleAddSchool = async () => {
+    try {
+      setIsAdding(true);
+      setAddError(null);
+      const school = await createSchool({ name: query.trim() });
+      handleSchoolSelect(school);
+    } catch (err) {
+      setAddError(err instanceof Error ? err.message : "Failed to add school");
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleToggleFavorite = async (school: School) => {
+    try {
+      await toggleFavorite(school);
+    } catch (err) {
+      console.error("Failed to update favorite school:", err);
+    }
   };
 
   return (
@@ -47,7 +93,7 @@ const PlaceSelector: React.FC<PlaceSelectorProps> = ({
       {/* Place selector */}
       <div>
         <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-          Location
+          {label}
         </label>
         <select
           value={selectedPlace || ""}
@@ -63,24 +109,99 @@ const PlaceSelector: React.FC<PlaceSelectorProps> = ({
         </select>
       </div>
 
-      {/* School selector (only shown when Escuela is selected) */}
+      {/* School picker (only shown when Escuela is selected) */}
       {showSchoolOptions && (
         <div className="pl-4 border-l-2 border-blue-200 dark:border-blue-800">
           <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
             Select School
           </label>
-          <select
-            value={selectedSchool || ""}
-            onChange={(e) => handleSchoolChange(e.target.value)}
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setAddError(null);
+            }}
+            placeholder="Search schools..."
             className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors duration-200"
-          >
-            <option value="">Select school</option>
-            {schools.map((school) => (
-              <option key={school} value={school}>
-                {school}
-              </option>
+          />
+
+          {error && (
+            <p className="mt-2 text-sm text-red-600 dark:text-red-400">
+              {error}
+            </p>
+          )}
+
+          <ul className="mt-2 max-h-60 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-md">
+            {isLoading && schools.length === 0 && (
+              <li className="px-3 py-2 text-sm text-gray-500 dark:text-gray-400">
+                Loading schools...
+              </li>
+            )}
+            {!isLoading && matchingSchools.length === 0 && (
+              <li className="px-3 py-2 text-sm text-gray-500 dark:text-gray-400">
+                No schools found
+              </li>
+            )}
+            {matchingSchools.map((school) => (
+              <li
+                key={school.id}
+                className={`flex items-center justify-between px-3 py-2 ${
+                  school.name === selectedSchool
+                    ? "bg-blue-50 dark:bg-blue-900/20"
+                    : ""
+                }`}
+              >
+                <button
+                  type="button"
+                  onClick={() => handleSchoolSelect(school)}
+                  className="flex-1 text-left"
+                >
+                  <span className="block text-sm text-gray-900 dark:text-gray-100">
+                    {school.name}
+                  </span>
+                  {school.address && (
+                    <span className="block text-xs text-gray-500 dark:text-gray-400">
+                      {school.address}
+                    </span>
+                  )}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleToggleFavorite(school)}
+                  title={
+                    school.isFavorite
+                      ? "Remove from favorites"
+                      : "Add to favorites"
+                  }
+                  className={`ml-2 text-lg leading-none ${
+                    school.isFavorite
+                      ? "text-yellow-500"
+                      : "text-gray-300 dark:text-gray-600 hover:text-yellow-500"
+                  }`}
+                >
+                  {school.isFavorite ? "★" : "☆"}
+                </button>
+              </li>
             ))}
-          </select>
+          </ul>
+
+          {/* Inline add for schools missing from the directory */}
+          {canAddSchool && (
+            <button
+              type="button"
+              onClick={handleAddSchool}
+              disabled={isAdding}
+              className="mt-2 text-sm text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+            >
+              {isAdding ? "Adding..." : `Add "${query.trim()}" as a new school`}
+            </button>
+          )}
+          {addError && (
+            <p className="mt-1 text-sm text-red-600 dark:text-red-400">
+              {addError}
+            </p>
+          )}
         </div>
       )}
 
@@ -88,7 +209,7 @@ const PlaceSelector: React.FC<PlaceSelectorProps> = ({
       {selectedPlace && (
         <div className="text-sm text-gray-600 dark:text-gray-400">
           Selected: {selectedPlace}
-          {selectedPlace === "Escuela" &&
+          {selectedPlace === SCHOOL_PLACE &&
             selectedSchool &&
             ` - ${selectedSchool}`}
         </div>
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from "react";
 import type { BackendTherapySession } from "../types/TherapyTypes";
 import { sessionService } from "../features/sessions/services/sessionService";
+import { invalidateSessionQueries } from "../features/sessions/hooks/sessionQueries";
 import SignaturePadLegacy from "./SignaturePadLegacy";
 
 interface TherapySessionFormProps {
@@ -170,6 +171,7 @@ const TherapySessionForm: React.FC<TherapySessionFormProps> = ({
           editSession.id,
           updateData
         );
+        invalidateSessionQueries();
         console.log("Session updated successfully:", response.data);
         console.log("Response data signature fields:", {
           signatureImageData: response.data.signatureImageData,
@@ -224,6 +226,7 @@ const TherapySessionForm: React.FC<TherapySessionFormProps> = ({
 
         console.log("Creating session with data:", createData);
         response = await sessionService.createSession(createData);
+        invalidateSessionQueries();
         console.log("Session created successfully:", response.data);
         console.log("Response data signature fields:", {
           signatureImageData: response.data.signatureImageData,
@@ -1,34 +1,73 @@
-import React, { useState } from "react";
+import React, { useMemo, useState } from "react";
+import { buildTimeSlots } from "../features/sessions/utils/availability";
+import type {
+  TherapistAvailability,
+  TherapySession,
+  TimeSlot,
+} from "../features/sessions/types/session.types";
 
 interface TimePickerProps {
   selectedTime?: string;
   onTimeSelect: (time: string) => void;
   className?: string;
+  hasError?: boolean;
+  // Availability-aware mode: pass a date (or weekday) to grey out unavailable slots
+  date?: string;
+  dayOfWeek?: number;
+  availability?: TherapistAvailability | null;
+  sessions?: TherapySession[];
+  duration?: number;
+  excludeSessionId?: string;
 }
 
+// Generate time slots from 7:00 to 19:00 in 15-minute intervals
+const generateTimeSlots = (): TimeSlot[] => {
+  const slots: TimeSlot[] = [];
+  for (let hour = 7; hour <= 19; hour++) {
+    for (let minute = 0; minute < 60; minute += 15) {
+      const timeString = `${hour.toString().padStart(2, "0")}:${minute
+        .toString()
+        .padStart(2, "0")}`;
+      slots.push({ time: timeString, status: "free" });
+    }
+  }
+  return slots;
+};
+
 const TimePicker: React.FC<TimePickerProps> = ({
   selectedTime,
   onTimeSelect,
   className = "",
+  hasError = false,
+  date,
+  dayOfWeek,
+  availability,
+  sessions,
+  duration,
+  excludeSessionId,
 }) => {
   const [showCustomInput, setShowCustomInput] = useState(false);
   const [customTime, setCustomTime] = useState("");
 
-  // Generate time slots from 7:00 to 19:00 in 15-minute intervals
-  const generateTimeSlots = () => {
-    const slots = [];
-    for (let hour = 7; hour <= 19; hour++) {
-      for (let minute = 0; minute < 60; minute += 15) {
-        const timeString = `${hour.toString().padStart(2, "0")}:${minute
-          .toString()
-          .padStart(2, "0")}`;
-        slots.push(timeString);
-      }
-    }
-    return slots;
-  };
+  const timeSlots = useMemo(
+    () =>
+      date || dayOfWeek !== undefined
+        ? buildTimeSlots({
+            date,
+            dayOfWeek,
+            availability,
+            sessions,
+            duration,
+            excludeSessionId,
+          })
+        : generateTimeSlots(),
+    [date, dayOfWeek, availability, sessions, duration, excludeSessionId]
+  );
 
-  const timeSlots = generateTimeSlots();
+  // Keep a saved time selectable even when it is off the slot grid
+  const currentTime = selectedTime?.slice(0, 5) || "";
+  const hasCurrentSlot =
+    !currentTime || timeSlots.some((slot) => slot.time === currentTime);
 
   const handleTimeSelect = (time: string) => {
     if (time === "custom") {
@@ -58,14 +97,27 @@ const TimePicker: React.FC<TimePickerProps> = ({
   return (
     <div className={`relative ${className}`}>
       <select
-        value={selectedTime || ""}
+        value={currentTime}
         onChange={(e) => handleTimeSelect(e.target.value)}
-        className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors duration-200"
+        className={`w-full px-3 py-2 border rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors duration-200 ${
+          hasError ? "border-red-500" : "border-gray-300 dark:border-gray-600"
+        }`}
       >
         <option value="">Select time</option>
-        {timeSlots.map((time) => (
-          <option key={time} value={time}>
-            {formatDisplayTime(time)}
+        {!hasCurrentSlot && (
+          <option value={currentTime}>{formatDisplayTime(currentTime)}</option>
+        )}
+        {timeSlots.map((slot) => (
+          <option
+            key={slot.time}
+            value={slot.time}
+            disabled={slot.status !== "free" && slot.time !== currentTime}
+            className={
+              slot.status !== "free" ? "text-gray-400 dark:text-gray-500" : ""
+            }
+          >
+            {formatDisplayTime(slot.time)}
+            {slot.reason ? ` (${slot.reason})` : ""}
           </option>
         ))}
         <option value="custom">Custom time...</option>
@@ -4,6 +4,7 @@ import { useAuth } from "../features/auth";
 import { Navigation } from "../shared/components/layout/Navigation";
 import SignaturePad, { type SignaturePadRef } from "./SignaturePad";
 import SignatureDisplay from "./SignatureDisplay";
+import { AvailabilitySettings } from "../features/sessions/components/AvailabilitySettings";
 
 // Define types locally since they're specific to user profile
 interface UserProfileData {
@@ -628,6 +629,20 @@ const UserProfile: React.FC = () => {
           </div>
         </div>
 
+        {/* Availability */}
+        {user && (user.role === "therapist" || user.role === "admin") && (
+          <div className="bg-white dark:bg-gray-800 shadow-md rounded-lg overflow-hidden mb-8 border border-gray-200 dark:border-gray-700">
+            <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-700">
+              <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">
+                Availability
+              </h3>
+            </div>
+            <div className="p-6">
+              <AvailabilitySettings therapistId={user.id} />
+            </div>
+          </div>
+        )}
+
         {/* Password Change */}
         <div className="bg-white dark:bg-gray-800 shadow-md rounded-lg overflow-hidden border border-gray-200 dark:border-gray-700">
           <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-700">
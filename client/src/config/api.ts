@@ -8,6 +8,11 @@ export const API_CONFIG = {
   
   // Timeout settings
   TIMEOUT: 10000, // 10 seconds
+
+  // Retry settings for idempotent requests that fail with a network error or 5xx
+  RETRIES: 2,
+  RETRY_BASE_DELAY: 500, // doubled on each attempt, with jitter
+  RETRY_MAX_DELAY: 5000,
   
   // Endpoints
   ENDPOINTS: {
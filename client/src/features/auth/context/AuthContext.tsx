@@ -270,6 +270,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
    */
   useEffect(() => {
     const handleLogout = () => {
+      // Drops the offline API cache too, so the next user can't read this one's responses
+      tokenService.logout();
       dispatch({ type: "AUTH_LOGOUT" });
     };
 
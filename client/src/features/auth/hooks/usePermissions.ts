@@ -3,6 +3,12 @@ import { useMemo } from 'react';
 import { useAuth } from '../context/AuthContext';
 import type { User, Permission } from '../types/auth.types';
 import { UserRole } from '../types/auth.types';
+import {
+  getCertificationEditPolicy,
+  getSessionEditPolicy,
+  getSessionSignaturePolicy,
+} from '../../../shared/utils/editPolicy';
+import type { EditPolicyDecision } from '../../../shared/utils/editPolicy';
 
 // Define role-based permissions
 const ROLE_PERMISSIONS: Record<UserRole, string[]> = {
@@ -39,8 +45,21 @@ const ROLE_PERMISSIONS: Record<UserRole, string[]> = {
     'certifications:delete',
     'profile:update',
   ],
+  // Paperwork for assigned therapists; sessions and certifications are not deleted
+  [UserRole.SECRETARY]: [
+    'patients:read',
+    'sessions:create',
+    'sessions:read',
+    'sessions:update',
+    'certifications:create',
+    'certifications:read',
+    'certifications:update',
+    'profile:update',
+  ],
+  // Parents see their child's records and sign sessions on their own device
   [UserRole.PATIENT]: [
     'sessions:read',
+    'signatures:create',
     'certifications:read',
     'profile:update',
   ],
@@ -54,6 +73,21 @@ export function usePermissions() {
     return ROLE_PERMISSIONS[user.role] || [];
   }, [user]);
 
+  // Therapists whose records the user works on; null means every therapist
+  const assignedTherapistIds = useMemo((): string[] | null => {
+    if (!user) return [];
+    switch (user.role) {
+      case UserRole.ADMIN:
+        return null;
+      case UserRole.THERAPIST:
+        return [user.id];
+      case UserRole.SECRETARY:
+        return user.assignedTherapists || [];
+      default:
+        return [];
+    }
+  }, [user]);
+
   const hasPermission = (permission: string): boolean => {
     return permissions.includes(permission);
   };
@@ -75,7 +109,16 @@ export function usePermissions() {
   };
 
   const canManageSessions = (): boolean => {
-    return hasAnyRole([UserRole.ADMIN, UserRole.THERAPIST]);
+    return hasAnyRole([UserRole.ADMIN, UserRole.THERAPIST, UserRole.SECRETARY]);
+  };
+
+  const canSelectTherapist = (): boolean => {
+    return hasAnyRole([UserRole.ADMIN, UserRole.SECRETARY]);
+  };
+
+  const canAccessTherapist = (therapistId?: string): boolean => {
+    if (!therapistId) return false;
+    return assignedTherapistIds === null || assignedTherapistIds.includes(therapistId);
   };
 
   const canViewReports = (): boolean => {
@@ -84,11 +127,25 @@ export function usePermissions() {
 
   const canAccessOwnData = (resourceUserId?: string): boolean => {
     if (!user || !resourceUserId) return false;
-    return user.id === resourceUserId || hasRole(UserRole.ADMIN);
+    if (user.id === resourceUserId || hasRole(UserRole.ADMIN)) return true;
+    return hasRole(UserRole.SECRETARY) && canAccessTherapist(resourceUserId);
+  };
+
+  const getCertificationEditability = (status: number | string | null | undefined): EditPolicyDecision => {
+    return getCertificationEditPolicy(status, user?.role);
+  };
+
+  const getSessionEditability = (session: { certificationStatus?: number | string | null }): EditPolicyDecision => {
+    return getSessionEditPolicy(session, user?.role);
+  };
+
+  const getSessionSignability = (session: { certificationStatus?: number | string | null }): EditPolicyDecision => {
+    return getSessionSignaturePolicy(session, user?.role);
   };
 
   return {
     permissions,
+    assignedTherapistIds,
     hasPermission,
     hasAnyPermission,
     hasAllPermissions,
@@ -96,7 +153,12 @@ export function usePermissions() {
     canManagePatients,
     canManageSessions,
     canViewReports,
+    canSelectTherapist,
+    canAccessTherapist,
     canAccessOwnData,
+    getCertificationEditability,
+    getSessionEditability,
+    getSessionSignability,
   };
 }
 
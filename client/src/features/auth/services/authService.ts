@@ -1,6 +1,6 @@
 // Enhanced Auth Service with Security Best Practices
 import { tokenService } from './tokenService';
-import { apiClient } from '@/services/apiClient';
+import { apiClient, ApiError } from '@/services/apiClient';
 import type { 
   LoginRequest, 
   RegisterRequest, 
@@ -25,49 +25,29 @@ class AuthService {
 
       console.log('🔍 DEBUG: Sending login data:', loginData);
 
-      const response = await fetch(`${this.baseURL}/login`, {
+      const { user, token } = await apiClient.request<{ user: User; token: string }>({
+        url: `${this.baseURL}/login`,
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        credentials: 'include', // ✅ SECURE: Allow HTTP-only cookies
-        body: JSON.stringify(loginData),
+        body: loginData,
+        auth: false, // ✅ SECURE: HTTP-only cookies are still sent
+        errorMessage: 'Login failed',
       });
 
-      const data = await response.json();
+      // ✅ SECURE: Store access token in memory only
+      // ✅ INDUSTRY STANDARD: Refresh token automatically handled by HTTP-only cookie
+      tokenService.setAccessToken(token, 900); // 15 minutes (industry standard)
 
-      if (!response.ok) {
-        console.error('Login failed with status:', response.status);
-        console.error('Backend response:', data);
-        
-        // Handle validation errors specifically
-        if (response.status === 400 && data.errors) {
-          console.error('Validation errors:', data.errors);
-          const errorMessages = Object.entries(data.errors)
-            .map(([field, messages]) => {
-              const messageStr = Array.isArray(messages) ? messages.join(', ') : String(messages);
-              return `${field}: ${messageStr}`;
-            })
-            .join('; ');
-          throw new Error(`Validation failed: ${errorMessages}`);
-        }
-        
-        throw new Error(data.message || data.title || `Login failed (${response.status})`);
-      }
-
-      if (data.status === 200 && data.data) {
-        const { user, token } = data.data;
-        
-        // ✅ SECURE: Store access token in memory only
-        // ✅ INDUSTRY STANDARD: Refresh token automatically handled by HTTP-only cookie
-        tokenService.setAccessToken(token, 900); // 15 minutes (industry standard)
-        
-        return { user, token };
-      }
-
-      throw new Error('Invalid login response');
+      return { user, token };
     } catch (error) {
       console.error('Login error:', error);
+
+      // Handle validation errors specifically
+      if (error instanceof ApiError && error.status === 400 && error.response.errors.length > 0) {
+        const errorMessages = error.response.errors
+          .map((detail) => `${detail.field}: ${detail.message}`)
+          .join('; ');
+        throw new Error(`Validation failed: ${errorMessages}`);
+      }
       throw error;
     }
   }
@@ -77,32 +57,19 @@ class AuthService {
    */
   async register(userData: RegisterRequest): Promise<{ user: User; token: string }> {
     try {
-      const response = await fetch(`${this.baseURL}/register`, {
+      const { user, token } = await apiClient.request<{ user: User; token: string }>({
+        url: `${this.baseURL}/register`,
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        credentials: 'include',
-        body: JSON.stringify(userData),
+        body: userData,
+        auth: false,
+        errorMessage: 'Registration failed',
       });
 
-      const data = await response.json();
+      // ✅ SECURE: Store access token in memory only
+      // ✅ INDUSTRY STANDARD: Refresh token automatically handled by HTTP-only cookie
+      tokenService.setAccessToken(token, 900); // 15 minutes (industry standard)
 
-      if (!response.ok) {
-        throw new Error(data.message || 'Registration failed');
-      }
-
-      if (data.status === 201 && data.data) {
-        const { user, token } = data.data;
-        
-        // ✅ SECURE: Store access token in memory only
-        // ✅ INDUSTRY STANDARD: Refresh token automatically handled by HTTP-only cookie
-        tokenService.setAccessToken(token, 900); // 15 minutes (industry standard)
-        
-        return { user, token };
-      }
-
-      throw new Error('Invalid registration response');
+      return { user, token };
     } catch (error) {
       console.error('Registration error:', error);
       throw error;
@@ -115,13 +82,13 @@ class AuthService {
    */
   async logout(): Promise<void> {
     try {
-      // Call backend to clear refresh token cookie
-      await fetch(`${this.baseURL}/logout`, {
+      // Call backend to clear refresh token cookie; an expired token must not trigger a refresh here
+      const token = tokenService.getAccessToken();
+      await apiClient.send({
+        url: `${this.baseURL}/logout`,
         method: 'POST',
-        credentials: 'include', // ✅ SECURE: Send refresh cookie to be cleared
-        headers: {
-          'Authorization': `Bearer ${tokenService.getAccessToken()}`,
-        },
+        auth: false, // ✅ SECURE: Refresh cookie is still sent to be cleared
+        headers: token ? { Authorization: `Bearer ${token}` } : {},
       });
     } catch (error) {
       console.warn('Logout request failed:', error);
@@ -136,36 +103,11 @@ class AuthService {
    * Get current user profile
    */
   async getCurrentUser(): Promise<User> {
-    const token = await tokenService.getValidToken();
-    if (!token) {
-      throw new Error('No valid token available');
-    }
-
     try {
-      const response = await fetch(`${this.baseURL}/me`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        credentials: 'include',
+      return await apiClient.request<User>({
+        url: `${this.baseURL}/me`,
+        errorMessage: 'Failed to get user profile',
       });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        if (response.status === 401) {
-          tokenService.logout();
-          throw new Error('Session expired');
-        }
-        throw new Error(data.message || 'Failed to get user profile');
-      }
-
-      if (data.status === 200 && data.data) {
-        return data.data;
-      }
-
-      throw new Error('Invalid user profile response');
     } catch (error) {
       console.error('Get current user error:', error);
       throw error;
@@ -176,31 +118,13 @@ class AuthService {
    * Change user password
    */
   async changePassword(passwordData: ChangePasswordRequest): Promise<void> {
-    const token = await tokenService.getValidToken();
-    if (!token) {
-      throw new Error('No valid token available');
-    }
-
     try {
-      const response = await fetch(`${this.baseURL}/change-password`, {
+      await apiClient.send({
+        url: `${this.baseURL}/change-password`,
         method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        credentials: 'include',
-        body: JSON.stringify(passwordData),
+        body: passwordData,
+        errorMessage: 'Password change failed',
       });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.message || 'Password change failed');
-      }
-
-      if (data.status !== 200) {
-        throw new Error('Password change failed');
-      }
     } catch (error) {
       console.error('Change password error:', error);
       throw error;
@@ -212,19 +136,13 @@ class AuthService {
    */
   async requestPasswordReset(email: string): Promise<void> {
     try {
-      const response = await fetch(`${this.baseURL}/forgot-password`, {
+      await apiClient.send({
+        url: `${this.baseURL}/forgot-password`,
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ email }),
+        body: { email },
+        auth: false,
+        errorMessage: 'Password reset request failed',
       });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.message || 'Password reset request failed');
-      }
     } catch (error) {
       console.error('Password reset request error:', error);
       throw error;
@@ -273,43 +191,6 @@ class AuthService {
   getToken(): string | null {
     return tokenService.getAccessToken();
   }
-
-  /**
-   * Make authenticated request with automatic token refresh
-   * ✅ SECURE: Handles token refresh automatically
-   */
-  async authenticatedRequest<T>(url: string, options: RequestInit = {}): Promise<T> {
-    // Remove /api/ prefix if present since ApiClient handles it
-    const endpoint = url.startsWith('/api/') ? url.substring(5) : url;
-    
-    // Determine the HTTP method from options
-    const method = options.method || 'GET';
-    
-    let result;
-    
-    switch (method.toUpperCase()) {
-      case 'GET':
-        result = await apiClient.get<T>(endpoint);
-        break;
-      case 'POST':
-        result = await apiClient.post<T>(endpoint, options.body ? JSON.parse(options.body as string) : {});
-        break;
-      case 'PUT':
-        result = await apiClient.put<T>(endpoint, options.body ? JSON.parse(options.body as string) : {});
-        break;
-      case 'DELETE':
-        result = await apiClient.delete(endpoint);
-        break;
-      default:
-        throw new Error(`Unsupported HTTP method: ${method}`);
-    }
-    
-    if (!result.success) {
-      throw new Error(`Request failed: ${result.error?.status || 'Unknown error'}`);
-    }
-    
-    return result.data as T;
-  }
 }
 
 // Singleton instance
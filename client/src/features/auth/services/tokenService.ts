@@ -1,5 +1,7 @@
 // Secure Token Management Service
 // ⚠️ SECURITY: Access tokens stored in memory only, never in localStorage
+import { clearApiCache } from '../../../shared/utils/serviceWorker';
+import { queryClient } from '../../../shared/utils/queryClient';
 
 class TokenService {
   private accessToken: string | null = null;
@@ -66,19 +68,24 @@ class TokenService {
       return currentToken;
     }
 
-    // Handle concurrent refresh requests
+    return this.refreshToken();
+  }
+
+  /**
+   * Refresh now, even if the current token has not expired
+   * ✅ SECURE: Used when the server rejects a token; handles concurrent refresh requests
+   */
+  async refreshToken(): Promise<string | null> {
     if (this.refreshPromise) {
       console.log('TokenService: Waiting for existing refresh request');
-      await this.refreshPromise;
-      return this.getAccessToken();
+    } else {
+      console.log('TokenService: Starting token refresh');
+      this.refreshPromise = this.refreshAccessToken().finally(() => {
+        this.refreshPromise = null;
+      });
     }
 
-    // Trigger token refresh
-    console.log('TokenService: Starting token refresh');
-    this.refreshPromise = this.refreshAccessToken();
     const refreshSuccess = await this.refreshPromise;
-    this.refreshPromise = null;
-
     return refreshSuccess ? this.getAccessToken() : null;
   }
 
@@ -173,6 +180,9 @@ class TokenService {
   logout(): void {
     this.clearAccessToken();
     this.refreshPromise = null;
+    // ✅ SECURE: Responses cached for offline use and query data belong to this user
+    clearApiCache();
+    queryClient.clear();
   }
 }
 
@@ -13,6 +13,7 @@ export interface User {
   licenseNumber?: string;
   phoneNumber?: string;
   signatureData?: string;
+  assignedTherapists?: string[]; // Therapist user IDs a secretary works for
   createdAt: string;
   lastLoginAt?: string;
 }
@@ -20,6 +21,7 @@ export interface User {
 export enum UserRole {
   ADMIN = 'admin',
   THERAPIST = 'therapist',
+  SECRETARY = 'secretary',
   PATIENT = 'patient'
 }
 
@@ -117,5 +119,6 @@ export interface Permission {
 export interface RolePermissions {
   [UserRole.ADMIN]: Permission[];
   [UserRole.THERAPIST]: Permission[];
+  [UserRole.SECRETARY]: Permission[];
   [UserRole.PATIENT]: Permission[];
 }
@@ -3,6 +3,7 @@ import React from "react";
 import { format } from "date-fns";
 import type { CertificationCardProps } from "../types/certification.types";
 import { CertificationStatus } from "../types/certification.types";
+import { usePermissions } from "../../auth";
 
 export function CertificationCard({
   certification,
@@ -11,10 +12,14 @@ export function CertificationCard({
   onDelete,
   onSubmit,
   onViewSessions,
+  onClone,
   showPatientName = true,
   showTherapistName = false,
   className = "",
 }: CertificationCardProps) {
+  const { getCertificationEditability } = usePermissions();
+  const editability = getCertificationEditability(certification.status);
+
   const getStatusColor = (status: CertificationStatus) => {
     switch (status) {
       case CertificationStatus.DRAFT:
@@ -38,6 +43,12 @@ export function CertificationCard({
     return status.replace(/_/g, " ").replace(/\b\w/g, (l) => l.toUpperCase());
   };
 
+  // Rejected certifications and returned drafts go back through approval
+  const needsResubmission =
+    certification.status === CertificationStatus.REJECTED ||
+    (certification.status === CertificationStatus.DRAFT &&
+      !!certification.revisionReason);
+
   const completionPercentage =
     certification.totalSessions > 0
       ? Math.round(
@@ -108,14 +119,14 @@ export function CertificationCard({
             </button>
           )}
 
-          {onEdit && (
+          {onClone && (
             <button
               onClick={(e) => {
                 e.stopPropagation();
-                onEdit();
+                onClone();
               }}
-              className="p-2 text-gray-400 dark:text-gray-500 hover:text-indigo-600 dark:hover:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 rounded-lg transition-colors"
-              title="Edit"
+              className="p-2 text-gray-400 dark:text-gray-500 hover:text-purple-600 dark:hover:text-purple-400 hover:bg-purple-50 dark:hover:bg-purple-900/30 rounded-lg transition-colors"
+              title="Clone to Next Month"
             >
               <svg
                 className="w-4 h-4"
@@ -127,20 +138,20 @@ export function CertificationCard({
                   strokeLinecap="round"
                   strokeLinejoin="round"
                   strokeWidth={2}
-                  d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z"
+                  d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z"
                 />
               </svg>
             </button>
           )}
 
-          {onSubmit && certification.status === CertificationStatus.DRAFT && (
+          {onEdit && editability.allowed && (
             <button
               onClick={(e) => {
                 e.stopPropagation();
-                onSubmit();
+                onEdit();
               }}
-              className="p-2 text-gray-400 dark:text-gray-500 hover:text-green-600 dark:hover:text-green-400 hover:bg-green-50 dark:hover:bg-green-900/30 rounded-lg transition-colors"
-              title="Submit for Approval"
+              className="p-2 text-gray-400 dark:text-gray-500 hover:text-indigo-600 dark:hover:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 rounded-lg transition-colors"
+              title="Edit"
             >
               <svg
                 className="w-4 h-4"
@@ -152,13 +163,44 @@ export function CertificationCard({
                   strokeLinecap="round"
                   strokeLinejoin="round"
                   strokeWidth={2}
-                  d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8"
+                  d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z"
                 />
               </svg>
             </button>
           )}
 
-          {onDelete && (
+          {onSubmit &&
+            (certification.status === CertificationStatus.DRAFT ||
+              needsResubmission) && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onSubmit();
+                }}
+                className="p-2 text-gray-400 dark:text-gray-500 hover:text-green-600 dark:hover:text-green-400 hover:bg-green-50 dark:hover:bg-green-900/30 rounded-lg transition-colors"
+                title={
+                  needsResubmission
+                    ? "Resubmit for Approval"
+                    : "Submit for Approval"
+                }
+              >
+                <svg
+                  className="w-4 h-4"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8"
+                  />
+                </svg>
+              </button>
+            )}
+
+          {onDelete && editability.allowed && (
             <button
               onClick={(e) => {
                 e.stopPropagation();
@@ -236,6 +278,30 @@ export function CertificationCard({
             <p className="text-sm text-red-700 dark:text-red-400">
               {certification.rejectionReason}
             </p>
+            {onSubmit && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onSubmit();
+                }}
+                className="mt-3 px-3 py-1 text-sm bg-red-600 text-white rounded-md hover:bg-red-700"
+              >
+                Resubmit
+              </button>
+            )}
+          </div>
+        )}
+
+      {/* Revision Request */}
+      {certification.status === CertificationStatus.DRAFT &&
+        certification.revisionReason && (
+          <div className="mt-4 pt-4 border-t border-orange-100 dark:border-orange-800 bg-orange-50 dark:bg-orange-900/20 -mx-6 -mb-6 px-6 pb-6 rounded-b-lg">
+            <p className="text-sm font-medium text-orange-800 dark:text-orange-300 mb-1">
+              Revision Requested:
+            </p>
+            <p className="text-sm text-orange-700 dark:text-orange-400">
+              {certification.revisionReason}
+            </p>
           </div>
         )}
     </div>
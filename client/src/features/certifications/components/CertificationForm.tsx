@@ -7,6 +7,7 @@ import type {
 import { useForm } from "../../../shared/hooks/useForm";
 import PatientSearch from "../../../components/PatientSearch";
 import { certificationService } from "../services/certificationService";
+import { certificationTemplateService } from "../services/certificationTemplateService";
 
 interface CertificationFormProps extends BaseCertificationFormProps {
   patients?: Patient[];
@@ -46,6 +47,7 @@ export const CertificationForm: React.FC<CertificationFormProps> = ({
   const { getCertificationStatusOptions } = useCertificationStatusTranslation();
 
   const [selectedPatient, setSelectedPatient] = useState<Patient | null>(null);
+  const [prefillMessage, setPrefillMessage] = useState<string | null>(null);
 
   // Schedule rows for inline editing
   const [scheduleRows, setScheduleRows] = useState<
@@ -60,6 +62,7 @@ export const CertificationForm: React.FC<CertificationFormProps> = ({
     data: formData,
     errors,
     updateField,
+    updateFields,
     setFormData,
     submit,
   } = useForm<CertificationFormData>(
@@ -172,9 +175,38 @@ export const CertificationForm: React.FC<CertificationFormProps> = ({
   }, [certificationId, mode, schedulesLoaded]);
 
   // Handle patient selection
-  const handlePatientSelect = (patient: Patient) => {
+  const handlePatientSelect = async (patient: Patient) => {
     setSelectedPatient(patient);
     updateField("patientId", patient.id);
+    setPrefillMessage(null);
+
+    // New certifications start from the patient's template or last month
+    if (mode !== "create") return;
+
+    try {
+      const prefill = await certificationTemplateService.getPrefill(patient.id);
+      if (!prefill) return;
+
+      const { schedules, ...fields } = prefill.fields;
+      updateFields({
+        ...fields,
+        ...(prefill.therapyType !== undefined && {
+          therapyType: Number(prefill.therapyType),
+        }),
+      } as Partial<CertificationFormData>);
+      if (schedules && schedules.length > 0) {
+        setScheduleRows(
+          schedules.map((schedule) => ({
+            dayOfWeek: schedule.dayOfWeek,
+            startTime: schedule.startTime.substring(0, 5),
+            location: schedule.location || "Clinic",
+          }))
+        );
+      }
+      setPrefillMessage(prefill.description);
+    } catch (error) {
+      console.error("Failed to load certification prefill:", error);
+    }
   };
 
   // Schedule row management functions
@@ -345,6 +377,11 @@ export const CertificationForm: React.FC<CertificationFormProps> = ({
             {errors.patientId}
           </p>
         )}
+        {prefillMessage && (
+          <p className="mt-1 text-sm text-blue-600 dark:text-blue-400">
+            {prefillMessage}. Review the fields before saving.
+          </p>
+        )}
       </div>
 
       {/* Therapist Name (Read-only) */}
@@ -3,7 +3,8 @@ import { CertificationViewModal } from "./CertificationViewModal";
 import { useApi } from "../../../shared/hooks";
 import type { CertificationDocument } from "../types/certification.types";
 import { certificationService } from "../services/certificationService";
-import { useAuth } from "../../auth";
+import { invalidateCertificationQueries } from "../hooks/certificationQueries";
+import { useAuth, UserRole } from "../../auth";
 
 interface CertificationModalProps {
   isOpen: boolean;
@@ -18,7 +19,7 @@ export const CertificationModal: React.FC<CertificationModalProps> = ({
   certificationId,
   mode = "view",
 }) => {
-  const { user } = useAuth();
+  const { user, hasRole } = useAuth();
   const { loading, error, success, execute, clearMessages } = useApi();
 
   const [certification, setCertification] =
@@ -63,17 +64,27 @@ export const CertificationModal: React.FC<CertificationModalProps> = ({
         const newCertification = await certificationService.createCertification(
           {
             ...updatedData,
-            therapistId: user.id,
+            // Picked in the form by admins and secretaries
+            therapistId: updatedData.therapistId || user.id,
           }
         );
+        invalidateCertificationQueries();
         setCertification(newCertification);
       } else {
         // Update mode
         const updatedCertification =
-          await certificationService.updateCertification(certificationId, {
-            ...updatedData,
-            therapistId: user.id,
-          });
+          await certificationService.updateCertification(
+            certificationId,
+            {
+              ...updatedData,
+              // A secretary's edit must not take the certification over
+              therapistId: hasRole(UserRole.SECRETARY)
+                ? certification?.therapistId
+                : user.id,
+            },
+            certification?.status
+          );
+        invalidateCertificationQueries();
         setCertification(updatedCertification);
       }
     } catch (err) {
@@ -84,7 +95,11 @@ export const CertificationModal: React.FC<CertificationModalProps> = ({
 
   const handleDelete = async (certificationId: string) => {
     try {
-      await certificationService.deleteCertification(certificationId);
+      await certificationService.deleteCertification(
+        certificationId,
+        certification?.status
+      );
+      invalidateCertificationQueries();
       onClose();
     } catch (err) {
       console.error("Failed to delete certification:", err);
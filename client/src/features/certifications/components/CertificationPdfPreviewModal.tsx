@@ -0,0 +1,137 @@
+import React, { useEffect, useState } from "react";
+import { BaseModal } from "../../../shared/components/ui/BaseModal";
+import { sessionService } from "../../sessions/services/sessionService";
+import {
+  getCertificationPdfFilename,
+  renderCertificationPdf,
+} from "../utils/certificationPdf";
+import { useAuth } from "../../auth";
+import type { CertificationDocument } from "../types/certification.types";
+import type { TherapySession } from "../../sessions/types/session.types";
+import { downloadUrl } from "../../../shared/utils/download";
+
+interface CertificationPdfPreviewModalProps {
+  certification: CertificationDocument;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export const CertificationPdfPreviewModal: React.FC<
+  CertificationPdfPreviewModalProps
+> = ({ certification, isOpen, onClose }) => {
+  const { user } = useAuth();
+  const [pdfUrl, setPdfUrl] = useState<string | null>(null);
+  const [isRendering, setIsRendering] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // The specialist signature is only available when the therapist is signed in
+  const specialistSignature =
+    user?.id === certification.therapistId ? user.signatureData : undefined;
+  const specialistName =
+    user?.id === certification.therapistId
+      ? `${user.firstName} ${user.lastName}`
+      : undefined;
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    let url: string | null = null;
+
+    const render = async () => {
+      setIsRendering(true);
+      setError(null);
+      setNotice(null);
+
+      let sessions: TherapySession[];
+      try {
+        sessions = await sessionService.getSessionsByCertification(
+          certification.id
+        );
+      } catch {
+        // Offline or server error: fall back to the sessions already loaded
+        sessions = (certification.sessions || []) as TherapySession[];
+        if (!cancelled) {
+          setNotice(
+            "Could not load the latest sessions; the preview uses the sessions already loaded."
+          );
+        }
+      }
+
+      try {
+        const blob = await renderCertificationPdf(certification, {
+          sessions,
+          specialistName,
+          specialistSignature,
+        });
+        if (cancelled) return;
+        url = window.URL.createObjectURL(blob);
+        setPdfUrl(url);
+      } catch (err) {
+        if (!cancelled) {
+          setError(
+            err instanceof Error ? err.message : "Failed to render the PDF"
+          );
+        }
+      } finally {
+        if (!cancelled) setIsRendering(false);
+      }
+    };
+
+    render();
+    return () => {
+      cancelled = true;
+      if (url) window.URL.revokeObjectURL(url);
+    };
+  }, [isOpen, certification, specialistName, specialistSignature]);
+
+  const handleDownload = () => {
+    if (!pdfUrl) return;
+    downloadUrl(pdfUrl, getCertificationPdfFilename(certification));
+  };
+
+  const footerConfig = {
+    buttons: [
+      {
+        label: "Close",
+        variant: "secondary" as const,
+        onClick: onClose,
+      },
+      {
+        label: "Download PDF",
+        variant: "primary" as const,
+        onClick: handleDownload,
+        disabled: !pdfUrl || isRendering,
+      },
+    ],
+    buttonAlignment: "right" as const,
+  };
+
+  return (
+    <BaseModal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Certification PDF"
+      subtitle="Preview of the monthly certification form"
+      footerConfig={footerConfig}
+      isLoading={isRendering}
+      loadingText="Rendering PDF..."
+      error={error}
+    >
+      {notice && (
+        <div className="mb-4 p-3 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-md text-sm text-yellow-800 dark:text-yellow-200">
+          {notice}
+        </div>
+      )}
+      {pdfUrl && (
+        <iframe
+          src={pdfUrl}
+          title="Certification PDF preview"
+          className="w-full h-[70vh] rounded border border-gray-200 dark:border-gray-700 bg-white"
+        />
+      )}
+    </BaseModal>
+  );
+};
+
+export default CertificationPdfPreviewModal;
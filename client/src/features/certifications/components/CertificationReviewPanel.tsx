@@ -0,0 +1,316 @@
+import React, { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { StatusBadge } from "../../../shared/components/StatusBadge";
+import { AttendanceStatus } from "../../../shared/constants/enums";
+import {
+  useMonthTranslation,
+  useTherapyTypeTranslation,
+} from "../../../shared/hooks/useTranslation";
+import { sessionService } from "../../sessions/services/sessionService";
+import {
+  getAttendanceStatus,
+  isBillableSession,
+} from "../../sessions/utils/attendance";
+import type { TherapySession } from "../../sessions/types/session.types";
+import { resolveMonthNumber } from "../utils/sessionGeneration";
+import type { CertificationApprovalProps } from "../types/certification.types";
+
+type ReviewAction = "approve" | "reject" | "revision";
+
+const ACTION_LABELS: Record<ReviewAction, string> = {
+  approve: "Approve",
+  reject: "Reject",
+  revision: "Request Revision",
+};
+
+export const CertificationReviewPanel: React.FC<CertificationApprovalProps> = ({
+  certification,
+  onApprove,
+  onReject,
+  onRequestRevision,
+  isLoading = false,
+}) => {
+  const { getMonthName } = useMonthTranslation();
+  const { getTherapyTypeName } = useTherapyTypeTranslation();
+  const [sessions, setSessions] = useState<TherapySession[]>([]);
+  const [isLoadingSessions, setIsLoadingSessions] = useState(false);
+  const [sessionsError, setSessionsError] = useState<string | null>(null);
+  const [action, setAction] = useState<ReviewAction | null>(null);
+  const [reason, setReason] = useState("");
+  const [reasonError, setReasonError] = useState<string | null>(null);
+
+  // Reset the review whenever another certification is opened
+  useEffect(() => {
+    setAction(null);
+    setReason("");
+    setReasonError(null);
+
+    const loadSessions = async () => {
+      setIsLoadingSessions(true);
+      setSessionsError(null);
+      try {
+        const data = await sessionService.getSessionsByCertification(
+          certification.id
+        );
+        setSessions(
+          [...data].sort((a, b) =>
+            `${a.sessionDate}${a.sessionTime}`.localeCompare(
+              `${b.sessionDate}${b.sessionTime}`
+            )
+          )
+        );
+      } catch (err) {
+        console.error("Failed to load sessions for review:", err);
+        setSessionsError(
+          err instanceof Error ? err.message : "Failed to load sessions"
+        );
+      } finally {
+        setIsLoadingSessions(false);
+      }
+    };
+
+    loadSessions();
+  }, [certification.id]);
+
+  const missingSignatures = sessions.filter(
+    (session) =>
+      getAttendanceStatus(session) === AttendanceStatus.ATTENDED &&
+      !isBillableSession(session)
+  ).length;
+
+  const handleConfirm = async () => {
+    if (!action) return;
+
+    // Rejections and revision requests go back to the therapist
+    if (action !== "approve" && !reason.trim()) {
+      setReasonError("A reason is required");
+      return;
+    }
+
+    if (action === "approve") {
+      await onApprove(certification.id, reason.trim() || undefined);
+    } else if (action === "reject") {
+      await onReject(certification.id, reason.trim());
+    } else {
+      await onRequestRevision(certification.id, reason.trim());
+    }
+  };
+
+  const selectAction = (next: ReviewAction) => {
+    setAction(next);
+    setReasonError(null);
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700">
+      {/* Header */}
+      <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+          {certification.patientName || "Unknown patient"}
+        </h3>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {getTherapyTypeName(certification.therapyType)} -{" "}
+          {getMonthName(resolveMonthNumber(certification.month) || 0)}{" "}
+          {certification.year}
+          {certification.therapistName && ` - ${certification.therapistName}`}
+        </p>
+        <div className="mt-2 flex flex-wrap gap-4 text-sm text-gray-600 dark:text-gray-400">
+          <span>{sessions.length} sessions</span>
+          <span>{certification.completedSessions} completed</span>
+          {certification.submittedAt && (
+            <span>
+              Submitted{" "}
+              {format(new Date(certification.submittedAt), "MMM dd, yyyy")}
+            </span>
+          )}
+          {missingSignatures > 0 && (
+            <span className="text-amber-600 dark:text-amber-400">
+              {missingSignatures} attended session(s) without a signature
+            </span>
+          )}
+        </div>
+      </div>
+
+      {/* Sessions and signatures side by side */}
+      <div className="px-6 py-4">
+        {isLoadingSessions ? (
+          <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+            Loading sessions...
+          </div>
+        ) : sessionsError ? (
+          <div className="p-4 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 rounded-md text-sm">
+            {sessionsError}
+          </div>
+        ) : sessions.length === 0 ? (
+          <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+            This certification has no sessions.
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-md">
+            <div className="grid grid-cols-2 gap-4 px-4 py-2 text-xs font-medium uppercase text-gray-500 dark:text-gray-400 bg-gray-50 dark:bg-gray-700/50">
+              <span>Session</span>
+              <span>Signature</span>
+            </div>
+            {sessions.map((session) => {
+              const attendance = getAttendanceStatus(session);
+              const attended = attendance === AttendanceStatus.ATTENDED;
+              const signed = isBillableSession(session);
+
+              return (
+                <div
+                  key={session.id}
+                  className={`grid grid-cols-2 gap-4 px-4 py-3 text-sm ${
+                    attended && !signed
+                      ? "bg-amber-50 dark:bg-amber-900/20"
+                      : ""
+                  }`}
+                >
+                  <div>
+                    <p className="text-gray-900 dark:text-gray-100">
+                      {format(
+                        new Date(
+                          `${session.sessionDate.substring(0, 10)}T00:00`
+                        ),
+                        "EEE, MMM dd"
+                      )}{" "}
+                      {session.sessionTime?.substring(0, 5)}
+                      {session.endTime &&
+                        ` - ${session.endTime.substring(0, 5)}`}
+                    </p>
+                    <p className="text-gray-500 dark:text-gray-400">
+                      {session.location || "No location"}
+                      {session.transportationRequired && " - Transport"}
+                    </p>
+                    <div className="mt-1 flex flex-wrap gap-2">
+                      {!attended && (
+                        <StatusBadge
+                          status={attendance}
+                          type="attendance"
+                          size="sm"
+                        />
+                      )}
+                      {session.isReposicion && (
+                        <span className="inline-flex px-2 py-0.5 text-xs font-medium rounded-full bg-indigo-100 text-indigo-800 dark:bg-indigo-900 dark:text-indigo-200">
+                          Makeup
+                        </span>
+                      )}
+                    </div>
+                    {session.attendanceReason && (
+                      <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                        {session.attendanceReason}
+                      </p>
+                    )}
+                  </div>
+                  <div>
+                    {!attended ? (
+                      <span className="text-gray-500 dark:text-gray-400">
+                        No signature needed
+                      </span>
+                    ) : session.signatureImageData ? (
+                      <>
+                        <img
+                          src={session.signatureImageData}
+                          alt="Session signature"
+                          className="max-h-16 object-contain bg-white rounded border border-gray-200 dark:border-gray-600"
+                        />
+                        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                          {session.signatureName || "Unnamed signer"}
+                          {session.signatureDate &&
+                            ` - ${format(
+                              new Date(session.signatureDate),
+                              "MMM dd, yyyy"
+                            )}`}
+                        </p>
+                      </>
+                    ) : (
+                      <span className="text-amber-600 dark:text-amber-400">
+                        Missing signature
+                      </span>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Review Actions */}
+      <div className="px-6 py-4 border-t border-gray-200 dark:border-gray-700 space-y-3">
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(ACTION_LABELS) as ReviewAction[]).map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => selectAction(option)}
+              disabled={isLoading}
+              className={`px-4 py-2 text-sm rounded-md border focus:outline-none focus:ring-2 focus:ring-offset-2 disabled:opacity-50 ${
+                action === option
+                  ? option === "approve"
+                    ? "bg-green-600 border-green-600 text-white focus:ring-green-500"
+                    : option === "reject"
+                    ? "bg-red-600 border-red-600 text-white focus:ring-red-500"
+                    : "bg-orange-500 border-orange-500 text-white focus:ring-orange-500"
+                  : "bg-white dark:bg-gray-800 border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 focus:ring-blue-500"
+              }`}
+            >
+              {ACTION_LABELS[option]}
+            </button>
+          ))}
+        </div>
+
+        {action && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              {action === "approve" ? "Notes (optional)" : "Reason *"}
+            </label>
+            <textarea
+              value={reason}
+              onChange={(e) => {
+                setReason(e.target.value);
+                setReasonError(null);
+              }}
+              rows={3}
+              disabled={isLoading}
+              placeholder={
+                action === "approve"
+                  ? "Add notes for the therapist..."
+                  : action === "reject"
+                  ? "Explain why this certification is rejected..."
+                  : "Describe what needs to change before resubmitting..."
+              }
+              className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white ${
+                reasonError
+                  ? "border-red-300 dark:border-red-600"
+                  : "border-gray-300 dark:border-gray-600"
+              }`}
+            />
+            {reasonError && (
+              <p className="mt-1 text-sm text-red-600 dark:text-red-400">
+                {reasonError}
+              </p>
+            )}
+            <div className="mt-3 flex justify-end gap-2">
+              <button
+                type="button"
+                onClick={() => setAction(null)}
+                disabled={isLoading}
+                className="px-4 py-2 text-sm border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleConfirm}
+                disabled={isLoading}
+                className="px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50"
+              >
+                {isLoading ? "Saving..." : `Confirm ${ACTION_LABELS[action]}`}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,315 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { BaseModal } from "../../../shared/components/ui/BaseModal";
+import {
+  useMonthTranslation,
+  useTherapyTypeTranslation,
+} from "../../../shared/hooks/useTranslation";
+import { certificationService } from "../services/certificationService";
+import { invalidateCertificationQueries } from "../hooks/certificationQueries";
+import {
+  buildCertificationCopyRequest,
+  getNextPeriod,
+} from "../utils/certificationTemplates";
+import type { CertificationRolloverRow } from "../types/certification.types";
+
+interface CertificationRolloverModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onCompleted?: (createdCount: number) => void;
+}
+
+const ROLLOVER_PAGE_SIZE = 500;
+
+export const CertificationRolloverModal: React.FC<
+  CertificationRolloverModalProps
+> = ({ isOpen, onClose, onCompleted }) => {
+  const { getMonthName } = useMonthTranslation();
+  const { getTherapyTypeName } = useTherapyTypeTranslation();
+  const [rows, setRows] = useState<CertificationRolloverRow[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [hasRun, setHasRun] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const sourcePeriod = useMemo(() => {
+    const today = new Date();
+    return { month: today.getMonth() + 1, year: today.getFullYear() };
+  }, []);
+  const targetPeriod = useMemo(
+    () => getNextPeriod(sourcePeriod.month, sourcePeriod.year),
+    [sourcePeriod]
+  );
+
+  // Load this month's caseload and flag patients already rolled over
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const loadRows = async () => {
+      setIsLoading(true);
+      setError(null);
+      setHasRun(false);
+      try {
+        const [current, next] = await Promise.all([
+          certificationService.getCertifications({
+            ...sourcePeriod,
+            pageSize: ROLLOVER_PAGE_SIZE,
+          }),
+          certificationService.getCertifications({
+            ...targetPeriod,
+            pageSize: ROLLOVER_PAGE_SIZE,
+          }),
+        ]);
+
+        const rolledOver = new Set(
+          next.certifications.map(
+            (certification) =>
+              `${certification.patientId}-${certification.therapyType}`
+          )
+        );
+
+        setRows(
+          [...current.certifications]
+            .sort((a, b) =>
+              (a.patientName || "").localeCompare(b.patientName || "")
+            )
+            .map((certification) => {
+              const alreadyRolledOver = rolledOver.has(
+                `${certification.patientId}-${certification.therapyType}`
+              );
+              return {
+                certification,
+                selected: !alreadyRolledOver,
+                alreadyRolledOver,
+              };
+            })
+        );
+      } catch (err) {
+        console.error("Failed to load certifications for roll-over:", err);
+        setError(
+          err instanceof Error ? err.message : "Failed to load certifications"
+        );
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadRows();
+  }, [isOpen, sourcePeriod, targetPeriod]);
+
+  const selectableRows = rows.filter(
+    (row) => !row.alreadyRolledOver && row.result !== "success"
+  );
+  const selectedCount = rows.filter((row) => row.selected).length;
+  const allSelected =
+    selectableRows.length > 0 && selectableRows.every((row) => row.selected);
+  const successCount = rows.filter((row) => row.result === "success").length;
+  const failureCount = rows.filter((row) => row.result === "error").length;
+
+  const toggleRow = (id: string) => {
+    setRows((prev) =>
+      prev.map((row) =>
+        row.certification.id === id ? { ...row, selected: !row.selected } : row
+      )
+    );
+  };
+
+  const toggleAll = () => {
+    setRows((prev) =>
+      prev.map((row) =>
+        row.alreadyRolledOver || row.result === "success"
+          ? row
+          : { ...row, selected: !allSelected }
+      )
+    );
+  };
+
+  const handleRollover = async () => {
+    const toCreate = rows.filter((row) => row.selected);
+    if (toCreate.length === 0) return;
+
+    setIsRunning(true);
+    setError(null);
+    let createdCount = 0;
+
+    // One at a time so each row reports its own outcome
+    for (const row of toCreate) {
+      let result: Pick<CertificationRolloverRow, "result" | "message">;
+      try {
+        const full = row.certification.schedules
+          ? row.certification
+          : await certificationService.getCertificationById(
+              row.certification.id
+            );
+        await certificationService.createCertification(
+          buildCertificationCopyRequest(full, targetPeriod)
+        );
+        invalidateCertificationQueries();
+        createdCount++;
+        result = { result: "success", message: "Created" };
+      } catch (err) {
+        result = {
+          result: "error",
+          message:
+            err instanceof Error
+              ? err.message
+              : "Failed to create certification",
+        };
+      }
+
+      setRows((prev) =>
+        prev.map((current) =>
+          current.certification.id === row.certification.id
+            ? {
+                ...current,
+                ...result,
+                selected: result.result === "error",
+              }
+            : current
+        )
+      );
+    }
+
+    setIsRunning(false);
+    setHasRun(true);
+
+    if (createdCount > 0) {
+      onCompleted?.(createdCount);
+    }
+  };
+
+  const sourceLabel = `${getMonthName(sourcePeriod.month)} ${
+    sourcePeriod.year
+  }`;
+  const targetLabel = `${getMonthName(targetPeriod.month)} ${
+    targetPeriod.year
+  }`;
+
+  const footerConfig = {
+    buttons: [
+      {
+        label: hasRun ? "Close" : "Cancel",
+        variant: "secondary" as const,
+        onClick: onClose,
+        disabled: isRunning,
+      },
+      {
+        label: isRunning
+          ? "Creating..."
+          : hasRun && failureCount > 0
+          ? `Retry ${selectedCount} Failed`
+          : `Create ${selectedCount} Certification${
+              selectedCount === 1 ? "" : "s"
+            }`,
+        variant: "primary" as const,
+        onClick: handleRollover,
+        loading: isRunning,
+        disabled: isRunning || isLoading || selectedCount === 0,
+      },
+    ],
+    buttonAlignment: "right" as const,
+  };
+
+  return (
+    <BaseModal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Roll Over to Next Month"
+      subtitle={`${sourceLabel} to ${targetLabel}`}
+      footerConfig={footerConfig}
+      error={error}
+    >
+      {isLoading ? (
+        <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+          Loading certifications...
+        </div>
+      ) : rows.length === 0 ? (
+        <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+          No certifications found for {sourceLabel}.
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {hasRun ? (
+            <p
+              className={`text-sm ${
+                failureCount > 0
+                  ? "text-red-600 dark:text-red-400"
+                  : "text-green-600 dark:text-green-400"
+              }`}
+            >
+              {successCount} certification(s) created for {targetLabel}
+              {failureCount > 0 && `, ${failureCount} failed`}.
+            </p>
+          ) : (
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Select the patients who continue next month. Each new
+              certification starts as a draft with the same schedules and flags.
+            </p>
+          )}
+          <div className="divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-md">
+            <label className="flex items-center px-4 py-2 text-sm font-medium bg-gray-50 dark:bg-gray-700/50">
+              <input
+                type="checkbox"
+                checked={allSelected}
+                disabled={isRunning || selectableRows.length === 0}
+                onChange={toggleAll}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 dark:border-gray-600 rounded"
+              />
+              <span className="ml-3 text-gray-700 dark:text-gray-300">
+                Select all ({selectableRows.length})
+              </span>
+            </label>
+            {rows.map((row) => (
+              <label
+                key={row.certification.id}
+                className={`flex items-center justify-between px-4 py-2 text-sm ${
+                  row.result === "error"
+                    ? "bg-red-50 dark:bg-red-900/20"
+                    : row.result === "success"
+                    ? "bg-green-50 dark:bg-green-900/20"
+                    : row.alreadyRolledOver
+                    ? "opacity-60"
+                    : ""
+                }`}
+              >
+                <div className="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={row.selected}
+                    disabled={
+                      row.alreadyRolledOver ||
+                      row.result === "success" ||
+                      isRunning
+                    }
+                    onChange={() => toggleRow(row.certification.id)}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 dark:border-gray-600 rounded"
+                  />
+                  <span className="ml-3 w-48 text-gray-900 dark:text-gray-100">
+                    {row.certification.patientName || "Unknown patient"}
+                  </span>
+                  <span className="ml-3 text-gray-500 dark:text-gray-400">
+                    {getTherapyTypeName(row.certification.therapyType)}
+                  </span>
+                </div>
+                <span className="text-xs">
+                  {row.result === "error" ? (
+                    <span className="text-red-600 dark:text-red-400">
+                      {row.message}
+                    </span>
+                  ) : row.result === "success" ? (
+                    <span className="text-green-600 dark:text-green-400">
+                      {row.message}
+                    </span>
+                  ) : row.alreadyRolledOver ? (
+                    <span className="text-gray-500 dark:text-gray-400">
+                      Already has {targetLabel}
+                    </span>
+                  ) : null}
+                </span>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+    </BaseModal>
+  );
+};
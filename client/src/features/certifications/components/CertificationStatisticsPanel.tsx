@@ -0,0 +1,146 @@
+import React from "react";
+import type { CertificationSessionStatistics } from "../types/certification.types";
+
+interface CertificationStatisticsPanelProps {
+  statistics: CertificationSessionStatistics | null;
+  title?: string;
+  isLoading?: boolean;
+  error?: string | null;
+  className?: string;
+}
+
+interface StatisticItem {
+  label: string;
+  value: number;
+  color?: string;
+}
+
+const StatisticGroup: React.FC<{ title: string; items: StatisticItem[] }> = ({
+  title,
+  items,
+}) => (
+  <div>
+    <h5 className="text-xs font-medium uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-2">
+      {title}
+    </h5>
+    <dl className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+      {items.map((item) => (
+        <div
+          key={item.label}
+          className="bg-gray-50 dark:bg-gray-700/50 rounded-md px-3 py-2"
+        >
+          <dt className="text-xs text-gray-600 dark:text-gray-400">
+            {item.label}
+          </dt>
+          <dd
+            className={`text-lg font-semibold ${
+              item.color || "text-gray-900 dark:text-white"
+            }`}
+          >
+            {item.value}
+          </dd>
+        </div>
+      ))}
+    </dl>
+  </div>
+);
+
+export const CertificationStatisticsPanel: React.FC<
+  CertificationStatisticsPanelProps
+> = ({
+  statistics,
+  title = "Session Statistics",
+  isLoading = false,
+  error = null,
+  className = "",
+}) => {
+  return (
+    <div
+      className={`bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-4 space-y-4 ${className}`}
+    >
+      <h4 className="text-sm font-medium text-gray-900 dark:text-gray-100">
+        {title}
+      </h4>
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center text-sm text-gray-500 dark:text-gray-400">
+          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600 mr-2"></div>
+          Loading sessions...
+        </div>
+      ) : statistics ? (
+        <div className="space-y-4">
+          {/* Attendance */}
+          <StatisticGroup
+            title="Attendance"
+            items={[
+              { label: "Scheduled", value: statistics.totalScheduled },
+              {
+                label: "Completed",
+                value: statistics.totalCompleted,
+                color: "text-green-600 dark:text-green-400",
+              },
+              {
+                label: "Excused",
+                value: statistics.totalExcused,
+                color: "text-blue-600 dark:text-blue-400",
+              },
+              {
+                label: "Unexcused",
+                value: statistics.totalUnexcusedAbsences,
+                color: "text-red-600 dark:text-red-400",
+              },
+              {
+                label: "Cancelled",
+                value: statistics.totalCancelled,
+                color: "text-orange-600 dark:text-orange-400",
+              },
+              {
+                label: "Makeups",
+                value: statistics.reposicionSessions,
+                color: "text-indigo-600 dark:text-indigo-400",
+              },
+            ]}
+          />
+
+          {/* Duration */}
+          <StatisticGroup
+            title="Completed by Duration"
+            items={[
+              { label: "30 min", value: statistics.sessionsBy30Min },
+              { label: "45 min", value: statistics.sessionsBy45Min },
+              { label: "60 min", value: statistics.sessionsBy60Min },
+            ]}
+          />
+
+          {/* Transportation */}
+          <StatisticGroup
+            title="Completed by Transportation"
+            items={[
+              {
+                label: "With Transport",
+                value: statistics.sessionsWithTransport,
+              },
+              {
+                label: "Without Transport",
+                value: statistics.sessionsWithoutTransport,
+              },
+              {
+                label: "Overridden",
+                value: statistics.transportOverrides,
+                color: "text-amber-600 dark:text-amber-400",
+              },
+            ]}
+          />
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          No sessions recorded yet.
+        </p>
+      )}
+    </div>
+  );
+};
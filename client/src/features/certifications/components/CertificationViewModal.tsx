@@ -1,15 +1,36 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import { useNavigate } from "react-router-dom";
 import { BaseModal } from "../../../shared/components/ui/BaseModal";
 import { useResponsive } from "../../../hooks/useResponsive";
 import { certificationService } from "../services/certificationService";
+import { invalidateCertificationQueries } from "../hooks/certificationQueries";
+import { certificationTemplateService } from "../services/certificationTemplateService";
+import {
+  extractTemplateFields,
+  getNextPeriod,
+} from "../utils/certificationTemplates";
+import { getCertificationMonthRange } from "../utils/sessionGeneration";
 import { ScheduleForm } from "./ScheduleForm";
 import { PatientSelector } from "./PatientSelector";
+import { SessionGenerationModal } from "./SessionGenerationModal";
+import { CertificationPdfPreviewModal } from "./CertificationPdfPreviewModal";
+import { CertificationStatisticsPanel } from "./CertificationStatisticsPanel";
+import { useCertificationStatistics } from "../hooks/useCertificationStatistics";
+import AuditTimeline from "../../../shared/components/ui/AuditTimeline";
+import { useAuditHistory } from "../../../shared/hooks/useAuditHistory";
 import type {
   CertificationDocument,
+  Schedule,
   ScheduleRequest,
-  CertificationStatus,
 } from "../types/certification.types";
+import { CertificationStatus } from "../types/certification.types";
+import { useAuth, usePermissions, UserRole } from "../../auth";
+import { TherapistPicker, useTherapistOptions } from "../../users";
+import { useTherapistAvailability } from "../../sessions/hooks/useTherapistAvailability";
+import { useTherapistSessionsInRange } from "../../sessions/hooks/useTherapistSessionsInRange";
+
+const loadCertificationHistory = (id: string) =>
+  certificationService.getCertificationHistory(id);
 
 interface CertificationViewModalProps {
   certification: CertificationDocument | null;
@@ -35,6 +56,8 @@ export const CertificationViewModal: React.FC<CertificationViewModalProps> = ({
 }) => {
   const { isMobile } = useResponsive();
   const navigate = useNavigate();
+  const { getCertificationEditability, canSelectTherapist } = usePermissions();
+  const { therapists } = useTherapistOptions();
   const [isEditing, setIsEditing] = useState(
     mode === "edit" || mode === "create"
   );
@@ -47,6 +70,41 @@ export const CertificationViewModal: React.FC<CertificationViewModalProps> = ({
     Record<string, string>
   >({});
   const [successMessage, setSuccessMessage] = useState<string>("");
+  const [isGenerateModalOpen, setIsGenerateModalOpen] = useState(false);
+  const [isPdfPreviewOpen, setIsPdfPreviewOpen] = useState(false);
+  const [prefilledSchedules, setPrefilledSchedules] = useState<
+    Schedule[] | null
+  >(null);
+  // Bumped to remount ScheduleForm when schedules are prefilled
+  const [scheduleFormKey, setScheduleFormKey] = useState(0);
+  const { user, hasRole } = useAuth();
+  // Secretaries file certifications on behalf of an assigned therapist
+  const isSecretary = hasRole(UserRole.SECRETARY);
+
+  // Schedule slots are checked against the therapist's hours and other patients
+  const scheduleTherapistId = isEditing
+    ? certification?.therapistId ||
+      editedCertification.therapistId ||
+      (isSecretary ? null : user?.id)
+    : null;
+  const scheduleMonthRange = getCertificationMonthRange({
+    month: editedCertification.month ?? certification?.month ?? 0,
+    year: editedCertification.year ?? certification?.year ?? 0,
+  });
+  const { availability: therapistAvailability } =
+    useTherapistAvailability(scheduleTherapistId);
+  const { sessions: therapistMonthSessions } = useTherapistSessionsInRange(
+    scheduleTherapistId,
+    scheduleMonthRange?.startDate ?? null,
+    scheduleMonthRange?.endDate ?? null
+  );
+  const otherPatientSessions = useMemo(
+    () =>
+      therapistMonthSessions.filter(
+        (session) => session.certificationDocumentId !== certification?.id
+      ),
+    [therapistMonthSessions, certification?.id]
+  );
 
   // Helper function to convert month name to number for form
   const getMonthNumberFromName = (monthName: string) => {
@@ -73,6 +131,34 @@ export const CertificationViewModal: React.FC<CertificationViewModalProps> = ({
   // Check if this is a new certification (creation mode)
   const isCreating = mode === "create";
 
+  // Session breakdown for the billing office (view mode only)
+  const statisticsCertifications = useMemo(
+    () => (certification ? [certification] : []),
+    [certification]
+  );
+  const {
+    statistics: certificationStatistics,
+    isLoading: isLoadingStatistics,
+    error: statisticsError,
+    reload: reloadStatistics,
+  } = useCertificationStatistics(
+    statisticsCertifications,
+    isOpen && !isEditing && !isCreating
+  );
+
+  // Change history tab (view mode only)
+  const [activeTab, setActiveTab] = useState<"details" | "history">("details");
+  const showHistory = !isEditing && !isCreating && activeTab === "history";
+  const history = useAuditHistory(
+    loadCertificationHistory,
+    certification?.id,
+    isOpen && showHistory
+  );
+
+  useEffect(() => {
+    setActiveTab("details");
+  }, [certification?.id]);
+
   // Initialize edited certification when certification changes
   useEffect(() => {
     if (isCreating) {
@@ -96,6 +182,7 @@ export const CertificationViewModal: React.FC<CertificationViewModalProps> = ({
         notes: "",
       });
       setEditedSchedules([]);
+      setPrefilledSchedules(null);
     } else if (certification) {
       // For edit/view mode, use existing certification data
       setEditedCertification({
@@ -134,6 +221,22 @@ export const CertificationViewModal: React.FC<CertificationViewModalProps> = ({
 
   if (!isOpen || (!certification && !isCreating)) return null;
 
+  // Rejected certifications and returned drafts need another approval round
+  const needsResubmission =
+    (certification?.status === CertificationStatus.REJECTED &&
+      !!certification.rejectionReason) ||
+    (certification?.status === CertificationStatus.DRAFT &&
+      !!certification.revisionReason);
+
+  const editability = certification
+    ? getCertificationEditability(certification.status)
+    : { allowed: true };
+
+  // Locked certifications only open read-only, even when opened for editing
+  if (isEditing && !isCreating && !editability.allowed) {
+    setIsEditing(false);
+  }
+
   // Check if there are pending sessions (sessions that haven't been completed)
   const hasPendingSessions = () => {
     if (!certification?.sessions) return false;
@@ -218,6 +321,7 @@ export const CertificationViewModal: React.FC<CertificationViewModalProps> = ({
   };
 
   const handleEdit = () => {
+    if (!editability.allowed) return;
     setIsEditing(true);
     setValidationErrors({});
     setSuccessMessage("");
@@ -249,6 +353,7 @@ export const CertificationViewModal: React.FC<CertificationViewModalProps> = ({
         notes: "",
       });
       setEditedSchedules([]);
+      setPrefilledSchedules(null);
     } else if (certification) {
       // For edit mode, reset to original values
       setEditedCertification({
@@ -289,6 +394,9 @@ export const CertificationViewModal: React.FC<CertificationViewModalProps> = ({
     const errors: Record<string, string> = {};
 
     // Required fields validation
+    if (isCreating && isSecretary && !editedCertification.therapistId) {
+      errors.therapistId = "Therapist is required";
+    }
     if (!editedCertification.patientId) {
       errors.patientId = "Patient is required";
     }
@@ -461,19 +569,74 @@ export const CertificationViewModal: React.FC<CertificationViewModalProps> = ({
     }
   };
 
-  const handleDownloadPDF = async () => {
-    if (!certification?.id) return;
+  const handleCloneToNextMonth = async () => {
+    if (!certification) return;
 
+    const period = getNextPeriod(certification.month, certification.year);
     try {
-      await certificationService.downloadCertificationPDF(certification.id);
+      await certificationService.cloneCertification(certification, period);
+      setSuccessMessage(
+        `Draft created for ${getMonthName(period.month)} ${period.year}.`
+      );
+      setTimeout(() => {
+        setSuccessMessage("");
+      }, 3000);
     } catch (err) {
-      console.error("Failed to download PDF:", err);
+      console.error("Failed to clone certification:", err);
       setValidationErrors({
-        general: "Failed to download PDF. Please try again.",
+        general:
+          err instanceof Error ? err.message : "Failed to clone certification",
       });
     }
   };
 
+  const handleResubmit = async () => {
+    if (!certification) return;
+
+    try {
+      await certificationService.submitCertification(certification.id);
+      invalidateCertificationQueries();
+      setSuccessMessage("Certification resubmitted for approval.");
+    } catch (err) {
+      console.error("Failed to resubmit certification:", err);
+      setValidationErrors({
+        general:
+          err instanceof Error
+            ? err.message
+            : "Failed to resubmit certification",
+      });
+    }
+  };
+
+  const handleSaveTemplate = async () => {
+    if (!certification) return;
+
+    try {
+      await certificationTemplateService.saveTemplate(
+        certification.patientId,
+        certification.therapyType,
+        extractTemplateFields(certification)
+      );
+      setSuccessMessage("Saved as this patient's certification template.");
+      setTimeout(() => {
+        setSuccessMessage("");
+      }, 3000);
+    } catch (err) {
+      console.error("Failed to save template:", err);
+      setValidationErrors({
+        general: "Failed to save template. Please try again.",
+      });
+    }
+  };
+
+  const handleSessionsGenerated = (createdCount: number) => {
+    setSuccessMessage(`${createdCount} session(s) generated successfully!`);
+    reloadStatistics();
+    setTimeout(() => {
+      setSuccessMessage("");
+    }, 3000);
+  };
+
   const handleFieldChange = (
     field: string,
     value: string | number | boolean | null
@@ -484,6 +647,41 @@ export const CertificationViewModal: React.FC<CertificationViewModalProps> = ({
     }));
   };
 
+  // Prefill a new certification from the patient's template or last month
+  const handlePatientChange = async (patientId: string) => {
+    handleFieldChange("patientId", patientId);
+    if (!isCreating || !patientId) return;
+
+    try {
+      const prefill = await certificationTemplateService.getPrefill(
+        patientId,
+        editedCertification.therapyType || undefined
+      );
+      if (!prefill) return;
+
+      const { schedules = [], ...fields } = prefill.fields;
+      const definedFields = Object.fromEntries(
+        Object.entries(fields).filter(([, value]) => value !== undefined)
+      );
+
+      setEditedCertification((prev) => ({ ...prev, ...definedFields }));
+      setEditedSchedules(schedules);
+      setPrefilledSchedules(
+        schedules.map((schedule) => ({
+          ...schedule,
+          certificationDocumentId: "",
+          isActive: true,
+        }))
+      );
+      setScheduleFormKey((prev) => prev + 1);
+      setSuccessMessage(
+        `${prefill.description}. Review the fields before creating.`
+      );
+    } catch (err) {
+      console.error("Failed to load certification prefill:", err);
+    }
+  };
+
   // Helper function to render form fields
   const renderField = (
     _label: string,
@@ -696,20 +894,54 @@ export const CertificationViewModal: React.FC<CertificationViewModalProps> = ({
           },
         ]
       : [
-          {
-            label: "Edit",
-            variant: "primary" as const,
-            onClick: handleEdit,
-          },
+          ...(editability.allowed
+            ? [
+                {
+                  label: "Edit",
+                  variant: "primary" as const,
+                  onClick: handleEdit,
+                },
+              ]
+            : []),
+          ...(needsResubmission
+            ? [
+                {
+                  label: "Resubmit",
+                  variant: "primary" as const,
+                  onClick: handleResubmit,
+                },
+              ]
+            : []),
           {
             label: "View Sessions",
             variant: "secondary" as const,
             onClick: handleViewSessions,
           },
+          ...(editability.allowed &&
+          certification?.schedules &&
+          certification.schedules.length > 0
+            ? [
+                {
+                  label: "Generate Sessions",
+                  variant: "secondary" as const,
+                  onClick: () => setIsGenerateModalOpen(true),
+                },
+              ]
+            : []),
           {
-            label: "Download PDF",
+            label: "Clone to Next Month",
             variant: "secondary" as const,
-            onClick: handleDownloadPDF,
+            onClick: handleCloneToNextMonth,
+          },
+          {
+            label: "Save as Template",
+            variant: "secondary" as const,
+            onClick: handleSaveTemplate,
+          },
+          {
+            label: "Preview PDF",
+            variant: "secondary" as const,
+            onClick: () => setIsPdfPreviewOpen(true),
           },
           {
             label: "Close",
@@ -721,370 +953,502 @@ export const CertificationViewModal: React.FC<CertificationViewModalProps> = ({
   };
 
   return (
-    <BaseModal
-      isOpen={isOpen}
-      onClose={onClose}
-      title={isCreating ? "Create Certification" : "Certification Details"}
-      subtitle={
-        isCreating
-          ? "Create a new certification"
-          : `${certification?.therapyType} - ${getMonthName(
-              certification?.month || ""
-            )} ${certification?.year}`
-      }
-      footerConfig={footerConfig}
-      contentClassName=""
-    >
-      <div className={`${isMobile ? "p-4" : "p-6"}`}>
-        {/* Top Section - Read-only Header Info */}
-        <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4 mb-6">
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-            {/* Certification Period */}
-            <div>
-              <span className="text-xs text-gray-500 dark:text-gray-400 block">
-                Certification Period
-              </span>
-              <p className="text-sm text-gray-900 dark:text-gray-100 font-medium">
-                {isCreating
-                  ? "Select month and year"
-                  : `${getMonthName(certification?.month || "")} ${
-                      certification?.year
-                    }`}
-              </p>
-            </div>
-
-            {/* Status */}
-            <div>
-              <span className="text-xs text-gray-500 dark:text-gray-400 block">
-                Status
-              </span>
-              <div className="mt-1">
-                <span
-                  className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getStatusColor(
-                    certification?.status || "draft"
-                  )}`}
-                >
-                  {certification?.status || "draft"}
+    <>
+      <BaseModal
+        isOpen={isOpen}
+        onClose={onClose}
+        title={isCreating ? "Create Certification" : "Certification Details"}
+        subtitle={
+          isCreating
+            ? "Create a new certification"
+            : `${certification?.therapyType} - ${getMonthName(
+                certification?.month || ""
+              )} ${certification?.year}`
+        }
+        footerConfig={footerConfig}
+        contentClassName=""
+      >
+        <div className={`${isMobile ? "p-4" : "p-6"}`}>
+          {/* Top Section - Read-only Header Info */}
+          <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4 mb-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {/* Certification Period */}
+              <div>
+                <span className="text-xs text-gray-500 dark:text-gray-400 block">
+                  Certification Period
                 </span>
-              </div>
-            </div>
-
-            {/* Patient Info */}
-            <div>
-              <span className="text-xs text-gray-500 dark:text-gray-400 block">
-                Patient
-              </span>
-              <p className="text-sm text-gray-900 dark:text-gray-100 font-medium">
-                {isCreating
-                  ? "Select a patient"
-                  : certification?.patient?.fullName ||
-                    certification?.patientName ||
-                    "Unknown Patient"}
-              </p>
-            </div>
-          </div>
-        </div>
-
-        {/* Success Message */}
-        {successMessage && (
-          <div className="mb-4 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-md p-4">
-            <div className="flex">
-              <div className="flex-shrink-0">
-                <svg
-                  className="h-5 w-5 text-green-400"
-                  fill="none"
-                  stroke="currentColor"
-                  viewBox="0 0 24 24"
-                >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M5 13l4 4L19 7"
-                  />
-                </svg>
-              </div>
-              <div className="ml-3">
-                <p className="text-sm text-green-800 dark:text-green-200">
-                  {successMessage}
+                <p className="text-sm text-gray-900 dark:text-gray-100 font-medium">
+                  {isCreating
+                    ? "Select month and year"
+                    : `${getMonthName(certification?.month || "")} ${
+                        certification?.year
+                      }`}
                 </p>
               </div>
-            </div>
-          </div>
-        )}
-
-        {/* General Error Message */}
-        {validationErrors.general && (
-          <div className="mb-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-md p-4">
-            <div className="flex">
-              <div className="flex-shrink-0">
-                <svg
-                  className="h-5 w-5 text-red-400"
-                  fill="none"
-                  stroke="currentColor"
-                  viewBox="0 0 24 24"
-                >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"
-                  />
-                </svg>
+
+              {/* Status */}
+              <div>
+                <span className="text-xs text-gray-500 dark:text-gray-400 block">
+                  Status
+                </span>
+                <div className="mt-1">
+                  <span
+                    className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getStatusColor(
+                      certification?.status || "draft"
+                    )}`}
+                  >
+                    {certification?.status || "draft"}
+                  </span>
+                </div>
               </div>
-              <div className="ml-3">
-                <p className="text-sm text-red-800 dark:text-red-200">
-                  {validationErrors.general}
+
+              {/* Patient Info */}
+              <div>
+                <span className="text-xs text-gray-500 dark:text-gray-400 block">
+                  Patient
+                </span>
+                <p className="text-sm text-gray-900 dark:text-gray-100 font-medium">
+                  {isCreating
+                    ? "Select a patient"
+                    : certification?.patient?.fullName ||
+                      certification?.patientName ||
+                      "Unknown Patient"}
                 </p>
               </div>
             </div>
           </div>
-        )}
-
-        {/* Main Form Section - Editable Fields */}
-        <div className="space-y-4">
-          <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">
-            {isCreating
-              ? "Certification Details"
-              : isEditing
-              ? "Edit Certification Details"
-              : "Certification Information"}
-          </h3>
-
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            {/* Therapy Type */}
-            <div>
-              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                Therapy Type *
-              </label>
-              {renderField(
-                "Therapy Type",
-                "therapyType",
-                "select",
-                "Select therapy type",
-                [
-                  {
-                    value: "Speech Language Therapy",
-                    label: "Speech Language Therapy",
-                  },
-                  {
-                    value: "Occupational Therapy",
-                    label: "Occupational Therapy",
-                  },
-                  { value: "Physical Therapy", label: "Physical Therapy" },
-                  { value: "Behavioral Therapy", label: "Behavioral Therapy" },
-                ]
-              )}
-            </div>
 
-            {/* Patient Selection - Only show in create mode or edit mode with no pending sessions */}
-            {(isCreating || (isEditing && !hasPendingSessions())) && (
-              <div>
-                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                  Patient *
-                </label>
-                <PatientSelector
-                  selectedPatientId={
-                    editedCertification.patientId ||
-                    (certification?.patientId ?? "")
-                  }
-                  onPatientChange={(patientId) =>
-                    handleFieldChange("patientId", patientId)
-                  }
-                  disabled={isEditing && hasPendingSessions()}
-                  placeholder="Select a patient..."
-                  error={validationErrors.patientId}
-                />
-                {isEditing && hasPendingSessions() && (
-                  <p className="mt-1 text-sm text-amber-600">
-                    Cannot change patient - there are pending sessions for this
-                    certification.
+          {/* Success Message */}
+          {successMessage && (
+            <div className="mb-4 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-md p-4">
+              <div className="flex">
+                <div className="flex-shrink-0">
+                  <svg
+                    className="h-5 w-5 text-green-400"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M5 13l4 4L19 7"
+                    />
+                  </svg>
+                </div>
+                <div className="ml-3">
+                  <p className="text-sm text-green-800 dark:text-green-200">
+                    {successMessage}
                   </p>
-                )}
+                </div>
               </div>
-            )}
-
-            {/* Duration */}
-            <div>
-              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                Duration (minutes) *
-              </label>
-              {renderField(
-                "Duration",
-                "duration",
-                "select",
-                "Select duration",
-                [
-                  { value: "15", label: "15 minutes" },
-                  { value: "30", label: "30 minutes" },
-                  { value: "45", label: "45 minutes" },
-                  { value: "60", label: "60 minutes" },
-                ]
-              )}
             </div>
+          )}
 
-            {/* Frequency */}
-            <div>
-              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                Frequency (per week) *
-              </label>
-              {renderField(
-                "Frequency",
-                "frequencyPerWeek",
-                "number",
-                "Enter frequency per week"
-              )}
-            </div>
-
-            {/* Month */}
-            <div>
-              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                Month *
-              </label>
-              {renderField("Month", "month", "select", "Select month", [
-                { value: "1", label: "January" },
-                { value: "2", label: "February" },
-                { value: "3", label: "March" },
-                { value: "4", label: "April" },
-                { value: "5", label: "May" },
-                { value: "6", label: "June" },
-                { value: "7", label: "July" },
-                { value: "8", label: "August" },
-                { value: "9", label: "September" },
-                { value: "10", label: "October" },
-                { value: "11", label: "November" },
-                { value: "12", label: "December" },
-              ])}
-            </div>
-
-            {/* Year */}
-            <div>
-              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                Year *
-              </label>
-              {renderField("Year", "year", "number", "Enter year")}
+          {/* Edit Lock - Only show in view mode */}
+          {!isEditing && !isCreating && !editability.allowed && (
+            <div className="mb-4 bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-md p-4">
+              <p className="text-sm text-gray-700 dark:text-gray-300">
+                {editability.reason}
+              </p>
             </div>
-
-            {/* File Number */}
-            <div>
-              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                File Number
-              </label>
-              {renderField(
-                "File Number",
-                "fileNumber",
-                "text",
-                "Enter file number"
-              )}
+          )}
+
+          {/* Review Feedback - Only show in view mode */}
+          {!isEditing && !isCreating && needsResubmission && (
+            <div
+              className={`mb-4 rounded-md p-4 border ${
+                certification?.status === CertificationStatus.REJECTED
+                  ? "bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800"
+                  : "bg-orange-50 dark:bg-orange-900/20 border-orange-200 dark:border-orange-800"
+              }`}
+            >
+              <p className="text-sm font-medium text-gray-900 dark:text-gray-100">
+                {certification?.status === CertificationStatus.REJECTED
+                  ? "Rejected"
+                  : "Revision Requested"}
+              </p>
+              <p className="mt-1 text-sm text-gray-700 dark:text-gray-300">
+                {certification?.status === CertificationStatus.REJECTED
+                  ? certification?.rejectionReason
+                  : certification?.revisionReason}
+              </p>
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                Make the requested changes, then resubmit for approval.
+              </p>
             </div>
-
-            {/* Registration Number */}
-            <div>
-              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                Registration Number
-              </label>
-              {renderField(
-                "Registration Number",
-                "registrationNumber",
-                "text",
-                "Enter registration number"
-              )}
+          )}
+
+          {/* General Error Message */}
+          {validationErrors.general && (
+            <div className="mb-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-md p-4">
+              <div className="flex">
+                <div className="flex-shrink-0">
+                  <svg
+                    className="h-5 w-5 text-red-400"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"
+                    />
+                  </svg>
+                </div>
+                <div className="ml-3">
+                  <p className="text-sm text-red-800 dark:text-red-200">
+                    {validationErrors.general}
+                  </p>
+                </div>
+              </div>
             </div>
-
-            {/* Location */}
-            <div>
-              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                Location
-              </label>
-              {renderField(
-                "Location",
-                "location",
-                "select",
-                "Select location",
-                [
-                  { value: "Clinic", label: "Clinic" },
-                  { value: "Home", label: "Home" },
-                  { value: "School", label: "School" },
-                  { value: "Virtual", label: "Virtual" },
-                ]
-              )}
+          )}
+
+          {/* Tabs - Only show in view mode */}
+          {!isEditing && !isCreating && (
+            <div className="flex border-b border-gray-200 dark:border-gray-700 mb-4">
+              {(["details", "history"] as const).map((tab) => (
+                <button
+                  key={tab}
+                  type="button"
+                  onClick={() => setActiveTab(tab)}
+                  className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px ${
+                    activeTab === tab
+                      ? "border-blue-600 text-blue-600 dark:text-blue-400"
+                      : "border-transparent text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300"
+                  }`}
+                >
+                  {tab === "details" ? "Details" : "History"}
+                </button>
+              ))}
             </div>
-          </div>
+          )}
 
-          {/* Certification Flags */}
-          <div className="space-y-3">
-            <h4 className="text-md font-medium text-gray-900 dark:text-gray-100">
-              Certification Flags
-            </h4>
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                  Private
-                </label>
-                {renderField("Private", "isPrivate", "checkbox")}
-              </div>
-              <div>
-                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                  Has Private Plan
-                </label>
-                {renderField("Has Private Plan", "hasPrivatePlan", "checkbox")}
-              </div>
-              <div>
-                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                  Provisional Remedy
-                </label>
-                {renderField(
-                  "Provisional Remedy",
-                  "isProvisionalRemedy",
-                  "checkbox"
-                )}
+          {showHistory ? (
+            <AuditTimeline
+              entries={history.entries}
+              isLoading={history.isLoading}
+              error={history.error}
+            />
+          ) : (
+            <>
+              {/* Main Form Section - Editable Fields */}
+              <div className="space-y-4">
+                <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">
+                  {isCreating
+                    ? "Certification Details"
+                    : isEditing
+                    ? "Edit Certification Details"
+                    : "Certification Information"}
+                </h3>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {/* Therapy Type */}
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                      Therapy Type *
+                    </label>
+                    {renderField(
+                      "Therapy Type",
+                      "therapyType",
+                      "select",
+                      "Select therapy type",
+                      [
+                        {
+                          value: "Speech Language Therapy",
+                          label: "Speech Language Therapy",
+                        },
+                        {
+                          value: "Occupational Therapy",
+                          label: "Occupational Therapy",
+                        },
+                        {
+                          value: "Physical Therapy",
+                          label: "Physical Therapy",
+                        },
+                        {
+                          value: "Behavioral Therapy",
+                          label: "Behavioral Therapy",
+                        },
+                      ]
+                    )}
+                  </div>
+
+                  {/* Therapist Selection - admins and secretaries, create mode only */}
+                  {isCreating && canSelectTherapist() && (
+                    <div>
+                      <TherapistPicker
+                        id="certification-therapist"
+                        label={isSecretary ? "Therapist *" : "Therapist"}
+                        emptyLabel={
+                          isSecretary ? "Select a therapist..." : "Myself"
+                        }
+                        therapists={therapists}
+                        value={editedCertification.therapistId || ""}
+                        onChange={(therapistId) =>
+                          handleFieldChange("therapistId", therapistId)
+                        }
+                      />
+                      {validationErrors.therapistId && (
+                        <p className="mt-1 text-sm text-red-600">
+                          {validationErrors.therapistId}
+                        </p>
+                      )}
+                    </div>
+                  )}
+
+                  {/* Patient Selection - Only show in create mode or edit mode with no pending sessions */}
+                  {(isCreating || (isEditing && !hasPendingSessions())) && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                        Patient *
+                      </label>
+                      <PatientSelector
+                        selectedPatientId={
+                          editedCertification.patientId ||
+                          (certification?.patientId ?? "")
+                        }
+                        onPatientChange={handlePatientChange}
+                        disabled={isEditing && hasPendingSessions()}
+                        placeholder="Select a patient..."
+                        error={validationErrors.patientId}
+                      />
+                      {isEditing && hasPendingSessions() && (
+                        <p className="mt-1 text-sm text-amber-600">
+                          Cannot change patient - there are pending sessions for
+                          this certification.
+                        </p>
+                      )}
+                    </div>
+                  )}
+
+                  {/* Duration */}
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                      Duration (minutes) *
+                    </label>
+                    {renderField(
+                      "Duration",
+                      "duration",
+                      "select",
+                      "Select duration",
+                      [
+                        { value: "15", label: "15 minutes" },
+                        { value: "30", label: "30 minutes" },
+                        { value: "45", label: "45 minutes" },
+                        { value: "60", label: "60 minutes" },
+                      ]
+                    )}
+                  </div>
+
+                  {/* Frequency */}
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                      Frequency (per week) *
+                    </label>
+                    {renderField(
+                      "Frequency",
+                      "frequencyPerWeek",
+                      "number",
+                      "Enter frequency per week"
+                    )}
+                  </div>
+
+                  {/* Month */}
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                      Month *
+                    </label>
+                    {renderField("Month", "month", "select", "Select month", [
+                      { value: "1", label: "January" },
+                      { value: "2", label: "February" },
+                      { value: "3", label: "March" },
+                      { value: "4", label: "April" },
+                      { value: "5", label: "May" },
+                      { value: "6", label: "June" },
+                      { value: "7", label: "July" },
+                      { value: "8", label: "August" },
+                      { value: "9", label: "September" },
+                      { value: "10", label: "October" },
+                      { value: "11", label: "November" },
+                      { value: "12", label: "December" },
+                    ])}
+                  </div>
+
+                  {/* Year */}
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                      Year *
+                    </label>
+                    {renderField("Year", "year", "number", "Enter year")}
+                  </div>
+
+                  {/* File Number */}
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                      File Number
+                    </label>
+                    {renderField(
+                      "File Number",
+                      "fileNumber",
+                      "text",
+                      "Enter file number"
+                    )}
+                  </div>
+
+                  {/* Registration Number */}
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                      Registration Number
+                    </label>
+                    {renderField(
+                      "Registration Number",
+                      "registrationNumber",
+                      "text",
+                      "Enter registration number"
+                    )}
+                  </div>
+
+                  {/* Location */}
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                      Location
+                    </label>
+                    {renderField(
+                      "Location",
+                      "location",
+                      "select",
+                      "Select location",
+                      [
+                        { value: "Clinic", label: "Clinic" },
+                        { value: "Home", label: "Home" },
+                        { value: "School", label: "School" },
+                        { value: "Virtual", label: "Virtual" },
+                      ]
+                    )}
+                  </div>
+                </div>
+
+                {/* Certification Flags */}
+                <div className="space-y-3">
+                  <h4 className="text-md font-medium text-gray-900 dark:text-gray-100">
+                    Certification Flags
+                  </h4>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                        Private
+                      </label>
+                      {renderField("Private", "isPrivate", "checkbox")}
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                        Has Private Plan
+                      </label>
+                      {renderField(
+                        "Has Private Plan",
+                        "hasPrivatePlan",
+                        "checkbox"
+                      )}
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                        Provisional Remedy
+                      </label>
+                      {renderField(
+                        "Provisional Remedy",
+                        "isProvisionalRemedy",
+                        "checkbox"
+                      )}
+                    </div>
+                  </div>
+                </div>
+
+                {/* Notes */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Notes
+                  </label>
+                  {renderField(
+                    "Notes",
+                    "notes",
+                    "textarea",
+                    "Enter certification notes..."
+                  )}
+                </div>
+
+                {/* Schedules Section */}
+                <div>
+                  <ScheduleForm
+                    key={scheduleFormKey}
+                    schedules={
+                      prefilledSchedules || certification?.schedules || []
+                    }
+                    onSchedulesChange={setEditedSchedules}
+                    isEditing={isEditing || isCreating}
+                    disabled={isSaving}
+                    error={validationErrors.schedules}
+                    availability={therapistAvailability}
+                    existingSessions={otherPatientSessions}
+                    duration={
+                      editedCertification.duration ?? certification?.duration
+                    }
+                  />
+                </div>
               </div>
-            </div>
-          </div>
 
-          {/* Notes */}
-          <div>
-            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-              Notes
-            </label>
-            {renderField(
-              "Notes",
-              "notes",
-              "textarea",
-              "Enter certification notes..."
-            )}
-          </div>
+              {/* Session Statistics - Only show in view mode */}
+              {!isEditing && !isCreating && certification && (
+                <CertificationStatisticsPanel
+                  statistics={certificationStatistics[0] || null}
+                  isLoading={isLoadingStatistics}
+                  error={statisticsError}
+                  className="mt-6"
+                />
+              )}
 
-          {/* Schedules Section */}
-          <div>
-            <ScheduleForm
-              schedules={certification?.schedules || []}
-              onSchedulesChange={setEditedSchedules}
-              isEditing={isEditing || isCreating}
-              disabled={isSaving}
-              error={validationErrors.schedules}
-            />
-          </div>
+              {/* Metadata - Only show in view mode */}
+              {!isEditing && !isCreating && certification && (
+                <div className="border-t border-gray-200 dark:border-gray-700 pt-4 mt-6">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm text-gray-500 dark:text-gray-400">
+                    <div>
+                      <span className="font-medium">Created:</span>{" "}
+                      {formatDate(certification.createdAt)}
+                    </div>
+                    <div>
+                      <span className="font-medium">Last Modified:</span>{" "}
+                      {certification.lastModifiedAt
+                        ? formatDate(certification.lastModifiedAt)
+                        : "Not available"}
+                    </div>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
         </div>
-
-        {/* Metadata - Only show in view mode */}
-        {!isEditing && !isCreating && certification && (
-          <div className="border-t border-gray-200 dark:border-gray-700 pt-4 mt-6">
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm text-gray-500 dark:text-gray-400">
-              <div>
-                <span className="font-medium">Created:</span>{" "}
-                {formatDate(certification.createdAt)}
-              </div>
-              <div>
-                <span className="font-medium">Last Modified:</span>{" "}
-                {certification.lastModifiedAt
-                  ? formatDate(certification.lastModifiedAt)
-                  : "Not available"}
-              </div>
-            </div>
-          </div>
-        )}
-      </div>
-    </BaseModal>
+      </BaseModal>
+
+      {certification && (
+        <SessionGenerationModal
+          certification={certification}
+          isOpen={isGenerateModalOpen}
+          onClose={() => setIsGenerateModalOpen(false)}
+          onGenerated={handleSessionsGenerated}
+        />
+      )}
+
+      {certification && isPdfPreviewOpen && (
+        <CertificationPdfPreviewModal
+          certification={certification}
+          isOpen
+          onClose={() => setIsPdfPreviewOpen(false)}
+        />
+      )}
+    </>
   );
 };
@@ -1,7 +1,11 @@
 import React, { useState, useEffect } from "react";
 import { certificationService } from "../services/certificationService";
+import { invalidateCertificationQueries } from "../hooks/certificationQueries";
 import { CertificationsListTable } from "./CertificationsListTable";
 import { CertificationModal } from "./CertificationModal";
+import { CertificationStatisticsPanel } from "./CertificationStatisticsPanel";
+import { CertificationRolloverModal } from "./CertificationRolloverModal";
+import { useCertificationStatistics } from "../hooks/useCertificationStatistics";
 import type { CertificationDocument } from "../types/certification.types";
 import type { CertificationStats } from "../types/certification.types";
 
@@ -33,6 +37,15 @@ export const CertificationsDashboard: React.FC<
   const [modalMode, setModalMode] = useState<"view" | "edit" | "create">(
     "view"
   );
+  const [showBreakdown, setShowBreakdown] = useState(false);
+  const [isRolloverOpen, setIsRolloverOpen] = useState(false);
+
+  // Loads every listed certification's sessions, so only once expanded
+  const {
+    totals: breakdownTotals,
+    isLoading: isLoadingBreakdown,
+    error: breakdownError,
+  } = useCertificationStatistics(certifications, showBreakdown);
 
   // Load certifications data - use prop certifications if available, otherwise load from API
   useEffect(() => {
@@ -62,8 +75,8 @@ export const CertificationsDashboard: React.FC<
           id: item.id,
           patientId: "", // Not needed for list display
           patientName: item.patientName,
-          therapistId: "", // Not needed for list display
-          therapistName: "", // Not needed for list display
+          therapistId: item.therapistId || "", // Used by the therapist filter
+          therapistName: item.therapistName || "",
           month: item.month,
           year: item.year,
           therapyType: item.therapyType,
@@ -109,6 +122,7 @@ export const CertificationsDashboard: React.FC<
   const handleDeleteCertification = async (certificationId: string) => {
     try {
       await certificationService.deleteCertification(certificationId);
+      invalidateCertificationQueries();
       // Reload certifications after deletion
       await loadCertificationsData();
     } catch (err) {
@@ -122,6 +136,7 @@ export const CertificationsDashboard: React.FC<
   const handleSubmitCertification = async (certificationId: string) => {
     try {
       await certificationService.submitCertification(certificationId);
+      invalidateCertificationQueries();
       // Reload certifications after submission
       await loadCertificationsData();
     } catch (err) {
@@ -148,11 +163,14 @@ export const CertificationsDashboard: React.FC<
     try {
       if (modalMode === "create") {
         await certificationService.createCertification(certificationData);
+        invalidateCertificationQueries();
       } else if (modalMode === "edit" && selectedCertification) {
         await certificationService.updateCertification(
           selectedCertification.id,
-          certificationData
+          certificationData,
+          selectedCertification.status
         );
+        invalidateCertificationQueries();
       }
 
       // Reload certifications after save
@@ -303,17 +321,42 @@ export const CertificationsDashboard: React.FC<
             </div>
           </div>
 
+          {/* Aggregate Session Breakdown */}
+          {showBreakdown && (
+            <CertificationStatisticsPanel
+              statistics={breakdownTotals}
+              title={`Session Breakdown (${certifications.length} certifications)`}
+              isLoading={isLoadingBreakdown}
+              error={breakdownError}
+              className="mb-4"
+            />
+          )}
+
           {/* Header with Title and Add Button */}
           <div className="flex justify-between items-center">
             <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
               Certification Documents
             </h2>
-            <button
-              onClick={handleCreateCertification}
-              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
-            >
-              Create Certification
-            </button>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setShowBreakdown((prev) => !prev)}
+                className="px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+              >
+                {showBreakdown ? "Hide Breakdown" : "Session Breakdown"}
+              </button>
+              <button
+                onClick={() => setIsRolloverOpen(true)}
+                className="px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+              >
+                Roll Over Month
+              </button>
+              <button
+                onClick={handleCreateCertification}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+              >
+                Create Certification
+              </button>
+            </div>
           </div>
         </div>
       </div>
@@ -355,6 +398,13 @@ export const CertificationsDashboard: React.FC<
         mode={modalMode}
         onSave={handleModalSave}
       />
+
+      {/* Month-end Roll-over Wizard */}
+      <CertificationRolloverModal
+        isOpen={isRolloverOpen}
+        onClose={() => setIsRolloverOpen(false)}
+        onCompleted={() => loadCertificationsData()}
+      />
     </div>
   );
 };
@@ -2,6 +2,7 @@
 import React from "react";
 import type { CertificationsFilterProps } from "../types/certification.types";
 import { CertificationStatus } from "../types/certification.types";
+import { usePermissions } from "../../auth";
 
 export function CertificationsFilter({
   filter,
@@ -11,6 +12,10 @@ export function CertificationsFilter({
   patients = [],
   therapists = [],
 }: CertificationsFilterProps) {
+  const { canSelectTherapist, canAccessTherapist } = usePermissions();
+  const therapistOptions = therapists.filter((therapist) =>
+    canAccessTherapist(therapist.id)
+  );
   const currentYear = new Date().getFullYear();
   const years = Array.from({ length: 5 }, (_, i) => currentYear - i);
   const months = [
@@ -120,29 +125,31 @@ export function CertificationsFilter({
           </select>
         </div>
 
-        {/* Therapist */}
-        <div>
-          <label
-            htmlFor="therapist"
-            className="block text-sm font-medium text-gray-700 mb-1"
-          >
-            Therapist
-          </label>
-          <select
-            id="therapist"
-            value={filter.therapistId || ""}
-            onChange={(e) => handleFilterChange("therapistId", e.target.value)}
-            disabled={isLoading}
-            className="w-full px-3 py-2 border border-gray-300 rounded-lg shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:opacity-50"
-          >
-            <option value="">All Therapists</option>
-            {therapists.map((therapist) => (
-              <option key={therapist.id} value={therapist.id}>
-                {therapist.fullName}
-              </option>
-            ))}
-          </select>
-        </div>
+        {/* Therapist - secretaries only see their assigned therapists */}
+        {canSelectTherapist() && (
+          <div>
+            <label
+              htmlFor="therapist"
+              className="block text-sm font-medium text-gray-700 mb-1"
+            >
+              Therapist
+            </label>
+            <select
+              id="therapist"
+              value={filter.therapistId || ""}
+              onChange={(e) => handleFilterChange("therapistId", e.target.value)}
+              disabled={isLoading}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:opacity-50"
+            >
+              <option value="">All Therapists</option>
+              {therapistOptions.map((therapist) => (
+                <option key={therapist.id} value={therapist.id}>
+                  {therapist.fullName}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
 
         {/* Month */}
         <div>
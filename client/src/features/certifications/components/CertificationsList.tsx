@@ -11,6 +11,7 @@ export function CertificationsList({
   onEditCertification,
   onDeleteCertification,
   onSubmitCertification,
+  onCloneCertification,
   showPatientName = true,
   showTherapistName = false,
   className = "",
@@ -77,6 +78,11 @@ export function CertificationsList({
               ? () => onSubmitCertification(certification.id)
               : undefined
           }
+          onClone={
+            onCloneCertification
+              ? () => onCloneCertification(certification)
+              : undefined
+          }
           onViewSessions={
             onCertificationClick
               ? () => onCertificationClick(certification)
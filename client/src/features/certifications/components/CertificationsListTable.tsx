@@ -5,11 +5,18 @@ import { MobileOptimizedTable } from "../../../components/MobileOptimizedTable";
 import { useResponsive } from "../../../hooks/useResponsive";
 // Import industry-standard StatusBadge component
 import { StatusBadge } from "../../../shared/components/StatusBadge";
+import { ExportModal } from "../../../shared/components/ui/ExportModal";
+import {
+  CERTIFICATION_EXPORT_COLUMNS,
+  exportCertifications,
+} from "../utils/certificationExport";
 import { CertificationStatus } from "../../../shared/constants/enums";
 import {
   useMonthTranslation,
   useTherapyTypeTranslation,
 } from "../../../shared/hooks/useTranslation";
+import { usePermissions } from "../../auth";
+import { TherapistPicker, useTherapistOptions } from "../../users";
 
 interface CertificationsListTableProps {
   certifications: CertificationDocument[];
@@ -21,20 +28,26 @@ interface CertificationsFilter {
   status: "all" | "draft" | "submitted" | "approved" | "rejected";
   month: string;
   year: string;
+  therapistId: string;
 }
 
 export const CertificationsListTable: React.FC<
   CertificationsListTableProps
 > = ({ certifications, onCertificationClick }) => {
   const { isMobile } = useResponsive();
+  const { canSelectTherapist } = usePermissions();
+  const { therapists } = useTherapistOptions();
+  const showTherapistPicker = canSelectTherapist() && therapists.length > 0;
   const [filter, setFilter] = useState<CertificationsFilter>({
     search: "",
     status: "all",
     month: "",
     year: "",
+    therapistId: "",
   });
 
   const [currentPage, setCurrentPage] = useState(1);
+  const [isExportOpen, setIsExportOpen] = useState(false);
   const itemsPerPage = isMobile ? 5 : 10;
 
   // Use industry-standard translation hooks
@@ -68,7 +81,16 @@ export const CertificationsListTable: React.FC<
       const matchesYear =
         !filter.year || certification.year?.toString() === filter.year;
 
-      return matchesSearch && matchesStatus && matchesMonth && matchesYear;
+      const matchesTherapist =
+        !filter.therapistId || certification.therapistId === filter.therapistId;
+
+      return (
+        matchesSearch &&
+        matchesStatus &&
+        matchesMonth &&
+        matchesYear &&
+        matchesTherapist
+      );
     });
 
     return filtered;
@@ -100,6 +122,8 @@ export const CertificationsListTable: React.FC<
           className={`grid gap-4 ${
             isMobile
               ? "grid-cols-1"
+              : showTherapistPicker
+              ? "grid-cols-1 md:grid-cols-3 lg:grid-cols-6"
               : "grid-cols-1 md:grid-cols-2 lg:grid-cols-5"
           }`}
         >
@@ -176,6 +200,18 @@ export const CertificationsListTable: React.FC<
             </select>
           </div>
 
+          {/* Therapist Filter - admins and secretaries */}
+          {showTherapistPicker && (
+            <TherapistPicker
+              id="certifications-therapist"
+              therapists={therapists}
+              value={filter.therapistId}
+              onChange={(therapistId) =>
+                handleFilterChange("therapistId", therapistId)
+              }
+            />
+          )}
+
           {/* Clear Filters */}
           <div className="flex items-end">
             <button
@@ -185,6 +221,7 @@ export const CertificationsListTable: React.FC<
                   status: "all",
                   month: "",
                   year: "",
+                  therapistId: "",
                 });
                 setCurrentPage(1);
               }}
@@ -196,6 +233,20 @@ export const CertificationsListTable: React.FC<
         </div>
       </div>
 
+      {/* Export */}
+      <div className="px-4 md:px-6 py-3 flex items-center justify-between border-b border-gray-200 dark:border-gray-700">
+        <span className="text-sm text-gray-600 dark:text-gray-400">
+          {filteredAndSortedCertifications.length} certifications
+        </span>
+        <button
+          onClick={() => setIsExportOpen(true)}
+          disabled={filteredAndSortedCertifications.length === 0}
+          className="px-3 py-1 text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Export
+        </button>
+      </div>
+
       {/* Table */}
       <div className="overflow-x-auto">
         <MobileOptimizedTable
@@ -293,6 +344,30 @@ export const CertificationsListTable: React.FC<
           </div>
         </div>
       )}
+
+      {isExportOpen && (
+        <ExportModal
+          isOpen
+          onClose={() => setIsExportOpen(false)}
+          title="Export Certifications"
+          itemCount={filteredAndSortedCertifications.length}
+          itemLabel="certifications"
+          columns={CERTIFICATION_EXPORT_COLUMNS}
+          defaultColumns={[
+            "patientName",
+            "therapistName",
+            "therapyType",
+            "period",
+            "status",
+            "sessionCount",
+            "completedSessions",
+          ]}
+          includeSessionsHint="Excel adds a sheet per certification with its sessions; CSV adds one row per session."
+          onExport={(options) =>
+            exportCertifications(filteredAndSortedCertifications, options)
+          }
+        />
+      )}
     </div>
   );
 };
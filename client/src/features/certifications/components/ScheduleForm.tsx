@@ -1,5 +1,15 @@
 import React, { useState } from "react";
+import TimePicker from "../../../components/TimePicker";
+import PlaceSelector from "../../../components/PlaceSelector";
+import {
+  formatLocation,
+  parseLocation,
+} from "../../schools/utils/schoolDirectory";
 import type { Schedule, ScheduleRequest } from "../types/certification.types";
+import type {
+  TherapistAvailability,
+  TherapySession,
+} from "../../sessions/types/session.types";
 
 interface ScheduleFormProps {
   schedules: Schedule[];
@@ -7,6 +17,10 @@ interface ScheduleFormProps {
   isEditing?: boolean;
   disabled?: boolean;
   error?: string;
+  // Grey out weekly slots the therapist is unavailable for
+  availability?: TherapistAvailability | null;
+  existingSessions?: TherapySession[];
+  duration?: number;
 }
 
 export const ScheduleForm: React.FC<ScheduleFormProps> = ({
@@ -15,6 +29,9 @@ export const ScheduleForm: React.FC<ScheduleFormProps> = ({
   isEditing = false,
   disabled = false,
   error,
+  availability,
+  existingSessions,
+  duration,
 }) => {
   const [localSchedules, setLocalSchedules] = useState<ScheduleRequest[]>(
     schedules.map((s) => ({
@@ -165,13 +182,16 @@ export const ScheduleForm: React.FC<ScheduleFormProps> = ({
                     Start Time
                   </label>
                   {isEditing && !disabled ? (
-                    <input
-                      type="time"
-                      value={schedule.startTime}
-                      onChange={(e) =>
-                        handleScheduleChange(index, "startTime", e.target.value)
+                    <TimePicker
+                      className="mt-1"
+                      selectedTime={schedule.startTime}
+                      onTimeSelect={(time) =>
+                        handleScheduleChange(index, "startTime", time)
                       }
-                      className="mt-1 block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                      dayOfWeek={schedule.dayOfWeek}
+                      availability={availability}
+                      sessions={existingSessions}
+                      duration={duration}
                     />
                   ) : (
                     <p className="mt-1 text-sm text-gray-900 dark:text-gray-100">
@@ -182,27 +202,31 @@ export const ScheduleForm: React.FC<ScheduleFormProps> = ({
 
                 {/* Location */}
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                    Location
-                  </label>
                   {isEditing && !disabled ? (
-                    <select
-                      value={schedule.location || ""}
-                      onChange={(e) =>
-                        handleScheduleChange(index, "location", e.target.value)
+                    <PlaceSelector
+                      selectedPlace={
+                        parseLocation(schedule.location || "").place
                       }
-                      className="mt-1 block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
-                    >
-                      <option value="">Select location</option>
-                      <option value="Clinic">Clinic</option>
-                      <option value="Home">Home</option>
-                      <option value="School">School</option>
-                      <option value="Virtual">Virtual</option>
-                    </select>
+                      selectedSchool={
+                        parseLocation(schedule.location || "").school
+                      }
+                      onPlaceSelect={(place, school) =>
+                        handleScheduleChange(
+                          index,
+                          "location",
+                          formatLocation(place, school)
+                        )
+                      }
+                    />
                   ) : (
-                    <p className="mt-1 text-sm text-gray-900 dark:text-gray-100">
-                      {schedule.location || "Not specified"}
-                    </p>
+                    <>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                        Location
+                      </label>
+                      <p className="mt-1 text-sm text-gray-900 dark:text-gray-100">
+                        {schedule.location || "Not specified"}
+                      </p>
+                    </>
                   )}
                 </div>
               </div>
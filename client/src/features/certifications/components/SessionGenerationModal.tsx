@@ -0,0 +1,284 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { BaseModal } from "../../../shared/components/ui/BaseModal";
+import { sessionService } from "../../sessions/services/sessionService";
+import { invalidateSessionQueries } from "../../sessions/hooks/sessionQueries";
+import { ParentSignatureStatus } from "../../sessions/types/session.types";
+import { useTherapistAvailability } from "../../sessions/hooks/useTherapistAvailability";
+import { useTherapistSessionsInRange } from "../../sessions/hooks/useTherapistSessionsInRange";
+import { useTransportationRule } from "../../sessions/hooks/useTransportationRule";
+import {
+  generateSessionsFromSchedules,
+  getCertificationMonthRange,
+} from "../utils/sessionGeneration";
+import type {
+  CertificationDocument,
+  GeneratedSessionPreview,
+} from "../types/certification.types";
+
+interface SessionGenerationModalProps {
+  certification: CertificationDocument;
+  isOpen: boolean;
+  onClose: () => void;
+  onGenerated?: (createdCount: number) => void;
+}
+
+const DAY_NAMES = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+export const SessionGenerationModal: React.FC<SessionGenerationModalProps> = ({
+  certification,
+  isOpen,
+  onClose,
+  onGenerated,
+}) => {
+  const [previews, setPreviews] = useState<GeneratedSessionPreview[]>([]);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [failures, setFailures] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+  const therapistId = isOpen ? certification.therapistId : null;
+  const monthRange = getCertificationMonthRange(certification);
+  const { availability, isLoading: isLoadingAvailability } =
+    useTherapistAvailability(therapistId);
+  const { sessions: monthSessions, isLoading: isLoadingSessions } =
+    useTherapistSessionsInRange(
+      therapistId,
+      monthRange?.startDate ?? null,
+      monthRange?.endDate ?? null
+    );
+  const {
+    evaluate: evaluateTransportation,
+    isLoading: isLoadingTransportation,
+  } = useTransportationRule(isOpen ? certification.id : null);
+
+  // The therapist's sessions for other patients that month occupy slots
+  const therapistSessions = useMemo(
+    () =>
+      monthSessions.filter(
+        (session) => session.certificationDocumentId !== certification.id
+      ),
+    [monthSessions, certification.id]
+  );
+
+  // Rebuild the preview whenever the modal opens or availability arrives
+  useEffect(() => {
+    if (isOpen) {
+      setPreviews(
+        generateSessionsFromSchedules(
+          certification,
+          certification.schedules || [],
+          { availability, therapistSessions }
+        )
+      );
+      setFailures({});
+      setError(null);
+    }
+  }, [isOpen, certification, availability, therapistSessions]);
+
+  const selectedCount = useMemo(
+    () => previews.filter((preview) => preview.selected).length,
+    [previews]
+  );
+
+  const toggleSession = (key: string) => {
+    setPreviews((prev) =>
+      prev.map((preview) =>
+        preview.key === key
+          ? { ...preview, selected: !preview.selected }
+          : preview
+      )
+    );
+  };
+
+  const formatDate = (dateString: string) => {
+    const [year, month, day] = dateString.split("-").map(Number);
+    return new Date(year, month - 1, day).toLocaleDateString("en-US", {
+      month: "short",
+      day: "numeric",
+    });
+  };
+
+  const handleGenerate = async () => {
+    const toCreate = previews.filter((preview) => preview.selected);
+    if (toCreate.length === 0) return;
+
+    setIsGenerating(true);
+    setError(null);
+    const newFailures: Record<string, string> = {};
+    const createdKeys = new Set<string>();
+
+    // Create sequentially so the backend sees sessions in date order
+    for (const preview of toCreate) {
+      try {
+        await sessionService.createSession(
+          {
+            certificationDocumentId: certification.id,
+            sessionDate: preview.sessionDate,
+            sessionTime: `${preview.sessionTime}:00`,
+            endTime: `${preview.endTime}:00`,
+            location: preview.location,
+            transportationRequired: evaluateTransportation(preview.location)
+              .transportationRequired,
+            parentSignatureStatus: ParentSignatureStatus.PENDING,
+            notes: "",
+          },
+          { certificationStatus: certification.status }
+        );
+        createdKeys.add(preview.key);
+      } catch (err) {
+        newFailures[preview.key] =
+          err instanceof Error ? err.message : "Failed to create session";
+      }
+    }
+
+    if (createdKeys.size > 0) {
+      invalidateSessionQueries();
+    }
+    setIsGenerating(false);
+    setFailures(newFailures);
+    setPreviews((prev) =>
+      prev.map((preview) =>
+        createdKeys.has(preview.key)
+          ? { ...preview, selected: false, alreadyExists: true }
+          : preview
+      )
+    );
+
+    if (createdKeys.size > 0) {
+      onGenerated?.(createdKeys.size);
+    }
+
+    if (Object.keys(newFailures).length > 0) {
+      setError(
+        `${createdKeys.size} session(s) created, ${
+          Object.keys(newFailures).length
+        } failed. Review the highlighted dates.`
+      );
+    } else {
+      onClose();
+    }
+  };
+
+  const footerConfig = {
+    buttons: [
+      {
+        label: "Cancel",
+        variant: "secondary" as const,
+        onClick: onClose,
+        disabled: isGenerating,
+      },
+      {
+        label: isGenerating
+          ? "Creating..."
+          : `Create ${selectedCount} Session${selectedCount === 1 ? "" : "s"}`,
+        variant: "primary" as const,
+        onClick: handleGenerate,
+        loading: isGenerating,
+        disabled:
+          isGenerating ||
+          isLoadingAvailability ||
+          isLoadingSessions ||
+          isLoadingTransportation ||
+          selectedCount === 0,
+      },
+    ],
+    buttonAlignment: "right" as const,
+  };
+
+  return (
+    <BaseModal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Generate Sessions for Month"
+      subtitle={`${certification.patientName || "Patient"} - ${
+        certification.duration || 30
+      } min, ${certification.frequencyPerWeek || "-"}x per week`}
+      footerConfig={footerConfig}
+      error={error}
+    >
+      {previews.length === 0 ? (
+        <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+          No sessions can be generated. Add schedules to this certification
+          first.
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Untick any dates that should not be created. Dates over the weekly
+            frequency or that already have a session at that time are unticked
+            by default, and slots the therapist is not available for cannot be
+            created.
+          </p>
+          {(isLoadingAvailability || isLoadingSessions) && (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Checking therapist availability...
+            </p>
+          )}
+          <div className="divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-md">
+            {previews.map((preview) => (
+              <label
+                key={preview.key}
+                className={`flex items-center justify-between px-4 py-2 text-sm ${
+                  failures[preview.key]
+                    ? "bg-red-50 dark:bg-red-900/20"
+                    : preview.alreadyExists || preview.unavailableReason
+                    ? "opacity-60"
+                    : ""
+                }`}
+              >
+                <div className="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={preview.selected}
+                    disabled={
+                      preview.alreadyExists ||
+                      !!preview.unavailableReason ||
+                      isGenerating
+                    }
+                    onChange={() => toggleSession(preview.key)}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 dark:border-gray-600 rounded"
+                  />
+                  <span className="ml-3 w-32 text-gray-900 dark:text-gray-100">
+                    {DAY_NAMES[preview.dayOfWeek]},{" "}
+                    {formatDate(preview.sessionDate)}
+                  </span>
+                  <span className="ml-3 text-gray-700 dark:text-gray-300">
+                    {preview.sessionTime} - {preview.endTime}
+                  </span>
+                  <span className="ml-3 text-gray-500 dark:text-gray-400">
+                    {preview.location || "No location"}
+                  </span>
+                </div>
+                <span className="text-xs">
+                  {failures[preview.key] ? (
+                    <span className="text-red-600 dark:text-red-400">
+                      {failures[preview.key]}
+                    </span>
+                  ) : preview.alreadyExists ? (
+                    <span className="text-gray-500 dark:text-gray-400">
+                      Already exists
+                    </span>
+                  ) : preview.unavailableReason ? (
+                    <span className="text-gray-500 dark:text-gray-400">
+                      {preview.unavailableReason}
+                    </span>
+                  ) : preview.exceedsFrequency ? (
+                    <span className="text-amber-600 dark:text-amber-400">
+                      Over weekly frequency
+                    </span>
+                  ) : null}
+                </span>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+    </BaseModal>
+  );
+};
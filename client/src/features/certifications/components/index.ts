@@ -9,4 +9,8 @@ export { CertificationsList } from './CertificationsList';
 export { CertificationsFilter } from './CertificationsFilter';
 export { CertificationViewModal } from './CertificationViewModal';
 export { ScheduleForm } from './ScheduleForm';
-
+export { SessionGenerationModal } from './SessionGenerationModal';
+export { CertificationStatisticsPanel } from './CertificationStatisticsPanel';
+export { CertificationRolloverModal } from './CertificationRolloverModal';
+export { CertificationReviewPanel } from './CertificationReviewPanel';
+export { CertificationPdfPreviewModal } from './CertificationPdfPreviewModal';
@@ -0,0 +1,17 @@
+// Certification Queries - cache keys and invalidation for certification data
+import { queryClient } from '../../../shared/utils/queryClient';
+import type { CertificationsFilter } from '../types/certification.types';
+
+export const certificationKeys = {
+  all: ['certifications'] as const,
+  lists: () => [...certificationKeys.all, 'list'] as const,
+  list: (filter: CertificationsFilter) => [...certificationKeys.lists(), filter] as const,
+  stats: () => [...certificationKeys.all, 'stats'] as const,
+  patients: () => [...certificationKeys.all, 'patients'] as const,
+};
+
+/**
+ * Mark every cached certification query stale; mounted hooks refetch in the background
+ */
+export const invalidateCertificationQueries = (): Promise<void> =>
+  queryClient.invalidateQueries({ queryKey: certificationKeys.all });
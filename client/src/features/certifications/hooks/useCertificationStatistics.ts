@@ -0,0 +1,71 @@
+// Certification Statistics Hook - loads sessions per certification and computes breakdowns
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { sessionService } from '../../sessions/services/sessionService';
+import {
+  aggregateCertificationStatistics,
+  computeCertificationStatistics,
+} from '../utils/certificationStatistics';
+import type {
+  CertificationDocument,
+  CertificationSessionStatistics,
+} from '../types/certification.types';
+
+type StatisticsCertification = Pick<CertificationDocument, 'id' | 'month' | 'year' | 'duration'>;
+
+export function useCertificationStatistics(
+  certifications: StatisticsCertification[],
+  enabled = true
+) {
+  const [statistics, setStatistics] = useState<CertificationSessionStatistics[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadStatistics = useCallback(async () => {
+    if (certifications.length === 0) {
+      setStatistics([]);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    // One failing certification shouldn't hide the others
+    const results = await Promise.allSettled(
+      certifications.map(async (certification) =>
+        computeCertificationStatistics(
+          certification,
+          await sessionService.getSessionsByCertification(certification.id)
+        )
+      )
+    );
+
+    const loaded = results
+      .filter((result): result is PromiseFulfilledResult<CertificationSessionStatistics> =>
+        result.status === 'fulfilled'
+      )
+      .map((result) => result.value);
+    const failedCount = results.length - loaded.length;
+
+    setStatistics(loaded);
+    setError(failedCount > 0 ? `Failed to load sessions for ${failedCount} certification(s)` : null);
+    setIsLoading(false);
+  }, [certifications]);
+
+  useEffect(() => {
+    if (enabled) {
+      loadStatistics();
+    }
+  }, [enabled, loadStatistics]);
+
+  const totals = useMemo(() => aggregateCertificationStatistics(statistics), [statistics]);
+
+  return {
+    statistics,
+    totals,
+    isLoading,
+    error,
+    reload: loadStatistics,
+  };
+}
+
+export default useCertificationStatistics;
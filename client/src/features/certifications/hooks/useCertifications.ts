@@ -1,12 +1,16 @@
 // Certifications Hook - State Management for Certifications Feature
-import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useState, useCallback, useMemo } from 'react';
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { certificationService } from '../services/certificationService';
+import { certificationKeys, invalidateCertificationQueries } from './certificationQueries';
+import { updateQueriesOptimistically } from '../../../shared/utils/queryClient';
+import type { RequestOptions } from '../../../shared/types/api';
 import type {
   CertificationDocument,
   CreateCertificationRequest,
   UpdateCertificationRequest,
   CertificationsFilter,
-  CertificationStats,
+  CertificationsResponse,
   Patient,
   Therapist,
   UseCertificationsOptions,
@@ -14,19 +18,10 @@ import type {
 } from '../types/certification.types';
 import { CertificationStatus } from '../types/certification.types';
 
-// Global state to prevent duplicate API calls
-let globalCertifications: CertificationDocument[] = [];
-let globalStats: CertificationStats | null = null;
-let globalPatients: Patient[] = [];
-let globalTherapists: Therapist[] = [];
-let globalLoading = false;
-let globalError: string | null = null;
-const globalListeners: Set<() => void> = new Set();
-
-// Function to notify all listeners of state changes
-const notifyListeners = () => {
-  globalListeners.forEach(listener => listener());
-};
+// Stable empty values so memoized utilities do not recompute while loading
+const NO_CERTIFICATIONS: CertificationDocument[] = [];
+const NO_PATIENTS: Patient[] = [];
+const NO_THERAPISTS: Therapist[] = [];
 
 const DEFAULT_FILTER: CertificationsFilter = {
   page: 1,
@@ -35,181 +30,193 @@ const DEFAULT_FILTER: CertificationsFilter = {
   sortDirection: 'desc',
 };
 
+// Apply a change to the certifications of every cached list
+const updateCachedCertifications = (update: (certifications: CertificationDocument[]) => CertificationDocument[]) =>
+  updateQueriesOptimistically<CertificationsResponse>(certificationKeys.lists(), (data) => ({
+    ...data,
+    certifications: update(data.certifications),
+  }));
+
 export function useCertifications(options: UseCertificationsOptions = {}): UseCertificationsReturn {
   const { 
     filter: initialFilter = DEFAULT_FILTER,
     autoRefresh = false,
     refreshInterval = 30000, // 30 seconds
-    includeSessions = false,
     includePatients = true,
     includeTherapists = true,
     loadCertifications: shouldLoadCertifications = true
   } = options;
+  const queryClient = useQueryClient();
 
   // Local state for component-specific data
   const [selectedCertification, setSelectedCertification] = useState<CertificationDocument | null>(null);
-  const [isCreating, setIsCreating] = useState(false);
-  const [isUpdating, setIsUpdating] = useState(false);
-  const [isDeleting, setIsDeleting] = useState(false);
-  const [isSubmitting, setIsSubmitting] = useState(false);
   const [filter, setFilterState] = useState<CertificationsFilter>(initialFilter);
-
-  // Local state that syncs with global state
-  const [certifications, setCertifications] = useState<CertificationDocument[]>(globalCertifications);
-  const [stats, setStats] = useState<CertificationStats | null>(globalStats);
-  const [patients, setPatients] = useState<Patient[]>(globalPatients);
-  const [therapists, setTherapists] = useState<Therapist[]>(globalTherapists);
-  const [isLoading, setIsLoading] = useState(globalLoading);
-  const [error, setError] = useState<string | null>(globalError);
-
-  // Function to update local state from global state
-  const updateLocalState = useCallback(() => {
-    setCertifications(globalCertifications);
-    setStats(globalStats);
-    setPatients(globalPatients);
-    setTherapists(globalTherapists);
-    setIsLoading(globalLoading);
-    setError(globalError);
-  }, []);
-
-  // Subscribe to global state changes
-  useEffect(() => {
-    globalListeners.add(updateLocalState);
-    return () => {
-      globalListeners.delete(updateLocalState);
-    };
-  }, [updateLocalState]);
+  const [mutationError, setMutationError] = useState<string | null>(null);
+  const [dismissedError, setDismissedError] = useState<Error | null>(null);
+
+  // Hooks with the same filter share one cached list and one request
+  const certificationsQuery = useQuery({
+    queryKey: certificationKeys.list(filter),
+    queryFn: ({ signal }) => certificationService.getCertifications(filter, { signal }),
+    enabled: shouldLoadCertifications,
+    placeholderData: keepPreviousData,
+    refetchInterval: autoRefresh ? refreshInterval : false,
+  });
+  const { refetch } = certificationsQuery;
+  const certifications = certificationsQuery.data?.certifications ?? NO_CERTIFICATIONS;
+  const queryError = certificationsQuery.error && certificationsQuery.error !== dismissedError
+    ? certificationsQuery.error.message
+    : null;
+  const error = mutationError ?? queryError;
+
+  // Falls back to stats computed from the loaded certifications when the endpoint fails
+  const statsQuery = useQuery({
+    queryKey: certificationKeys.stats(),
+    queryFn: () => certificationService.getCertificationStats(),
+    refetchInterval: autoRefresh ? refreshInterval : false,
+  });
+  const stats = statsQuery.data ?? null;
+
+  const patientsQuery = useQuery({
+    queryKey: certificationKeys.patients(),
+    queryFn: () => certificationService.getPatients(),
+    enabled: includePatients,
+  });
+  const patients = patientsQuery.data ?? NO_PATIENTS;
+  const therapists = NO_THERAPISTS;
   
   // Modal state
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [modalMode, setModalMode] = useState<'view' | 'edit' | 'create'>('view');
 
+  const { mutateAsync: createCertificationAsync, isPending: isCreating } = useMutation({
+    mutationFn: ({ data, requestOptions }: { data: CreateCertificationRequest; requestOptions?: RequestOptions }) =>
+      certificationService.createCertification(data, requestOptions),
+    onSettled: () => invalidateCertificationQueries(),
+  });
+
+  const { mutateAsync: updateCertificationAsync, isPending: isUpdating } = useMutation({
+    mutationFn: ({ id, data, requestOptions }: { id: string; data: UpdateCertificationRequest; requestOptions?: RequestOptions }) =>
+      certificationService.updateCertification(id, data, undefined, requestOptions),
+    // Form data does not map onto the document, so lists show the server's copy once it arrives
+    onSuccess: (updated) => {
+      queryClient.setQueriesData<CertificationsResponse>({ queryKey: certificationKeys.lists() }, (data) => data && {
+        ...data,
+        certifications: data.certifications.map(cert => cert.id === updated.id ? updated : cert),
+      });
+    },
+    onSettled: () => invalidateCertificationQueries(),
+  });
+
+  const { mutateAsync: deleteCertificationAsync, isPending: isDeleting } = useMutation({
+    mutationFn: ({ id, requestOptions }: { id: string; requestOptions?: RequestOptions }) =>
+      certificationService.deleteCertification(id, undefined, requestOptions),
+    // Show the change at once; the rollback restores the lists if the server rejects it
+    onMutate: ({ id }) => updateCachedCertifications((cached) => cached.filter(cert => cert.id !== id)),
+    onError: (_err, _variables, rollback) => rollback?.(),
+    onSettled: () => invalidateCertificationQueries(),
+  });
+
+  const { mutateAsync: submitCertificationAsync, isPending: isSubmitting } = useMutation({
+    mutationFn: ({ id, requestOptions }: { id: string; requestOptions?: RequestOptions }) =>
+      certificationService.submitCertification(id, requestOptions),
+    onMutate: ({ id }) => updateCachedCertifications((cached) =>
+      cached.map(cert => cert.id === id ? { ...cert, status: CertificationStatus.SUBMITTED } : cert)
+    ),
+    onError: (_err, _variables, rollback) => rollback?.(),
+    onSettled: () => invalidateCertificationQueries(),
+  });
+
   /**
    * Load certifications from API
    */
   const loadCertifications = useCallback(async (filterOverride?: CertificationsFilter) => {
-    const currentFilter = filterOverride || filter;
-    
-    // Only make API call if not already loading
-    if (globalLoading) return;
-    
-    globalLoading = true;
-    globalError = null;
-    notifyListeners();
-
-    try {
-      const response = await certificationService.getCertifications(currentFilter);
-      globalCertifications = response.certifications;
-      globalError = null;
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to load certifications';
-      globalError = errorMessage;
-      console.error('Load certifications error:', err);
-    } finally {
-      globalLoading = false;
-      notifyListeners();
+    if (filterOverride) {
+      setFilterState(filterOverride);
+      return;
     }
-  }, [filter]);
+    await refetch();
+  }, [refetch]);
 
   /**
    * Create new certification
    */
-  const createCertification = useCallback(async (data: CreateCertificationRequest): Promise<CertificationDocument> => {
-    setIsCreating(true);
-    setError(null);
+  const createCertification = useCallback(async (
+    data: CreateCertificationRequest,
+    requestOptions?: RequestOptions
+  ): Promise<CertificationDocument> => {
+    setMutationError(null);
 
     try {
-      const newCertification = await certificationService.createCertification(data);
-      setCertifications(prev => [newCertification, ...prev]);
-      return newCertification;
+      return await createCertificationAsync({ data, requestOptions });
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to create certification';
-      setError(errorMessage);
+      setMutationError(errorMessage);
       throw err;
-    } finally {
-      setIsCreating(false);
     }
-  }, []);
+  }, [createCertificationAsync]);
 
   /**
    * Update existing certification
    */
-  const updateCertification = useCallback(async (id: string, data: UpdateCertificationRequest): Promise<CertificationDocument> => {
-    setIsUpdating(true);
-    setError(null);
+  const updateCertification = useCallback(async (
+    id: string,
+    data: UpdateCertificationRequest,
+    requestOptions?: RequestOptions
+  ): Promise<CertificationDocument> => {
+    setMutationError(null);
 
     try {
-      const updatedCertification = await certificationService.updateCertification(id, data);
-      setCertifications(prev => prev.map(cert => 
-        cert.id === id ? updatedCertification : cert
-      ));
+      const updatedCertification = await updateCertificationAsync({ id, data, requestOptions });
       
       // Update selected certification if it's the one being updated
-      if (selectedCertification?.id === id) {
-        setSelectedCertification(updatedCertification);
-      }
+      setSelectedCertification(current => current?.id === id ? updatedCertification : current);
       
       return updatedCertification;
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to update certification';
-      setError(errorMessage);
+      setMutationError(errorMessage);
       throw err;
-    } finally {
-      setIsUpdating(false);
     }
-  }, [selectedCertification]);
+  }, [updateCertificationAsync]);
 
   /**
    * Delete certification
    */
-  const deleteCertification = useCallback(async (id: string): Promise<void> => {
-    setIsDeleting(true);
-    setError(null);
+  const deleteCertification = useCallback(async (id: string, requestOptions?: RequestOptions): Promise<void> => {
+    setMutationError(null);
 
     try {
-      await certificationService.deleteCertification(id);
-      setCertifications(prev => prev.filter(cert => cert.id !== id));
+      await deleteCertificationAsync({ id, requestOptions });
       
       // Clear selected certification if it's the one being deleted
-      if (selectedCertification?.id === id) {
-        setSelectedCertification(null);
-      }
+      setSelectedCertification(current => current?.id === id ? null : current);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to delete certification';
-      setError(errorMessage);
+      setMutationError(errorMessage);
       throw err;
-    } finally {
-      setIsDeleting(false);
     }
-  }, [selectedCertification]);
+  }, [deleteCertificationAsync]);
 
   /**
    * Submit certification for approval
    */
-  const submitCertification = useCallback(async (id: string): Promise<CertificationDocument> => {
-    setIsSubmitting(true);
-    setError(null);
+  const submitCertification = useCallback(async (id: string, requestOptions?: RequestOptions): Promise<CertificationDocument> => {
+    setMutationError(null);
 
     try {
-      const submittedCertification = await certificationService.submitCertification(id);
-      setCertifications(prev => prev.map(cert => 
-        cert.id === id ? submittedCertification : cert
-      ));
+      const submittedCertification = await submitCertificationAsync({ id, requestOptions });
       
       // Update selected certification if it's the one being submitted
-      if (selectedCertification?.id === id) {
-        setSelectedCertification(submittedCertification);
-      }
+      setSelectedCertification(current => current?.id === id ? submittedCertification : current);
       
       return submittedCertification;
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to submit certification';
-      setError(errorMessage);
+      setMutationError(errorMessage);
       throw err;
-    } finally {
-      setIsSubmitting(false);
     }
-  }, [selectedCertification]);
+  }, [submitCertificationAsync]);
 
   /**
    * Select certification
@@ -258,52 +265,25 @@ export function useCertifications(options: UseCertificationsOptions = {}): UseCe
   }, [openModal]);
 
   /**
-   * Set filter and reload certifications
+   * Set filter; the query for the new filter loads, or is served from the cache
    */
   const setFilter = useCallback((newFilter: CertificationsFilter) => {
     setFilterState(newFilter);
-    loadCertifications(newFilter);
-  }, [loadCertifications]);
+  }, []);
 
   /**
    * Clear error
    */
   const clearError = useCallback(() => {
-    setError(null);
-  }, []);
+    setMutationError(null);
+    setDismissedError(certificationsQuery.error);
+  }, [certificationsQuery.error]);
 
   /**
-   * Refresh certifications
+   * Refresh certifications everywhere they are shown
    */
   const refreshCertifications = useCallback(() => {
-    return loadCertifications();
-  }, [loadCertifications]);
-
-  /**
-   * Load certification statistics
-   */
-  const loadStats = useCallback(async () => {
-    try {
-      const certificationStats = await certificationService.getCertificationStats();
-      globalStats = certificationStats;
-      notifyListeners();
-    } catch (err) {
-      console.warn('Failed to load certification stats:', err);
-      // Provide default stats on error
-      const defaultStats = {
-        totalCertifications: 0,
-        draftCertifications: 0,
-        submittedCertifications: 0,
-        approvedCertifications: 0,
-        rejectedCertifications: 0,
-        thisMonthCertifications: 0,
-        thisYearCertifications: 0,
-        completionRate: 0,
-        averageCertificationsPerMonth: 0
-      };
-      globalStats = defaultStats;
-      notifyListeners();
-    }
+    return invalidateCertificationQueries();
   }, []);
 
   /**
@@ -311,14 +291,8 @@ export function useCertifications(options: UseCertificationsOptions = {}): UseCe
    */
   const loadPatients = useCallback(async () => {
     if (!includePatients) return;
-    
-    try {
-      const patientsData = await certificationService.getPatients();
-      setPatients(patientsData);
-    } catch (err) {
-      console.warn('Failed to load patients:', err);
-    }
-  }, [includePatients]);
+    await queryClient.invalidateQueries({ queryKey: certificationKeys.patients() });
+  }, [includePatients, queryClient]);
 
   /**
    * Load therapists
@@ -326,16 +300,10 @@ export function useCertifications(options: UseCertificationsOptions = {}): UseCe
   const loadTherapists = useCallback(async () => {
     if (!includeTherapists) return;
     
-    try {
-      // Temporarily disabled due to authorization issues
-      // TODO: Fix authorization for therapist loading
-      console.warn('Therapist loading temporarily disabled due to authorization issues');
-      setTherapists([]);
-      // const therapistsData = await certificationService.getTherapists();
-      // setTherapists(therapistsData);
-    } catch (err) {
-      console.warn('Failed to load therapists:', err);
-    }
+    // Temporarily disabled due to authorization issues
+    // TODO: Fix authorization for therapist loading
+    console.warn('Therapist loading temporarily disabled due to authorization issues');
+    // const therapistsData = await certificationService.getTherapists();
   }, [includeTherapists]);
 
   // Utility functions
@@ -397,34 +365,6 @@ export function useCertifications(options: UseCertificationsOptions = {}): UseCe
     return therapists.find(therapist => therapist.id === id);
   }, [therapists]);
 
-  // Load initial data
-  useEffect(() => {
-    if (shouldLoadCertifications && globalCertifications.length === 0 && !globalLoading) {
-      loadCertifications();
-    }
-    if (!globalStats && !globalLoading) {
-      loadStats();
-    }
-    if (includePatients && globalPatients.length === 0 && !globalLoading) {
-      loadPatients();
-    }
-    if (includeTherapists && globalTherapists.length === 0 && !globalLoading) {
-      loadTherapists();
-    }
-  }, [shouldLoadCertifications, includePatients, includeTherapists, loadCertifications, loadStats, loadPatients, loadTherapists]);
-
-  // Auto refresh
-  useEffect(() => {
-    if (!autoRefresh) return;
-
-    const interval = setInterval(() => {
-      refreshCertifications();
-      loadStats();
-    }, refreshInterval);
-
-    return () => clearInterval(interval);
-  }, [autoRefresh, refreshInterval, refreshCertifications, loadStats]);
-
   // Memoized computed values
   const computedStats = useMemo(() => {
     if (stats) return stats;
@@ -467,7 +407,7 @@ export function useCertifications(options: UseCertificationsOptions = {}): UseCe
     therapists,
     
     // State
-    isLoading,
+    isLoading: certificationsQuery.isLoading,
     isCreating,
     isUpdating,
     isDeleting,
@@ -3,6 +3,8 @@
 
 // Hooks
 export { useCertifications } from './hooks/useCertifications';
+export { useCertificationStatistics } from './hooks/useCertificationStatistics';
+export { certificationKeys, invalidateCertificationQueries } from './hooks/certificationQueries';
 
 // Components
 export { CertificationForm } from './components/CertificationForm';
@@ -11,12 +13,35 @@ export { CertificationView } from './components/CertificationView';
 export { CertificationCard } from './components/CertificationCard';
 export { CertificationsList } from './components/CertificationsList';
 export { CertificationsFilter } from './components/CertificationsFilter';
+export { CertificationStatisticsPanel } from './components/CertificationStatisticsPanel';
+export { CertificationRolloverModal } from './components/CertificationRolloverModal';
+export { CertificationReviewPanel } from './components/CertificationReviewPanel';
+export { CertificationPdfPreviewModal } from './components/CertificationPdfPreviewModal';
 
 // Pages
 export { default as CertificationsPage } from './pages/CertificationsPage';
+export { default as CertificationReviewPage } from './pages/CertificationReviewPage';
 
 // Services
 export { certificationService } from './services/certificationService';
+export { certificationTemplateService } from './services/certificationTemplateService';
+
+// Utils
+export {
+  extractTemplateFields,
+  getNextPeriod,
+  buildCertificationCopyRequest,
+  findPreviousCertification,
+} from './utils/certificationTemplates';
+export {
+  renderCertificationPdf,
+  getCertificationPdfFilename,
+} from './utils/certificationPdf';
+export type { CertificationPdfOptions } from './utils/certificationPdf';
+export {
+  CERTIFICATION_EXPORT_COLUMNS,
+  exportCertifications,
+} from './utils/certificationExport';
 
 // Types
 export type {
@@ -32,6 +57,11 @@ export type {
   CertificationsFilter,
   CertificationsResponse,
   CertificationStats,
+  CertificationSessionStatistics,
+  CertificationTemplate,
+  CertificationTemplateFields,
+  CertificationPrefill,
+  CertificationRolloverRow,
   CertificationsState,
   CertificationModalProps,
   CertificationFormProps,
@@ -0,0 +1,212 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Navigation } from "../../../shared/components/layout";
+import {
+  useMonthTranslation,
+  useTherapyTypeTranslation,
+} from "../../../shared/hooks/useTranslation";
+import { certificationService } from "../services/certificationService";
+import { invalidateCertificationQueries } from "../hooks/certificationQueries";
+import { CertificationReviewPanel } from "../components/CertificationReviewPanel";
+import { resolveMonthNumber } from "../utils/sessionGeneration";
+import { CertificationStatus } from "../types/certification.types";
+import type { CertificationDocument } from "../types/certification.types";
+
+const REVIEW_QUEUE_PAGE_SIZE = 100;
+
+const CertificationReviewPage: React.FC = () => {
+  const { getMonthName } = useMonthTranslation();
+  const { getTherapyTypeName } = useTherapyTypeTranslation();
+  const [queue, setQueue] = useState<CertificationDocument[]>([]);
+  const [selected, setSelected] = useState<CertificationDocument | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  const loadQueue = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const { certifications } = await certificationService.getCertifications({
+        status: CertificationStatus.SUBMITTED,
+        pageSize: REVIEW_QUEUE_PAGE_SIZE,
+        sortBy: "createdAt",
+        sortDirection: "asc",
+      });
+      setQueue(certifications);
+    } catch (err) {
+      console.error("Failed to load review queue:", err);
+      setError(
+        err instanceof Error ? err.message : "Failed to load review queue"
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  // Apply a review decision, then drop the certification from the queue
+  const runReview = async (
+    id: string,
+    review: () => Promise<CertificationDocument>,
+    message: string
+  ) => {
+    try {
+      setIsSaving(true);
+      setError(null);
+      await review();
+      invalidateCertificationQueries();
+      setQueue((prev) =>
+        prev.filter((certification) => certification.id !== id)
+      );
+      setSelected(null);
+      setSuccessMessage(message);
+      setTimeout(() => {
+        setSuccessMessage(null);
+      }, 3000);
+    } catch (err) {
+      console.error("Failed to review certification:", err);
+      setError(
+        err instanceof Error ? err.message : "Failed to review certification"
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleApprove = (id: string, notes?: string) =>
+    runReview(
+      id,
+      () => certificationService.approveCertification(id, notes),
+      "Certification approved."
+    );
+
+  const handleReject = (id: string, reason: string) =>
+    runReview(
+      id,
+      () => certificationService.rejectCertification(id, reason),
+      "Certification rejected. The therapist can see the reason."
+    );
+
+  const handleRequestRevision = (id: string, reason: string) =>
+    runReview(
+      id,
+      () => certificationService.requestRevision(id, reason),
+      "Revision requested. The certification is back with the therapist."
+    );
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 transition-colors duration-200">
+      <Navigation />
+      <main className="max-w-7xl mx-auto py-6 px-4">
+        {/* Header */}
+        <div className="mb-8 flex justify-between items-end">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+              Certification Review
+            </h1>
+            <p className="mt-2 text-gray-600 dark:text-gray-400">
+              Approve, reject or return submitted certifications
+            </p>
+          </div>
+          <button
+            onClick={loadQueue}
+            disabled={isLoading}
+            className="px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50"
+          >
+            Refresh
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-4 bg-red-100 border border-red-400 text-red-700 rounded">
+            {error}
+          </div>
+        )}
+        {successMessage && (
+          <div className="mb-4 p-4 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 text-green-800 dark:text-green-200 rounded">
+            {successMessage}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Queue */}
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700">
+            <div className="px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+              <h2 className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                Awaiting review ({queue.length})
+              </h2>
+            </div>
+            {isLoading ? (
+              <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+                Loading...
+              </div>
+            ) : queue.length === 0 ? (
+              <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+                No certifications are waiting for review.
+              </div>
+            ) : (
+              <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                {queue.map((certification) => (
+                  <li key={certification.id}>
+                    <button
+                      onClick={() => setSelected(certification)}
+                      className={`w-full text-left px-4 py-3 hover:bg-gray-50 dark:hover:bg-gray-700 ${
+                        selected?.id === certification.id
+                          ? "bg-blue-50 dark:bg-blue-900/20"
+                          : ""
+                      }`}
+                    >
+                      <p className="text-sm font-medium text-gray-900 dark:text-white">
+                        {certification.patientName || "Unknown patient"}
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {getTherapyTypeName(certification.therapyType)} -{" "}
+                        {getMonthName(
+                          resolveMonthNumber(certification.month) || 0
+                        )}{" "}
+                        {certification.year}
+                      </p>
+                      {certification.submittedAt && (
+                        <p className="text-xs text-gray-400 dark:text-gray-500">
+                          Submitted{" "}
+                          {format(
+                            new Date(certification.submittedAt),
+                            "MMM dd, yyyy"
+                          )}
+                        </p>
+                      )}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* Review Panel */}
+          <div className="lg:col-span-2">
+            {selected ? (
+              <CertificationReviewPanel
+                certification={selected}
+                onApprove={handleApprove}
+                onReject={handleReject}
+                onRequestRevision={handleRequestRevision}
+                isLoading={isSaving}
+              />
+            ) : (
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 text-center py-12 text-gray-500 dark:text-gray-400">
+                Select a certification to review.
+              </div>
+            )}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default CertificationReviewPage;
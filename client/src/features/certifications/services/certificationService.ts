@@ -1,6 +1,6 @@
 // Certification Service - API Communication Layer
-import { tokenService } from '@/features/auth/services/tokenService';
-import { authService } from '@/features/auth/services/authService';
+import { apiClient, ApiError } from '@/services/apiClient';
+import type { PagedPayload, RequestOptions } from '../../../shared/types/api';
 import type {
   CertificationDocument,
   CreateCertificationRequest,
@@ -12,6 +12,12 @@ import type {
   Therapist,
   CertificationExportOptions
 } from '../types/certification.types';
+import { countBillableSessions } from '../../sessions/utils/attendance';
+import { buildCertificationCopyRequest } from '../utils/certificationTemplates';
+import { buildMockAuditHistory, isAuditHistoryMockEnabled } from '../../../shared/utils/auditHistoryMock';
+import type { AuditEntry } from '../../../shared/types/audit';
+import { assertCertificationEditable, normalizeCertificationStatus } from '../../../shared/utils/editPolicy';
+import { downloadBlob } from '../../../shared/utils/download';
 
 // Lightweight certification response for session creation
 export interface CertificationForSessionsResponse {
@@ -28,6 +34,8 @@ export interface CertificationForSessionsResponse {
 export interface CertificationListItemResponse {
   id: string;
   patientName: string;
+  therapistId?: string;
+  therapistName?: string;
   month: number;
   year: number;
   therapyType: number;
@@ -36,54 +44,55 @@ export interface CertificationListItemResponse {
   createdAt: string;
 }
 
+type CertificationsPayload =
+  | CertificationDocument[]
+  | (PagedPayload<CertificationDocument> & { certifications?: CertificationDocument[] });
+
+const NOT_FOUND = { 404: 'Certification not found' };
+// The server refuses writes to submitted or approved certifications
+const LOCKED = { 403: 'This certification is locked or you cannot change it.' };
+
 class CertificationService {
   private readonly baseURL = '/api/certifications';
   private readonly patientsURL = '/api/patients';
   private readonly therapistsURL = '/api/User'; // Backend uses singular 'User'
 
   /**
-   * Get certifications with filtering and pagination
+   * Recount completed sessions so absences and cancellations are not billed
    */
-  async getCertifications(filter: CertificationsFilter = {}): Promise<CertificationsResponse> {
-    const token = await tokenService.getValidToken();
-    if (!token) {
-      throw new Error('No valid token available');
-    }
+  private withBillableTotals(certification: CertificationDocument): CertificationDocument {
+    if (!certification.sessions) return certification;
+    return {
+      ...certification,
+      completedSessions: countBillableSessions(certification.sessions),
+    };
+  }
 
+  /**
+   * Get certifications with filtering and pagination
+   */
+  async getCertifications(filter: CertificationsFilter = {}, options: RequestOptions = {}): Promise<CertificationsResponse> {
     try {
-      const queryParams = new URLSearchParams();
-      
-      // Add filter parameters
-      if (filter.patientId) queryParams.append('patientId', filter.patientId);
-      if (filter.therapistId) queryParams.append('therapistId', filter.therapistId);
-      if (filter.month) queryParams.append('month', filter.month.toString());
-      if (filter.year) queryParams.append('year', filter.year.toString());
-      if (filter.status) queryParams.append('status', filter.status.toString());
-      if (filter.search) queryParams.append('search', filter.search);
-      if (filter.startDate) queryParams.append('startDate', filter.startDate);
-      if (filter.endDate) queryParams.append('endDate', filter.endDate);
-      if (filter.page) queryParams.append('page', filter.page.toString());
-      if (filter.pageSize) queryParams.append('pageSize', filter.pageSize.toString());
-      if (filter.sortBy) queryParams.append('sortBy', filter.sortBy);
-      if (filter.sortDirection) queryParams.append('sortDirection', filter.sortDirection);
-
-      const url = queryParams.toString() ? `${this.baseURL}?${queryParams}` : this.baseURL;
-      
-      const data = await authService.authenticatedRequest(url);
-      
+      const data = await apiClient.request<CertificationsPayload>({
+        url: this.baseURL,
+        params: filter,
+        errorMessage: 'Failed to fetch certifications',
+        ...options,
+      });
+
       console.log('CertificationService: Raw response data:', data);
 
-      // The authenticatedRequest returns the unwrapped data, so we need to check for the actual data structure
-      if (data && (data.items || data.certifications || Array.isArray(data))) {
-        const certifications = data.items || data.certifications || data;
+      const certifications = Array.isArray(data) ? data : data.items || data.certifications;
+      if (certifications) {
+        const meta: PagedPayload<CertificationDocument> = Array.isArray(data) ? {} : data;
         return {
-          certifications: certifications,
-          totalCount: data.totalCount || data.pagination?.totalItems || certifications.length,
-          page: data.page || data.pagination?.page || 1,
-          pageSize: data.pageSize || data.pagination?.pageSize || certifications.length,
-          totalPages: data.totalPages || data.pagination?.totalPages || 1,
-          hasNext: data.hasNext || data.pagination?.hasNext || false,
-          hasPrevious: data.hasPrevious || data.pagination?.hasPrevious || false,
+          certifications: certifications.map((certification) => this.withBillableTotals(certification)),
+          totalCount: meta.totalCount || meta.pagination?.totalItems || certifications.length,
+          page: meta.page || meta.pagination?.page || 1,
+          pageSize: meta.pageSize || meta.pagination?.pageSize || certifications.length,
+          totalPages: meta.totalPages || meta.pagination?.totalPages || 1,
+          hasNext: meta.hasNext || meta.pagination?.hasNext || false,
+          hasPrevious: meta.hasPrevious || meta.pagination?.hasPrevious || false,
         };
       }
 
@@ -98,36 +107,12 @@ class CertificationService {
    * Get lightweight certifications for session creation
    */
   async getCertificationsForSessions(): Promise<CertificationForSessionsResponse[]> {
-    const token = await tokenService.getValidToken();
-    if (!token) {
-      throw new Error('No valid token available');
-    }
-
     try {
-      const response = await fetch(`${this.baseURL}/for-sessions`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        credentials: 'include',
+      const data = await apiClient.request<CertificationForSessionsResponse[] | CertificationForSessionsResponse>({
+        url: `${this.baseURL}/for-sessions`,
+        errorMessage: 'Failed to fetch certifications for sessions',
       });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        if (response.status === 401) {
-          tokenService.logout();
-          throw new Error('Session expired');
-        }
-        throw new Error(data.message || 'Failed to fetch certifications for sessions');
-      }
-
-      if (data.status === 200 && data.data) {
-        return Array.isArray(data.data) ? data.data : [data.data];
-      }
-
-      throw new Error('Invalid certifications for sessions response');
+      return Array.isArray(data) ? data : [data];
     } catch (error) {
       console.error('Get certifications for sessions error:', error);
       throw error;
@@ -142,45 +127,15 @@ class CertificationService {
     status?: number;
     month?: number;
     year?: number;
-  } = {}): Promise<CertificationListItemResponse[]> {
-    const token = await tokenService.getValidToken();
-    if (!token) {
-      throw new Error('No valid token available');
-    }
-
+  } = {}, options: RequestOptions = {}): Promise<CertificationListItemResponse[]> {
     try {
-      const queryParams = new URLSearchParams();
-      if (filter.search) queryParams.append('search', filter.search);
-      if (filter.status) queryParams.append('status', filter.status);
-      if (filter.month) queryParams.append('month', filter.month.toString());
-      if (filter.year) queryParams.append('year', filter.year.toString());
-
-      const url = `${this.baseURL}/list${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
-      
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        credentials: 'include',
+      const data = await apiClient.request<CertificationListItemResponse[] | CertificationListItemResponse>({
+        url: `${this.baseURL}/list`,
+        params: filter,
+        errorMessage: 'Failed to fetch certification list items',
+        ...options,
       });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        if (response.status === 401) {
-          tokenService.logout();
-          throw new Error('Session expired');
-        }
-        throw new Error(data.message || 'Failed to fetch certification list items');
-      }
-
-      if (data.status === 200 && data.data) {
-        return Array.isArray(data.data) ? data.data : [data.data];
-      }
-
-      throw new Error('Invalid certification list items response');
+      return Array.isArray(data) ? data : [data];
     } catch (error) {
       console.error('Get certification list items error:', error);
       throw error;
@@ -190,40 +145,15 @@ class CertificationService {
   /**
    * Get certification by ID
    */
-  async getCertificationById(id: string): Promise<CertificationDocument> {
-    const token = await tokenService.getValidToken();
-    if (!token) {
-      throw new Error('No valid token available');
-    }
-
+  async getCertificationById(id: string, options: RequestOptions = {}): Promise<CertificationDocument> {
     try {
-      const response = await fetch(`${this.baseURL}/${id}`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        credentials: 'include',
+      const certification = await apiClient.request<CertificationDocument>({
+        url: `${this.baseURL}/${id}`,
+        errorMessages: NOT_FOUND,
+        errorMessage: 'Failed to fetch certification',
+        ...options,
       });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        if (response.status === 401) {
-          tokenService.logout();
-          throw new Error('Session expired');
-        }
-        if (response.status === 404) {
-          throw new Error('Certification not found');
-        }
-        throw new Error(data.message || 'Failed to fetch certification');
-      }
-
-      if (data.status === 200 && data.data) {
-        return data.data;
-      }
-
-      throw new Error('Invalid certification response');
+      return this.withBillableTotals(certification);
     } catch (error) {
       console.error('Get certification error:', error);
       throw error;
@@ -231,40 +161,40 @@ class CertificationService {
   }
 
   /**
-   * Create new certification
+   * Get the change history of a certification, newest first
    */
-  async createCertification(certificationData: CreateCertificationRequest): Promise<CertificationDocument> {
-    const token = await tokenService.getValidToken();
-    if (!token) {
-      throw new Error('No valid token available');
+  async getCertificationHistory(id: string): Promise<AuditEntry[]> {
+    if (isAuditHistoryMockEnabled()) {
+      return buildMockAuditHistory('certification', await this.getCertificationById(id));
     }
 
     try {
-      const response = await fetch(this.baseURL, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        credentials: 'include',
-        body: JSON.stringify(certificationData),
+      return await apiClient.request<AuditEntry[]>({
+        url: `${this.baseURL}/${id}/history`,
+        errorMessages: NOT_FOUND,
+        errorMessage: 'Failed to fetch certification history',
       });
+    } catch (error) {
+      console.error('Get certification history error:', error);
+      throw error;
+    }
+  }
 
-      const data = await response.json();
-
-      if (!response.ok) {
-        if (response.status === 401) {
-          tokenService.logout();
-          throw new Error('Session expired');
-        }
-        throw new Error(data.message || 'Failed to create certification');
-      }
-
-      if (data.status === 201 && data.data) {
-        return data.data;
-      }
-
-      throw new Error('Invalid create certification response');
+  /**
+   * Create new certification
+   */
+  async createCertification(
+    certificationData: CreateCertificationRequest,
+    options: RequestOptions = {}
+  ): Promise<CertificationDocument> {
+    try {
+      return await apiClient.request<CertificationDocument>({
+        url: this.baseURL,
+        method: 'POST',
+        body: certificationData,
+        errorMessage: 'Failed to create certification',
+        ...options,
+      });
     } catch (error) {
       console.error('Create certification error:', error);
       throw error;
@@ -272,94 +202,69 @@ class CertificationService {
   }
 
   /**
-   * Update existing certification
+   * Create a draft copy of a certification for another month, keeping its
+   * reusable fields and schedules
    */
-  async updateCertification(id: string, certificationData: UpdateCertificationRequest): Promise<CertificationDocument> {
-    const token = await tokenService.getValidToken();
-    if (!token) {
-      throw new Error('No valid token available');
-    }
+  async cloneCertification(
+    source: CertificationDocument,
+    period: { month: number; year: number }
+  ): Promise<CertificationDocument> {
+    // List rows don't include schedules
+    const full = source.schedules ? source : await this.getCertificationById(source.id);
+
+    return this.createCertification(buildCertificationCopyRequest(full, period));
+  }
 
+  /**
+   * Update existing certification; pass its current status to skip looking it up
+   */
+  async updateCertification(
+    id: string,
+    certificationData: UpdateCertificationRequest,
+    currentStatus?: number | string | null,
+    options: RequestOptions = {}
+  ): Promise<CertificationDocument> {
     try {
-      const response = await fetch(`${this.baseURL}/${id}`, {
+      await this.assertEditable(id, currentStatus, options);
+
+      return await apiClient.request<CertificationDocument>({
+        url: `${this.baseURL}/${id}`,
         method: 'PUT',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        credentials: 'include',
-        body: JSON.stringify(certificationData),
+        body: certificationData,
+        errorMessages: { ...NOT_FOUND, ...LOCKED },
+        errorMessage: 'Failed to update certification',
+        ...options,
       });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        if (response.status === 401) {
-          tokenService.logout();
-          throw new Error('Session expired');
-        }
-        if (response.status === 404) {
-          throw new Error('Certification not found');
-        }
-        // Log detailed error information for debugging
-        console.error('Backend validation error:', data);
-        console.error('Validation errors array:', data.errors);
-        if (data.errors && Array.isArray(data.errors)) {
-          data.errors.forEach((error: any, index: number) => {
-            console.error(`Validation error ${index + 1}:`, error);
-          });
-        }
-        
-        // Handle session conflict errors specifically
-        if (data.message && data.message.includes('Session conflicts detected')) {
-          throw new Error(data.message);
-        }
-        
-        throw new Error(data.message || data.errors || 'Failed to update certification');
-      }
-
-      if (data.status === 200 && data.data) {
-        return data.data;
-      }
-
-      throw new Error('Invalid update certification response');
     } catch (error) {
+      // Log detailed validation errors for debugging; session conflicts arrive as the message
+      if (error instanceof ApiError && error.response.errors.length > 0) {
+        error.response.errors.forEach((detail, index) => {
+          console.error(`Validation error ${index + 1}:`, detail);
+        });
+      }
       console.error('Update certification error:', error);
       throw error;
     }
   }
 
   /**
-   * Delete certification
+   * Delete certification; pass its current status to skip looking it up
    */
-  async deleteCertification(id: string): Promise<void> {
-    const token = await tokenService.getValidToken();
-    if (!token) {
-      throw new Error('No valid token available');
-    }
-
+  async deleteCertification(
+    id: string,
+    currentStatus?: number | string | null,
+    options: RequestOptions = {}
+  ): Promise<void> {
     try {
-      const response = await fetch(`${this.baseURL}/${id}`, {
+      await this.assertEditable(id, currentStatus, options);
+
+      await apiClient.send({
+        url: `${this.baseURL}/${id}`,
         method: 'DELETE',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        credentials: 'include',
+        errorMessages: { ...NOT_FOUND, ...LOCKED },
+        errorMessage: 'Failed to delete certification',
+        ...options,
       });
-
-      if (!response.ok) {
-        if (response.status === 401) {
-          tokenService.logout();
-          throw new Error('Session expired');
-        }
-        if (response.status === 404) {
-          throw new Error('Certification not found');
-        }
-        
-        const data = await response.json();
-        throw new Error(data.message || 'Failed to delete certification');
-      }
     } catch (error) {
       console.error('Delete certification error:', error);
       throw error;
@@ -367,42 +272,32 @@ class CertificationService {
   }
 
   /**
-   * Submit certification for approval
+   * Check the edit policy against the given status, or the server's when it's unknown
    */
-  async submitCertification(id: string): Promise<CertificationDocument> {
-    const token = await tokenService.getValidToken();
-    if (!token) {
-      throw new Error('No valid token available');
-    }
+  private async assertEditable(
+    id: string,
+    currentStatus: number | string | null | undefined,
+    options: RequestOptions
+  ): Promise<void> {
+    const status =
+      normalizeCertificationStatus(currentStatus) !== null
+        ? currentStatus
+        : (await this.getCertificationById(id, options)).status;
+    assertCertificationEditable(status);
+  }
 
+  /**
+   * Submit certification for approval
+   */
+  async submitCertification(id: string, options: RequestOptions = {}): Promise<CertificationDocument> {
     try {
-      const response = await fetch(`${this.baseURL}/${id}/submit`, {
+      return await apiClient.request<CertificationDocument>({
+        url: `${this.baseURL}/${id}/submit`,
         method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        credentials: 'include',
+        errorMessages: NOT_FOUND,
+        errorMessage: 'Failed to submit certification',
+        ...options,
       });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        if (response.status === 401) {
-          tokenService.logout();
-          throw new Error('Session expired');
-        }
-        if (response.status === 404) {
-          throw new Error('Certification not found');
-        }
-        throw new Error(data.message || 'Failed to submit certification');
-      }
-
-      if (data.status === 200 && data.data) {
-        return data.data;
-      }
-
-      throw new Error('Invalid submit certification response');
     } catch (error) {
       console.error('Submit certification error:', error);
       throw error;
@@ -413,43 +308,14 @@ class CertificationService {
    * Approve certification (admin only)
    */
   async approveCertification(id: string, notes?: string): Promise<CertificationDocument> {
-    const token = await tokenService.getValidToken();
-    if (!token) {
-      throw new Error('No valid token available');
-    }
-
     try {
-      const response = await fetch(`${this.baseURL}/${id}/approve`, {
+      return await apiClient.request<CertificationDocument>({
+        url: `${this.baseURL}/${id}/approve`,
         method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        credentials: 'include',
-        body: JSON.stringify({ notes }),
+        body: { notes },
+        errorMessages: NOT_FOUND,
+        errorMessage: 'Failed to approve certification',
       });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        if (response.status === 401) {
-          tokenService.logout();
-          throw new Error('Session expired');
-        }
-        if (response.status === 403) {
-          throw new Error('Insufficient permissions');
-        }
-        if (response.status === 404) {
-          throw new Error('Certification not found');
-        }
-        throw new Error(data.message || 'Failed to approve certification');
-      }
-
-      if (data.status === 200 && data.data) {
-        return data.data;
-      }
-
-      throw new Error('Invalid approve certification response');
     } catch (error) {
       console.error('Approve certification error:', error);
       throw error;
@@ -460,45 +326,34 @@ class CertificationService {
    * Reject certification (admin only)
    */
   async rejectCertification(id: string, reason: string): Promise<CertificationDocument> {
-    const token = await tokenService.getValidToken();
-    if (!token) {
-      throw new Error('No valid token available');
+    try {
+      return await apiClient.request<CertificationDocument>({
+        url: `${this.baseURL}/${id}/reject`,
+        method: 'POST',
+        body: { rejectionReason: reason },
+        errorMessages: NOT_FOUND,
+        errorMessage: 'Failed to reject certification',
+      });
+    } catch (error) {
+      console.error('Reject certification error:', error);
+      throw error;
     }
+  }
 
+  /**
+   * Send a submitted certification back to the therapist for changes (admin only)
+   */
+  async requestRevision(id: string, reason: string): Promise<CertificationDocument> {
     try {
-      const response = await fetch(`${this.baseURL}/${id}/reject`, {
+      return await apiClient.request<CertificationDocument>({
+        url: `${this.baseURL}/${id}/request-revision`,
         method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        credentials: 'include',
-        body: JSON.stringify({ rejectionReason: reason }),
+        body: { reason },
+        errorMessages: NOT_FOUND,
+        errorMessage: 'Failed to request revision',
       });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        if (response.status === 401) {
-          tokenService.logout();
-          throw new Error('Session expired');
-        }
-        if (response.status === 403) {
-          throw new Error('Insufficient permissions');
-        }
-        if (response.status === 404) {
-          throw new Error('Certification not found');
-        }
-        throw new Error(data.message || 'Failed to reject certification');
-      }
-
-      if (data.status === 200 && data.data) {
-        return data.data;
-      }
-
-      throw new Error('Invalid reject certification response');
     } catch (error) {
-      console.error('Reject certification error:', error);
+      console.error('Request revision error:', error);
       throw error;
     }
   }
@@ -507,36 +362,11 @@ class CertificationService {
    * Get certification statistics
    */
   async getCertificationStats(): Promise<CertificationStats> {
-    const token = await tokenService.getValidToken();
-    if (!token) {
-      throw new Error('No valid token available');
-    }
-
     try {
-      const response = await fetch(`${this.baseURL}/stats`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        credentials: 'include',
+      return await apiClient.request<CertificationStats>({
+        url: `${this.baseURL}/stats`,
+        errorMessage: 'Failed to fetch certification statistics',
       });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        if (response.status === 401) {
-          tokenService.logout();
-          throw new Error('Session expired');
-        }
-        throw new Error(data.message || 'Failed to fetch certification statistics');
-      }
-
-      if (data.status === 200 && data.data) {
-        return data.data;
-      }
-
-      throw new Error('Invalid certification stats response');
     } catch (error) {
       console.error('Get certification stats error:', error);
       throw error;
@@ -547,36 +377,12 @@ class CertificationService {
    * Get patients
    */
   async getPatients(): Promise<Patient[]> {
-    const token = await tokenService.getValidToken();
-    if (!token) {
-      throw new Error('No valid token available');
-    }
-
     try {
-      const response = await fetch(this.patientsURL, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        credentials: 'include',
+      const data = await apiClient.request<Patient[] | Patient>({
+        url: this.patientsURL,
+        errorMessage: 'Failed to fetch patients',
       });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        if (response.status === 401) {
-          tokenService.logout();
-          throw new Error('Session expired');
-        }
-        throw new Error(data.message || 'Failed to fetch patients');
-      }
-
-      if (data.status === 200 && data.data) {
-        return Array.isArray(data.data) ? data.data : [data.data];
-      }
-
-      throw new Error('Invalid patients response');
+      return Array.isArray(data) ? data : [data];
     } catch (error) {
       console.error('Get patients error:', error);
       throw error;
@@ -587,50 +393,27 @@ class CertificationService {
    * Get therapists (users with therapist role)
    */
   async getTherapists(): Promise<Therapist[]> {
-    const token = await tokenService.getValidToken();
-    if (!token) {
-      throw new Error('No valid token available');
-    }
-
     try {
       // For now, just get all users since role filtering isn't implemented yet
       // TODO: Add role filtering when backend supports it
-      const response = await fetch(this.therapistsURL, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        credentials: 'include',
+      const data = await apiClient.request<Therapist[] | Therapist>({
+        url: this.therapistsURL,
+        errorMessage: 'Failed to fetch therapists',
       });
 
-      const data = await response.json();
-
-      if (!response.ok) {
-        if (response.status === 401) {
-          tokenService.logout();
-          throw new Error('Session expired');
-        }
-        throw new Error(data.message || 'Failed to fetch therapists');
-      }
-
-      if (data.status === 200 && data.data) {
-        const users = Array.isArray(data.data) ? data.data : [data.data];
-        // Map user data to therapist format
-        return users.map((user: any) => ({
-          id: user.id,
-          fullName: user.fullName,
-          email: user.email,
-          phone: user.phone,
-          specialization: user.specialization,
-          licenseNumber: user.licenseNumber,
-          isActive: user.isActive,
-          createdAt: user.createdAt,
-          lastModifiedAt: user.lastModifiedAt,
-        }));
-      }
-
-      throw new Error('Invalid therapists response');
+      const users = Array.isArray(data) ? data : [data];
+      // Map user data to therapist format
+      return users.map((user) => ({
+        id: user.id,
+        fullName: user.fullName,
+        email: user.email,
+        phone: user.phone,
+        specialization: user.specialization,
+        licenseNumber: user.licenseNumber,
+        isActive: user.isActive,
+        createdAt: user.createdAt,
+        lastModifiedAt: user.lastModifiedAt,
+      }));
     } catch (error) {
       console.error('Get therapists error:', error);
       throw error;
@@ -641,48 +424,20 @@ class CertificationService {
    * Export certifications
    */
   async exportCertifications(options: CertificationExportOptions): Promise<Blob> {
-    const token = await tokenService.getValidToken();
-    if (!token) {
-      throw new Error('No valid token available');
-    }
-
     try {
-      const queryParams = new URLSearchParams();
-      queryParams.append('format', options.format);
-      
-      if (options.dateRange) {
-        queryParams.append('startDate', options.dateRange.startDate);
-        queryParams.append('endDate', options.dateRange.endDate);
-      }
-      
-      if (options.filters) {
-        Object.entries(options.filters).forEach(([key, value]) => {
-          if (value !== undefined && value !== null) {
-            queryParams.append(key, value.toString());
-          }
-        });
-      }
-      
-      if (options.includeDetails) queryParams.append('includeDetails', 'true');
-      if (options.includeSessions) queryParams.append('includeSessions', 'true');
-
-      const response = await fetch(`${this.baseURL}/export?${queryParams}`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
+      return await apiClient.send<Blob>({
+        url: `${this.baseURL}/export`,
+        params: {
+          format: options.format,
+          startDate: options.dateRange?.startDate,
+          endDate: options.dateRange?.endDate,
+          ...options.filters,
+          includeDetails: options.includeDetails || undefined,
+          includeSessions: options.includeSessions || undefined,
         },
-        credentials: 'include',
+        responseType: 'blob',
+        errorMessage: 'Failed to export certifications',
       });
-
-      if (!response.ok) {
-        if (response.status === 401) {
-          tokenService.logout();
-          throw new Error('Session expired');
-        }
-        throw new Error('Failed to export certifications');
-      }
-
-      return await response.blob();
     } catch (error) {
       console.error('Export certifications error:', error);
       throw error;
@@ -693,38 +448,14 @@ class CertificationService {
    * Download certification PDF
    */
   async downloadCertificationPDF(id: string): Promise<void> {
-    const token = await tokenService.getValidToken();
-    if (!token) {
-      throw new Error('No valid token available');
-    }
-
     try {
-      const response = await fetch(`${this.baseURL}/${id}/certification-pdf`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
-        credentials: 'include',
+      const blob = await apiClient.send<Blob>({
+        url: `${this.baseURL}/${id}/certification-pdf`,
+        responseType: 'blob',
+        errorMessage: 'Failed to download certification PDF',
       });
 
-      if (!response.ok) {
-        if (response.status === 401) {
-          tokenService.logout();
-          throw new Error('Session expired');
-        }
-        throw new Error('Failed to download certification PDF');
-      }
-
-      // Create blob and download
-      const blob = await response.blob();
-      const url = window.URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = `certification-${id}.pdf`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      window.URL.revokeObjectURL(url);
+      downloadBlob(blob, `certification-${id}.pdf`);
     } catch (error) {
       console.error('Download certification PDF error:', error);
       throw error;
@@ -0,0 +1,104 @@
+// Certification Template Service - per-patient templates and prefill lookup
+import { apiClient, ApiError } from '@/services/apiClient';
+import { certificationService } from './certificationService';
+import {
+  extractTemplateFields,
+  findPreviousCertification,
+} from '../utils/certificationTemplates';
+import { resolveMonthNumber } from '../utils/sessionGeneration';
+import type {
+  CertificationPrefill,
+  CertificationTemplate,
+  CertificationTemplateFields,
+} from '../types/certification.types';
+
+class CertificationTemplateService {
+  private readonly patientsURL = '/api/patients';
+
+  /**
+   * Get saved templates for a patient
+   */
+  async getTemplates(patientId: string): Promise<CertificationTemplate[]> {
+    try {
+      const data = await apiClient.request<CertificationTemplate[] | CertificationTemplate>({
+        url: `${this.patientsURL}/${patientId}/certification-templates`,
+        errorMessage: 'Failed to fetch certification templates',
+      });
+      return Array.isArray(data) ? data : [data];
+    } catch (error) {
+      // Patients without templates yet
+      if (error instanceof ApiError && error.status === 404) {
+        return [];
+      }
+      console.error('Get certification templates error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Save (create or replace) the template for a patient and therapy type
+   */
+  async saveTemplate(
+    patientId: string,
+    therapyType: number | string,
+    fields: CertificationTemplateFields
+  ): Promise<CertificationTemplate> {
+    try {
+      return await apiClient.request<CertificationTemplate>({
+        url: `${this.patientsURL}/${patientId}/certification-templates`,
+        method: 'PUT',
+        body: { ...fields, patientId, therapyType },
+        errorMessage: 'Failed to save certification template',
+      });
+    } catch (error) {
+      console.error('Save certification template error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find what to prefill a new certification with: the patient's latest
+   * template (matching therapy type first), else their previous certification
+   */
+  async getPrefill(patientId: string, therapyType?: number | string): Promise<CertificationPrefill | null> {
+    try {
+      const templates = await this.getTemplates(patientId);
+      const byLastUsed = [...templates].sort((a, b) => b.lastUsed.localeCompare(a.lastUsed));
+      const template =
+        byLastUsed.find((t) => therapyType !== undefined && String(t.therapyType) === String(therapyType)) ||
+        byLastUsed[0];
+
+      if (template) {
+        return {
+          source: 'template',
+          description: 'Prefilled from the saved template for this patient',
+          therapyType: template.therapyType,
+          fields: extractTemplateFields(template),
+        };
+      }
+    } catch (error) {
+      // Fall back to the previous certification
+      console.warn('Certification templates unavailable:', error);
+    }
+
+    const { certifications } = await certificationService.getCertifications({ patientId, pageSize: 50 });
+    const previous = findPreviousCertification(certifications);
+    if (!previous) return null;
+
+    // List responses may omit schedules
+    const full = previous.schedules ? previous : await certificationService.getCertificationById(previous.id);
+    const monthLabel = new Date(full.year, (resolveMonthNumber(full.month) || 1) - 1, 1)
+      .toLocaleDateString('en-US', { month: 'long' });
+
+    return {
+      source: 'previousCertification',
+      description: `Prefilled from the ${monthLabel} ${full.year} certification`,
+      therapyType: full.therapyType,
+      fields: extractTemplateFields(full),
+    };
+  }
+}
+
+// Singleton instance
+export const certificationTemplateService = new CertificationTemplateService();
+export default certificationTemplateService;
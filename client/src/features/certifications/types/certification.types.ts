@@ -1,5 +1,7 @@
 // Certification Feature Types - Comprehensive Type System
 // Updated to match backend CertificationResponse
+import type { AttendanceStatus } from '../../../shared/constants/enums';
+import type { RequestOptions } from '../../../shared/types/api';
 
 export interface CertificationDocument {
   id: string;
@@ -18,6 +20,8 @@ export interface CertificationDocument {
   approvedAt?: string;
   rejectedAt?: string;
   rejectionReason?: string;
+  revisionRequestedAt?: string;
+  revisionReason?: string; // Set when an admin returns the certification to draft
   notes?: string;
   createdAt: string;
   lastModifiedAt?: string;
@@ -61,6 +65,61 @@ export interface ScheduleRequest {
   location?: string;
 }
 
+// Reusable monthly fields, prefilled into new certifications
+export type CertificationTemplateFields = Pick<
+  CertificationDocument,
+  | 'fileNumber'
+  | 'registrationNumber'
+  | 'referralNumber'
+  | 'isPrivate'
+  | 'hasPrivatePlan'
+  | 'isProvisionalRemedy'
+  | 'frequencyPerWeek'
+  | 'duration'
+  | 'location'
+> & {
+  schedules?: ScheduleRequest[];
+};
+
+export interface CertificationTemplate extends CertificationTemplateFields {
+  id: string;
+  patientId: string;
+  therapyType: number | string;
+  createdAt: string;
+  lastUsed: string;
+}
+
+export interface CertificationPrefill {
+  source: 'template' | 'previousCertification';
+  description: string;
+  therapyType?: number | string;
+  fields: CertificationTemplateFields;
+}
+
+// Session generated from a schedule, previewed before bulk creation
+export interface GeneratedSessionPreview {
+  key: string;
+  sessionDate: string; // yyyy-MM-dd
+  sessionTime: string; // HH:mm
+  endTime: string; // HH:mm
+  location: string;
+  dayOfWeek: number;
+  weekOfMonth: number;
+  selected: boolean;
+  exceedsFrequency: boolean;
+  alreadyExists: boolean;
+  unavailableReason?: string; // Taken, blocked or outside working hours
+}
+
+// Current-month certification offered for roll-over into the next month
+export interface CertificationRolloverRow {
+  certification: CertificationDocument;
+  selected: boolean;
+  alreadyRolledOver: boolean;
+  result?: 'success' | 'error';
+  message?: string;
+}
+
 export interface Patient {
   id: string;
   fullName: string;
@@ -103,6 +162,10 @@ export interface TherapySession {
   signatureName?: string;
   signatureNotes?: string;
   signatureDate?: string;
+  isReposicion?: boolean;
+  originalSessionId?: string;
+  attendanceStatus?: AttendanceStatus;
+  attendanceReason?: string;
 }
 
 export enum CertificationStatus {
@@ -182,6 +245,26 @@ export interface CertificationsResponse {
   hasPrevious: boolean;
 }
 
+// Per-certification session breakdown used by the billing office
+export interface CertificationSessionStatistics {
+  certificationId: string;
+  month: number;
+  year: number;
+  totalScheduled: number;
+  totalCompleted: number;
+  totalExcused: number;
+  totalUnexcusedAbsences: number;
+  totalCancelled: number;
+  sessionsBy30Min: number;
+  sessionsBy45Min: number;
+  sessionsBy60Min: number;
+  sessionsWithTransport: number;
+  sessionsWithoutTransport: number;
+  transportOverrides: number; // Completed sessions whose transportation was set by hand
+  reposicionSessions: number;
+  lastUpdated: string;
+}
+
 export interface CertificationStats {
   totalCertifications: number;
   draftCertifications: number;
@@ -236,6 +319,7 @@ export interface CertificationListProps {
   onEditCertification?: (certification: CertificationDocument) => void;
   onDeleteCertification?: (certificationId: string) => void;
   onSubmitCertification?: (certificationId: string) => void;
+  onCloneCertification?: (certification: CertificationDocument) => void;
   showPatientName?: boolean;
   showTherapistName?: boolean;
   className?: string;
@@ -249,6 +333,7 @@ export interface CertificationCardProps {
   onDelete?: () => void;
   onSubmit?: () => void;
   onViewSessions?: () => void;
+  onClone?: () => void;
   showPatientName?: boolean;
   showTherapistName?: boolean;
   className?: string;
@@ -313,10 +398,14 @@ export interface UseCertificationsReturn {
   
   // Actions
   loadCertifications: (filter?: CertificationsFilter) => Promise<void>;
-  createCertification: (data: CreateCertificationRequest) => Promise<CertificationDocument>;
-  updateCertification: (id: string, data: UpdateCertificationRequest) => Promise<CertificationDocument>;
-  deleteCertification: (id: string) => Promise<void>;
-  submitCertification: (id: string) => Promise<CertificationDocument>;
+  createCertification: (data: CreateCertificationRequest, options?: RequestOptions) => Promise<CertificationDocument>;
+  updateCertification: (
+    id: string,
+    data: UpdateCertificationRequest,
+    options?: RequestOptions
+  ) => Promise<CertificationDocument>;
+  deleteCertification: (id: string, options?: RequestOptions) => Promise<void>;
+  submitCertification: (id: string, options?: RequestOptions) => Promise<CertificationDocument>;
   selectCertification: (certification: CertificationDocument | null) => void;
   setFilter: (filter: CertificationsFilter) => void;
   clearError: () => void;
@@ -0,0 +1,140 @@
+// Certification Export - columns and CSV/XLSX export of certification lists
+import type { CertificationDocument } from '../types/certification.types';
+import type { TherapySession } from '../../sessions/types/session.types';
+import { sessionService } from '../../sessions/services/sessionService';
+import { SESSION_EXPORT_COLUMNS, sortSessionsForExport } from '../../sessions/utils/sessionExport';
+import { translationService } from '../../../shared/constants/translations';
+import {
+  buildCsv,
+  buildXlsx,
+  getExportFilename,
+  selectExportColumns,
+  toExportRows,
+  type ExportCellValue,
+  type ExportColumn,
+  type ExportSheet,
+  type TableExportOptions,
+} from '../../../shared/utils/tableExport';
+import { downloadBlob } from '../../../shared/utils/download';
+
+// Patient, therapist and certification are already on the certification rows
+const CERTIFICATION_SESSION_COLUMN_KEYS = [
+  'sessionDate',
+  'sessionTime',
+  'endTime',
+  'location',
+  'transportationRequired',
+  'attendance',
+  'attendanceReason',
+  'isReposicion',
+  'signature',
+  'notes',
+];
+
+const toDate = (value?: string): Date | null => (value ? new Date(value) : null);
+
+const getPeriod = (certification: CertificationDocument): string =>
+  `${translationService.getMonthName(certification.month)} ${certification.year}`;
+
+export const CERTIFICATION_EXPORT_COLUMNS: ExportColumn<CertificationDocument>[] = [
+  { key: 'patientName', label: 'Patient', value: (c) => c.patientName || c.patient?.fullName },
+  { key: 'therapistName', label: 'Therapist', value: (c) => c.therapistName || c.therapist?.fullName },
+  {
+    key: 'therapyType',
+    label: 'Therapy Type',
+    value: (c) => translationService.getTherapyTypeName(c.therapyType),
+  },
+  { key: 'period', label: 'Period', value: getPeriod },
+  {
+    key: 'status',
+    label: 'Status',
+    value: (c) => translationService.getCertificationStatusName(c.status),
+  },
+  { key: 'sessionCount', label: 'Sessions', value: (c) => c.sessionCount ?? c.totalSessions },
+  { key: 'completedSessions', label: 'Completed Sessions', value: (c) => c.completedSessions },
+  { key: 'fileNumber', label: 'File Number', value: (c) => c.fileNumber },
+  { key: 'registrationNumber', label: 'Registration Number', value: (c) => c.registrationNumber },
+  { key: 'referralNumber', label: 'Referral Number', value: (c) => c.referralNumber },
+  { key: 'location', label: 'Location', value: (c) => c.location },
+  { key: 'frequencyPerWeek', label: 'Frequency per Week', value: (c) => c.frequencyPerWeek },
+  { key: 'duration', label: 'Duration (min)', value: (c) => c.duration },
+  { key: 'isPrivate', label: 'Private', value: (c) => !!c.isPrivate },
+  { key: 'isProvisionalRemedy', label: 'Provisional Remedy', value: (c) => !!c.isProvisionalRemedy },
+  { key: 'submittedAt', label: 'Submitted', value: (c) => toDate(c.submittedAt) },
+  { key: 'approvedAt', label: 'Approved', value: (c) => toDate(c.approvedAt) },
+  { key: 'createdAt', label: 'Created', value: (c) => toDate(c.createdAt) },
+  { key: 'notes', label: 'Notes', value: (c) => c.notes },
+];
+
+const SESSION_COLUMNS = selectExportColumns(SESSION_EXPORT_COLUMNS, CERTIFICATION_SESSION_COLUMN_KEYS);
+
+/**
+ * Flat CSV rows: one per session when sessions are included, otherwise one per certification
+ */
+const buildCsvRows = (
+  certifications: CertificationDocument[],
+  columns: ExportColumn<CertificationDocument>[],
+  sessionsByCertification: Map<string, TherapySession[]> | null
+): ExportCellValue[][] => {
+  if (!sessionsByCertification) return toExportRows(certifications, columns);
+
+  const header = [...columns, ...SESSION_COLUMNS].map((column) => column.label);
+  const rows = certifications.flatMap((certification) => {
+    const certificationCells = columns.map((column) => column.value(certification));
+    const sessions = sessionsByCertification.get(certification.id) || [];
+    if (sessions.length === 0) return [certificationCells];
+    return sessions.map((session) => [
+      ...certificationCells,
+      ...SESSION_COLUMNS.map((column) => column.value(session)),
+    ]);
+  });
+  return [header, ...rows];
+};
+
+/**
+ * Workbook with a summary sheet and one sheet per certification
+ */
+const buildSheets = (
+  certifications: CertificationDocument[],
+  columns: ExportColumn<CertificationDocument>[],
+  sessionsByCertification: Map<string, TherapySession[]> | null
+): ExportSheet[] => [
+  { name: 'Certifications', rows: toExportRows(certifications, columns) },
+  ...certifications.map((certification) => {
+    const details = columns.map((column) => [column.label, column.value(certification)]);
+    const sessions = sessionsByCertification?.get(certification.id);
+    const sessionRows = sessions ? toExportRows(sessions, SESSION_COLUMNS) : [];
+    return {
+      name: `${certification.patientName || 'Certification'} ${certification.month}-${certification.year}`,
+      rows: [...details, ...(sessions ? [[], ...sessionRows] : [])],
+      // Detail labels are in the first column, so only the sessions header is bold
+      headerRows: sessions ? [details.length + 1] : [],
+    };
+  }),
+];
+
+/**
+ * Download the given certifications as CSV or XLSX, optionally with their sessions
+ */
+export const exportCertifications = async (
+  certifications: CertificationDocument[],
+  options: TableExportOptions
+): Promise<void> => {
+  const columns = selectExportColumns(CERTIFICATION_EXPORT_COLUMNS, options.columns);
+
+  let sessionsByCertification: Map<string, TherapySession[]> | null = null;
+  if (options.includeSessions) {
+    const sessions = await Promise.all(
+      certifications.map((certification) => sessionService.getSessionsByCertification(certification.id))
+    );
+    sessionsByCertification = new Map(
+      certifications.map((certification, index) => [certification.id, sortSessionsForExport(sessions[index])])
+    );
+  }
+
+  const blob =
+    options.format === 'csv'
+      ? buildCsv(buildCsvRows(certifications, columns, sessionsByCertification), options.locale)
+      : buildXlsx(buildSheets(certifications, columns, sessionsByCertification));
+  downloadBlob(blob, getExportFilename('certifications', options.format));
+};
@@ -0,0 +1,291 @@
+// Certification PDF - client-side rendering of the monthly certification form
+import { format } from 'date-fns';
+import type { CertificationDocument } from '../types/certification.types';
+import type { TherapySession } from '../../sessions/types/session.types';
+import { AttendanceStatus } from '../../../shared/constants/enums';
+import { getAttendanceStatus } from '../../sessions/utils/attendance';
+import { getSessionMinutes } from '../../sessions/utils/calendar';
+import { computeCertificationStatistics } from './certificationStatistics';
+import { PdfDocument, loadPdfImage, type PdfImage } from '../../../shared/utils/pdfDocument';
+import { getMonthName, getTherapyTypeName } from '../../../shared/utils/translations';
+import { minutesToTime, toDateOnly } from '../../../shared/utils/timeUtils';
+
+export interface CertificationPdfOptions {
+  sessions: TherapySession[];
+  specialistName?: string;
+  specialistSignature?: string; // Image data URL
+}
+
+const MARGIN = 40;
+const ROW_HEIGHT = 30;
+const HEADER_ROW_HEIGHT = 18;
+const FOOTER_HEIGHT = 190;
+const PAGE_NUMBER_OFFSET = 24;
+
+const COLUMNS = [
+  { key: 'index', label: '#', width: 22 },
+  { key: 'date', label: 'Date', width: 70 },
+  { key: 'time', label: 'Time', width: 80 },
+  { key: 'location', label: 'Location', width: 120 },
+  { key: 'transport', label: 'Transport', width: 50 },
+  { key: 'attendance', label: 'Attendance', width: 90 },
+  { key: 'signature', label: 'Parent Signature', width: 100 },
+] as const;
+
+type ColumnKey = (typeof COLUMNS)[number]['key'];
+
+const ATTENDANCE_LABELS: Record<AttendanceStatus, string> = {
+  [AttendanceStatus.ATTENDED]: 'Attended',
+  [AttendanceStatus.EXCUSED_ABSENCE]: 'Excused absence',
+  [AttendanceStatus.UNEXCUSED_ABSENCE]: 'Unexcused absence',
+  [AttendanceStatus.CANCELLED_BY_THERAPIST]: 'Cancelled',
+};
+
+const parseDate = (value?: string): Date | null => {
+  if (!value) return null;
+  const parsed = new Date(`${toDateOnly(value)}T00:00:00`);
+  return isNaN(parsed.getTime()) ? null : parsed;
+};
+
+const sortSessions = (sessions: TherapySession[]): TherapySession[] =>
+  [...sessions].sort(
+    (a, b) =>
+      toDateOnly(a.sessionDate).localeCompare(toDateOnly(b.sessionDate)) ||
+      (a.sessionTime || '').localeCompare(b.sessionTime || '')
+  );
+
+/**
+ * Signature images by session id; unreadable images are left out
+ */
+const loadSignatures = async (sessions: TherapySession[]): Promise<Map<string, PdfImage>> => {
+  const entries = await Promise.all(
+    sessions
+      .filter((session) => session.signatureImageData?.trim())
+      .map(async (session) => {
+        try {
+          return [session.id, await loadPdfImage(session.signatureImageData!)] as const;
+        } catch {
+          return null;
+        }
+      })
+  );
+  return new Map(entries.filter((entry) => entry !== null));
+};
+
+const getCellText = (session: TherapySession, key: Exclude<ColumnKey, 'signature'>, index: number): string => {
+  switch (key) {
+    case 'index':
+      return String(index + 1);
+    case 'date': {
+      const date = parseDate(session.sessionDate);
+      return date ? format(date, 'EEE MM/dd') : '';
+    }
+    case 'time': {
+      const { start, end } = getSessionMinutes(session);
+      return `${minutesToTime(start)} - ${minutesToTime(end)}`;
+    }
+    case 'location':
+      return session.location || '';
+    case 'transport':
+      return session.transportationRequired ? 'Yes' : 'No';
+    case 'attendance':
+      return ATTENDANCE_LABELS[getAttendanceStatus(session)];
+  }
+};
+
+const drawTableHeader = (pdf: PdfDocument, y: number): number => {
+  const tableWidth = pdf.width - MARGIN * 2;
+  pdf.rect(MARGIN, y, tableWidth, HEADER_ROW_HEIGHT, { fill: 0.9 });
+  let x = MARGIN;
+  COLUMNS.forEach((column) => {
+    pdf.text(column.label, x + 4, y + 12, { size: 8, font: 'bold' });
+    x += column.width;
+  });
+  pdf.rect(MARGIN, y, tableWidth, HEADER_ROW_HEIGHT);
+  return y + HEADER_ROW_HEIGHT;
+};
+
+const drawSessionRow = (
+  pdf: PdfDocument,
+  session: TherapySession,
+  index: number,
+  y: number,
+  signature?: PdfImage
+): void => {
+  let x = MARGIN;
+  COLUMNS.forEach((column) => {
+    if (column.key === 'signature') {
+      if (signature) {
+        pdf.image(signature, x + 4, y + 3, column.width - 8, ROW_HEIGHT - 6);
+      } else if (session.signatureName) {
+        pdf.text(pdf.fitText(session.signatureName, column.width - 8, 8), x + 4, y + 18, { size: 8 });
+      }
+    } else {
+      const text = pdf.fitText(getCellText(session, column.key, index), column.width - 8, 8);
+      const isMakeup = column.key === 'attendance' && session.isReposicion;
+      pdf.text(text, x + 4, isMakeup ? y + 13 : y + 18, { size: 8 });
+      if (isMakeup) {
+        pdf.text('Makeup session', x + 4, y + 24, { size: 7, gray: 0.4 });
+      }
+    }
+    x += column.width;
+    if (x < pdf.width - MARGIN) {
+      pdf.line(x, y, x, y + ROW_HEIGHT, 0.5, 0.6);
+    }
+  });
+  pdf.rect(MARGIN, y, pdf.width - MARGIN * 2, ROW_HEIGHT);
+};
+
+const drawHeader = (pdf: PdfDocument, certification: CertificationDocument): number => {
+  const patientName = certification.patientName || certification.patient?.fullName || '';
+  const therapistName = certification.therapistName || certification.therapist?.fullName || '';
+  const columnWidth = (pdf.width - MARGIN * 2) / 2;
+
+  pdf.text('MONTHLY THERAPY SERVICES CERTIFICATION', pdf.width / 2, 50, { size: 14, font: 'bold', align: 'center' });
+  pdf.text(
+    `${getTherapyTypeName(certification.therapyType)} - ${getMonthName(certification.month)} ${certification.year}`,
+    pdf.width / 2,
+    66,
+    { size: 10, align: 'center' }
+  );
+
+  const planTypes = [
+    certification.isPrivate ? 'Private' : '',
+    certification.hasPrivatePlan ? 'Private plan' : '',
+    certification.isProvisionalRemedy ? 'Provisional remedy' : '',
+  ].filter(Boolean);
+  const fields: Array<[string, string]> = [
+    ['Patient', patientName],
+    ['Therapist', therapistName],
+    ['File Number', certification.fileNumber || ''],
+    ['Location', certification.location || ''],
+    ['Registration Number', certification.registrationNumber || ''],
+    ['Frequency', certification.frequencyPerWeek ? `${certification.frequencyPerWeek} per week` : ''],
+    ['Referral Number', certification.referralNumber || ''],
+    ['Duration', certification.duration ? `${certification.duration} minutes` : ''],
+    ['Plan', planTypes.join(', ') || 'Standard'],
+  ];
+
+  let y = 90;
+  fields.forEach(([label, value], index) => {
+    const x = MARGIN + (index % 2) * columnWidth;
+    pdf.text(`${label}:`, x, y, { size: 9, font: 'bold' });
+    const labelWidth = pdf.measureText(`${label}: `, 9, 'bold');
+    pdf.text(pdf.fitText(value, columnWidth - labelWidth - 10, 9), x + labelWidth, y, { size: 9 });
+    pdf.line(x + labelWidth, y + 3, x + columnWidth - 10, y + 3, 0.5, 0.7);
+    if (index % 2 === 1) y += 18;
+  });
+
+  return y + (fields.length % 2 === 1 ? 18 : 0) + 6;
+};
+
+const drawFooter = (
+  pdf: PdfDocument,
+  certification: CertificationDocument,
+  options: CertificationPdfOptions,
+  specialistSignature: PdfImage | null,
+  y: number
+): void => {
+  const contentWidth = pdf.width - MARGIN * 2;
+
+  pdf.text('Observations', MARGIN, y, { size: 9, font: 'bold' });
+  const observations = pdf.wrapText(certification.notes || '', contentWidth - 12, 9).slice(0, 5);
+  pdf.rect(MARGIN, y + 6, contentWidth, 70);
+  observations.forEach((line, index) => {
+    pdf.text(line, MARGIN + 6, y + 20 + index * 12, { size: 9 });
+  });
+
+  const signatureTop = y + 96;
+  const lineY = signatureTop + 50;
+  const halfWidth = contentWidth / 2;
+  if (specialistSignature) {
+    pdf.image(specialistSignature, MARGIN, signatureTop, halfWidth - 40, 46);
+  }
+  pdf.line(MARGIN, lineY, MARGIN + halfWidth - 40, lineY);
+  pdf.text('Specialist Signature', MARGIN, lineY + 12, { size: 8, gray: 0.4 });
+  const specialistName = options.specialistName || certification.therapistName || '';
+  pdf.text(specialistName, MARGIN, lineY + 24, { size: 9 });
+
+  const dateX = MARGIN + halfWidth;
+  const specialistDate = parseDate(certification.specialistDate);
+  if (specialistDate) {
+    pdf.text(format(specialistDate, 'MMMM d, yyyy'), dateX, lineY - 6, { size: 10 });
+  }
+  pdf.line(dateX, lineY, pdf.width - MARGIN, lineY);
+  pdf.text('Date', dateX, lineY + 12, { size: 8, gray: 0.4 });
+};
+
+/**
+ * Render the monthly certification as a PDF, including signature images
+ */
+export const renderCertificationPdf = async (
+  certification: CertificationDocument,
+  options: CertificationPdfOptions
+): Promise<Blob> => {
+  const sessions = sortSessions(options.sessions);
+  const [signatures, specialistSignature] = await Promise.all([
+    loadSignatures(sessions),
+    options.specialistSignature
+      ? loadPdfImage(options.specialistSignature).catch(() => null)
+      : Promise.resolve(null),
+  ]);
+
+  const pdf = new PdfDocument({
+    title: `Certification ${getMonthName(certification.month)} ${certification.year}`,
+  });
+  const pageBottom = pdf.height - MARGIN - PAGE_NUMBER_OFFSET;
+
+  let y = drawHeader(pdf, certification);
+  y = drawTableHeader(pdf, y);
+
+  if (sessions.length === 0) {
+    pdf.rect(MARGIN, y, pdf.width - MARGIN * 2, ROW_HEIGHT);
+    pdf.text('No sessions recorded for this month', pdf.width / 2, y + 18, { size: 9, align: 'center', gray: 0.4 });
+    y += ROW_HEIGHT;
+  }
+  sessions.forEach((session, index) => {
+    if (y + ROW_HEIGHT > pageBottom) {
+      pdf.addPage();
+      y = drawTableHeader(pdf, MARGIN);
+    }
+    drawSessionRow(pdf, session, index, y, signatures.get(session.id));
+    y += ROW_HEIGHT;
+  });
+
+  const statistics = computeCertificationStatistics(certification, sessions);
+  const summary = [
+    `Scheduled: ${statistics.totalScheduled}`,
+    `Completed: ${statistics.totalCompleted}`,
+    `Excused absences: ${statistics.totalExcused}`,
+    `Unexcused absences: ${statistics.totalUnexcusedAbsences}`,
+    `Cancelled: ${statistics.totalCancelled}`,
+    `Makeup sessions: ${statistics.reposicionSessions}`,
+  ].join('    ');
+  if (y + 20 + FOOTER_HEIGHT > pageBottom) {
+    pdf.addPage();
+    y = MARGIN;
+  }
+  pdf.text(pdf.fitText(summary, pdf.width - MARGIN * 2, 8), MARGIN, y + 16, { size: 8, font: 'bold' });
+  drawFooter(pdf, certification, options, specialistSignature, y + 40);
+
+  const generatedAt = format(new Date(), 'MM/dd/yyyy HH:mm');
+  for (let page = 0; page < pdf.pageCount; page++) {
+    pdf.setPage(page);
+    const textY = pdf.height - PAGE_NUMBER_OFFSET;
+    pdf.text(`Generated ${generatedAt}`, MARGIN, textY, { size: 7, gray: 0.5 });
+    pdf.text(`Page ${page + 1} of ${pdf.pageCount}`, pdf.width - MARGIN, textY, { size: 7, gray: 0.5, align: 'right' });
+  }
+
+  return pdf.toBlob();
+};
+
+/**
+ * File name such as certification-jane-doe-2025-03.pdf
+ */
+export const getCertificationPdfFilename = (certification: CertificationDocument): string => {
+  const patient = (certification.patientName || certification.patient?.fullName || certification.id)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+  return `certification-${patient}-${certification.year}-${String(certification.month).padStart(2, '0')}.pdf`;
+};
@@ -0,0 +1,124 @@
+// Certification Statistics - session breakdown computed from a certification's sessions
+import type {
+  CertificationDocument,
+  CertificationSessionStatistics,
+} from '../types/certification.types';
+import type { TherapySession } from '../../sessions/types/session.types';
+import { AttendanceStatus } from '../../../shared/constants/enums';
+import { getAttendanceStatus, isBillableSession } from '../../sessions/utils/attendance';
+import { timeToMinutes } from '../../../shared/utils/timeUtils';
+
+type StatisticsSession = Pick<
+  TherapySession,
+  | 'sessionTime'
+  | 'endTime'
+  | 'transportationRequired'
+  | 'transportationOverride'
+  | 'attendanceStatus'
+  | 'isReposicion'
+> & { parentSignatureStatus?: number | string };
+
+const emptyStatistics = (
+  certificationId: string,
+  month: number,
+  year: number
+): CertificationSessionStatistics => ({
+  certificationId,
+  month,
+  year,
+  totalScheduled: 0,
+  totalCompleted: 0,
+  totalExcused: 0,
+  totalUnexcusedAbsences: 0,
+  totalCancelled: 0,
+  sessionsBy30Min: 0,
+  sessionsBy45Min: 0,
+  sessionsBy60Min: 0,
+  sessionsWithTransport: 0,
+  sessionsWithoutTransport: 0,
+  transportOverrides: 0,
+  reposicionSessions: 0,
+  lastUpdated: new Date().toISOString(),
+});
+
+/**
+ * Session length in minutes, from its own times or the certification's duration
+ */
+const getSessionDuration = (session: StatisticsSession, fallback?: number): number => {
+  if (session.sessionTime && session.endTime) {
+    const minutes = timeToMinutes(session.endTime) - timeToMinutes(session.sessionTime);
+    if (minutes > 0) return minutes;
+  }
+  return fallback || 30;
+};
+
+/**
+ * Compute the statistics for one certification.
+ * Duration and transport breakdowns only cover completed (billable) sessions.
+ */
+export const computeCertificationStatistics = (
+  certification: Pick<CertificationDocument, 'id' | 'month' | 'year' | 'duration'>,
+  sessions: StatisticsSession[]
+): CertificationSessionStatistics => {
+  const statistics = emptyStatistics(certification.id, certification.month, certification.year);
+
+  sessions.forEach((session) => {
+    statistics.totalScheduled++;
+    if (session.isReposicion) statistics.reposicionSessions++;
+
+    switch (getAttendanceStatus(session)) {
+      case AttendanceStatus.EXCUSED_ABSENCE:
+        statistics.totalExcused++;
+        return;
+      case AttendanceStatus.UNEXCUSED_ABSENCE:
+        statistics.totalUnexcusedAbsences++;
+        return;
+      case AttendanceStatus.CANCELLED_BY_THERAPIST:
+        statistics.totalCancelled++;
+        return;
+    }
+
+    if (!isBillableSession(session)) return;
+
+    statistics.totalCompleted++;
+
+    const duration = getSessionDuration(session, certification.duration);
+    if (duration <= 30) statistics.sessionsBy30Min++;
+    else if (duration <= 45) statistics.sessionsBy45Min++;
+    else statistics.sessionsBy60Min++;
+
+    if (session.transportationRequired) statistics.sessionsWithTransport++;
+    else statistics.sessionsWithoutTransport++;
+    if (session.transportationOverride) statistics.transportOverrides++;
+  });
+
+  return statistics;
+};
+
+/**
+ * Sum statistics across certifications; month/year are kept only when shared by all
+ */
+export const aggregateCertificationStatistics = (
+  statistics: CertificationSessionStatistics[]
+): CertificationSessionStatistics => {
+  const first = statistics[0];
+  const sameMonth = statistics.every((s) => s.month === first?.month && s.year === first?.year);
+  const total = emptyStatistics('all', sameMonth && first ? first.month : 0, sameMonth && first ? first.year : 0);
+
+  statistics.forEach((s) => {
+    total.totalScheduled += s.totalScheduled;
+    total.totalCompleted += s.totalCompleted;
+    total.totalExcused += s.totalExcused;
+    total.totalUnexcusedAbsences += s.totalUnexcusedAbsences;
+    total.totalCancelled += s.totalCancelled;
+    total.sessionsBy30Min += s.sessionsBy30Min;
+    total.sessionsBy45Min += s.sessionsBy45Min;
+    total.sessionsBy60Min += s.sessionsBy60Min;
+    total.sessionsWithTransport += s.sessionsWithTransport;
+    total.sessionsWithoutTransport += s.sessionsWithoutTransport;
+    total.transportOverrides += s.transportOverrides;
+    total.reposicionSessions += s.reposicionSessions;
+  });
+
+  return total;
+};
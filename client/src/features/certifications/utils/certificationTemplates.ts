@@ -0,0 +1,79 @@
+// Certification Templates - reusable monthly fields and period helpers
+import type {
+  CertificationDocument,
+  CertificationTemplateFields,
+  CreateCertificationRequest,
+} from '../types/certification.types';
+import { CertificationStatus } from '../types/certification.types';
+import { resolveMonthNumber } from './sessionGeneration';
+
+/**
+ * Copy the fields that carry over from month to month
+ */
+export const extractTemplateFields = (
+  certification: CertificationTemplateFields | Partial<CertificationDocument>
+): CertificationTemplateFields => ({
+  fileNumber: certification.fileNumber,
+  registrationNumber: certification.registrationNumber,
+  referralNumber: certification.referralNumber,
+  isPrivate: certification.isPrivate ?? false,
+  hasPrivatePlan: certification.hasPrivatePlan ?? false,
+  isProvisionalRemedy: certification.isProvisionalRemedy ?? false,
+  frequencyPerWeek: certification.frequencyPerWeek,
+  duration: certification.duration,
+  location: certification.location,
+  schedules: (certification.schedules || [])
+    .filter((schedule) => !('isActive' in schedule) || schedule.isActive !== false)
+    .map((schedule) => ({
+      dayOfWeek: schedule.dayOfWeek,
+      startTime: schedule.startTime,
+      location: schedule.location || '',
+    })),
+});
+
+/**
+ * The month following a certification period
+ */
+export const getNextPeriod = (month: number | string, year: number): { month: number; year: number } => {
+  const current = resolveMonthNumber(month) || 1;
+  return current === 12 ? { month: 1, year: year + 1 } : { month: current + 1, year };
+};
+
+/**
+ * Draft request copying a certification's fields and schedules into another period
+ */
+export const buildCertificationCopyRequest = (
+  certification: CertificationDocument,
+  period: { month: number; year: number }
+): CreateCertificationRequest => ({
+  ...extractTemplateFields(certification),
+  patientId: certification.patientId,
+  therapyType: certification.therapyType,
+  month: period.month,
+  year: period.year,
+  status: CertificationStatus.DRAFT,
+  specialistDate: certification.specialistDate,
+});
+
+const periodIndex = (month: number | string, year: number) =>
+  year * 12 + (resolveMonthNumber(month) || 0);
+
+/**
+ * Latest certification strictly before the given period (or overall when no period is given)
+ */
+export const findPreviousCertification = <T extends Pick<CertificationDocument, 'month' | 'year'>>(
+  certifications: T[],
+  before?: { month: number | string; year: number }
+): T | null => {
+  const limit = before ? periodIndex(before.month, before.year) : Infinity;
+
+  return certifications
+    .filter((certification) => periodIndex(certification.month, certification.year) < limit)
+    .reduce<T | null>(
+      (latest, certification) =>
+        !latest || periodIndex(certification.month, certification.year) > periodIndex(latest.month, latest.year)
+          ? certification
+          : latest,
+      null
+    );
+};
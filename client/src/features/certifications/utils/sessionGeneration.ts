@@ -0,0 +1,140 @@
+// Session Generation - expands certification schedules into a month of sessions
+import type {
+  CertificationDocument,
+  GeneratedSessionPreview,
+  Schedule,
+  ScheduleRequest,
+} from '../types/certification.types';
+import {
+  addMinutesToTime,
+  normalizeTime,
+  toDateKey,
+  toDateOnly,
+} from '../../../shared/utils/timeUtils';
+import { getSlotStatus, type SlotQuery } from '../../sessions/utils/availability';
+import type { TherapistAvailability } from '../../sessions/types/session.types';
+
+const MONTH_NAMES = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+];
+
+const DEFAULT_DURATION_MINUTES = 30;
+
+export interface SessionGenerationOptions {
+  availability?: TherapistAvailability | null;
+  therapistSessions?: SlotQuery['sessions']; // Therapist's other sessions in the month
+}
+
+/**
+ * Resolve a certification month (number, numeric string or month name) to 1-12
+ */
+export const resolveMonthNumber = (month: number | string): number | null => {
+  const numeric = typeof month === 'number' ? month : parseInt(month, 10);
+  if (!isNaN(numeric) && numeric >= 1 && numeric <= 12) {
+    return numeric;
+  }
+
+  const index = MONTH_NAMES.indexOf(month.toString().toLowerCase());
+  return index >= 0 ? index + 1 : null;
+};
+
+/**
+ * First and last day (yyyy-MM-dd) of the certification month
+ */
+export const getCertificationMonthRange = (
+  certification: Pick<CertificationDocument, 'month' | 'year'>
+): { startDate: string; endDate: string } | null => {
+  const month = resolveMonthNumber(certification.month);
+  if (!month || !certification.year) return null;
+  return {
+    startDate: toDateKey(new Date(certification.year, month - 1, 1)),
+    endDate: toDateKey(new Date(certification.year, month, 0)),
+  };
+};
+
+/**
+ * Expand schedules over the certification month.
+ * Dates beyond frequencyPerWeek within a calendar week (Sunday-Saturday),
+ * slots that already have a session at the same date and start time and
+ * slots outside the therapist's availability come back unselected.
+ */
+export const generateSessionsFromSchedules = (
+  certification: Pick<
+    CertificationDocument,
+    'month' | 'year' | 'duration' | 'frequencyPerWeek' | 'location' | 'sessions'
+  >,
+  schedules: Array<Schedule | ScheduleRequest>,
+  options: SessionGenerationOptions = {}
+): GeneratedSessionPreview[] => {
+  const month = resolveMonthNumber(certification.month);
+  if (!month || !certification.year) return [];
+
+  const activeSchedules = schedules
+    .filter((schedule) => !('isActive' in schedule) || schedule.isActive !== false)
+    .map((schedule) => ({ ...schedule, startTime: normalizeTime(schedule.startTime) }))
+    .sort((a, b) => a.dayOfWeek - b.dayOfWeek || a.startTime.localeCompare(b.startTime));
+
+  if (activeSchedules.length === 0) return [];
+
+  const duration = certification.duration || DEFAULT_DURATION_MINUTES;
+  const frequency = certification.frequencyPerWeek || 0;
+  // Two schedules on the same day are separate sessions, so match on the start time too
+  const existingSlots = new Set(
+    (certification.sessions || [])
+      .filter((session) => session.sessionTime)
+      .map((session) => `${toDateOnly(session.sessionDate)}-${normalizeTime(session.sessionTime)}`)
+  );
+
+  const firstDay = new Date(certification.year, month - 1, 1);
+  const daysInMonth = new Date(certification.year, month, 0).getDate();
+  const perWeekCount = new Map<number, number>();
+  const previews: GeneratedSessionPreview[] = [];
+
+  for (let day = 1; day <= daysInMonth; day++) {
+    const date = new Date(certification.year, month - 1, day);
+    const dayOfWeek = date.getDay();
+    const weekOfMonth = Math.floor((day - 1 + firstDay.getDay()) / 7) + 1;
+    const sessionDate = toDateKey(date);
+
+    activeSchedules
+      .filter((schedule) => schedule.dayOfWeek === dayOfWeek)
+      .forEach((schedule) => {
+        const key = `${sessionDate}-${schedule.startTime}`;
+        const alreadyExists = existingSlots.has(key);
+        const slot = alreadyExists
+          ? null
+          : getSlotStatus({
+              time: schedule.startTime,
+              date: sessionDate,
+              duration,
+              availability: options.availability,
+              sessions: options.therapistSessions,
+            });
+        const unavailableReason = slot && slot.status !== 'free' ? slot.reason : undefined;
+        const scheduledThisWeek = perWeekCount.get(weekOfMonth) || 0;
+        const exceedsFrequency = frequency > 0 && scheduledThisWeek >= frequency;
+        const selected = !alreadyExists && !exceedsFrequency && !unavailableReason;
+
+        if (selected) {
+          perWeekCount.set(weekOfMonth, scheduledThisWeek + 1);
+        }
+
+        previews.push({
+          key,
+          sessionDate,
+          sessionTime: schedule.startTime,
+          endTime: addMinutesToTime(schedule.startTime, duration),
+          location: schedule.location || certification.location || '',
+          dayOfWeek,
+          weekOfMonth,
+          selected,
+          exceedsFrequency,
+          alreadyExists,
+          unavailableReason,
+        });
+      });
+  }
+
+  return previews;
+};
@@ -13,6 +13,9 @@ export * from './certifications';
 // Patients Feature
 export * from './patients';
 
+// Schools Feature
+export * from './schools';
+
 // Re-export commonly used types and hooks for convenience
 export type { 
   User, 
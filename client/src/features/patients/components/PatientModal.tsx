@@ -144,7 +144,7 @@ export const PatientModal: React.FC<PatientModalProps> = ({
 
   const renderField = (
     label: string,
-    field: keyof Patient,
+    field: "fullName" | "dateOfBirth" | "email" | "phone",
     type: string = "text"
   ) => (
     <div>
@@ -235,6 +235,28 @@ export const PatientModal: React.FC<PatientModalProps> = ({
                 )}
               </div>
 
+              <div className="flex items-center">
+                <input
+                  type="checkbox"
+                  id="requiresTransportation"
+                  checked={!!editedPatient.requiresTransportation}
+                  disabled={!isEditing}
+                  onChange={(e) =>
+                    handleFieldChange(
+                      "requiresTransportation",
+                      e.target.checked
+                    )
+                  }
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 dark:border-gray-600 rounded"
+                />
+                <label
+                  htmlFor="requiresTransportation"
+                  className="ml-2 block text-sm text-gray-700 dark:text-gray-300"
+                >
+                  Requires transportation to school or center sessions
+                </label>
+              </div>
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
                   Notes
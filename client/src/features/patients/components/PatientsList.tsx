@@ -1,7 +1,9 @@
 // Patients List Component
-import React from "react";
+import React, { useState } from "react";
 import { PatientCard } from "./PatientCard";
 import { LoadingSpinner } from "@/shared/components/ui";
+import { ExportModal } from "@/shared/components/ui/ExportModal";
+import { PATIENT_EXPORT_COLUMNS, exportPatients } from "../utils/patientExport";
 import type { PatientListProps } from "../types/patient.types";
 
 export function PatientsList({
@@ -10,6 +12,8 @@ export function PatientsList({
   onPatientClick,
   className = "",
 }: PatientListProps) {
+  const [isExportOpen, setIsExportOpen] = useState(false);
+
   if (isLoading) {
     return (
       <div className={`flex items-center justify-center py-12 ${className}`}>
@@ -48,6 +52,18 @@ export function PatientsList({
 
   return (
     <div className={`space-y-4 ${className}`}>
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-gray-600 dark:text-gray-400">
+          {patients.length} patients
+        </span>
+        <button
+          onClick={() => setIsExportOpen(true)}
+          className="px-3 py-1 text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700"
+        >
+          Export
+        </button>
+      </div>
+
       {patients.map((patient) => (
         <PatientCard
           key={patient.id}
@@ -56,6 +72,18 @@ export function PatientsList({
           showTherapist={true}
         />
       ))}
+
+      {isExportOpen && (
+        <ExportModal
+          isOpen
+          onClose={() => setIsExportOpen(false)}
+          title="Export Patients"
+          itemCount={patients.length}
+          itemLabel="patients"
+          columns={PATIENT_EXPORT_COLUMNS}
+          onExport={async (options) => exportPatients(patients, options)}
+        />
+      )}
     </div>
   );
 }
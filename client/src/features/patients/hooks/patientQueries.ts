@@ -0,0 +1,15 @@
+// Patient Queries - cache keys and invalidation for patient data
+import { queryClient } from '../../../shared/utils/queryClient';
+import type { PatientsFilter } from '../types/patient.types';
+
+export const patientKeys = {
+  all: ['patients'] as const,
+  lists: () => [...patientKeys.all, 'list'] as const,
+  list: (filter: PatientsFilter) => [...patientKeys.lists(), filter] as const,
+};
+
+/**
+ * Mark every cached patient query stale; mounted hooks refetch in the background
+ */
+export const invalidatePatientQueries = (): Promise<void> =>
+  queryClient.invalidateQueries({ queryKey: patientKeys.all });
@@ -1,29 +1,24 @@
 // Patients Hook - State Management for Patients Feature
-import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useState, useCallback, useMemo } from 'react';
+import { keepPreviousData, useMutation, useQuery } from '@tanstack/react-query';
 import { patientService } from '../services/patientService';
+import { patientKeys, invalidatePatientQueries } from './patientQueries';
+import { updateQueriesOptimistically } from '../../../shared/utils/queryClient';
+import type { RequestOptions } from '../../../shared/types/api';
 import type {
   Patient,
   CreatePatientRequest,
   UpdatePatientRequest,
   PatientsFilter,
-  PatientStats,
+  PatientsResponse,
   Therapist,
   UsePatientsOptions,
   UsePatientsReturn
 } from '../types/patient.types';
 
-// Global state to prevent duplicate API calls
-let globalPatients: Patient[] = [];
-let globalStats: PatientStats | null = null;
-const globalTherapists: Therapist[] = [];
-let globalLoading = false;
-let globalError: string | null = null;
-const globalListeners: Set<() => void> = new Set();
-
-// Function to notify all listeners of state changes
-const notifyListeners = () => {
-  globalListeners.forEach(listener => listener());
-};
+// Stable empty values so memoized utilities do not recompute while loading
+const NO_PATIENTS: Patient[] = [];
+const NO_THERAPISTS: Therapist[] = [];
 
 const DEFAULT_FILTER: PatientsFilter = {
   page: 1,
@@ -33,6 +28,10 @@ const DEFAULT_FILTER: PatientsFilter = {
   isActive: true,
 };
 
+// Apply a change to the patients of every cached list
+const updateCachedPatients = (update: (patients: Patient[]) => Patient[]) =>
+  updateQueriesOptimistically<PatientsResponse>(patientKeys.lists(), (data) => ({ ...data, patients: update(data.patients) }));
+
 export function usePatients(options: UsePatientsOptions = {}): UsePatientsReturn {
   const { 
     filter: initialFilter = DEFAULT_FILTER,
@@ -43,143 +42,110 @@ export function usePatients(options: UsePatientsOptions = {}): UsePatientsReturn
 
   // Local state for component-specific data
   const [selectedPatient, setSelectedPatient] = useState<Patient | null>(null);
-  const [isCreating, setIsCreating] = useState(false);
-  const [isUpdating, setIsUpdating] = useState(false);
-  const [isDeleting, setIsDeleting] = useState(false);
   const [filter, setFilterState] = useState<PatientsFilter>(initialFilter);
-
-  // Local state that syncs with global state
-  const [patients, setPatients] = useState<Patient[]>(globalPatients);
-  const [stats, setStats] = useState<PatientStats | null>(globalStats);
-  const [therapists, setTherapists] = useState<Therapist[]>(globalTherapists);
-  const [isLoading, setIsLoading] = useState(globalLoading);
-  const [error, setError] = useState<string | null>(globalError);
-
-  // Function to update local state from global state
-  const updateLocalState = useCallback(() => {
-    setPatients(globalPatients);
-    setStats(globalStats);
-    setTherapists(globalTherapists);
-    setIsLoading(globalLoading);
-    setError(globalError);
-  }, []);
-
-  // Subscribe to global state changes
-  useEffect(() => {
-    globalListeners.add(updateLocalState);
-    return () => {
-      globalListeners.delete(updateLocalState);
-    };
-  }, [updateLocalState]);
+  const [mutationError, setMutationError] = useState<string | null>(null);
+  const [dismissedError, setDismissedError] = useState<Error | null>(null);
+
+  // Hooks with the same filter share one cached list and one request
+  const patientsQuery = useQuery({
+    queryKey: patientKeys.list(filter),
+    queryFn: ({ signal }) => patientService.getPatients(filter, { signal }),
+    placeholderData: keepPreviousData,
+    refetchInterval: autoRefresh ? refreshInterval : false,
+  });
+  const { refetch } = patientsQuery;
+  const patients = patientsQuery.data?.patients ?? NO_PATIENTS;
+  const therapists = NO_THERAPISTS;
+  const queryError = patientsQuery.error && patientsQuery.error !== dismissedError ? patientsQuery.error.message : null;
+  const error = mutationError ?? queryError;
+
+  const { mutateAsync: createPatientAsync, isPending: isCreating } = useMutation({
+    mutationFn: ({ data, requestOptions }: { data: CreatePatientRequest; requestOptions?: RequestOptions }) =>
+      patientService.createPatient(data, requestOptions),
+    onSettled: () => invalidatePatientQueries(),
+  });
+
+  const { mutateAsync: updatePatientAsync, isPending: isUpdating } = useMutation({
+    mutationFn: ({ id, data, requestOptions }: { id: string; data: UpdatePatientRequest; requestOptions?: RequestOptions }) =>
+      patientService.updatePatient(id, data, requestOptions),
+    // Show the change at once; the rollback restores the lists if the server rejects it
+    onMutate: ({ id, data }) => updateCachedPatients((cached) =>
+      cached.map(patient => patient.id === id ? { ...patient, ...data } : patient)
+    ),
+    onError: (_err, _variables, rollback) => rollback?.(),
+    onSettled: () => invalidatePatientQueries(),
+  });
+
+  const { mutateAsync: deletePatientAsync, isPending: isDeleting } = useMutation({
+    mutationFn: ({ id, requestOptions }: { id: string; requestOptions?: RequestOptions }) => patientService.deletePatient(id, requestOptions),
+    onMutate: ({ id }) => updateCachedPatients((cached) => cached.filter(patient => patient.id !== id)),
+    onError: (_err, _variables, rollback) => rollback?.(),
+    onSettled: () => invalidatePatientQueries(),
+  });
 
   /**
    * Load patients from API
    */
   const loadPatients = useCallback(async (filterOverride?: PatientsFilter) => {
-    const currentFilter = filterOverride || filter;
-    
-    // Only make API call if not already loading
-    if (globalLoading) return;
-    
-    globalLoading = true;
-    globalError = null;
-    notifyListeners();
-
-    try {
-      const response = await patientService.getPatients(currentFilter);
-      globalPatients = response.patients;
-      globalError = null;
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to load patients';
-      globalError = errorMessage;
-      console.error('Load patients error:', err);
-    } finally {
-      globalLoading = false;
-      notifyListeners();
+    if (filterOverride) {
+      setFilterState(filterOverride);
+      return;
     }
-  }, [filter]);
+    await refetch();
+  }, [refetch]);
 
   /**
    * Create new patient
    */
-  const createPatient = useCallback(async (data: CreatePatientRequest): Promise<Patient> => {
-    setIsCreating(true);
-    globalError = null;
-    notifyListeners();
+  const createPatient = useCallback(async (data: CreatePatientRequest, requestOptions?: RequestOptions): Promise<Patient> => {
+    setMutationError(null);
 
     try {
-      const newPatient = await patientService.createPatient(data);
-      globalPatients = [newPatient, ...globalPatients];
-      notifyListeners();
-      return newPatient;
+      return await createPatientAsync({ data, requestOptions });
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to create patient';
-      globalError = errorMessage;
-      notifyListeners();
+      setMutationError(errorMessage);
       throw err;
-    } finally {
-      setIsCreating(false);
     }
-  }, []);
+  }, [createPatientAsync]);
 
   /**
    * Update existing patient
    */
-  const updatePatient = useCallback(async (id: string, data: UpdatePatientRequest): Promise<Patient> => {
-    setIsUpdating(true);
-    globalError = null;
-    notifyListeners();
+  const updatePatient = useCallback(async (id: string, data: UpdatePatientRequest, requestOptions?: RequestOptions): Promise<Patient> => {
+    setMutationError(null);
 
     try {
-      const updatedPatient = await patientService.updatePatient(id, data);
-      globalPatients = globalPatients.map(patient => 
-        patient.id === id ? updatedPatient : patient
-      );
+      const updatedPatient = await updatePatientAsync({ id, data, requestOptions });
       
       // Update selected patient if it's the one being updated
-      if (selectedPatient?.id === id) {
-        setSelectedPatient(updatedPatient);
-      }
+      setSelectedPatient(current => current?.id === id ? updatedPatient : current);
       
-      notifyListeners();
       return updatedPatient;
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to update patient';
-      globalError = errorMessage;
-      notifyListeners();
+      setMutationError(errorMessage);
       throw err;
-    } finally {
-      setIsUpdating(false);
     }
-  }, [selectedPatient]);
+  }, [updatePatientAsync]);
 
   /**
    * Delete patient
    */
-  const deletePatient = useCallback(async (id: string): Promise<void> => {
-    setIsDeleting(true);
-    globalError = null;
-    notifyListeners();
+  const deletePatient = useCallback(async (id: string, requestOptions?: RequestOptions): Promise<void> => {
+    setMutationError(null);
 
     try {
-      await patientService.deletePatient(id);
-      globalPatients = globalPatients.filter(patient => patient.id !== id);
+      await deletePatientAsync({ id, requestOptions });
       
       // Clear selected patient if it's the one being deleted
-      if (selectedPatient?.id === id) {
-        setSelectedPatient(null);
-      }
-      
-      notifyListeners();
+      setSelectedPatient(current => current?.id === id ? null : current);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to delete patient';
-      globalError = errorMessage;
-      notifyListeners();
+      setMutationError(errorMessage);
       throw err;
-    } finally {
-      setIsDeleting(false);
     }
-  }, [selectedPatient]);
+  }, [deletePatientAsync]);
 
   /**
    * Select patient
@@ -189,52 +155,25 @@ export function usePatients(options: UsePatientsOptions = {}): UsePatientsReturn
   }, []);
 
   /**
-   * Set filter and reload patients
+   * Set filter; the query for the new filter loads, or is served from the cache
    */
   const setFilter = useCallback((newFilter: PatientsFilter) => {
     setFilterState(newFilter);
-    loadPatients(newFilter);
-  }, [loadPatients]);
+  }, []);
 
   /**
    * Clear error
    */
   const clearError = useCallback(() => {
-    globalError = null;
-    notifyListeners();
-  }, []);
+    setMutationError(null);
+    setDismissedError(patientsQuery.error);
+  }, [patientsQuery.error]);
 
   /**
-   * Refresh patients
+   * Refresh patients everywhere they are shown
    */
   const refreshPatients = useCallback(() => {
-    return loadPatients();
-  }, [loadPatients]);
-
-  /**
-   * Load patient statistics
-   */
-  const loadStats = useCallback(async () => {
-    try {
-      // For now, provide default stats since the endpoint doesn't exist yet
-      const defaultStats: PatientStats = {
-        totalPatients: 0,
-        activePatients: 0,
-        inactivePatients: 0,
-        newPatientsThisMonth: 0,
-        patientsWithActiveCertifications: 0,
-        averageAge: 0,
-        patientsPerTherapist: 0
-      };
-      globalStats = defaultStats;
-      notifyListeners();
-      // TODO: Uncomment when stats endpoint is implemented
-      // const patientStats = await patientService.getPatientStats();
-      // globalStats = patientStats;
-      // notifyListeners();
-    } catch (err) {
-      console.warn('Failed to load patient stats:', err);
-    }
+    return invalidatePatientQueries();
   }, []);
 
   /**
@@ -243,16 +182,10 @@ export function usePatients(options: UsePatientsOptions = {}): UsePatientsReturn
   const loadTherapists = useCallback(async () => {
     if (!includeTherapists) return;
     
-    try {
-      // Temporarily disabled due to authorization issues
-      // TODO: Fix authorization for therapist loading
-      console.warn('Therapist loading temporarily disabled due to authorization issues');
-      setTherapists([]);
-      // const therapistsData = await patientService.getTherapists();
-      // setTherapists(therapistsData);
-    } catch (err) {
-      console.warn('Failed to load therapists:', err);
-    }
+    // Temporarily disabled due to authorization issues
+    // TODO: Fix authorization for therapist loading
+    console.warn('Therapist loading temporarily disabled due to authorization issues');
+    // const therapistsData = await patientService.getTherapists();
   }, [includeTherapists]);
 
   // Utility functions
@@ -305,35 +238,9 @@ export function usePatients(options: UsePatientsOptions = {}): UsePatientsReturn
     return therapists.find(therapist => therapist.id === id);
   }, [therapists]);
 
-  // Load initial data only if not already loaded
-  useEffect(() => {
-    if (globalPatients.length === 0 && !globalLoading) {
-      loadPatients();
-    }
-    if (!globalStats && !globalLoading) {
-      loadStats();
-    }
-    if (globalTherapists.length === 0 && !globalLoading) {
-      loadTherapists();
-    }
-  }, [loadPatients, loadStats, loadTherapists]);
-
-  // Auto refresh
-  useEffect(() => {
-    if (!autoRefresh) return;
-
-    const interval = setInterval(() => {
-      refreshPatients();
-      loadStats();
-    }, refreshInterval);
-
-    return () => clearInterval(interval);
-  }, [autoRefresh, refreshInterval, refreshPatients, loadStats]);
-
   // Memoized computed values
+  // TODO: Use patientService.getPatientStats() when the stats endpoint is implemented
   const computedStats = useMemo(() => {
-    if (stats) return stats;
-
     // Calculate basic stats from current patients
     const totalPatients = patients.length;
     const activePatients = getActivePatients().length;
@@ -365,7 +272,7 @@ export function usePatients(options: UsePatientsOptions = {}): UsePatientsReturn
       averageAge: Math.round(averageAge),
       patientsPerTherapist: Math.round(patientsPerTherapist * 10) / 10,
     };
-  }, [patients, stats, getActivePatients, getInactivePatients, getNewPatientsThisMonth, getPatientsWithActiveCertifications]);
+  }, [patients, getActivePatients, getInactivePatients, getNewPatientsThisMonth, getPatientsWithActiveCertifications]);
 
   return {
     // Data
@@ -375,7 +282,7 @@ export function usePatients(options: UsePatientsOptions = {}): UsePatientsReturn
     therapists,
     
     // State
-    isLoading,
+    isLoading: patientsQuery.isLoading,
     isCreating,
     isUpdating,
     isDeleting,
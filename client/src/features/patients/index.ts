@@ -1,5 +1,8 @@
 // Patients Feature Exports
 export { usePatients } from './hooks/usePatients';
+export { patientKeys, invalidatePatientQueries } from './hooks/patientQueries';
+export { patientService } from './services/patientService';
 export { PatientCard, PatientsList, PatientModal } from './components';
 export { default as PatientsPage } from './pages/PatientsPage';
+export { PATIENT_EXPORT_COLUMNS, exportPatients } from './utils/patientExport';
 export type { Patient, PatientStats, Therapist } from './types/patient.types';
@@ -1,6 +1,6 @@
 // Patient Service - API Communication Layer
-import { tokenService } from '@/features/auth/services/tokenService';
-import { authService } from '@/features/auth/services/authService';
+import { apiClient } from '@/services/apiClient';
+import type { PagedPayload, RequestOptions } from '../../../shared/types/api';
 import type {
   Patient,
   CreatePatientRequest,
@@ -12,6 +12,10 @@ import type {
   PatientExportOptions
 } from '../types/patient.types';
 
+type PatientsPayload = Patient[] | (PagedPayload<Patient> & { patients?: Patient[] });
+
+const NOT_FOUND = { 404: 'Patient not found' };
+
 class PatientService {
   private readonly baseURL = '/api/patients';
   private readonly therapistsURL = '/api/User'; // Backend uses singular 'User'
@@ -19,48 +23,43 @@ class PatientService {
   /**
    * Get patients with filtering and pagination
    */
-  async getPatients(filter: PatientsFilter = {}): Promise<PatientsResponse> {
-    const token = await tokenService.getValidToken();
-    if (!token) {
-      throw new Error('No valid token available');
-    }
-
+  async getPatients(filter: PatientsFilter = {}, options: RequestOptions = {}): Promise<PatientsResponse> {
     try {
-      const queryParams = new URLSearchParams();
-      
-      // Add filter parameters
-      if (filter.search) queryParams.append('search', filter.search);
-      if (filter.therapistId) queryParams.append('therapistId', filter.therapistId);
-      if (filter.isActive !== undefined) queryParams.append('isActive', filter.isActive.toString());
-      if (filter.city) queryParams.append('city', filter.city);
-      if (filter.state) queryParams.append('state', filter.state);
-      if (filter.ageRange?.min) queryParams.append('minAge', filter.ageRange.min.toString());
-      if (filter.ageRange?.max) queryParams.append('maxAge', filter.ageRange.max.toString());
-      if (filter.hasActiveCertifications !== undefined) queryParams.append('hasActiveCertifications', filter.hasActiveCertifications.toString());
-      if (filter.lastSessionAfter) queryParams.append('lastSessionAfter', filter.lastSessionAfter);
-      if (filter.lastSessionBefore) queryParams.append('lastSessionBefore', filter.lastSessionBefore);
-      if (filter.page) queryParams.append('page', filter.page.toString());
-      if (filter.pageSize) queryParams.append('pageSize', filter.pageSize.toString());
-      if (filter.sortBy) queryParams.append('sortBy', filter.sortBy);
-      if (filter.sortDirection) queryParams.append('sortDirection', filter.sortDirection);
+      const data = await apiClient.request<PatientsPayload>({
+        url: this.baseURL,
+        params: {
+          search: filter.search,
+          therapistId: filter.therapistId,
+          isActive: filter.isActive,
+          city: filter.city,
+          state: filter.state,
+          minAge: filter.ageRange?.min || undefined,
+          maxAge: filter.ageRange?.max || undefined,
+          hasActiveCertifications: filter.hasActiveCertifications,
+          lastSessionAfter: filter.lastSessionAfter,
+          lastSessionBefore: filter.lastSessionBefore,
+          page: filter.page,
+          pageSize: filter.pageSize,
+          sortBy: filter.sortBy,
+          sortDirection: filter.sortDirection,
+        },
+        errorMessage: 'Failed to fetch patients',
+        ...options,
+      });
 
-      const url = queryParams.toString() ? `${this.baseURL}?${queryParams}` : this.baseURL;
-      
-      const data = await authService.authenticatedRequest(url);
-      
       console.log('PatientService: Raw response data:', data);
 
-      // The authenticatedRequest returns the unwrapped data, so we need to check for the actual data structure
-      if (data && (data.items || data.patients || Array.isArray(data))) {
-        const patients = data.items || data.patients || data;
+      const patients = Array.isArray(data) ? data : data.items || data.patients;
+      if (patients) {
+        const meta: PagedPayload<Patient> = Array.isArray(data) ? {} : data;
         return {
           patients: patients,
-          totalCount: data.totalCount || data.pagination?.totalItems || patients.length,
-          page: data.page || data.pagination?.page || 1,
-          pageSize: data.pageSize || data.pagination?.pageSize || patients.length,
-          totalPages: data.totalPages || data.pagination?.totalPages || 1,
-          hasNext: data.hasNext || data.pagination?.hasNext || false,
-          hasPrevious: data.hasPrevious || data.pagination?.hasPrevious || false,
+          totalCount: meta.totalCount || meta.pagination?.totalItems || patients.length,
+          page: meta.page || meta.pagination?.page || 1,
+          pageSize: meta.pageSize || meta.pagination?.pageSize || patients.length,
+          totalPages: meta.totalPages || meta.pagination?.totalPages || 1,
+          hasNext: meta.hasNext || meta.pagination?.hasNext || false,
+          hasPrevious: meta.hasPrevious || meta.pagination?.hasPrevious || false,
         };
       }
 
@@ -74,40 +73,14 @@ class PatientService {
   /**
    * Get patient by ID
    */
-  async getPatientById(id: string): Promise<Patient> {
-    const token = await tokenService.getValidToken();
-    if (!token) {
-      throw new Error('No valid token available');
-    }
-
+  async getPatientById(id: string, options: RequestOptions = {}): Promise<Patient> {
     try {
-      const response = await fetch(`${this.baseURL}/${id}`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        credentials: 'include',
+      return await apiClient.request<Patient>({
+        url: `${this.baseURL}/${id}`,
+        errorMessages: NOT_FOUND,
+        errorMessage: 'Failed to fetch patient',
+        ...options,
       });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        if (response.status === 401) {
-          tokenService.logout();
-          throw new Error('Session expired');
-        }
-        if (response.status === 404) {
-          throw new Error('Patient not found');
-        }
-        throw new Error(data.message || 'Failed to fetch patient');
-      }
-
-      if (data.status === 200 && data.data) {
-        return data.data;
-      }
-
-      throw new Error('Invalid patient response');
     } catch (error) {
       console.error('Get patient error:', error);
       throw error;
@@ -117,38 +90,15 @@ class PatientService {
   /**
    * Create new patient
    */
-  async createPatient(patientData: CreatePatientRequest): Promise<Patient> {
-    const token = await tokenService.getValidToken();
-    if (!token) {
-      throw new Error('No valid token available');
-    }
-
+  async createPatient(patientData: CreatePatientRequest, options: RequestOptions = {}): Promise<Patient> {
     try {
-      const response = await fetch(this.baseURL, {
+      return await apiClient.request<Patient>({
+        url: this.baseURL,
         method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        credentials: 'include',
-        body: JSON.stringify(patientData),
+        body: patientData,
+        errorMessage: 'Failed to create patient',
+        ...options,
       });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        if (response.status === 401) {
-          tokenService.logout();
-          throw new Error('Session expired');
-        }
-        throw new Error(data.message || 'Failed to create patient');
-      }
-
-      if (data.status === 201 && data.data) {
-        return data.data;
-      }
-
-      throw new Error('Invalid create patient response');
     } catch (error) {
       console.error('Create patient error:', error);
       throw error;
@@ -158,41 +108,16 @@ class PatientService {
   /**
    * Update existing patient
    */
-  async updatePatient(id: string, patientData: UpdatePatientRequest): Promise<Patient> {
-    const token = await tokenService.getValidToken();
-    if (!token) {
-      throw new Error('No valid token available');
-    }
-
+  async updatePatient(id: string, patientData: UpdatePatientRequest, options: RequestOptions = {}): Promise<Patient> {
     try {
-      const response = await fetch(`${this.baseURL}/${id}`, {
+      return await apiClient.request<Patient>({
+        url: `${this.baseURL}/${id}`,
         method: 'PUT',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        credentials: 'include',
-        body: JSON.stringify(patientData),
+        body: patientData,
+        errorMessages: NOT_FOUND,
+        errorMessage: 'Failed to update patient',
+        ...options,
       });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        if (response.status === 401) {
-          tokenService.logout();
-          throw new Error('Session expired');
-        }
-        if (response.status === 404) {
-          throw new Error('Patient not found');
-        }
-        throw new Error(data.message || 'Failed to update patient');
-      }
-
-      if (data.status === 200 && data.data) {
-        return data.data;
-      }
-
-      throw new Error('Invalid update patient response');
     } catch (error) {
       console.error('Update patient error:', error);
       throw error;
@@ -202,34 +127,15 @@ class PatientService {
   /**
    * Delete patient
    */
-  async deletePatient(id: string): Promise<void> {
-    const token = await tokenService.getValidToken();
-    if (!token) {
-      throw new Error('No valid token available');
-    }
-
+  async deletePatient(id: string, options: RequestOptions = {}): Promise<void> {
     try {
-      const response = await fetch(`${this.baseURL}/${id}`, {
+      await apiClient.send({
+        url: `${this.baseURL}/${id}`,
         method: 'DELETE',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        credentials: 'include',
+        errorMessages: NOT_FOUND,
+        errorMessage: 'Failed to delete patient',
+        ...options,
       });
-
-      if (!response.ok) {
-        if (response.status === 401) {
-          tokenService.logout();
-          throw new Error('Session expired');
-        }
-        if (response.status === 404) {
-          throw new Error('Patient not found');
-        }
-        
-        const data = await response.json();
-        throw new Error(data.message || 'Failed to delete patient');
-      }
     } catch (error) {
       console.error('Delete patient error:', error);
       throw error;
@@ -239,37 +145,15 @@ class PatientService {
   /**
    * Search patients
    */
-  async searchPatients(query: string, limit: number = 10): Promise<Patient[]> {
-    const token = await tokenService.getValidToken();
-    if (!token) {
-      throw new Error('No valid token available');
-    }
-
+  async searchPatients(query: string, limit: number = 10, options: RequestOptions = {}): Promise<Patient[]> {
     try {
-      const response = await fetch(`${this.baseURL}/search?q=${encodeURIComponent(query)}&limit=${limit}`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        credentials: 'include',
+      const data = await apiClient.request<Patient[] | Patient>({
+        url: `${this.baseURL}/search`,
+        params: { q: query, limit },
+        errorMessage: 'Failed to search patients',
+        ...options,
       });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        if (response.status === 401) {
-          tokenService.logout();
-          throw new Error('Session expired');
-        }
-        throw new Error(data.message || 'Failed to search patients');
-      }
-
-      if (data.status === 200 && data.data) {
-        return Array.isArray(data.data) ? data.data : [data.data];
-      }
-
-      throw new Error('Invalid search patients response');
+      return Array.isArray(data) ? data : [data];
     } catch (error) {
       console.error('Search patients error:', error);
       throw error;
@@ -280,36 +164,11 @@ class PatientService {
    * Get patient statistics
    */
   async getPatientStats(): Promise<PatientStats> {
-    const token = await tokenService.getValidToken();
-    if (!token) {
-      throw new Error('No valid token available');
-    }
-
     try {
-      const response = await fetch(`${this.baseURL}/stats`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        credentials: 'include',
+      return await apiClient.request<PatientStats>({
+        url: `${this.baseURL}/stats`,
+        errorMessage: 'Failed to fetch patient statistics',
       });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        if (response.status === 401) {
-          tokenService.logout();
-          throw new Error('Session expired');
-        }
-        throw new Error(data.message || 'Failed to fetch patient statistics');
-      }
-
-      if (data.status === 200 && data.data) {
-        return data.data;
-      }
-
-      throw new Error('Invalid patient stats response');
     } catch (error) {
       console.error('Get patient stats error:', error);
       throw error;
@@ -320,48 +179,25 @@ class PatientService {
    * Get therapists (users with therapist role)
    */
   async getTherapists(): Promise<Therapist[]> {
-    const token = await tokenService.getValidToken();
-    if (!token) {
-      throw new Error('No valid token available');
-    }
-
     try {
       // For now, just get all users since role filtering isn't implemented yet
       // TODO: Add role filtering when backend supports it
-      const response = await fetch(this.therapistsURL, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        credentials: 'include',
+      const data = await apiClient.request<Therapist[] | Therapist>({
+        url: this.therapistsURL,
+        errorMessage: 'Failed to fetch therapists',
       });
 
-      const data = await response.json();
-
-      if (!response.ok) {
-        if (response.status === 401) {
-          tokenService.logout();
-          throw new Error('Session expired');
-        }
-        throw new Error(data.message || 'Failed to fetch therapists');
-      }
-
-      if (data.status === 200 && data.data) {
-        const users = Array.isArray(data.data) ? data.data : [data.data];
-        // Map user data to therapist format
-        return users.map(user => ({
-          id: user.id,
-          fullName: user.fullName,
-          email: user.email,
-          phone: user.phone,
-          specialization: user.specialization,
-          licenseNumber: user.licenseNumber,
-          isActive: user.isActive,
-        }));
-      }
-
-      throw new Error('Invalid therapists response');
+      const users = Array.isArray(data) ? data : [data];
+      // Map user data to therapist format
+      return users.map(user => ({
+        id: user.id,
+        fullName: user.fullName,
+        email: user.email,
+        phone: user.phone,
+        specialization: user.specialization,
+        licenseNumber: user.licenseNumber,
+        isActive: user.isActive,
+      }));
     } catch (error) {
       console.error('Get therapists error:', error);
       throw error;
@@ -372,49 +208,21 @@ class PatientService {
    * Export patients
    */
   async exportPatients(options: PatientExportOptions): Promise<Blob> {
-    const token = await tokenService.getValidToken();
-    if (!token) {
-      throw new Error('No valid token available');
-    }
-
     try {
-      const queryParams = new URLSearchParams();
-      queryParams.append('format', options.format);
-      
-      if (options.includeInactive) queryParams.append('includeInactive', 'true');
-      if (options.includeMedicalInfo) queryParams.append('includeMedicalInfo', 'true');
-      if (options.includeEmergencyContacts) queryParams.append('includeEmergencyContacts', 'true');
-      
-      if (options.dateRange) {
-        queryParams.append('startDate', options.dateRange.startDate);
-        queryParams.append('endDate', options.dateRange.endDate);
-      }
-      
-      if (options.filters) {
-        Object.entries(options.filters).forEach(([key, value]) => {
-          if (value !== undefined && value !== null) {
-            queryParams.append(key, value.toString());
-          }
-        });
-      }
-
-      const response = await fetch(`${this.baseURL}/export?${queryParams}`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
+      return await apiClient.send<Blob>({
+        url: `${this.baseURL}/export`,
+        params: {
+          format: options.format,
+          includeInactive: options.includeInactive || undefined,
+          includeMedicalInfo: options.includeMedicalInfo || undefined,
+          includeEmergencyContacts: options.includeEmergencyContacts || undefined,
+          startDate: options.dateRange?.startDate,
+          endDate: options.dateRange?.endDate,
+          ...options.filters,
         },
-        credentials: 'include',
+        responseType: 'blob',
+        errorMessage: 'Failed to export patients',
       });
-
-      if (!response.ok) {
-        if (response.status === 401) {
-          tokenService.logout();
-          throw new Error('Session expired');
-        }
-        throw new Error('Failed to export patients');
-      }
-
-      return await response.blob();
     } catch (error) {
       console.error('Export patients error:', error);
       throw error;
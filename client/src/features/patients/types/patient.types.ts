@@ -1,4 +1,5 @@
 // Patient Feature Types - Comprehensive Type System
+import type { RequestOptions } from '../../../shared/types/api';
 
 export interface Patient {
   id: string;
@@ -10,6 +11,7 @@ export interface Patient {
   notes?: string;
   assignedTherapistId?: string;
   assignedTherapistName?: string;
+  requiresTransportation?: boolean;
   createdAt: string;
   lastModifiedAt?: string;
   createdBy?: string;
@@ -225,9 +227,9 @@ export interface UsePatientsReturn {
   
   // Actions
   loadPatients: (filter?: PatientsFilter) => Promise<void>;
-  createPatient: (data: CreatePatientRequest) => Promise<Patient>;
-  updatePatient: (id: string, data: UpdatePatientRequest) => Promise<Patient>;
-  deletePatient: (id: string) => Promise<void>;
+  createPatient: (data: CreatePatientRequest, options?: RequestOptions) => Promise<Patient>;
+  updatePatient: (id: string, data: UpdatePatientRequest, options?: RequestOptions) => Promise<Patient>;
+  deletePatient: (id: string, options?: RequestOptions) => Promise<void>;
   selectPatient: (patient: Patient | null) => void;
   setFilter: (filter: PatientsFilter) => void;
   clearError: () => void;
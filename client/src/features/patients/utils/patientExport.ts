@@ -0,0 +1,44 @@
+// Patient Export - columns and CSV/XLSX export of patient lists
+import type { Patient } from '../types/patient.types';
+import {
+  buildCsv,
+  buildXlsx,
+  getExportFilename,
+  selectExportColumns,
+  toExportRows,
+  type ExportColumn,
+  type TableExportOptions,
+} from '../../../shared/utils/tableExport';
+import { downloadBlob } from '../../../shared/utils/download';
+import { toDateOnly } from '../../../shared/utils/timeUtils';
+
+// Birth dates are calendar dates; parsing them as UTC would shift them a day
+const toLocalDate = (value?: string): Date | null =>
+  value ? new Date(`${toDateOnly(value)}T00:00:00`) : null;
+
+export const PATIENT_EXPORT_COLUMNS: ExportColumn<Patient>[] = [
+  { key: 'fullName', label: 'Name', value: (patient) => patient.fullName },
+  { key: 'dateOfBirth', label: 'Date of Birth', value: (patient) => toLocalDate(patient.dateOfBirth) },
+  { key: 'email', label: 'Email', value: (patient) => patient.email },
+  { key: 'phone', label: 'Phone', value: (patient) => patient.phone },
+  { key: 'conditionsTherapyTypes', label: 'Conditions / Therapy Types', value: (patient) => patient.conditionsTherapyTypes },
+  {
+    key: 'assignedTherapistName',
+    label: 'Therapist',
+    value: (patient) => patient.assignedTherapistName || patient.therapist?.fullName,
+  },
+  { key: 'requiresTransportation', label: 'Requires Transportation', value: (patient) => !!patient.requiresTransportation },
+  { key: 'notes', label: 'Notes', value: (patient) => patient.notes },
+  { key: 'createdAt', label: 'Created', value: (patient) => (patient.createdAt ? new Date(patient.createdAt) : null) },
+];
+
+/**
+ * Download the given patients as a CSV or single-sheet XLSX file
+ */
+export const exportPatients = (patients: Patient[], options: TableExportOptions): void => {
+  const columns = selectExportColumns(PATIENT_EXPORT_COLUMNS, options.columns);
+  const rows = toExportRows(patients, columns);
+  const blob =
+    options.format === 'csv' ? buildCsv(rows, options.locale) : buildXlsx([{ name: 'Patients', rows }]);
+  downloadBlob(blob, getExportFilename('patients', options.format));
+};
@@ -0,0 +1,87 @@
+import React, { useRef, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { BaseModal } from "../../../shared/components/ui/BaseModal";
+import SignaturePad, {
+  type SignaturePadRef,
+} from "../../../components/SignaturePad";
+import type { PortalSignatureModalProps } from "../types/portal.types";
+
+/**
+ * PortalSignatureModal - lets a parent sign a held session on their own device
+ */
+export const PortalSignatureModal: React.FC<PortalSignatureModalProps> = ({
+  isOpen,
+  onClose,
+  session,
+  isSigning,
+  onSign,
+}) => {
+  const signaturePadRef = useRef<SignaturePadRef>(null);
+  const [signature, setSignature] = useState("");
+
+  const handleClear = () => {
+    signaturePadRef.current?.clear();
+    setSignature("");
+  };
+
+  const handleSign = () => {
+    const signatureData =
+      signature || signaturePadRef.current?.getSignatureData() || "";
+    if (signatureData) onSign(signatureData);
+  };
+
+  const footerConfig = {
+    buttons: [
+      {
+        label: "Clear",
+        variant: "secondary" as const,
+        onClick: handleClear,
+        disabled: isSigning,
+      },
+      {
+        label: "Cancel",
+        variant: "secondary" as const,
+        onClick: onClose,
+        disabled: isSigning,
+      },
+      {
+        label: isSigning ? "Signing..." : "Sign Session",
+        variant: "primary" as const,
+        onClick: handleSign,
+        loading: isSigning,
+        disabled: isSigning || !signature,
+      },
+    ],
+  };
+
+  return (
+    <BaseModal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Sign Session"
+      subtitle={`${session.patientName || "Session"} · ${format(
+        parseISO(session.sessionDate),
+        "MMM d, yyyy"
+      )}${session.sessionTime ? ` at ${session.sessionTime.slice(0, 5)}` : ""}`}
+      footerConfig={footerConfig}
+      contentClassName="max-h-[90vh] overflow-y-auto"
+    >
+      <div className="p-6">
+        <p className="mb-4 text-sm text-gray-600 dark:text-gray-400">
+          By signing you confirm that {session.therapistName || "the therapist"}{" "}
+          held this session with your child.
+        </p>
+        <SignaturePad
+          ref={signaturePadRef}
+          onSignatureChange={setSignature}
+          className="w-full"
+        />
+        <p className="mt-4 text-sm text-gray-600 dark:text-gray-400 text-center">
+          Use your finger or stylus to sign in the box above
+        </p>
+      </div>
+    </BaseModal>
+  );
+};
+
+export default PortalSignatureModal;
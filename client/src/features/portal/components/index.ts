@@ -0,0 +1,2 @@
+// Portal Components Exports
+export { PortalSignatureModal } from './PortalSignatureModal';
@@ -0,0 +1,78 @@
+// Portal Hook - loads the sessions and approved certifications a parent can see
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { addMonths, subMonths } from 'date-fns';
+import { sessionService } from '../../sessions/services/sessionService';
+import { certificationService } from '../../certifications/services/certificationService';
+import type { TherapySession } from '../../sessions/types/session.types';
+import type { CertificationDocument } from '../../certifications/types/certification.types';
+import { CertificationStatus } from '../../../shared/constants/enums';
+import { toDateKey } from '../../../shared/utils/timeUtils';
+import { groupPortalSessions } from '../utils/portalSessions';
+import type { UsePortalReturn } from '../types/portal.types';
+
+// The backend only returns the records of the signed-in parent's child
+const PAST_MONTHS = 6;
+const UPCOMING_MONTHS = 3;
+const PAGE_SIZE = 200;
+
+export function usePortal(): UsePortalReturn {
+  const [sessions, setSessions] = useState<TherapySession[]>([]);
+  const [certifications, setCertifications] = useState<CertificationDocument[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const today = new Date();
+        const [sessionsResponse, certificationsResponse] = await Promise.all([
+          sessionService.getSessions({
+            startDate: toDateKey(subMonths(today, PAST_MONTHS)),
+            endDate: toDateKey(addMonths(today, UPCOMING_MONTHS)),
+            pageSize: PAGE_SIZE,
+            sortBy: 'sessionDate',
+            sortDirection: 'asc',
+          }),
+          certificationService.getCertifications({
+            status: CertificationStatus.APPROVED,
+            pageSize: PAGE_SIZE,
+            sortBy: 'month',
+            sortDirection: 'desc',
+          }),
+        ]);
+        if (!cancelled) {
+          setSessions(sessionsResponse.sessions);
+          // Drafts and rejected paperwork stay between the therapist and the school
+          setCertifications(
+            certificationsResponse.certifications.filter((c) => c.status === CertificationStatus.APPROVED)
+          );
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load your sessions');
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [reloadCount]);
+
+  const groups = useMemo(() => groupPortalSessions(sessions), [sessions]);
+
+  const reload = useCallback(() => setReloadCount((count) => count + 1), []);
+
+  return { ...groups, certifications, isLoading, error, reload };
+}
+
+export default usePortal;
@@ -0,0 +1,11 @@
+// Portal Feature Exports
+// Parent-facing views for patient accounts
+export { usePortal } from './hooks/usePortal';
+export { PortalSignatureModal } from './components';
+export { default as PortalPage } from './pages/PortalPage';
+export { needsParentSignature, groupPortalSessions } from './utils/portalSessions';
+export type {
+  PortalSessionGroups,
+  UsePortalReturn,
+  PortalSignatureModalProps,
+} from './types/portal.types';
@@ -0,0 +1,249 @@
+import React, { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { useAuth, usePermissions } from "../../auth";
+import { Navigation } from "../../../shared/components/layout";
+import { CertificationPdfPreviewModal } from "../../certifications/components/CertificationPdfPreviewModal";
+import { useSignature } from "../../sessions/hooks/useSignature";
+import { isSessionSigned } from "../../sessions/utils/calendar";
+import { translationService } from "../../../shared/constants/translations";
+import { PortalSignatureModal } from "../components/PortalSignatureModal";
+import { usePortal } from "../hooks/usePortal";
+import type { TherapySession } from "../../sessions/types/session.types";
+import type { CertificationDocument } from "../../certifications/types/certification.types";
+
+const formatSessionDate = (session: TherapySession) =>
+  `${format(parseISO(session.sessionDate), "EEE, MMM d, yyyy")}${
+    session.sessionTime ? ` · ${session.sessionTime.slice(0, 5)}` : ""
+  }`;
+
+const sectionTitleClassName =
+  "text-xl font-semibold text-gray-900 dark:text-white mb-4";
+
+const PortalPage: React.FC = () => {
+  const { user } = useAuth();
+  const { hasPermission, getSessionSignability } = usePermissions();
+  const {
+    pendingSignature,
+    upcoming,
+    past,
+    certifications,
+    isLoading,
+    error,
+    reload,
+  } = usePortal();
+  const { isSigning, signSession } = useSignature();
+  const [signingSession, setSigningSession] = useState<TherapySession | null>(
+    null
+  );
+  const [previewCertification, setPreviewCertification] =
+    useState<CertificationDocument | null>(null);
+
+  const canSign = (session: TherapySession) =>
+    hasPermission("signatures:create") &&
+    getSessionSignability(session).allowed;
+
+  const handleSign = async (signatureData: string) => {
+    if (!signingSession) return;
+    const signed = await signSession(signingSession.id, signatureData);
+    if (signed) {
+      setSigningSession(null);
+      reload();
+    }
+  };
+
+  const renderSession = (session: TherapySession) => (
+    <li
+      key={session.id}
+      className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 px-4 py-3"
+    >
+      <div>
+        <div className="text-sm font-medium text-gray-900 dark:text-white">
+          {formatSessionDate(session)}
+        </div>
+        <div className="text-sm text-gray-500 dark:text-gray-400">
+          {[session.patientName, session.therapistName, session.location]
+            .filter(Boolean)
+            .join(" · ")}
+        </div>
+      </div>
+      {isSessionSigned(session) && (
+        <span className="self-start sm:self-auto px-2 py-1 text-xs font-medium rounded-full bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200">
+          Signed
+        </span>
+      )}
+    </li>
+  );
+
+  const renderSessionList = (sessions: TherapySession[], empty: string) =>
+    sessions.length === 0 ? (
+      <div className="text-center py-6 text-gray-500 dark:text-gray-400">
+        {empty}
+      </div>
+    ) : (
+      <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+        {sessions.map(renderSession)}
+      </ul>
+    );
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <Navigation />
+      <main className="max-w-5xl mx-auto py-6 px-4">
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+            My Portal
+          </h1>
+          <p className="mt-2 text-gray-600 dark:text-gray-400">
+            Welcome, {user?.firstName || user?.email}! Here are your child's
+            sessions and approved certifications.
+          </p>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-100 border border-red-400 text-red-700 rounded">
+            {error}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+            Loading...
+          </div>
+        ) : (
+          <div className="space-y-8">
+            {/* Pending signatures */}
+            <section>
+              <h2 className={sectionTitleClassName}>
+                Waiting for your signature
+              </h2>
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow">
+                {pendingSignature.length === 0 ? (
+                  <div className="text-center py-6 text-gray-500 dark:text-gray-400">
+                    You're all caught up.
+                  </div>
+                ) : (
+                  <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                    {pendingSignature.map((session) => {
+                      const signability = getSessionSignability(session);
+                      return (
+                        <li
+                          key={session.id}
+                          className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 px-4 py-3"
+                        >
+                          <div>
+                            <div className="text-sm font-medium text-gray-900 dark:text-white">
+                              {formatSessionDate(session)}
+                            </div>
+                            <div className="text-sm text-gray-500 dark:text-gray-400">
+                              {[session.patientName, session.therapistName]
+                                .filter(Boolean)
+                                .join(" · ")}
+                            </div>
+                            {!signability.allowed && (
+                              <div className="text-xs text-yellow-700 dark:text-yellow-400">
+                                {signability.reason}
+                              </div>
+                            )}
+                          </div>
+                          {canSign(session) && (
+                            <button
+                              onClick={() => setSigningSession(session)}
+                              className="self-start sm:self-auto bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+                            >
+                              Sign
+                            </button>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+              </div>
+            </section>
+
+            {/* Upcoming sessions */}
+            <section>
+              <h2 className={sectionTitleClassName}>Upcoming sessions</h2>
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow">
+                {renderSessionList(upcoming, "No upcoming sessions scheduled.")}
+              </div>
+            </section>
+
+            {/* Past sessions */}
+            <section>
+              <h2 className={sectionTitleClassName}>Past sessions</h2>
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow">
+                {renderSessionList(past, "No past sessions yet.")}
+              </div>
+            </section>
+
+            {/* Approved certifications */}
+            <section>
+              <h2 className={sectionTitleClassName}>Certifications</h2>
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow">
+                {certifications.length === 0 ? (
+                  <div className="text-center py-6 text-gray-500 dark:text-gray-400">
+                    No approved certifications yet.
+                  </div>
+                ) : (
+                  <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                    {certifications.map((certification) => (
+                      <li
+                        key={certification.id}
+                        className="flex items-center justify-between gap-2 px-4 py-3"
+                      >
+                        <div>
+                          <div className="text-sm font-medium text-gray-900 dark:text-white">
+                            {translationService.getMonthName(
+                              certification.month
+                            )}{" "}
+                            {certification.year}
+                          </div>
+                          <div className="text-sm text-gray-500 dark:text-gray-400">
+                            {[
+                              certification.patientName,
+                              certification.therapistName,
+                            ]
+                              .filter(Boolean)
+                              .join(" · ")}
+                          </div>
+                        </div>
+                        <button
+                          onClick={() => setPreviewCertification(certification)}
+                          className="px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+                        >
+                          View PDF
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </section>
+          </div>
+        )}
+      </main>
+
+      {signingSession && (
+        <PortalSignatureModal
+          isOpen
+          onClose={() => setSigningSession(null)}
+          session={signingSession}
+          isSigning={isSigning}
+          onSign={handleSign}
+        />
+      )}
+
+      {previewCertification && (
+        <CertificationPdfPreviewModal
+          isOpen
+          onClose={() => setPreviewCertification(null)}
+          certification={previewCertification}
+        />
+      )}
+    </div>
+  );
+};
+
+export default PortalPage;
@@ -0,0 +1,25 @@
+// Portal Types - read-only views of a child's sessions and certifications for parents
+import type { TherapySession } from '../../sessions/types/session.types';
+import type { CertificationDocument } from '../../certifications/types/certification.types';
+
+export interface PortalSessionGroups {
+  // Held sessions still waiting for the parent's signature
+  pendingSignature: TherapySession[];
+  upcoming: TherapySession[];
+  past: TherapySession[];
+}
+
+export interface UsePortalReturn extends PortalSessionGroups {
+  certifications: CertificationDocument[];
+  isLoading: boolean;
+  error: string | null;
+  reload: () => void;
+}
+
+export interface PortalSignatureModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  session: TherapySession;
+  isSigning: boolean;
+  onSign: (signatureData: string) => void;
+}
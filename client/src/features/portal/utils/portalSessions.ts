@@ -0,0 +1,36 @@
+// Portal Sessions - splits a child's sessions into what the parent needs to act on
+import type { TherapySession } from '../../sessions/types/session.types';
+import { ParentSignatureStatus } from '../../sessions/types/session.types';
+import type { PortalSessionGroups } from '../types/portal.types';
+import { AttendanceStatus } from '../../../shared/constants/enums';
+import { getAttendanceStatus } from '../../sessions/utils/attendance';
+import { isSessionSigned } from '../../sessions/utils/calendar';
+import { toDateKey, toDateOnly } from '../../../shared/utils/timeUtils';
+
+const byDateTime = (a: TherapySession, b: TherapySession): number =>
+  toDateOnly(a.sessionDate).localeCompare(toDateOnly(b.sessionDate)) ||
+  (a.sessionTime || '').localeCompare(b.sessionTime || '');
+
+/**
+ * Whether the parent can sign the session: it has taken place, the child attended and nobody has signed yet
+ */
+export const needsParentSignature = (session: TherapySession, today: string = toDateKey(new Date())): boolean =>
+  toDateOnly(session.sessionDate) <= today &&
+  getAttendanceStatus(session) === AttendanceStatus.ATTENDED &&
+  session.parentSignatureStatus === ParentSignatureStatus.PENDING &&
+  !isSessionSigned(session);
+
+/**
+ * Upcoming sessions soonest first, past sessions most recent first; today's sessions count as upcoming
+ */
+export const groupPortalSessions = (
+  sessions: TherapySession[],
+  today: string = toDateKey(new Date())
+): PortalSessionGroups => {
+  const sorted = [...sessions].sort(byDateTime);
+  return {
+    pendingSignature: sorted.filter((session) => needsParentSignature(session, today)),
+    upcoming: sorted.filter((session) => toDateOnly(session.sessionDate) >= today),
+    past: sorted.filter((session) => toDateOnly(session.sessionDate) < today).reverse(),
+  };
+};
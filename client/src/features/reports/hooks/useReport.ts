@@ -0,0 +1,48 @@
+// Report Hook - loads a grouped report whenever the filter changes
+import { useState, useEffect, useCallback } from 'react';
+import { reportService } from '../services/reportService';
+import type { ReportFilter, ReportResult, UseReportReturn } from '../types/report.types';
+
+export function useReport({ startDate, endDate, groupBy }: ReportFilter): UseReportReturn {
+  const [report, setReport] = useState<ReportResult | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+
+  useEffect(() => {
+    if (!startDate || !endDate || startDate > endDate) {
+      setReport(null);
+      return;
+    }
+
+    const request = new AbortController();
+
+    const load = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const result = await reportService.getReport({ startDate, endDate, groupBy }, { signal: request.signal });
+        if (!request.signal.aborted) setReport(result);
+      } catch (err) {
+        if (!request.signal.aborted) {
+          setReport(null);
+          setError(err instanceof Error ? err.message : 'Failed to load report');
+        }
+      } finally {
+        if (!request.signal.aborted) setIsLoading(false);
+      }
+    };
+
+    load();
+
+    return () => {
+      request.abort();
+    };
+  }, [startDate, endDate, groupBy, reloadCount]);
+
+  const reload = useCallback(() => setReloadCount((count) => count + 1), []);
+
+  return { report, isLoading, error, reload };
+}
+
+export default useReport;
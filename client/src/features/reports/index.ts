@@ -0,0 +1,13 @@
+// Reports Feature Exports
+export { useReport } from './hooks/useReport';
+export { default as ReportsPage } from './pages/ReportsPage';
+export { reportService } from './services/reportService';
+export { buildReport, getCompletionRate, toBillableHours } from './utils/reportAggregation';
+export { REPORT_GROUP_LABELS, getReportExportColumns, exportReport } from './utils/reportExport';
+export type {
+  ReportGroupBy,
+  ReportFilter,
+  ReportRow,
+  ReportResult,
+  UseReportReturn,
+} from './types/report.types';
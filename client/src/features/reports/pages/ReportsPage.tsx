@@ -0,0 +1,292 @@
+import React, { useState } from "react";
+import { endOfMonth, format, startOfMonth, subDays, subMonths } from "date-fns";
+import { Navigation } from "../../../shared/components/layout";
+import { ExportModal } from "../../../shared/components/ui/ExportModal";
+import { useReport } from "../hooks/useReport";
+import { toBillableHours } from "../utils/reportAggregation";
+import {
+  REPORT_GROUP_LABELS,
+  exportReport,
+  getReportExportColumns,
+} from "../utils/reportExport";
+import type {
+  ReportFilter,
+  ReportGroupBy,
+  ReportRow,
+} from "../types/report.types";
+
+const toInputDate = (date: Date) => format(date, "yyyy-MM-dd");
+
+// Payroll runs every two weeks, so that is the default period
+const PRESETS: Array<{ label: string; range: () => [Date, Date] }> = [
+  { label: "Last 14 days", range: () => [subDays(new Date(), 13), new Date()] },
+  {
+    label: "This month",
+    range: () => [startOfMonth(new Date()), endOfMonth(new Date())],
+  },
+  {
+    label: "Last month",
+    range: () => {
+      const lastMonth = subMonths(new Date(), 1);
+      return [startOfMonth(lastMonth), endOfMonth(lastMonth)];
+    },
+  },
+];
+
+const formatRate = (rate: number) => `${Math.round(rate * 100)}%`;
+
+const inputClassName =
+  "px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white";
+
+const ReportsPage: React.FC = () => {
+  const [filter, setFilter] = useState<ReportFilter>(() => {
+    const [start, end] = PRESETS[0].range();
+    return {
+      startDate: toInputDate(start),
+      endDate: toInputDate(end),
+      groupBy: "therapist",
+    };
+  });
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const { report, isLoading, error, reload } = useReport(filter);
+
+  const isRangeValid = filter.startDate <= filter.endDate;
+  const rows = report?.rows || [];
+  const totals = report?.totals;
+
+  const applyPreset = (range: [Date, Date]) => {
+    setFilter((prev) => ({
+      ...prev,
+      startDate: toInputDate(range[0]),
+      endDate: toInputDate(range[1]),
+    }));
+  };
+
+  const renderCells = (row: ReportRow) => (
+    <>
+      <td className="px-4 py-3 text-sm text-right">{row.scheduledSessions}</td>
+      <td className="px-4 py-3 text-sm text-right">{row.completedSessions}</td>
+      <td className="px-4 py-3 text-sm text-right">{row.excusedAbsences}</td>
+      <td className="px-4 py-3 text-sm text-right">{row.unexcusedAbsences}</td>
+      <td className="px-4 py-3 text-sm text-right">{row.cancelledSessions}</td>
+      <td className="px-4 py-3 text-sm text-right">{row.makeupSessions}</td>
+      <td className="px-4 py-3 text-sm text-right">
+        {formatRate(row.completionRate)}
+      </td>
+      <td className="px-4 py-3 text-sm text-right">
+        {toBillableHours(row.billableMinutes)}
+      </td>
+      <td className="px-4 py-3 text-sm text-right">
+        {row.approvedCertifications}/{row.certifications}
+      </td>
+    </>
+  );
+
+  const summary = totals
+    ? [
+        { label: "Scheduled Sessions", value: totals.scheduledSessions },
+        { label: "Completed Sessions", value: totals.completedSessions },
+        { label: "Completion Rate", value: formatRate(totals.completionRate) },
+        {
+          label: "Billable Hours",
+          value: toBillableHours(totals.billableMinutes),
+        },
+        {
+          label: "Approved Certifications",
+          value: `${totals.approvedCertifications}/${totals.certifications}`,
+        },
+      ]
+    : [];
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <Navigation />
+      <main className="max-w-7xl mx-auto py-6 px-4">
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+            Reports
+          </h1>
+          <p className="mt-2 text-gray-600 dark:text-gray-400">
+            Sessions and certifications across all therapists, grouped for
+            payroll and review
+          </p>
+        </div>
+
+        {/* Filters */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4 md:p-6 mb-6">
+          <div className="flex flex-col lg:flex-row lg:items-end gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                From
+              </label>
+              <input
+                type="date"
+                value={filter.startDate}
+                onChange={(e) =>
+                  setFilter((prev) => ({ ...prev, startDate: e.target.value }))
+                }
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                To
+              </label>
+              <input
+                type="date"
+                value={filter.endDate}
+                onChange={(e) =>
+                  setFilter((prev) => ({ ...prev, endDate: e.target.value }))
+                }
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Group by
+              </label>
+              <select
+                value={filter.groupBy}
+                onChange={(e) =>
+                  setFilter((prev) => ({
+                    ...prev,
+                    groupBy: e.target.value as ReportGroupBy,
+                  }))
+                }
+                className={inputClassName}
+              >
+                {Object.entries(REPORT_GROUP_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {PRESETS.map((preset) => (
+                <button
+                  key={preset.label}
+                  onClick={() => applyPreset(preset.range())}
+                  className="px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+                >
+                  {preset.label}
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-2 lg:ml-auto">
+              <button
+                onClick={reload}
+                disabled={isLoading || !isRangeValid}
+                className="px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors disabled:opacity-50"
+              >
+                Refresh
+              </button>
+              <button
+                onClick={() => setIsExportOpen(true)}
+                disabled={!report || rows.length === 0}
+                className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                Export
+              </button>
+            </div>
+          </div>
+          {!isRangeValid && (
+            <p className="mt-3 text-sm text-red-600 dark:text-red-400">
+              The start date must be on or before the end date
+            </p>
+          )}
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-100 border border-red-400 text-red-700 rounded">
+            {error}
+          </div>
+        )}
+
+        {/* Summary */}
+        {summary.length > 0 && (
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
+            {summary.map((item) => (
+              <div
+                key={item.label}
+                className="bg-white dark:bg-gray-800 rounded-lg shadow p-4"
+              >
+                <div className="text-sm text-gray-500 dark:text-gray-400">
+                  {item.label}
+                </div>
+                <div className="mt-1 text-2xl font-semibold text-gray-900 dark:text-white">
+                  {item.value}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Grouped rows */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-x-auto">
+          {isLoading ? (
+            <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+              Loading report...
+            </div>
+          ) : rows.length === 0 ? (
+            <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+              No sessions or certifications in this period.
+            </div>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-gray-900 dark:text-white">
+              <thead className="bg-gray-50 dark:bg-gray-700/50">
+                <tr className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                  <th className="px-4 py-3 text-left">
+                    {REPORT_GROUP_LABELS[filter.groupBy]}
+                  </th>
+                  <th className="px-4 py-3 text-right">Scheduled</th>
+                  <th className="px-4 py-3 text-right">Completed</th>
+                  <th className="px-4 py-3 text-right">Excused</th>
+                  <th className="px-4 py-3 text-right">Unexcused</th>
+                  <th className="px-4 py-3 text-right">Cancelled</th>
+                  <th className="px-4 py-3 text-right">Makeup</th>
+                  <th className="px-4 py-3 text-right">Completion</th>
+                  <th className="px-4 py-3 text-right">Hours</th>
+                  <th className="px-4 py-3 text-right">Certifications</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {rows.map((row) => (
+                  <tr key={row.key}>
+                    <td className="px-4 py-3 text-sm font-medium">
+                      {row.label}
+                    </td>
+                    {renderCells(row)}
+                  </tr>
+                ))}
+              </tbody>
+              {totals && (
+                <tfoot className="bg-gray-50 dark:bg-gray-700/50 font-semibold">
+                  <tr>
+                    <td className="px-4 py-3 text-sm">{totals.label}</td>
+                    {renderCells(totals)}
+                  </tr>
+                </tfoot>
+              )}
+            </table>
+          )}
+        </div>
+      </main>
+
+      {isExportOpen && report && (
+        <ExportModal
+          isOpen
+          onClose={() => setIsExportOpen(false)}
+          title="Export Report"
+          itemCount={report.rows.length}
+          itemLabel="rows"
+          columns={getReportExportColumns(report.filter.groupBy)}
+          onExport={async (options) => exportReport(report, options)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ReportsPage;
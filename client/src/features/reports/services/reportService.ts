@@ -0,0 +1,107 @@
+// Report Service - API Communication Layer
+import { apiClient, ApiError } from '@/services/apiClient';
+import { API_CONFIG } from '../../../config/api';
+import type { RequestOptions } from '../../../shared/types/api';
+import { sessionService } from '../../sessions/services/sessionService';
+import { certificationService } from '../../certifications/services/certificationService';
+import { isOffline } from '../../sessions/utils/offlineSync';
+import type { TherapySession } from '../../sessions/types/session.types';
+import type { CertificationDocument } from '../../certifications/types/certification.types';
+import type { ReportFilter, ReportResult } from '../types/report.types';
+import { buildReport } from '../utils/reportAggregation';
+
+const PAGE_SIZE = 500;
+const MAX_PAGES = 20;
+
+class ReportService {
+  private readonly baseURL = `${API_CONFIG.BASE_URL}${API_CONFIG.ENDPOINTS.REPORTS}`;
+
+  /**
+   * Get a grouped report from the server, or aggregate it here when the server has no reports endpoint
+   */
+  async getReport(filter: ReportFilter, options: RequestOptions = {}): Promise<ReportResult> {
+    // Sessions cached on this device are only a slice of the range and would undercount
+    if (isOffline()) {
+      throw new Error('Reports need a connection. Reconnect and try again.');
+    }
+
+    const report = await this.fetchReport(filter, options);
+    if (report) {
+      return report;
+    }
+
+    const [sessions, certifications] = await Promise.all([
+      this.getAllSessions(filter, options),
+      this.getAllCertifications(filter, options),
+    ]);
+    return buildReport(filter, sessions, certifications);
+  }
+
+  /**
+   * Server-side report; null when the endpoint is not available
+   */
+  private async fetchReport(filter: ReportFilter, options: RequestOptions): Promise<ReportResult | null> {
+    try {
+      const report = await apiClient.request<Omit<ReportResult, 'filter'>>({
+        url: this.baseURL,
+        params: {
+          groupBy: filter.groupBy,
+          startDate: filter.startDate,
+          endDate: filter.endDate,
+        },
+        errorMessage: 'Failed to fetch report',
+        ...options,
+      });
+      return { ...report, filter };
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 404) {
+        return null;
+      }
+      console.error('Get report error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Every session in the date range, across pages, from the server only
+   */
+  private async getAllSessions(filter: ReportFilter, options: RequestOptions): Promise<TherapySession[]> {
+    const sessions: TherapySession[] = [];
+    for (let page = 1; page <= MAX_PAGES; page++) {
+      const response = await sessionService.getSessions({
+        startDate: filter.startDate,
+        endDate: filter.endDate,
+        page,
+        pageSize: PAGE_SIZE,
+      }, { ...options, offlineFallback: false });
+      sessions.push(...response.sessions);
+      if (!response.hasNext) return sessions;
+    }
+    throw new Error('Too many sessions in this range; choose a shorter period');
+  }
+
+  /**
+   * Every certification for the years the range touches; buildReport narrows them to its months
+   */
+  private async getAllCertifications(filter: ReportFilter, options: RequestOptions): Promise<CertificationDocument[]> {
+    const startYear = Number(filter.startDate.slice(0, 4));
+    const endYear = Number(filter.endDate.slice(0, 4));
+    const certifications: CertificationDocument[] = [];
+
+    for (let year = startYear; year <= endYear; year++) {
+      for (let page = 1; ; page++) {
+        if (page > MAX_PAGES) {
+          throw new Error('Too many certifications in this range; choose a shorter period');
+        }
+        const response = await certificationService.getCertifications({ year, page, pageSize: PAGE_SIZE }, options);
+        certifications.push(...response.certifications);
+        if (!response.hasNext) break;
+      }
+    }
+    return certifications;
+  }
+}
+
+// Singleton instance
+export const reportService = new ReportService();
+export default reportService;
@@ -0,0 +1,39 @@
+// Reports Feature Types
+
+export type ReportGroupBy = 'therapist' | 'patient' | 'month';
+
+export interface ReportFilter {
+  startDate: string; // yyyy-MM-dd, inclusive
+  endDate: string;
+  groupBy: ReportGroupBy;
+}
+
+export interface ReportRow {
+  key: string;
+  label: string;
+  certifications: number;
+  approvedCertifications: number;
+  scheduledSessions: number;
+  completedSessions: number; // Attended and signed, i.e. billable
+  excusedAbsences: number;
+  unexcusedAbsences: number;
+  cancelledSessions: number;
+  makeupSessions: number;
+  billableMinutes: number;
+  completionRate: number; // 0-1, completed over scheduled sessions not cancelled by the therapist
+}
+
+export interface ReportResult {
+  filter: ReportFilter;
+  rows: ReportRow[];
+  totals: ReportRow;
+  generatedAt: string;
+}
+
+// Hook Types
+export interface UseReportReturn {
+  report: ReportResult | null;
+  isLoading: boolean;
+  error: string | null;
+  reload: () => void;
+}
@@ -0,0 +1,171 @@
+// Report Aggregation - sessions and certifications grouped by therapist, patient or month
+import type { CertificationDocument } from '../../certifications/types/certification.types';
+import type { TherapySession } from '../../sessions/types/session.types';
+import type { ReportFilter, ReportGroupBy, ReportResult, ReportRow } from '../types/report.types';
+import { AttendanceStatus, CertificationStatus } from '../../../shared/constants/enums';
+import { translationService } from '../../../shared/constants/translations';
+import { getAttendanceStatus, isBillableSession } from '../../sessions/utils/attendance';
+import { getSessionMinutes } from '../../sessions/utils/calendar';
+import { toDateOnly } from '../../../shared/utils/timeUtils';
+
+interface ReportGroup {
+  key: string;
+  label: string;
+}
+
+const emptyRow = ({ key, label }: ReportGroup): ReportRow => ({
+  key,
+  label,
+  certifications: 0,
+  approvedCertifications: 0,
+  scheduledSessions: 0,
+  completedSessions: 0,
+  excusedAbsences: 0,
+  unexcusedAbsences: 0,
+  cancelledSessions: 0,
+  makeupSessions: 0,
+  billableMinutes: 0,
+  completionRate: 0,
+});
+
+const getMonthGroup = (year: number, month: number): ReportGroup => ({
+  key: `${year}-${String(month).padStart(2, '0')}`,
+  label: `${translationService.getMonthName(month)} ${year}`,
+});
+
+const getSessionGroup = (session: TherapySession, groupBy: ReportGroupBy): ReportGroup => {
+  switch (groupBy) {
+    case 'therapist':
+      return { key: session.therapistId || 'unknown', label: session.therapistName || 'Unknown therapist' };
+    case 'patient':
+      return {
+        key: session.patientId || session.patientName || 'unknown',
+        label: session.patientName || 'Unknown patient',
+      };
+    case 'month': {
+      const [year, month] = toDateOnly(session.sessionDate).split('-').map(Number);
+      return getMonthGroup(year, month);
+    }
+  }
+};
+
+const getCertificationGroup = (certification: CertificationDocument, groupBy: ReportGroupBy): ReportGroup => {
+  switch (groupBy) {
+    case 'therapist':
+      return {
+        key: certification.therapistId || 'unknown',
+        label: certification.therapistName || certification.therapist?.fullName || 'Unknown therapist',
+      };
+    case 'patient':
+      return {
+        key: certification.patientId || certification.patientName || 'unknown',
+        label: certification.patientName || certification.patient?.fullName || 'Unknown patient',
+      };
+    case 'month':
+      return getMonthGroup(certification.year, certification.month);
+  }
+};
+
+/**
+ * Completed sessions over those that could have happened; therapist cancellations don't count against the rate
+ */
+export const getCompletionRate = (row: Pick<ReportRow, 'scheduledSessions' | 'cancelledSessions' | 'completedSessions'>): number => {
+  const expected = row.scheduledSessions - row.cancelledSessions;
+  return expected > 0 ? row.completedSessions / expected : 0;
+};
+
+const addSession = (row: ReportRow, session: TherapySession): void => {
+  row.scheduledSessions++;
+  if (session.isReposicion) row.makeupSessions++;
+
+  switch (getAttendanceStatus(session)) {
+    case AttendanceStatus.EXCUSED_ABSENCE:
+      row.excusedAbsences++;
+      return;
+    case AttendanceStatus.UNEXCUSED_ABSENCE:
+      row.unexcusedAbsences++;
+      return;
+    case AttendanceStatus.CANCELLED_BY_THERAPIST:
+      row.cancelledSessions++;
+      return;
+  }
+
+  if (isBillableSession(session)) {
+    const { start, end } = getSessionMinutes(session);
+    row.completedSessions++;
+    row.billableMinutes += end - start;
+  }
+};
+
+const sumRows = (rows: ReportRow[]): ReportRow => {
+  const totals = emptyRow({ key: 'total', label: 'Total' });
+  rows.forEach((row) => {
+    totals.certifications += row.certifications;
+    totals.approvedCertifications += row.approvedCertifications;
+    totals.scheduledSessions += row.scheduledSessions;
+    totals.completedSessions += row.completedSessions;
+    totals.excusedAbsences += row.excusedAbsences;
+    totals.unexcusedAbsences += row.unexcusedAbsences;
+    totals.cancelledSessions += row.cancelledSessions;
+    totals.makeupSessions += row.makeupSessions;
+    totals.billableMinutes += row.billableMinutes;
+  });
+  totals.completionRate = getCompletionRate(totals);
+  return totals;
+};
+
+/**
+ * Aggregate the sessions in the range and the certifications for the months it touches
+ */
+export const buildReport = (
+  filter: ReportFilter,
+  sessions: TherapySession[],
+  certifications: CertificationDocument[]
+): ReportResult => {
+  const rows = new Map<string, ReportRow>();
+  const getRow = (group: ReportGroup): ReportRow => {
+    const existing = rows.get(group.key);
+    if (existing) return existing;
+    const row = emptyRow(group);
+    rows.set(group.key, row);
+    return row;
+  };
+
+  sessions
+    .filter((session) => {
+      const date = toDateOnly(session.sessionDate);
+      return date >= filter.startDate && date <= filter.endDate;
+    })
+    .forEach((session) => addSession(getRow(getSessionGroup(session, filter.groupBy)), session));
+
+  const startMonth = filter.startDate.slice(0, 7);
+  const endMonth = filter.endDate.slice(0, 7);
+  certifications
+    .filter((certification) => {
+      const { key } = getMonthGroup(certification.year, certification.month);
+      return key >= startMonth && key <= endMonth;
+    })
+    .forEach((certification) => {
+      const row = getRow(getCertificationGroup(certification, filter.groupBy));
+      row.certifications++;
+      if (certification.status === CertificationStatus.APPROVED) row.approvedCertifications++;
+    });
+
+  const sortedRows = [...rows.values()]
+    .map((row) => ({ ...row, completionRate: getCompletionRate(row) }))
+    .sort((a, b) =>
+      filter.groupBy === 'month' ? a.key.localeCompare(b.key) : a.label.localeCompare(b.label)
+    );
+
+  return {
+    filter,
+    rows: sortedRows,
+    totals: sumRows(sortedRows),
+    generatedAt: new Date().toISOString(),
+  };
+};
+
+/**
+ * Billable minutes as decimal hours, e.g. 90 -> 1.5
+ */
+export const toBillableHours = (minutes: number): number => Math.round((minutes / 60) * 100) / 100;
@@ -0,0 +1,50 @@
+// Report Export - columns and CSV/XLSX export of grouped reports
+import type { ReportGroupBy, ReportResult, ReportRow } from '../types/report.types';
+import { toBillableHours } from './reportAggregation';
+import {
+  buildCsv,
+  buildXlsx,
+  getExportFilename,
+  selectExportColumns,
+  toExportRows,
+  type ExportColumn,
+  type TableExportOptions,
+} from '../../../shared/utils/tableExport';
+import { downloadBlob } from '../../../shared/utils/download';
+
+export const REPORT_GROUP_LABELS: Record<ReportGroupBy, string> = {
+  therapist: 'Therapist',
+  patient: 'Patient',
+  month: 'Month',
+};
+
+/**
+ * Export columns; the first one is named after the grouping
+ */
+export const getReportExportColumns = (groupBy: ReportGroupBy): ExportColumn<ReportRow>[] => [
+  { key: 'label', label: REPORT_GROUP_LABELS[groupBy], value: (row) => row.label },
+  { key: 'scheduledSessions', label: 'Scheduled Sessions', value: (row) => row.scheduledSessions },
+  { key: 'completedSessions', label: 'Completed Sessions', value: (row) => row.completedSessions },
+  { key: 'excusedAbsences', label: 'Excused Absences', value: (row) => row.excusedAbsences },
+  { key: 'unexcusedAbsences', label: 'Unexcused Absences', value: (row) => row.unexcusedAbsences },
+  { key: 'cancelledSessions', label: 'Cancelled by Therapist', value: (row) => row.cancelledSessions },
+  { key: 'makeupSessions', label: 'Makeup Sessions', value: (row) => row.makeupSessions },
+  { key: 'completionRate', label: 'Completion Rate (%)', value: (row) => Math.round(row.completionRate * 1000) / 10 },
+  { key: 'billableHours', label: 'Billable Hours', value: (row) => toBillableHours(row.billableMinutes) },
+  { key: 'certifications', label: 'Certifications', value: (row) => row.certifications },
+  { key: 'approvedCertifications', label: 'Approved Certifications', value: (row) => row.approvedCertifications },
+];
+
+/**
+ * Download a report as CSV or XLSX, with a totals row at the bottom
+ */
+export const exportReport = (report: ReportResult, options: TableExportOptions): void => {
+  const { groupBy, startDate, endDate } = report.filter;
+  const columns = selectExportColumns(getReportExportColumns(groupBy), options.columns);
+  const rows = toExportRows([...report.rows, report.totals], columns);
+  const blob =
+    options.format === 'csv'
+      ? buildCsv(rows, options.locale)
+      : buildXlsx([{ name: `${startDate} to ${endDate}`, rows, headerRows: [0, rows.length - 1] }]);
+  downloadBlob(blob, getExportFilename(`report-by-${groupBy}`, options.format));
+};
@@ -0,0 +1,148 @@
+import React, { useEffect, useState } from "react";
+import { BaseModal } from "../../../shared/components/ui/BaseModal";
+import type {
+  CreateSchoolRequest,
+  SchoolModalProps,
+} from "../types/school.types";
+
+const EMPTY_SCHOOL: CreateSchoolRequest = {
+  name: "",
+  address: "",
+  municipality: "",
+  phone: "",
+};
+
+export const SchoolModal: React.FC<SchoolModalProps> = ({
+  isOpen,
+  onClose,
+  school,
+  onSave,
+  onDelete,
+}) => {
+  const [formData, setFormData] = useState<CreateSchoolRequest>(EMPTY_SCHOOL);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isCreating = !school;
+
+  useEffect(() => {
+    setFormData(
+      school
+        ? {
+            name: school.name,
+            address: school.address || "",
+            municipality: school.municipality || "",
+            phone: school.phone || "",
+          }
+        : EMPTY_SCHOOL
+    );
+    setError(null);
+  }, [school, isOpen]);
+
+  const handleFieldChange = (
+    field: keyof CreateSchoolRequest,
+    value: string
+  ) => {
+    setFormData((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const runAction = async (action: () => Promise<void>) => {
+    try {
+      setIsSaving(true);
+      setError(null);
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save school");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = () => {
+    if (!formData.name.trim()) {
+      setError("School name is required");
+      return;
+    }
+    runAction(() => onSave({ ...formData, name: formData.name.trim() }));
+  };
+
+  const handleDelete = () => {
+    if (
+      onDelete &&
+      window.confirm(
+        "Delete this school? Sessions that used it keep their location text."
+      )
+    ) {
+      runAction(onDelete);
+    }
+  };
+
+  const footerConfig = {
+    buttons: [
+      ...(!isCreating && onDelete
+        ? [
+            {
+              label: "Delete",
+              variant: "danger" as const,
+              onClick: handleDelete,
+              disabled: isSaving,
+            },
+          ]
+        : []),
+      {
+        label: "Cancel",
+        variant: "secondary" as const,
+        onClick: onClose,
+        disabled: isSaving,
+      },
+      {
+        label: isSaving ? "Saving..." : isCreating ? "Create" : "Save",
+        variant: "primary" as const,
+        onClick: handleSave,
+        loading: isSaving,
+        disabled: isSaving,
+      },
+    ],
+    buttonAlignment: "right" as const,
+  };
+
+  const renderField = (
+    label: string,
+    field: keyof CreateSchoolRequest,
+    type: string = "text"
+  ) => (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+        {label}
+      </label>
+      <input
+        type={type}
+        value={formData[field] || ""}
+        onChange={(e) => handleFieldChange(field, e.target.value)}
+        className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+      />
+    </div>
+  );
+
+  return (
+    <BaseModal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={isCreating ? "Add School" : "Edit School"}
+      subtitle={isCreating ? "Add a school to the directory" : school?.name}
+      footerConfig={footerConfig}
+      error={error}
+    >
+      <div className="p-6 space-y-4">
+        {renderField("Name *", "name")}
+        {renderField("Address", "address")}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {renderField("Municipality", "municipality")}
+          {renderField("Phone", "phone", "tel")}
+        </div>
+      </div>
+    </BaseModal>
+  );
+};
+
+export default SchoolModal;
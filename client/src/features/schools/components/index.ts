@@ -0,0 +1,2 @@
+// School Components Exports
+export { SchoolModal } from './SchoolModal';
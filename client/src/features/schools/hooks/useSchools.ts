@@ -0,0 +1,87 @@
+// Schools Hook - State Management for the school directory
+import { useState, useEffect, useCallback } from 'react';
+import { schoolService } from '../services/schoolService';
+import type {
+  School,
+  CreateSchoolRequest,
+  UpdateSchoolRequest,
+  UseSchoolsReturn,
+} from '../types/school.types';
+
+export function useSchools(): UseSchoolsReturn {
+  const [schools, setSchools] = useState<School[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Load schools; the service answers from its cache unless forced
+   */
+  const loadSchools = useCallback(async (forceRefresh = false) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setSchools(await schoolService.getSchools(forceRefresh));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load schools');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSchools();
+  }, [loadSchools]);
+
+  // The service updates its cache on every write; read it back into state
+  const syncFromCache = useCallback(async () => {
+    setSchools(await schoolService.getSchools());
+  }, []);
+
+  const createSchool = useCallback(async (data: CreateSchoolRequest): Promise<School> => {
+    const school = await schoolService.createSchool(data);
+    await syncFromCache();
+    return school;
+  }, [syncFromCache]);
+
+  const updateSchool = useCallback(async (id: string, data: UpdateSchoolRequest): Promise<School> => {
+    const school = await schoolService.updateSchool(id, data);
+    await syncFromCache();
+    return school;
+  }, [syncFromCache]);
+
+  const deleteSchool = useCallback(async (id: string): Promise<void> => {
+    await schoolService.deleteSchool(id);
+    await syncFromCache();
+  }, [syncFromCache]);
+
+  const toggleFavorite = useCallback(async (school: School): Promise<void> => {
+    await schoolService.setFavorite(school.id, !school.isFavorite);
+    await syncFromCache();
+  }, [syncFromCache]);
+
+  /**
+   * Usage only affects ordering, so a failure is logged rather than shown
+   */
+  const recordUsage = useCallback(async (id: string): Promise<void> => {
+    try {
+      await schoolService.recordUsage(id);
+      await syncFromCache();
+    } catch (err) {
+      console.error('Failed to record school usage:', err);
+    }
+  }, [syncFromCache]);
+
+  return {
+    schools,
+    isLoading,
+    error,
+    loadSchools,
+    createSchool,
+    updateSchool,
+    deleteSchool,
+    toggleFavorite,
+    recordUsage,
+  };
+}
+
+export default useSchools;
@@ -0,0 +1,20 @@
+// Schools Feature Exports
+export { useSchools } from './hooks/useSchools';
+export { SchoolModal } from './components';
+export { default as SchoolsPage } from './pages/SchoolsPage';
+export { schoolService } from './services/schoolService';
+export {
+  sortSchools,
+  searchSchools,
+  findSchoolByName,
+  SCHOOL_PLACE,
+  formatLocation,
+  parseLocation,
+} from './utils/schoolDirectory';
+export type {
+  School,
+  CreateSchoolRequest,
+  UpdateSchoolRequest,
+  SchoolModalProps,
+  UseSchoolsReturn,
+} from './types/school.types';
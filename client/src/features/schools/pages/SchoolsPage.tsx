@@ -0,0 +1,168 @@
+import React, { useMemo, useState } from "react";
+import { Navigation } from "../../../shared/components/layout";
+import { useSchools } from "../hooks/useSchools";
+import { SchoolModal } from "../components/SchoolModal";
+import { searchSchools } from "../utils/schoolDirectory";
+import type { CreateSchoolRequest, School } from "../types/school.types";
+
+const SchoolsPage: React.FC = () => {
+  const {
+    schools,
+    isLoading,
+    error,
+    loadSchools,
+    createSchool,
+    updateSchool,
+    deleteSchool,
+  } = useSchools();
+  const [search, setSearch] = useState("");
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [selectedSchool, setSelectedSchool] = useState<School | null>(null);
+
+  // The admin list is alphabetical; favorites only matter to the picker
+  const filteredSchools = useMemo(
+    () =>
+      searchSchools(schools, search).sort((a, b) =>
+        a.name.localeCompare(b.name)
+      ),
+    [schools, search]
+  );
+
+  const openModal = (school: School | null) => {
+    setSelectedSchool(school);
+    setIsModalOpen(true);
+  };
+
+  const closeModal = () => {
+    setIsModalOpen(false);
+    setSelectedSchool(null);
+  };
+
+  const handleSave = async (data: CreateSchoolRequest) => {
+    if (selectedSchool) {
+      await updateSchool(selectedSchool.id, data);
+    } else {
+      await createSchool(data);
+    }
+    closeModal();
+  };
+
+  const handleDelete = async () => {
+    if (!selectedSchool) return;
+    await deleteSchool(selectedSchool.id);
+    closeModal();
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <Navigation />
+      <main className="max-w-7xl mx-auto py-6 px-4">
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+            Schools
+          </h1>
+          <p className="mt-2 text-gray-600 dark:text-gray-400">
+            Manage the schools therapists can pick as a session location
+          </p>
+        </div>
+
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow">
+          {/* Header with Add Button */}
+          <div className="p-4 md:p-6 border-b border-gray-200 dark:border-gray-700">
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+              <input
+                type="text"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search schools..."
+                className="w-full sm:w-80 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+              />
+              <div className="flex gap-2">
+                <button
+                  onClick={() => loadSchools(true)}
+                  disabled={isLoading}
+                  className="px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors disabled:opacity-50"
+                >
+                  Refresh
+                </button>
+                <button
+                  onClick={() => openModal(null)}
+                  className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+                >
+                  Add School
+                </button>
+              </div>
+            </div>
+          </div>
+
+          {error && (
+            <div className="m-4 p-4 bg-red-100 border border-red-400 text-red-700 rounded">
+              {error}
+            </div>
+          )}
+
+          {isLoading && schools.length === 0 ? (
+            <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+              Loading schools...
+            </div>
+          ) : filteredSchools.length === 0 ? (
+            <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+              {search ? "No schools match your search." : "No schools yet."}
+            </div>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+              <thead className="bg-gray-50 dark:bg-gray-700/50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                    Name
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                    Address
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                    Municipality
+                  </th>
+                  <th className="px-6 py-3" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {filteredSchools.map((school) => (
+                  <tr key={school.id}>
+                    <td className="px-6 py-3 text-sm font-medium text-gray-900 dark:text-white">
+                      {school.name}
+                    </td>
+                    <td className="px-6 py-3 text-sm text-gray-600 dark:text-gray-400">
+                      {school.address || "-"}
+                    </td>
+                    <td className="px-6 py-3 text-sm text-gray-600 dark:text-gray-400">
+                      {school.municipality || "-"}
+                    </td>
+                    <td className="px-6 py-3 text-right">
+                      <button
+                        onClick={() => openModal(school)}
+                        className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                      >
+                        Edit
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </main>
+
+      <SchoolModal
+        isOpen={isModalOpen}
+        onClose={closeModal}
+        school={selectedSchool}
+        onSave={handleSave}
+        onDelete={handleDelete}
+      />
+    </div>
+  );
+};
+
+export default SchoolsPage;
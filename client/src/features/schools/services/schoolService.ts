@@ -0,0 +1,184 @@
+// School Service - API Communication Layer
+import { tokenService } from '@/features/auth/services/tokenService';
+import { apiClient } from '@/services/apiClient';
+import type {
+  School,
+  CreateSchoolRequest,
+  UpdateSchoolRequest,
+} from '../types/school.types';
+
+// The directory changes rarely; every session form reads it
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+const NOT_FOUND = { 404: 'School not found' };
+
+class SchoolService {
+  private readonly baseURL = '/api/schools';
+  private cache: School[] | null = null;
+  private cachedAt = 0;
+  private cacheOwner: unknown = null; // Favorites and usage are per user
+  private pendingLoad: Promise<School[]> | null = null;
+
+  /**
+   * Get the school directory, served from the cache while it is fresh
+   */
+  async getSchools(forceRefresh = false): Promise<School[]> {
+    const isFresh = Date.now() - this.cachedAt < CACHE_TTL_MS;
+    const owner = tokenService.getUserFromToken()?.id ?? null;
+    if (!forceRefresh && this.cache && isFresh && this.cacheOwner === owner) {
+      return this.cache;
+    }
+
+    // Share one request between pickers mounting at the same time
+    if (!this.pendingLoad) {
+      this.pendingLoad = this.fetchSchools().finally(() => {
+        this.pendingLoad = null;
+      });
+    }
+    return this.pendingLoad;
+  }
+
+  /**
+   * Drop cached schools so the next read goes to the API
+   */
+  clearCache(): void {
+    this.cache = null;
+    this.cachedAt = 0;
+    this.cacheOwner = null;
+  }
+
+  private async fetchSchools(): Promise<School[]> {
+    try {
+      const data = await apiClient.request<School[]>({
+        url: this.baseURL,
+        errorMessage: 'Failed to fetch schools',
+      });
+
+      this.cache = Array.isArray(data) ? data : [];
+      this.cachedAt = Date.now();
+      this.cacheOwner = tokenService.getUserFromToken()?.id ?? null;
+      return this.cache;
+    } catch (error) {
+      console.error('Get schools error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Add a school to the directory (therapists can add schools inline)
+   */
+  async createSchool(schoolData: CreateSchoolRequest): Promise<School> {
+    try {
+      const school = await apiClient.request<School>({
+        url: this.baseURL,
+        method: 'POST',
+        body: schoolData,
+        errorMessages: { 409: 'A school with this name already exists' },
+        errorMessage: 'Failed to create school',
+      });
+
+      this.updateCache((schools) => [...schools, school]);
+      return school;
+    } catch (error) {
+      console.error('Create school error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a school (admin only)
+   */
+  async updateSchool(id: string, schoolData: UpdateSchoolRequest): Promise<School> {
+    try {
+      const updated = await apiClient.request<School>({
+        url: `${this.baseURL}/${id}`,
+        method: 'PUT',
+        body: schoolData,
+        errorMessages: NOT_FOUND,
+        errorMessage: 'Failed to update school',
+      });
+
+      this.updateCache((schools) =>
+        schools.map((school) => (school.id === id ? updated : school))
+      );
+      return updated;
+    } catch (error) {
+      console.error('Update school error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a school (admin only)
+   */
+  async deleteSchool(id: string): Promise<void> {
+    try {
+      await apiClient.send({
+        url: `${this.baseURL}/${id}`,
+        method: 'DELETE',
+        errorMessages: NOT_FOUND,
+        errorMessage: 'Failed to delete school',
+      });
+
+      this.updateCache((schools) => schools.filter((school) => school.id !== id));
+    } catch (error) {
+      console.error('Delete school error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Mark or unmark a school as a favorite of the current user
+   */
+  async setFavorite(id: string, isFavorite: boolean): Promise<void> {
+    try {
+      await apiClient.send({
+        url: `${this.baseURL}/${id}/favorite`,
+        method: isFavorite ? 'PUT' : 'DELETE',
+        errorMessages: NOT_FOUND,
+        errorMessage: 'Failed to update favorite',
+      });
+
+      this.updateCache((schools) =>
+        schools.map((school) => (school.id === id ? { ...school, isFavorite } : school))
+      );
+    } catch (error) {
+      console.error('Set school favorite error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record that the current user picked a school, for most-used ordering
+   */
+  async recordUsage(id: string): Promise<void> {
+    try {
+      await apiClient.send({
+        url: `${this.baseURL}/${id}/usage`,
+        method: 'POST',
+        errorMessage: 'Failed to record school usage',
+      });
+
+      const lastUsed = new Date().toISOString();
+      this.updateCache((schools) =>
+        schools.map((school) =>
+          school.id === id ? { ...school, frequency: school.frequency + 1, lastUsed } : school
+        )
+      );
+    } catch (error) {
+      console.error('Record school usage error:', error);
+      throw error;
+    }
+  }
+
+  // Keep the cache in step with successful writes instead of refetching
+  private updateCache(update: (schools: School[]) => School[]): void {
+    if (this.cache) {
+      this.cache = update(this.cache);
+    }
+  }
+}
+
+// Singleton instance
+export const schoolService = new SchoolService();
+export default schoolService;
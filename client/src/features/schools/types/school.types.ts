@@ -0,0 +1,49 @@
+// School Feature Types - managed school/location directory
+
+export interface School {
+  id: string;
+  name: string;
+  address?: string;
+  municipality?: string;
+  phone?: string;
+  isActive?: boolean;
+  // Per-therapist usage, returned for the current user
+  isFavorite: boolean;
+  lastUsed?: string;
+  frequency: number; // Times the current user picked this school
+  createdAt?: string;
+  createdBy?: string;
+}
+
+export interface CreateSchoolRequest {
+  name: string;
+  address?: string;
+  municipality?: string;
+  phone?: string;
+}
+
+export interface UpdateSchoolRequest extends Partial<CreateSchoolRequest> {
+  isActive?: boolean;
+}
+
+// Modal Types
+export interface SchoolModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  school?: School | null;
+  onSave: (data: CreateSchoolRequest) => Promise<void>;
+  onDelete?: () => Promise<void>;
+}
+
+// Hook Types
+export interface UseSchoolsReturn {
+  schools: School[];
+  isLoading: boolean;
+  error: string | null;
+  loadSchools: (forceRefresh?: boolean) => Promise<void>;
+  createSchool: (data: CreateSchoolRequest) => Promise<School>;
+  updateSchool: (id: string, data: UpdateSchoolRequest) => Promise<School>;
+  deleteSchool: (id: string) => Promise<void>;
+  toggleFavorite: (school: School) => Promise<void>;
+  recordUsage: (id: string) => Promise<void>;
+}
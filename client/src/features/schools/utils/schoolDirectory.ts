@@ -0,0 +1,62 @@
+// School Directory - search and ordering for the school picker
+import type { School } from '../types/school.types';
+
+// "Escuela María" and "escuela maria" should match
+const normalizeText = (value: string) =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+
+/**
+ * Favorites first, then the most used, then the most recently used, then by name
+ */
+export const sortSchools = (schools: School[]): School[] =>
+  [...schools].sort((a, b) => {
+    if (a.isFavorite !== b.isFavorite) return a.isFavorite ? -1 : 1;
+    if (a.frequency !== b.frequency) return b.frequency - a.frequency;
+    const lastUsed = (b.lastUsed || '').localeCompare(a.lastUsed || '');
+    return lastUsed !== 0 ? lastUsed : a.name.localeCompare(b.name);
+  });
+
+/**
+ * Match every word of the query against the school's name, address and municipality
+ */
+export const searchSchools = (schools: School[], query: string): School[] => {
+  const words = normalizeText(query).split(/\s+/).filter(Boolean);
+  if (words.length === 0) return sortSchools(schools);
+
+  return sortSchools(
+    schools.filter((school) => {
+      const haystack = normalizeText(
+        [school.name, school.address, school.municipality].filter(Boolean).join(' ')
+      );
+      return words.every((word) => haystack.includes(word));
+    })
+  );
+};
+
+/**
+ * Find a school with the same name, ignoring case and accents
+ */
+export const findSchoolByName = (schools: School[], name: string): School | undefined => {
+  const target = normalizeText(name);
+  return schools.find((school) => normalizeText(school.name) === target);
+};
+
+// School visits are stored as one location string, e.g. "Escuela - Escuela María"
+export const SCHOOL_PLACE = 'Escuela';
+const LOCATION_SEPARATOR = ' - ';
+
+/**
+ * Combine a place and, for school visits, the school into a stored location
+ */
+export const formatLocation = (place: string, school?: string): string =>
+  place === SCHOOL_PLACE && school ? `${place}${LOCATION_SEPARATOR}${school}` : place;
+
+/**
+ * Split a stored location back into its place and school
+ */
+export const parseLocation = (location: string): { place: string; school?: string } => {
+  const [place, ...school] = location.split(LOCATION_SEPARATOR);
+  return place === SCHOOL_PLACE && school.length > 0
+    ? { place, school: school.join(LOCATION_SEPARATOR) }
+    : { place: location };
+};
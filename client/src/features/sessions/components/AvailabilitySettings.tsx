@@ -0,0 +1,381 @@
+import React, { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { useTherapistAvailability } from "../hooks/useTherapistAvailability";
+import { DEFAULT_DAY_END, DEFAULT_DAY_START } from "../utils/availability";
+import type {
+  BlockedPeriod,
+  TherapistAvailability,
+  WorkingHours,
+} from "../types/session.types";
+
+interface AvailabilitySettingsProps {
+  therapistId: string;
+}
+
+const WEEKDAYS = [
+  { value: 1, label: "Monday" },
+  { value: 2, label: "Tuesday" },
+  { value: 3, label: "Wednesday" },
+  { value: 4, label: "Thursday" },
+  { value: 5, label: "Friday" },
+  { value: 6, label: "Saturday" },
+  { value: 0, label: "Sunday" },
+];
+
+const EMPTY_PERIOD: Omit<BlockedPeriod, "id"> = {
+  startDate: "",
+  endDate: "",
+  startTime: "",
+  endTime: "",
+  reason: "",
+};
+
+const inputClassName =
+  "px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-gray-100";
+
+const formatPeriod = (period: BlockedPeriod) => {
+  const start = format(parseISO(period.startDate), "MMM d, yyyy");
+  const end = format(parseISO(period.endDate), "MMM d, yyyy");
+  const days = start === end ? start : `${start} - ${end}`;
+  return period.startTime && period.endTime
+    ? `${days}, ${period.startTime}-${period.endTime}`
+    : days;
+};
+
+const AvailabilityEditor: React.FC<{
+  therapistId: string;
+  initial: TherapistAvailability | null;
+  onSave: (availability: TherapistAvailability) => Promise<unknown>;
+}> = ({ therapistId, initial, onSave }) => {
+  const [workingHours, setWorkingHours] = useState<WorkingHours[]>(
+    initial?.workingHours || []
+  );
+  const [blockedPeriods, setBlockedPeriods] = useState<BlockedPeriod[]>(
+    initial?.blockedPeriods || []
+  );
+  const [newPeriod, setNewPeriod] = useState(EMPTY_PERIOD);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{
+    type: "success" | "error";
+    text: string;
+  } | null>(null);
+
+  const hoursFor = (dayOfWeek: number) =>
+    workingHours.find((hours) => hours.dayOfWeek === dayOfWeek);
+
+  const toggleDay = (dayOfWeek: number) => {
+    setWorkingHours((prev) =>
+      prev.some((hours) => hours.dayOfWeek === dayOfWeek)
+        ? prev.filter((hours) => hours.dayOfWeek !== dayOfWeek)
+        : [
+            ...prev,
+            { dayOfWeek, start: DEFAULT_DAY_START, end: DEFAULT_DAY_END },
+          ]
+    );
+  };
+
+  const updateDay = (
+    dayOfWeek: number,
+    field: "start" | "end",
+    value: string
+  ) => {
+    setWorkingHours((prev) =>
+      prev.map((hours) =>
+        hours.dayOfWeek === dayOfWeek ? { ...hours, [field]: value } : hours
+      )
+    );
+  };
+
+  const periodError = (() => {
+    if (!newPeriod.startDate) return null;
+    if (newPeriod.endDate && newPeriod.endDate < newPeriod.startDate) {
+      return "End date must be on or after the start date";
+    }
+    if (!!newPeriod.startTime !== !!newPeriod.endTime) {
+      return "Enter both times, or leave both empty to block the whole day";
+    }
+    if (
+      newPeriod.startTime &&
+      newPeriod.endTime &&
+      newPeriod.endTime <= newPeriod.startTime
+    ) {
+      return "End time must be after the start time";
+    }
+    return null;
+  })();
+
+  const addPeriod = () => {
+    if (!newPeriod.startDate || periodError) return;
+    setBlockedPeriods((prev) => [
+      ...prev,
+      {
+        id: `blocked-${Date.now()}`,
+        startDate: newPeriod.startDate,
+        endDate: newPeriod.endDate || newPeriod.startDate,
+        startTime: newPeriod.startTime || undefined,
+        endTime: newPeriod.endTime || undefined,
+        reason: newPeriod.reason?.trim() || undefined,
+      },
+    ]);
+    setNewPeriod(EMPTY_PERIOD);
+  };
+
+  const removePeriod = (id: string) => {
+    setBlockedPeriods((prev) => prev.filter((period) => period.id !== id));
+  };
+
+  const invalidDay = workingHours.find((hours) => hours.end <= hours.start);
+
+  const handleSave = async () => {
+    if (invalidDay) return;
+    setSaving(true);
+    setMessage(null);
+    try {
+      await onSave({
+        therapistId,
+        workingHours: [...workingHours].sort(
+          (a, b) => a.dayOfWeek - b.dayOfWeek
+        ),
+        blockedPeriods: [...blockedPeriods].sort((a, b) =>
+          a.startDate.localeCompare(b.startDate)
+        ),
+      });
+      setMessage({ type: "success", text: "Availability saved" });
+    } catch (err) {
+      setMessage({
+        type: "error",
+        text:
+          err instanceof Error ? err.message : "Failed to save availability",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      {message && (
+        <div
+          className={`px-4 py-3 rounded-md border ${
+            message.type === "success"
+              ? "bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800 text-green-700 dark:text-green-400"
+              : "bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800 text-red-700 dark:text-red-400"
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      {/* Weekly Working Hours */}
+      <div>
+        <h4 className="text-sm font-medium text-gray-900 dark:text-gray-100">
+          Weekly Working Hours
+        </h4>
+        <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+          {workingHours.length === 0
+            ? `No days selected: sessions can be scheduled any day from ${DEFAULT_DAY_START} to ${DEFAULT_DAY_END}.`
+            : "Sessions can only be scheduled on the selected days and hours."}
+        </p>
+        <div className="mt-4 space-y-2">
+          {WEEKDAYS.map((day) => {
+            const hours = hoursFor(day.value);
+            return (
+              <div
+                key={day.value}
+                className="flex flex-wrap items-center gap-3"
+              >
+                <label className="flex items-center w-36 text-sm text-gray-700 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={!!hours}
+                    onChange={() => toggleDay(day.value)}
+                    className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500 mr-2"
+                  />
+                  {day.label}
+                </label>
+                {hours ? (
+                  <>
+                    <input
+                      type="time"
+                      value={hours.start}
+                      onChange={(e) =>
+                        updateDay(day.value, "start", e.target.value)
+                      }
+                      className={inputClassName}
+                    />
+                    <span className="text-sm text-gray-500 dark:text-gray-400">
+                      to
+                    </span>
+                    <input
+                      type="time"
+                      value={hours.end}
+                      onChange={(e) =>
+                        updateDay(day.value, "end", e.target.value)
+                      }
+                      className={inputClassName}
+                    />
+                  </>
+                ) : (
+                  <span className="text-sm text-gray-400 dark:text-gray-500">
+                    Not working
+                  </span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+        {invalidDay && (
+          <p className="mt-2 text-sm text-red-600 dark:text-red-400">
+            End time must be after start time on{" "}
+            {WEEKDAYS.find((day) => day.value === invalidDay.dayOfWeek)?.label}
+          </p>
+        )}
+      </div>
+
+      {/* Blocked Periods */}
+      <div>
+        <h4 className="text-sm font-medium text-gray-900 dark:text-gray-100">
+          Vacations and Blocked Time
+        </h4>
+        <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+          Leave the times empty to block whole days.
+        </p>
+
+        {blockedPeriods.length > 0 && (
+          <ul className="mt-4 divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-md">
+            {blockedPeriods.map((period) => (
+              <li
+                key={period.id}
+                className="flex items-center justify-between px-4 py-2 text-sm"
+              >
+                <div>
+                  <span className="text-gray-900 dark:text-gray-100">
+                    {formatPeriod(period)}
+                  </span>
+                  {period.reason && (
+                    <span className="ml-2 text-gray-500 dark:text-gray-400">
+                      {period.reason}
+                    </span>
+                  )}
+                </div>
+                <button
+                  type="button"
+                  onClick={() => removePeriod(period.id)}
+                  className="text-red-600 dark:text-red-400 hover:underline"
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-3">
+          <input
+            type="date"
+            value={newPeriod.startDate}
+            onChange={(e) =>
+              setNewPeriod((prev) => ({ ...prev, startDate: e.target.value }))
+            }
+            className={inputClassName}
+            aria-label="Start date"
+          />
+          <input
+            type="date"
+            value={newPeriod.endDate}
+            min={newPeriod.startDate || undefined}
+            onChange={(e) =>
+              setNewPeriod((prev) => ({ ...prev, endDate: e.target.value }))
+            }
+            className={inputClassName}
+            aria-label="End date"
+          />
+          <input
+            type="text"
+            value={newPeriod.reason}
+            onChange={(e) =>
+              setNewPeriod((prev) => ({ ...prev, reason: e.target.value }))
+            }
+            placeholder="Reason (e.g. Vacation, Holiday)"
+            className={inputClassName}
+          />
+          <input
+            type="time"
+            value={newPeriod.startTime}
+            onChange={(e) =>
+              setNewPeriod((prev) => ({ ...prev, startTime: e.target.value }))
+            }
+            className={inputClassName}
+            aria-label="Start time"
+          />
+          <input
+            type="time"
+            value={newPeriod.endTime}
+            onChange={(e) =>
+              setNewPeriod((prev) => ({ ...prev, endTime: e.target.value }))
+            }
+            className={inputClassName}
+            aria-label="End time"
+          />
+          <button
+            type="button"
+            onClick={addPeriod}
+            disabled={!newPeriod.startDate || !!periodError}
+            className="px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 transition-colors duration-200"
+          >
+            Block Time
+          </button>
+        </div>
+        {periodError && (
+          <p className="mt-2 text-sm text-red-600 dark:text-red-400">
+            {periodError}
+          </p>
+        )}
+      </div>
+
+      <div className="flex justify-end">
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={saving || !!invalidDay}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 transition-colors duration-200"
+        >
+          {saving ? "Saving..." : "Save Availability"}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export const AvailabilitySettings: React.FC<AvailabilitySettingsProps> = ({
+  therapistId,
+}) => {
+  const { availability, isLoading, error, saveAvailability } =
+    useTherapistAvailability(therapistId);
+
+  if (isLoading) {
+    return (
+      <div className="text-sm text-gray-500 dark:text-gray-400">
+        Loading availability...
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {error && (
+        <div className="mb-6 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-400 px-4 py-3 rounded-md">
+          {error}
+        </div>
+      )}
+      {/* Mounted only after loading, so the editor starts from saved values */}
+      <AvailabilityEditor
+        therapistId={therapistId}
+        initial={availability}
+        onSave={saveAvailability}
+      />
+    </>
+  );
+};
+
+export default AvailabilitySettings;
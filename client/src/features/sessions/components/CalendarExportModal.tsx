@@ -0,0 +1,259 @@
+import React, { useState } from "react";
+import { endOfMonth, startOfMonth } from "date-fns";
+import { BaseModal } from "../../../shared/components/ui/BaseModal";
+import { sessionService } from "../services/sessionService";
+import { certificationService } from "../../certifications/services/certificationService";
+import { buildICalendar, downloadICalendar } from "../utils/icalendar";
+import { useAuth } from "../../auth";
+import { toDateKey } from "../../../shared/utils/timeUtils";
+
+interface CalendarExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const EXPORT_PAGE_SIZE = 500;
+
+const inputClassName =
+  "mt-1 block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white";
+
+export const CalendarExportModal: React.FC<CalendarExportModalProps> = ({
+  isOpen,
+  onClose,
+}) => {
+  const { user } = useAuth();
+  const [startDate, setStartDate] = useState(() =>
+    toDateKey(startOfMonth(new Date()))
+  );
+  const [endDate, setEndDate] = useState(() =>
+    toDateKey(endOfMonth(new Date()))
+  );
+  const [includeSchedules, setIncludeSchedules] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [feedStatus, setFeedStatus] = useState<
+    "idle" | "loading" | "unavailable" | "copied"
+  >("idle");
+
+  const rangeError =
+    !startDate || !endDate
+      ? "Select a start and end date"
+      : endDate < startDate
+      ? "End date must be on or after the start date"
+      : null;
+
+  const handleExport = async () => {
+    if (rangeError) return;
+    setIsExporting(true);
+    setError(null);
+    try {
+      const [sessionsResponse, certificationsResponse] = await Promise.all([
+        sessionService.getSessions({
+          startDate,
+          endDate,
+          page: 1,
+          pageSize: EXPORT_PAGE_SIZE,
+          sortBy: "sessionDate",
+          sortDirection: "asc",
+        }),
+        includeSchedules
+          ? certificationService.getCertifications({
+              startDate,
+              endDate,
+              pageSize: EXPORT_PAGE_SIZE,
+            })
+          : Promise.resolve(null),
+      ]);
+
+      const content = buildICalendar({
+        calendarName: user
+          ? `${user.firstName} ${user.lastName} - Therapy Sessions`
+          : undefined,
+        sessions: sessionsResponse.sessions || [],
+        certifications: certificationsResponse?.certifications,
+        range: { startDate, endDate },
+      });
+      downloadICalendar(content, `therapy-sessions-${startDate}-${endDate}`);
+      onClose();
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to export sessions"
+      );
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const loadFeedUrl = async (regenerate = false) => {
+    if (
+      regenerate &&
+      !window.confirm(
+        "Create a new subscription link? Calendars subscribed with the current link will stop updating."
+      )
+    ) {
+      return;
+    }
+
+    setFeedStatus("loading");
+    try {
+      const url = await sessionService.getCalendarFeedUrl(regenerate);
+      setFeedUrl(url);
+      setFeedStatus(url ? "idle" : "unavailable");
+    } catch (err) {
+      setFeedStatus("idle");
+      setError(
+        err instanceof Error ? err.message : "Failed to get subscription link"
+      );
+    }
+  };
+
+  const copyFeedUrl = async () => {
+    if (!feedUrl) return;
+    await navigator.clipboard.writeText(feedUrl);
+    setFeedStatus("copied");
+  };
+
+  const footerConfig = {
+    buttons: [
+      {
+        label: "Cancel",
+        variant: "secondary" as const,
+        onClick: onClose,
+        disabled: isExporting,
+      },
+      {
+        label: isExporting ? "Exporting..." : "Download .ics",
+        variant: "primary" as const,
+        onClick: handleExport,
+        loading: isExporting,
+        disabled: isExporting || !!rangeError,
+      },
+    ],
+    buttonAlignment: "right" as const,
+  };
+
+  return (
+    <BaseModal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Export to Calendar"
+      subtitle="Add your sessions to Google Calendar, Outlook or your phone"
+      footerConfig={footerConfig}
+      error={error}
+    >
+      <div className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              From
+            </label>
+            <input
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              To
+            </label>
+            <input
+              type="date"
+              value={endDate}
+              min={startDate || undefined}
+              onChange={(e) => setEndDate(e.target.value)}
+              className={inputClassName}
+            />
+          </div>
+        </div>
+        {rangeError && (
+          <p className="text-sm text-red-600 dark:text-red-400">{rangeError}</p>
+        )}
+
+        <label className="flex items-start text-sm text-gray-700 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={includeSchedules}
+            onChange={(e) => setIncludeSchedules(e.target.checked)}
+            className="mt-0.5 h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500 mr-2"
+          />
+          <span>
+            Include weekly schedules as recurring events for certifications that
+            have no sessions yet
+          </span>
+        </label>
+
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Importing the file again updates the sessions already in your calendar
+          instead of adding duplicates.
+        </p>
+
+        {/* Subscription Feed */}
+        <div className="border-t border-gray-200 dark:border-gray-700 pt-4">
+          <h4 className="text-sm font-medium text-gray-900 dark:text-gray-100">
+            Subscribe
+          </h4>
+          <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+            A subscription keeps your calendar app in sync automatically. Keep
+            the link private: anyone with it can see your schedule.
+          </p>
+
+          {feedStatus === "unavailable" ? (
+            <p className="mt-3 text-sm text-gray-500 dark:text-gray-400">
+              Calendar subscriptions are not available on this server.
+            </p>
+          ) : feedUrl ? (
+            <div className="mt-3 space-y-2">
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  readOnly
+                  value={feedUrl}
+                  onFocus={(e) => e.target.select()}
+                  className={`${inputClassName} mt-0 text-xs`}
+                />
+                <button
+                  type="button"
+                  onClick={copyFeedUrl}
+                  className="px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700"
+                >
+                  {feedStatus === "copied" ? "Copied" : "Copy"}
+                </button>
+              </div>
+              <div className="flex gap-4 text-sm">
+                <a
+                  href={feedUrl.replace(/^https?:/, "webcal:")}
+                  className="text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  Open in calendar app
+                </a>
+                <button
+                  type="button"
+                  onClick={() => loadFeedUrl(true)}
+                  className="text-gray-600 dark:text-gray-400 hover:underline"
+                >
+                  Reset link
+                </button>
+              </div>
+            </div>
+          ) : (
+            <button
+              type="button"
+              onClick={() => loadFeedUrl()}
+              disabled={feedStatus === "loading"}
+              className="mt-3 px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+            >
+              {feedStatus === "loading"
+                ? "Loading..."
+                : "Get subscription link"}
+            </button>
+          )}
+        </div>
+      </div>
+    </BaseModal>
+  );
+};
+
+export default CalendarExportModal;
@@ -0,0 +1,366 @@
+import React, { useMemo, useState } from "react";
+import { format, isSameDay, isSameMonth } from "date-fns";
+import type {
+  CalendarColorMode,
+  CalendarDropTarget,
+  CalendarView,
+  TherapySession,
+} from "../types/session.types";
+import {
+  getCalendarDays,
+  getSessionColorClasses,
+  getSessionMinutes,
+  groupSessionsByDate,
+} from "../utils/calendar";
+import { DEFAULT_DAY_END, DEFAULT_DAY_START } from "../utils/availability";
+import {
+  minutesToTime,
+  timeToMinutes,
+  toDateKey,
+} from "../../../shared/utils/timeUtils";
+
+interface SessionCalendarProps {
+  view: CalendarView;
+  anchor: Date;
+  sessions: TherapySession[];
+  colorMode: CalendarColorMode;
+  onSessionClick: (session: TherapySession) => void;
+  onSlotClick: (target: CalendarDropTarget) => void;
+  onSessionDrop: (session: TherapySession, target: CalendarDropTarget) => void;
+  onDayClick?: (date: Date) => void;
+  canDrag?: (session: TherapySession) => boolean;
+}
+
+const HOUR_HEIGHT = 48; // px
+const SLOT_MINUTES = 30;
+const MAX_MONTH_CHIPS = 3;
+const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// Side-by-side lanes for overlapping sessions within one day
+const assignLanes = (daySessions: TherapySession[]) => {
+  const laneEnds: number[] = [];
+  const lanes = new Map<string, number>();
+  daySessions.forEach((session) => {
+    const { start, end } = getSessionMinutes(session);
+    let lane = laneEnds.findIndex((laneEnd) => laneEnd <= start);
+    if (lane === -1) {
+      lane = laneEnds.length;
+      laneEnds.push(end);
+    } else {
+      laneEnds[lane] = end;
+    }
+    lanes.set(session.id, lane);
+  });
+  return { lanes, laneCount: Math.max(laneEnds.length, 1) };
+};
+
+export const SessionCalendar: React.FC<SessionCalendarProps> = ({
+  view,
+  anchor,
+  sessions,
+  colorMode,
+  onSessionClick,
+  onSlotClick,
+  onSessionDrop,
+  onDayClick,
+  canDrag = () => true,
+}) => {
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropKey, setDropKey] = useState<string | null>(null);
+
+  const days = useMemo(() => getCalendarDays(view, anchor), [view, anchor]);
+  const sessionsByDate = useMemo(
+    () => groupSessionsByDate(sessions),
+    [sessions]
+  );
+
+  // Widen the default day when sessions fall outside it
+  const { firstMinute, lastMinute } = useMemo(() => {
+    let first = timeToMinutes(DEFAULT_DAY_START);
+    let last = timeToMinutes(DEFAULT_DAY_END);
+    days.forEach((day) => {
+      (sessionsByDate.get(toDateKey(day)) || []).forEach((session) => {
+        const { start, end } = getSessionMinutes(session);
+        first = Math.min(first, Math.floor(start / 60) * 60);
+        last = Math.max(last, Math.ceil(end / 60) * 60);
+      });
+    });
+    return { firstMinute: first, lastMinute: Math.min(last, 24 * 60) };
+  }, [days, sessionsByDate]);
+
+  const today = new Date();
+
+  const handleDragStart = (
+    e: React.DragEvent<HTMLElement>,
+    session: TherapySession
+  ) => {
+    e.dataTransfer.setData("text/plain", session.id);
+    e.dataTransfer.effectAllowed = "move";
+    setDraggedId(session.id);
+  };
+
+  const handleDragEnd = () => {
+    setDraggedId(null);
+    setDropKey(null);
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLElement>, key: string) => {
+    if (!draggedId) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "move";
+    if (dropKey !== key) setDropKey(key);
+  };
+
+  const handleDrop = (
+    e: React.DragEvent<HTMLElement>,
+    target: CalendarDropTarget
+  ) => {
+    e.preventDefault();
+    const id = e.dataTransfer.getData("text/plain") || draggedId;
+    const session = sessions.find((item) => item.id === id);
+    setDraggedId(null);
+    setDropKey(null);
+    if (session) onSessionDrop(session, target);
+  };
+
+  const renderSessionLabel = (session: TherapySession) => (
+    <>
+      <span className="font-medium">{session.sessionTime?.slice(0, 5)}</span>{" "}
+      <span className="truncate">{session.patientName || "Session"}</span>
+    </>
+  );
+
+  if (view === "month") {
+    return (
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden">
+        <div className="grid grid-cols-7 border-b border-gray-200 dark:border-gray-700">
+          {WEEKDAY_LABELS.map((label) => (
+            <div
+              key={label}
+              className="px-2 py-2 text-xs font-medium text-gray-500 dark:text-gray-400 uppercase text-center"
+            >
+              {label}
+            </div>
+          ))}
+        </div>
+        <div className="grid grid-cols-7">
+          {days.map((day) => {
+            const dateKey = toDateKey(day);
+            const daySessions = sessionsByDate.get(dateKey) || [];
+            const hiddenCount = daySessions.length - MAX_MONTH_CHIPS;
+            return (
+              <div
+                key={dateKey}
+                onClick={() => onSlotClick({ date: dateKey })}
+                onDragOver={(e) => handleDragOver(e, dateKey)}
+                onDragLeave={() => setDropKey(null)}
+                onDrop={(e) => handleDrop(e, { date: dateKey })}
+                className={`min-h-28 p-1 border-b border-r border-gray-200 dark:border-gray-700 cursor-pointer transition-colors ${
+                  dropKey === dateKey
+                    ? "bg-blue-50 dark:bg-blue-900/30"
+                    : isSameMonth(day, anchor)
+                    ? "hover:bg-gray-50 dark:hover:bg-gray-700/50"
+                    : "bg-gray-50 dark:bg-gray-900/40"
+                }`}
+              >
+                <button
+                  type="button"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onDayClick?.(day);
+                  }}
+                  className={`mb-1 w-7 h-7 rounded-full text-sm ${
+                    isSameDay(day, today)
+                      ? "bg-blue-600 text-white"
+                      : isSameMonth(day, anchor)
+                      ? "text-gray-900 dark:text-gray-100 hover:bg-gray-200 dark:hover:bg-gray-600"
+                      : "text-gray-400 dark:text-gray-500"
+                  }`}
+                >
+                  {format(day, "d")}
+                </button>
+                <div className="space-y-1">
+                  {daySessions.slice(0, MAX_MONTH_CHIPS).map((session) => (
+                    <div
+                      key={session.id}
+                      draggable={canDrag(session)}
+                      onDragStart={(e) => handleDragStart(e, session)}
+                      onDragEnd={handleDragEnd}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onSessionClick(session);
+                      }}
+                      title={`${session.patientName || "Session"} - ${
+                        session.location
+                      }`}
+                      className={`flex gap-1 px-1.5 py-0.5 text-xs border-l-4 rounded truncate ${getSessionColorClasses(
+                        session,
+                        colorMode
+                      )} ${draggedId === session.id ? "opacity-50" : ""} ${
+                        canDrag(session) ? "cursor-move" : "cursor-pointer"
+                      }`}
+                    >
+                      {renderSessionLabel(session)}
+                    </div>
+                  ))}
+                  {hiddenCount > 0 && (
+                    <button
+                      type="button"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onDayClick?.(day);
+                      }}
+                      className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                    >
+                      +{hiddenCount} more
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    );
+  }
+
+  // Day and week views share the time grid
+  const hours: number[] = [];
+  for (let minute = firstMinute; minute < lastMinute; minute += 60) {
+    hours.push(minute);
+  }
+  const slotsPerHour = 60 / SLOT_MINUTES;
+  const gridHeight = ((lastMinute - firstMinute) / 60) * HOUR_HEIGHT;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden">
+      {/* Day headers */}
+      <div className="flex border-b border-gray-200 dark:border-gray-700">
+        <div className="w-16 flex-shrink-0" />
+        {days.map((day) => (
+          <button
+            key={toDateKey(day)}
+            type="button"
+            onClick={() => onDayClick?.(day)}
+            className="flex-1 px-2 py-2 text-center border-l border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700/50"
+          >
+            <div className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+              {format(day, "EEE")}
+            </div>
+            <div
+              className={`text-lg ${
+                isSameDay(day, today)
+                  ? "text-blue-600 dark:text-blue-400 font-semibold"
+                  : "text-gray-900 dark:text-gray-100"
+              }`}
+            >
+              {format(day, "d")}
+            </div>
+          </button>
+        ))}
+      </div>
+
+      {/* Time grid */}
+      <div className="flex overflow-y-auto max-h-[70vh]">
+        <div className="w-16 flex-shrink-0">
+          {hours.map((minute) => (
+            <div
+              key={minute}
+              style={{ height: HOUR_HEIGHT }}
+              className="pr-2 text-right text-xs text-gray-500 dark:text-gray-400 -mt-2"
+            >
+              {minute > firstMinute ? minutesToTime(minute) : ""}
+            </div>
+          ))}
+        </div>
+
+        {days.map((day) => {
+          const dateKey = toDateKey(day);
+          const daySessions = sessionsByDate.get(dateKey) || [];
+          const { lanes, laneCount } = assignLanes(daySessions);
+
+          return (
+            <div
+              key={dateKey}
+              className="flex-1 relative border-l border-gray-200 dark:border-gray-700"
+              style={{ height: gridHeight }}
+            >
+              {/* Click and drop targets */}
+              {hours.flatMap((hourMinute) =>
+                Array.from({ length: slotsPerHour }, (_, index) => {
+                  const time = minutesToTime(hourMinute + index * SLOT_MINUTES);
+                  const key = `${dateKey}-${time}`;
+                  return (
+                    <div
+                      key={key}
+                      onClick={() => onSlotClick({ date: dateKey, time })}
+                      onDragOver={(e) => handleDragOver(e, key)}
+                      onDragLeave={() => setDropKey(null)}
+                      onDrop={(e) => handleDrop(e, { date: dateKey, time })}
+                      style={{ height: HOUR_HEIGHT / slotsPerHour }}
+                      className={`cursor-pointer ${
+                        index === slotsPerHour - 1
+                          ? "border-b border-gray-200 dark:border-gray-700"
+                          : "border-b border-dashed border-gray-100 dark:border-gray-700/50"
+                      } ${
+                        dropKey === key
+                          ? "bg-blue-100 dark:bg-blue-900/40"
+                          : "hover:bg-gray-50 dark:hover:bg-gray-700/40"
+                      }`}
+                    />
+                  );
+                })
+              )}
+
+              {/* Sessions */}
+              {daySessions.map((session) => {
+                const { start, end } = getSessionMinutes(session);
+                const lane = lanes.get(session.id) || 0;
+                return (
+                  <div
+                    key={session.id}
+                    draggable={canDrag(session)}
+                    onDragStart={(e) => handleDragStart(e, session)}
+                    onDragEnd={handleDragEnd}
+                    onClick={() => onSessionClick(session)}
+                    title={`${session.patientName || "Session"} - ${
+                      session.location
+                    }`}
+                    style={{
+                      top: ((start - firstMinute) / 60) * HOUR_HEIGHT,
+                      height: Math.max(
+                        ((end - start) / 60) * HOUR_HEIGHT - 2,
+                        18
+                      ),
+                      left: `${(lane / laneCount) * 100}%`,
+                      width: `calc(${100 / laneCount}% - 4px)`,
+                      // Let drops pass through to the slot underneath while dragging
+                      pointerEvents: draggedId ? "none" : undefined,
+                    }}
+                    className={`absolute ml-0.5 px-1.5 py-0.5 text-xs border-l-4 rounded overflow-hidden ${getSessionColorClasses(
+                      session,
+                      colorMode
+                    )} ${draggedId === session.id ? "opacity-50" : ""} ${
+                      canDrag(session) ? "cursor-move" : "cursor-pointer"
+                    }`}
+                  >
+                    <div className="flex gap-1">
+                      {renderSessionLabel(session)}
+                    </div>
+                    {end - start >= 45 && (
+                      <div className="truncate opacity-75">
+                        {session.location}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default SessionCalendar;
@@ -0,0 +1,54 @@
+import React from "react";
+import type { ConflictInfo } from "../types/session.types";
+
+interface SessionConflictAlertProps {
+  conflicts: ConflictInfo[];
+  className?: string;
+}
+
+export const SessionConflictAlert: React.FC<SessionConflictAlertProps> = ({
+  conflicts,
+  className = "",
+}) => {
+  if (conflicts.length === 0) return null;
+
+  const errors = conflicts.filter((conflict) => conflict.severity === "error");
+  const warnings = conflicts.filter(
+    (conflict) => conflict.severity === "warning"
+  );
+
+  return (
+    <div className={`space-y-2 ${className}`}>
+      {errors.length > 0 && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-md p-3">
+          <p className="text-sm font-medium text-red-800 dark:text-red-200">
+            This session cannot be saved:
+          </p>
+          <ul className="mt-1 list-disc list-inside text-sm text-red-700 dark:text-red-300">
+            {errors.map((conflict) => (
+              <li key={`${conflict.type}-${conflict.conflictingSessionId}`}>
+                {conflict.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {warnings.length > 0 && (
+        <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-md p-3">
+          <p className="text-sm font-medium text-amber-800 dark:text-amber-200">
+            Please double-check:
+          </p>
+          <ul className="mt-1 list-disc list-inside text-sm text-amber-700 dark:text-amber-300">
+            {warnings.map((conflict) => (
+              <li key={`${conflict.type}-${conflict.conflictingSessionId}`}>
+                {conflict.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SessionConflictAlert;
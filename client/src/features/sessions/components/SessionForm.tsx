@@ -1,15 +1,35 @@
-import React, { useEffect, useState, useRef } from "react";
+import React, { useEffect, useState, useRef, useMemo } from "react";
+import { format, parseISO } from "date-fns";
 import type { SessionFormData, BaseFormProps } from "../../../shared/types/ModalTypes";
 import { useForm } from "../../../shared/hooks/useForm";
 import SignaturePad, { type SignaturePadRef } from "../../../components/SignaturePad";
+import { useSessionConflicts } from "../hooks/useSessionConflicts";
+import { SessionConflictAlert } from "./SessionConflictAlert";
+import type { ConflictCandidate, TherapySession } from "../types/session.types";
+import { AttendanceStatus } from "../../../shared/constants/enums";
+import { useAttendanceStatusTranslation } from "../../../shared/hooks/useTranslation";
+import { requiresAttendanceReason } from "../utils/attendance";
+import { getTransportationOverrideError } from "../utils/transportationRules";
+import { useTransportationRule } from "../hooks/useTransportationRule";
+import { useTherapistAvailability } from "../hooks/useTherapistAvailability";
+import TimePicker from "../../../components/TimePicker";
+import PlaceSelector from "../../../components/PlaceSelector";
+import {
+  formatLocation,
+  parseLocation,
+} from "../../schools/utils/schoolDirectory";
 
 interface SessionFormProps extends BaseFormProps<SessionFormData> {
   mode: "create" | "edit";
   certificationDocumentId: string;
+  sessionId?: string;
+  patientId?: string;
+  patientName?: string;
+  therapistId?: string;
+  existingSessions?: TherapySession[];
+  defaults?: Partial<SessionFormData>; // Prefill for new sessions, e.g. a calendar slot
 }
 
-const LOCATIONS = ["Centro", "Home", "School", "Clinic", "Other"];
-
 const SIGNATURE_STATUS_OPTIONS = [
   { value: "pending", label: "Pending" },
   { value: "completed", label: "Completed" },
@@ -23,8 +43,15 @@ export const SessionForm: React.FC<SessionFormProps> = ({
   error = null,
   mode,
   certificationDocumentId,
+  sessionId,
+  patientId,
+  patientName,
+  therapistId,
+  existingSessions,
+  defaults,
 }) => {
   const signaturePadRef = useRef<SignaturePadRef>(null);
+  const { getAttendanceStatusOptions } = useAttendanceStatusTranslation();
   const [signatureData, setSignatureData] = useState<string>("");
   const [isSignatureValid, setIsSignatureValid] = useState(false);
   const [showSignaturePad, setShowSignaturePad] = useState(false);
@@ -41,11 +68,18 @@ export const SessionForm: React.FC<SessionFormProps> = ({
     certificationDocumentId,
     sessionDate: "",
     sessionTime: "",
+    endTime: "",
     location: "",
     transportationRequired: false,
     parentSignatureStatus: "pending",
     signatureImageData: "",
     notes: "",
+    isReposicion: false,
+    originalSessionId: "",
+    attendanceStatus: AttendanceStatus.ATTENDED,
+    attendanceReason: "",
+    transportationOverride: false,
+    transportationOverrideReason: "",
   });
 
   // Initialize form data
@@ -69,17 +103,147 @@ export const SessionForm: React.FC<SessionFormProps> = ({
         certificationDocumentId,
         sessionDate: today,
         sessionTime: now,
+        endTime: "",
         location: "",
         transportationRequired: false,
         parentSignatureStatus: "pending" as const,
         signatureImageData: "",
         notes: "",
+        isReposicion: false,
+        originalSessionId: "",
+        attendanceStatus: AttendanceStatus.ATTENDED,
+        attendanceReason: "",
+        transportationOverride: false,
+        transportationOverrideReason: "",
+        ...defaults,
       };
       setFormData(defaultData);
       setOriginalSignature(""); // No original signature for new sessions
       setShowSignaturePad(true);
     }
-  }, [initialData, certificationDocumentId]);
+  }, [initialData, certificationDocumentId, defaults]);
+
+  // Check the candidate against already loaded sessions
+  const conflictCandidate = useMemo<ConflictCandidate | null>(
+    () =>
+      formData.sessionDate && formData.sessionTime
+        ? {
+            id: sessionId,
+            certificationDocumentId: formData.certificationDocumentId,
+            sessionDate: formData.sessionDate,
+            sessionTime: formData.sessionTime,
+            endTime: formData.endTime,
+            patientId,
+            patientName,
+            therapistId,
+          }
+        : null,
+    [
+      sessionId,
+      formData.certificationDocumentId,
+      formData.sessionDate,
+      formData.sessionTime,
+      formData.endTime,
+      patientId,
+      patientName,
+      therapistId,
+    ]
+  );
+  const { conflicts, hasBlockingConflicts } = useSessionConflicts(
+    conflictCandidate,
+    existingSessions
+  );
+
+  // Free slots are computed against this therapist's own sessions only
+  const { availability } = useTherapistAvailability(therapistId);
+  const therapistSessions = useMemo(
+    () =>
+      (existingSessions || []).filter(
+        (session) =>
+          !therapistId ||
+          !session.therapistId ||
+          session.therapistId === therapistId
+      ),
+    [existingSessions, therapistId]
+  );
+
+  const location = parseLocation(formData.location);
+
+  const {
+    decision: transportationDecision,
+    isLoading: isLoadingTransportation,
+  } = useTransportationRule(
+    formData.certificationDocumentId,
+    formData.location
+  );
+
+  // Keep transportation in line with the rules unless it was overridden
+  useEffect(() => {
+    if (isLoadingTransportation || formData.transportationOverride) return;
+    if (
+      formData.transportationRequired !==
+      transportationDecision.transportationRequired
+    ) {
+      updateField(
+        "transportationRequired",
+        transportationDecision.transportationRequired
+      );
+    }
+  }, [
+    isLoadingTransportation,
+    formData.transportationOverride,
+    formData.transportationRequired,
+    transportationDecision.transportationRequired,
+    updateField,
+  ]);
+
+  const handleTransportationOverrideChange = (checked: boolean) => {
+    updateField("transportationOverride", checked);
+    if (!checked) {
+      updateField("transportationOverrideReason", "");
+      updateField(
+        "transportationRequired",
+        transportationDecision.transportationRequired
+      );
+    }
+  };
+
+  // A makeup replaces another (non-makeup) session of the same certification
+  const originalSessionOptions = useMemo(
+    () =>
+      (existingSessions || [])
+        .filter(
+          (session) =>
+            session.certificationDocumentId ===
+              formData.certificationDocumentId &&
+            session.id !== sessionId &&
+            !session.isReposicion
+        )
+        .sort((a, b) =>
+          `${a.sessionDate}${a.sessionTime}`.localeCompare(
+            `${b.sessionDate}${b.sessionTime}`
+          )
+        ),
+    [existingSessions, formData.certificationDocumentId, sessionId]
+  );
+
+  const formatSessionOption = (session: TherapySession) => {
+    const date = session.sessionDate
+      ? format(parseISO(session.sessionDate), "MMM d, yyyy")
+      : "No date";
+    return `${date} at ${session.sessionTime?.slice(0, 5) || "--:--"}`;
+  };
+
+  const isAttended =
+    (formData.attendanceStatus ?? AttendanceStatus.ATTENDED) ===
+    AttendanceStatus.ATTENDED;
+
+  const handleReposicionChange = (checked: boolean) => {
+    updateField("isReposicion", checked);
+    if (!checked) {
+      updateField("originalSessionId", "");
+    }
+  };
 
   // Initialize signature pad when it becomes visible
   useEffect(() => {
@@ -159,11 +323,28 @@ export const SessionForm: React.FC<SessionFormProps> = ({
       !value ? "Please select a session date" : null,
     sessionTime: (value: string) =>
       !value ? "Please select a session time" : null,
+    endTime: (value: string) =>
+      value && formData.sessionTime && value <= formData.sessionTime
+        ? "End time must be after the session time"
+        : null,
     location: (value: string) => (!value ? "Please select a location" : null),
     transportationRequired: (_value: boolean) => null, // No validation needed
+    transportationOverride: () => null, // No validation needed
+    transportationOverrideReason: (value: string) =>
+      getTransportationOverrideError(formData.transportationOverride, value),
     parentSignatureStatus: (_value: string) => null, // No validation needed
     signatureImageData: (_value: string) => null, // No validation needed
     notes: (_value: string) => null, // No validation needed
+    isReposicion: () => null, // No validation needed
+    originalSessionId: (value: string) =>
+      formData.isReposicion && !value
+        ? "Please select the session this makeup replaces"
+        : null,
+    attendanceStatus: () => null, // No validation needed
+    attendanceReason: (value: string) =>
+      requiresAttendanceReason(formData.attendanceStatus) && !value?.trim()
+        ? "Please enter a reason for the absence or cancellation"
+        : null,
   };
 
   // Convert form data back to backend format
@@ -176,11 +357,28 @@ export const SessionForm: React.FC<SessionFormProps> = ({
     return {
       ...formData,
       sessionTime: formatTimeForBackend(formData.sessionTime),
+      endTime: formData.endTime
+        ? formatTimeForBackend(formData.endTime)
+        : undefined,
+      isReposicion: !!formData.isReposicion,
+      originalSessionId: formData.isReposicion
+        ? formData.originalSessionId
+        : undefined,
+      attendanceReason: requiresAttendanceReason(formData.attendanceStatus)
+        ? formData.attendanceReason
+        : undefined,
+      transportationOverride: !!formData.transportationOverride,
+      transportationOverrideReason: formData.transportationOverride
+        ? formData.transportationOverrideReason
+        : undefined,
     };
   };
 
   // Handle form submission
   const handleSubmit = async () => {
+    // Blocking conflicts are already shown inline; don't reach the API
+    if (hasBlockingConflicts) return;
+
     console.log(
       "🔄 SessionForm - Current form data before transformation:",
       formData
@@ -209,7 +407,7 @@ export const SessionForm: React.FC<SessionFormProps> = ({
       className="space-y-6 p-6"
     >
       {/* Date and Time */}
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
         <div>
           <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
             Session Date *
@@ -235,238 +433,407 @@ export const SessionForm: React.FC<SessionFormProps> = ({
           <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
             Session Time *
           </label>
+          <TimePicker
+            selectedTime={formData.sessionTime}
+            onTimeSelect={(time) => updateField("sessionTime", time)}
+            hasError={!!errors.sessionTime}
+            date={formData.sessionDate || undefined}
+            availability={availability}
+            sessions={therapistSessions}
+            excludeSessionId={sessionId}
+          />
+          {errors.sessionTime && (
+            <p className="mt-1 text-sm text-red-600 dark:text-red-400">
+              {errors.sessionTime}
+            </p>
+          )}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            End Time
+          </label>
           <input
             type="time"
-            value={formData.sessionTime}
-            onChange={(e) => updateField("sessionTime", e.target.value)}
+            value={formData.endTime || ""}
+            onChange={(e) => updateField("endTime", e.target.value)}
             className={`w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-gray-100 ${
-              errors.sessionTime
+              errors.endTime
                 ? "border-red-500"
                 : "border-gray-300 dark:border-gray-600"
             }`}
           />
-          {errors.sessionTime && (
+          {errors.endTime && (
             <p className="mt-1 text-sm text-red-600 dark:text-red-400">
-              {errors.sessionTime}
+              {errors.endTime}
             </p>
           )}
         </div>
       </div>
 
+      {/* Scheduling Conflicts */}
+      <SessionConflictAlert conflicts={conflicts} />
+
       {/* Location and Transportation */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <PlaceSelector
+            label="Location *"
+            selectedPlace={location.place}
+            selectedSchool={location.school}
+            onPlaceSelect={(place, school) =>
+              updateField("location", formatLocation(place, school))
+            }
+          />
+          {errors.location && (
+            <p className="mt-1 text-sm text-red-600 dark:text-red-400">
+              {errors.location}
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center">
+            <input
+              type="checkbox"
+              id="transportationRequired"
+              checked={formData.transportationRequired}
+              disabled={!formData.transportationOverride}
+              onChange={(e) =>
+                updateField("transportationRequired", e.target.checked)
+              }
+              className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 dark:border-gray-600 rounded disabled:opacity-50"
+            />
+            <label
+              htmlFor="transportationRequired"
+              className="ml-2 block text-sm text-gray-700 dark:text-gray-300"
+            >
+              Transportation Required
+            </label>
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {isLoadingTransportation
+              ? "Checking transportation rules..."
+              : transportationDecision.rule
+              ? `Rule: ${transportationDecision.rule.name}`
+              : "No transportation rule applies"}
+          </p>
+          <div className="flex items-center">
+            <input
+              type="checkbox"
+              id="transportationOverride"
+              checked={!!formData.transportationOverride}
+              onChange={(e) =>
+                handleTransportationOverrideChange(e.target.checked)
+              }
+              className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 dark:border-gray-600 rounded"
+            />
+            <label
+              htmlFor="transportationOverride"
+              className="ml-2 block text-sm text-gray-700 dark:text-gray-300"
+            >
+              Override rules
+            </label>
+          </div>
+        </div>
+      </div>
+
+      {formData.transportationOverride && (
         <div>
           <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-            Location *
+            Override Reason *
           </label>
-          <select
-            value={formData.location}
-            onChange={(e) => updateField("location", e.target.value)}
+          <input
+            type="text"
+            value={formData.transportationOverrideReason || ""}
+            onChange={(e) =>
+              updateField("transportationOverrideReason", e.target.value)
+            }
+            placeholder="e.g. Parent drove the patient this week..."
             className={`w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-gray-100 ${
-              errors.location
+              errors.transportationOverrideReason
                 ? "border-red-500"
                 : "border-gray-300 dark:border-gray-600"
             }`}
-          >
-            <option value="">Select location</option>
-            {LOCATIONS.map((location) => (
-              <option key={location} value={location}>
-                {location}
-              </option>
-            ))}
-          </select>
-          {errors.location && (
+          />
+          {errors.transportationOverrideReason && (
             <p className="mt-1 text-sm text-red-600 dark:text-red-400">
-              {errors.location}
+              {errors.transportationOverrideReason}
             </p>
           )}
         </div>
+      )}
 
+      {/* Makeup Session */}
+      <div className="space-y-3">
         <div className="flex items-center">
           <input
             type="checkbox"
-            id="transportationRequired"
-            checked={formData.transportationRequired}
-            onChange={(e) =>
-              updateField("transportationRequired", e.target.checked)
-            }
+            id="isReposicion"
+            checked={!!formData.isReposicion}
+            onChange={(e) => handleReposicionChange(e.target.checked)}
             className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 dark:border-gray-600 rounded"
           />
           <label
-            htmlFor="transportationRequired"
+            htmlFor="isReposicion"
             className="ml-2 block text-sm text-gray-700 dark:text-gray-300"
           >
-            Transportation Required
+            Makeup session (reposición)
           </label>
         </div>
+
+        {formData.isReposicion && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Replaces Session *
+            </label>
+            <select
+              value={formData.originalSessionId || ""}
+              onChange={(e) => updateField("originalSessionId", e.target.value)}
+              className={`w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-gray-100 ${
+                errors.originalSessionId
+                  ? "border-red-500"
+                  : "border-gray-300 dark:border-gray-600"
+              }`}
+            >
+              <option value="">Select the missed session</option>
+              {originalSessionOptions.map((session) => (
+                <option key={session.id} value={session.id}>
+                  {formatSessionOption(session)}
+                </option>
+              ))}
+            </select>
+            {originalSessionOptions.length === 0 && (
+              <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                This certification has no other sessions to replace.
+              </p>
+            )}
+            {errors.originalSessionId && (
+              <p className="mt-1 text-sm text-red-600 dark:text-red-400">
+                {errors.originalSessionId}
+              </p>
+            )}
+          </div>
+        )}
       </div>
 
-      {/* Signature Section */}
-      <div>
-        <h4 className="text-sm font-medium text-gray-900 dark:text-gray-100 mb-3">
-          Parent Signature
-        </h4>
+      {/* Attendance Outcome */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Attendance *
+          </label>
+          <select
+            value={formData.attendanceStatus ?? AttendanceStatus.ATTENDED}
+            onChange={(e) =>
+              updateField(
+                "attendanceStatus",
+                Number(e.target.value) as AttendanceStatus
+              )
+            }
+            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-gray-100"
+          >
+            {getAttendanceStatusOptions().map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
 
-        <div className="space-y-4">
+        {!isAttended && (
           <div>
             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-              Signature *
+              Reason *
             </label>
+            <input
+              type="text"
+              value={formData.attendanceReason || ""}
+              onChange={(e) => updateField("attendanceReason", e.target.value)}
+              placeholder="e.g. Patient was sick, school event..."
+              className={`w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-gray-100 ${
+                errors.attendanceReason
+                  ? "border-red-500"
+                  : "border-gray-300 dark:border-gray-600"
+              }`}
+            />
+            {errors.attendanceReason && (
+              <p className="mt-1 text-sm text-red-600 dark:text-red-400">
+                {errors.attendanceReason}
+              </p>
+            )}
+          </div>
+        )}
+      </div>
 
-            {(() => {
-              console.log("🔄 Signature render state:", {
-                showSignaturePad,
-                hasSignatureData: !!signatureData,
-                signatureDataLength: signatureData?.length || 0,
-              });
-              return null;
-            })()}
-
-            {!showSignaturePad && signatureData ? (
-              // Show existing signature with update button
-              <div className="space-y-3">
-                <div className="border border-gray-300 dark:border-gray-600 rounded-md p-4 bg-white dark:bg-gray-800">
-                  <img
-                    src={signatureData}
-                    alt="Current signature"
-                    className="max-w-full h-auto max-h-32 object-contain"
-                  />
-                </div>
-                <button
-                  type="button"
-                  onClick={() => {
-                    console.log(
-                      "🔄 Update Signature clicked - setting showSignaturePad to true"
-                    );
-                    setShowSignaturePad(true);
-                  }}
-                  className="inline-flex items-center px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
-                >
-                  <svg
-                    className="w-4 h-4 mr-2"
-                    fill="none"
-                    stroke="currentColor"
-                    viewBox="0 0 24 24"
-                  >
-                    <path
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                      strokeWidth={2}
-                      d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z"
+      {/* Signature Section - only attended sessions are signed */}
+      {isAttended && (
+        <div>
+          <h4 className="text-sm font-medium text-gray-900 dark:text-gray-100 mb-3">
+            Parent Signature
+          </h4>
+
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Signature *
+              </label>
+
+              {(() => {
+                console.log("🔄 Signature render state:", {
+                  showSignaturePad,
+                  hasSignatureData: !!signatureData,
+                  signatureDataLength: signatureData?.length || 0,
+                });
+                return null;
+              })()}
+
+              {!showSignaturePad && signatureData ? (
+                // Show existing signature with update button
+                <div className="space-y-3">
+                  <div className="border border-gray-300 dark:border-gray-600 rounded-md p-4 bg-white dark:bg-gray-800">
+                    <img
+                      src={signatureData}
+                      alt="Current signature"
+                      className="max-w-full h-auto max-h-32 object-contain"
                     />
-                  </svg>
-                  Update Signature
-                </button>
-              </div>
-            ) : showSignaturePad ? (
-              // Show signature pad only when showSignaturePad is true
-              <div className="space-y-3">
-                <SignaturePad
-                  ref={signaturePadRef}
-                  onSignatureChange={handleSignatureChange}
-                  initialSignature={signatureData}
-                  className="w-full"
-                />
-
-                {/* Custom action buttons */}
-                <div className="flex gap-2">
-                  <button
-                    type="button"
-                    onClick={handleClearSignature}
-                    className="px-4 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 transition-colors duration-200 text-sm"
-                  >
-                    Clear
-                  </button>
-                  <button
-                    type="button"
-                    onClick={handleCancelSignature}
-                    className="px-4 py-2 bg-gray-500 text-white rounded-md hover:bg-gray-600 transition-colors duration-200 text-sm"
-                  >
-                    Cancel
-                  </button>
+                  </div>
                   <button
                     type="button"
-                    onClick={handleAcceptSignature}
-                    className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors duration-200 text-sm"
+                    onClick={() => {
+                      console.log(
+                        "🔄 Update Signature clicked - setting showSignaturePad to true"
+                      );
+                      setShowSignaturePad(true);
+                    }}
+                    className="inline-flex items-center px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
                   >
-                    Accept
+                    <svg
+                      className="w-4 h-4 mr-2"
+                      fill="none"
+                      stroke="currentColor"
+                      viewBox="0 0 24 24"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z"
+                      />
+                    </svg>
+                    Update Signature
                   </button>
                 </div>
+              ) : showSignaturePad ? (
+                // Show signature pad only when showSignaturePad is true
+                <div className="space-y-3">
+                  <SignaturePad
+                    ref={signaturePadRef}
+                    onSignatureChange={handleSignatureChange}
+                    initialSignature={signatureData}
+                    className="w-full"
+                  />
 
-                {!isSignatureValid && (
-                  <p className="mt-1 text-sm text-red-600 dark:text-red-400">
-                    Please provide a signature
-                  </p>
-                )}
-              </div>
-            ) : (
-              // Show signature pad for new sessions (no existing signature)
-              <div className="space-y-3">
-                <SignaturePad
-                  ref={signaturePadRef}
-                  onSignatureChange={handleSignatureChange}
-                  initialSignature=""
-                  className="w-full"
-                />
-
-                {/* Custom action buttons */}
-                <div className="flex gap-2">
-                  <button
-                    type="button"
-                    onClick={handleClearSignature}
-                    className="px-4 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 transition-colors duration-200 text-sm"
-                  >
-                    Clear
-                  </button>
-                  <button
-                    type="button"
-                    onClick={handleCancelSignature}
-                    className="px-4 py-2 bg-gray-500 text-white rounded-md hover:bg-gray-600 transition-colors duration-200 text-sm"
-                  >
-                    Cancel
-                  </button>
-                  <button
-                    type="button"
-                    onClick={handleAcceptSignature}
-                    className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors duration-200 text-sm"
-                  >
-                    Accept
-                  </button>
+                  {/* Custom action buttons */}
+                  <div className="flex gap-2">
+                    <button
+                      type="button"
+                      onClick={handleClearSignature}
+                      className="px-4 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 transition-colors duration-200 text-sm"
+                    >
+                      Clear
+                    </button>
+                    <button
+                      type="button"
+                      onClick={handleCancelSignature}
+                      className="px-4 py-2 bg-gray-500 text-white rounded-md hover:bg-gray-600 transition-colors duration-200 text-sm"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      type="button"
+                      onClick={handleAcceptSignature}
+                      className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors duration-200 text-sm"
+                    >
+                      Accept
+                    </button>
+                  </div>
+
+                  {!isSignatureValid && (
+                    <p className="mt-1 text-sm text-red-600 dark:text-red-400">
+                      Please provide a signature
+                    </p>
+                  )}
                 </div>
+              ) : (
+                // Show signature pad for new sessions (no existing signature)
+                <div className="space-y-3">
+                  <SignaturePad
+                    ref={signaturePadRef}
+                    onSignatureChange={handleSignatureChange}
+                    initialSignature=""
+                    className="w-full"
+                  />
 
-                {!isSignatureValid && (
-                  <p className="mt-1 text-sm text-red-600 dark:text-red-400">
-                    Please provide a signature
-                  </p>
-                )}
-              </div>
-            )}
-          </div>
+                  {/* Custom action buttons */}
+                  <div className="flex gap-2">
+                    <button
+                      type="button"
+                      onClick={handleClearSignature}
+                      className="px-4 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 transition-colors duration-200 text-sm"
+                    >
+                      Clear
+                    </button>
+                    <button
+                      type="button"
+                      onClick={handleCancelSignature}
+                      className="px-4 py-2 bg-gray-500 text-white rounded-md hover:bg-gray-600 transition-colors duration-200 text-sm"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      type="button"
+                      onClick={handleAcceptSignature}
+                      className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors duration-200 text-sm"
+                    >
+                      Accept
+                    </button>
+                  </div>
+
+                  {!isSignatureValid && (
+                    <p className="mt-1 text-sm text-red-600 dark:text-red-400">
+                      Please provide a signature
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
 
-          {/* Signature Status */}
-          <div>
-            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-              Signature Status
-            </label>
-            <select
-              value={formData.parentSignatureStatus}
-              onChange={(e) =>
-                updateField(
-                  "parentSignatureStatus",
-                  e.target.value as "pending" | "completed"
-                )
-              }
-              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-gray-100"
-            >
-              {SIGNATURE_STATUS_OPTIONS.map((status) => (
-                <option key={status.value} value={status.value}>
-                  {status.label}
-                </option>
-              ))}
-            </select>
+            {/* Signature Status */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Signature Status
+              </label>
+              <select
+                value={formData.parentSignatureStatus}
+                onChange={(e) =>
+                  updateField(
+                    "parentSignatureStatus",
+                    e.target.value as "pending" | "completed"
+                  )
+                }
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-gray-100"
+              >
+                {SIGNATURE_STATUS_OPTIONS.map((status) => (
+                  <option key={status.value} value={status.value}>
+                    {status.label}
+                  </option>
+                ))}
+              </select>
+            </div>
           </div>
         </div>
-      </div>
+      )}
 
       {/* Session Notes */}
       <div>
@@ -1,9 +1,10 @@
 import React from "react";
-import type { BackendTherapySession } from "../../types/TherapyTypes";
+import type { TherapySession } from "../types/session.types";
+import { isSessionSigned } from "../utils/calendar";
 
 interface SessionListProps {
-  sessions: BackendTherapySession[];
-  onSessionClick: (session: BackendTherapySession) => void;
+  sessions: TherapySession[];
+  onSessionClick: (session: TherapySession) => void;
   onAddSession: () => void;
   isLoading?: boolean;
   error?: string | null;
@@ -35,6 +36,9 @@ export const SessionList: React.FC<SessionListProps> = ({
     }
   };
 
+  const getSignatureStatus = (session: TherapySession) =>
+    isSessionSigned(session) ? "completed" : "pending";
+
   const getSignatureStatusColor = (status: string) => {
     switch (status.toLowerCase()) {
       case "completed":
@@ -182,10 +186,10 @@ export const SessionList: React.FC<SessionListProps> = ({
                     </h4>
                     <span
                       className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${getSignatureStatusColor(
-                        session.parentSignatureStatus
+                        getSignatureStatus(session)
                       )}`}
                     >
-                      {session.parentSignatureStatus}
+                      {getSignatureStatus(session)}
                     </span>
                   </div>
 
@@ -233,10 +237,10 @@ export const SessionList: React.FC<SessionListProps> = ({
                     )}
                   </div>
 
-                  {session.sessionNotes && (
+                  {session.notes && (
                     <div className="mt-2">
                       <p className="text-sm text-gray-600 dark:text-gray-400 line-clamp-2">
-                        {session.sessionNotes}
+                        {session.notes}
                       </p>
                     </div>
                   )}
@@ -4,9 +4,20 @@ import { SessionView } from "./SessionView";
 import { SessionForm } from "./SessionForm";
 import { SessionList } from "./SessionList";
 import { useModal, useApi } from "../../../shared/hooks";
-import type { TherapySession } from "../types/session.types";
+import {
+  ParentSignatureStatus,
+  type CreateSessionRequest,
+  type TherapySession,
+} from "../types/session.types";
 import type { SessionFormData } from "../../../shared/types/ModalTypes";
 import { sessionService } from "../services/sessionService";
+import {
+  fetchSessionsOnDate,
+  invalidateSessionQueries,
+} from "../hooks/sessionQueries";
+import { assertNoBlockingConflicts } from "../utils/sessionConflicts";
+import { isSessionSigned } from "../utils/calendar";
+import { useAuth, usePermissions } from "../../auth";
 
 interface SessionModalProps {
   isOpen: boolean;
@@ -14,26 +25,51 @@ interface SessionModalProps {
   certificationId?: string;
   sessionId?: string;
   mode?: "list" | "view" | "edit" | "create";
+  initialData?: Partial<SessionFormData>;
+  onSaved?: (session: TherapySession) => void;
 }
 
+// The form tracks the signature as "pending"/"completed"; the API uses the numeric status
+const toSessionRequest = (formData: SessionFormData): CreateSessionRequest => ({
+  ...formData,
+  parentSignatureStatus:
+    formData.parentSignatureStatus === "completed"
+      ? ParentSignatureStatus.COMPLETED
+      : ParentSignatureStatus.PENDING,
+});
+
 export const SessionModal: React.FC<SessionModalProps> = ({
   isOpen,
   onClose,
   certificationId,
   sessionId,
   mode = "list",
+  initialData,
+  onSaved,
 }) => {
   const { state, actions } = useModal();
   const { loading, error, success, execute, clearMessages } = useApi();
+  const { user } = useAuth();
+  const { getSessionEditability } = usePermissions();
 
   const [sessions, setSessions] = useState<TherapySession[]>([]);
-  const [currentSession, setCurrentSession] =
-    useState<TherapySession | null>(null);
+  const [currentSession, setCurrentSession] = useState<TherapySession | null>(
+    null
+  );
   const [currentMode, setCurrentMode] = useState<
     "list" | "view" | "edit" | "create"
   >(mode);
   const [isLoadingData, setIsLoadingData] = useState(false);
 
+  // The certification's therapist; admins and secretaries create sessions on their behalf
+  const certificationTherapistId =
+    sessions.find((session) => session.therapistId)?.therapistId || user?.id;
+
+  // Sessions of submitted or approved certifications are read-only for therapists
+  const sessionEditability = currentSession
+    ? getSessionEditability(currentSession)
+    : { allowed: true };
+
   // Load sessions for the certification
   useEffect(() => {
     if (
@@ -62,7 +98,7 @@ export const SessionModal: React.FC<SessionModalProps> = ({
 
     setIsLoadingData(true);
     try {
-      const data = await TherapySessionService.getSessionsByCertification(
+      const data = await sessionService.getSessionsByCertification(
         certificationId
       );
       setSessions(data);
@@ -79,7 +115,7 @@ export const SessionModal: React.FC<SessionModalProps> = ({
 
     setIsLoadingData(true);
     try {
-      const data = await TherapySessionService.getSession(idToLoad);
+      const data = await sessionService.getSessionById(idToLoad);
       setCurrentSession(data);
     } catch (err) {
       console.error("Failed to load session:", err);
@@ -89,12 +125,13 @@ export const SessionModal: React.FC<SessionModalProps> = ({
   };
 
   // Handle mode changes
-  const handleViewSession = (session: BackendTherapySession) => {
+  const handleViewSession = (session: TherapySession) => {
     setCurrentSession(session);
     setCurrentMode("view");
   };
 
   const handleEditSession = () => {
+    if (!sessionEditability.allowed) return;
     setCurrentMode("edit");
   };
 
@@ -124,37 +161,80 @@ export const SessionModal: React.FC<SessionModalProps> = ({
     if (!confirmed) return;
 
     await execute(
-      () => TherapySessionService.deleteSession(currentSession.id),
+      () =>
+        sessionService.deleteSession(currentSession.id, {
+          certificationStatus: currentSession.certificationStatus,
+        }),
       {
         successMessage: "Session deleted successfully",
         onSuccess: () => {
           handleBackToList();
           loadSessions(); // Refresh the list
+          invalidateSessionQueries();
         },
       }
     );
   };
 
+  // Re-check conflicts against the server's sessions for that date right before saving
+  const checkConflicts = async (formData: SessionFormData, id?: string) => {
+    const sameDaySessions = await fetchSessionsOnDate(formData.sessionDate);
+    assertNoBlockingConflicts(
+      {
+        id,
+        certificationDocumentId: formData.certificationDocumentId,
+        sessionDate: formData.sessionDate,
+        sessionTime: formData.sessionTime,
+        endTime: formData.endTime,
+        patientId: currentSession?.patientId,
+        patientName: currentSession?.patientName,
+        therapistId: currentSession?.therapistId || certificationTherapistId,
+      },
+      [...sameDaySessions, ...sessions]
+    );
+  };
+
   const handleSaveSession = async (formData: SessionFormData) => {
     if (currentMode === "create") {
-      await execute(() => TherapySessionService.createSession(formData), {
-        successMessage: "Session created successfully",
-        onSuccess: (newSession) => {
-          setCurrentSession(newSession);
-          setCurrentMode("view");
-          loadSessions(); // Refresh the list
+      await execute(
+        async () => {
+          await checkConflicts(formData);
+          return sessionService.createSession(toSessionRequest(formData));
         },
-      });
+        {
+          successMessage: "Session created successfully",
+          onSuccess: (newSession) => {
+            setCurrentSession(newSession);
+            setCurrentMode("view");
+            loadSessions(); // Refresh the list
+            invalidateSessionQueries();
+            onSaved?.(newSession);
+          },
+        }
+      );
     } else if (currentMode === "edit" && currentSession?.id) {
       await execute(
-        () => TherapySessionService.updateSession(currentSession.id, formData),
+        async () => {
+          await checkConflicts(formData, currentSession.id);
+          return sessionService.updateSession(
+            currentSession.id,
+            {
+              ...toSessionRequest(formData),
+              id: currentSession.id,
+              sessionDate: new Date(formData.sessionDate),
+            },
+            { certificationStatus: currentSession.certificationStatus }
+          );
+        },
         {
           successMessage: "Session updated successfully",
-          onSuccess: async () => {
+          onSuccess: async (updatedSession) => {
             // Reload session data to ensure we have the latest
             await loadSession();
             setCurrentMode("view");
             loadSessions(); // Refresh the list
+            invalidateSessionQueries();
+            onSaved?.(updatedSession);
           },
         }
       );
@@ -266,13 +346,15 @@ export const SessionModal: React.FC<SessionModalProps> = ({
         };
       case "view":
         return {
-          buttons: [
-            {
-              label: "Edit",
-              variant: "primary" as const,
-              onClick: handleEditSession,
-            },
-          ],
+          buttons: sessionEditability.allowed
+            ? [
+                {
+                  label: "Edit",
+                  variant: "primary" as const,
+                  onClick: handleEditSession,
+                },
+              ]
+            : [],
         };
       default:
         return {
@@ -315,6 +397,9 @@ export const SessionModal: React.FC<SessionModalProps> = ({
             error={error}
             mode="create"
             certificationDocumentId={certificationId}
+            therapistId={certificationTherapistId}
+            existingSessions={sessions}
+            defaults={initialData}
           />
         );
       case "edit":
@@ -343,11 +428,23 @@ export const SessionModal: React.FC<SessionModalProps> = ({
           certificationDocumentId: currentSession.certificationDocumentId,
           sessionDate: formatDateForInput(currentSession.sessionDate),
           sessionTime: formatTimeForInput(currentSession.sessionTime),
+          endTime: currentSession.endTime
+            ? formatTimeForInput(currentSession.endTime)
+            : "",
           location: currentSession.location,
           transportationRequired: currentSession.transportationRequired,
-          parentSignatureStatus: currentSession.parentSignatureStatus,
+          parentSignatureStatus: isSessionSigned(currentSession)
+            ? ("completed" as const)
+            : ("pending" as const),
           signatureImageData: currentSession.signatureImageData || "",
           notes: currentSession.notes || "",
+          isReposicion: !!currentSession.isReposicion,
+          originalSessionId: currentSession.originalSessionId || "",
+          attendanceStatus: currentSession.attendanceStatus,
+          attendanceReason: currentSession.attendanceReason || "",
+          transportationOverride: !!currentSession.transportationOverride,
+          transportationOverrideReason:
+            currentSession.transportationOverrideReason || "",
         };
 
         return (
@@ -360,18 +457,33 @@ export const SessionModal: React.FC<SessionModalProps> = ({
             error={error}
             mode="edit"
             certificationDocumentId={currentSession.certificationDocumentId}
+            sessionId={currentSession.id}
+            patientId={currentSession.patientId}
+            patientName={currentSession.patientName}
+            therapistId={currentSession.therapistId}
+            existingSessions={sessions}
           />
         );
       case "view":
         return (
-          <SessionView
-            data={currentSession}
-            onEdit={handleEditSession}
-            onDelete={handleDeleteSession}
-            onClose={onClose}
-            isLoading={isLoadingData}
-            error={error}
-          />
+          <>
+            {!sessionEditability.allowed && (
+              <div className="mb-4 p-3 bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-md text-sm text-gray-700 dark:text-gray-300">
+                {sessionEditability.reason}
+              </div>
+            )}
+            <SessionView
+              data={currentSession}
+              originalSession={sessions.find(
+                (session) => session.id === currentSession?.originalSessionId
+              )}
+              onEdit={handleEditSession}
+              onDelete={handleDeleteSession}
+              onClose={onClose}
+              isLoading={isLoadingData}
+              error={error}
+            />
+          </>
         );
       default:
         return (
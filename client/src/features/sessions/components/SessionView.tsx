@@ -1,9 +1,13 @@
 import React from "react";
-import type { BackendTherapySession } from "../../types/TherapyTypes";
-import type { BaseViewProps } from "../../types/ModalTypes";
+import type { BaseViewProps } from "../../../shared/types/ModalTypes";
+import type { TherapySession } from "../types/session.types";
+import { StatusBadge } from "../../../shared/components/StatusBadge";
+import { getAttendanceStatus } from "../utils/attendance";
+import { isSessionSigned } from "../utils/calendar";
 
-interface SessionViewProps extends BaseViewProps<BackendTherapySession> {
+interface SessionViewProps extends BaseViewProps<TherapySession> {
   onViewSignature?: () => void;
+  originalSession?: TherapySession | null;
 }
 
 export const SessionView: React.FC<SessionViewProps> = ({
@@ -12,6 +16,7 @@ export const SessionView: React.FC<SessionViewProps> = ({
   onDelete,
   onClose,
   onViewSignature,
+  originalSession,
   isLoading = false,
   error = null,
 }) => {
@@ -84,6 +89,9 @@ export const SessionView: React.FC<SessionViewProps> = ({
     }
   };
 
+  const getSignatureStatus = (session: TherapySession) =>
+    isSessionSigned(session) ? "completed" : "pending";
+
   const getSignatureStatusColor = (status: string) => {
     switch (status.toLowerCase()) {
       case "completed":
@@ -114,10 +122,10 @@ export const SessionView: React.FC<SessionViewProps> = ({
           </div>
           <span
             className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getSignatureStatusColor(
-              session.parentSignatureStatus
+              getSignatureStatus(session)
             )}`}
           >
-            {session.parentSignatureStatus}
+            {getSignatureStatus(session)}
           </span>
         </div>
       </div>
@@ -169,6 +177,42 @@ export const SessionView: React.FC<SessionViewProps> = ({
                 )}
               </span>
             </div>
+            <div className="flex items-center">
+              <span className="text-sm text-gray-600 dark:text-gray-400">
+                Attendance:
+              </span>
+              <span className="ml-2">
+                <StatusBadge
+                  status={getAttendanceStatus(session)}
+                  type="attendance"
+                  size="sm"
+                />
+              </span>
+            </div>
+            {session.attendanceReason && (
+              <div>
+                <span className="text-sm text-gray-600 dark:text-gray-400">
+                  Reason:
+                </span>
+                <span className="ml-2 text-sm text-gray-900 dark:text-gray-100">
+                  {session.attendanceReason}
+                </span>
+              </div>
+            )}
+            {session.isReposicion && (
+              <div>
+                <span className="text-sm text-gray-600 dark:text-gray-400">
+                  Makeup for:
+                </span>
+                <span className="ml-2 text-sm text-gray-900 dark:text-gray-100">
+                  {originalSession
+                    ? `${formatDate(
+                        originalSession.sessionDate
+                      )} at ${formatTime(originalSession.sessionTime)}`
+                    : "Original session not found"}
+                </span>
+              </div>
+            )}
           </div>
         </div>
 
@@ -184,10 +228,10 @@ export const SessionView: React.FC<SessionViewProps> = ({
               <span className="ml-2">
                 <span
                   className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${getSignatureStatusColor(
-                    session.parentSignatureStatus
+                    getSignatureStatus(session)
                   )}`}
                 >
-                  {session.parentSignatureStatus}
+                  {getSignatureStatus(session)}
                 </span>
               </span>
             </div>
@@ -1,6 +1,14 @@
-import React from "react";
+import React, { useEffect, useState } from "react";
 import { BaseModal } from "../../../shared/components/ui/BaseModal";
+import AuditTimeline from "../../../shared/components/ui/AuditTimeline";
+import { useAuditHistory } from "../../../shared/hooks/useAuditHistory";
+import { sessionService } from "../services/sessionService";
+import { usePermissions } from "../../auth";
 import type { TherapySession } from "../types/session.types";
+import { StatusBadge } from "../../../shared/components/StatusBadge";
+import { getAttendanceStatus } from "../utils/attendance";
+
+const loadSessionHistory = (id: string) => sessionService.getSessionHistory(id);
 
 interface SessionWithDetails extends TherapySession {
   certificationTitle: string;
@@ -9,6 +17,7 @@ interface SessionWithDetails extends TherapySession {
 
 interface SessionViewModalProps {
   session: SessionWithDetails | null;
+  originalSession?: TherapySession | null;
   isOpen: boolean;
   onClose: () => void;
   onEdit?: (session: TherapySession) => void;
@@ -17,17 +26,33 @@ interface SessionViewModalProps {
 
 const SessionViewModal: React.FC<SessionViewModalProps> = ({
   session,
+  originalSession,
   isOpen,
   onClose,
   onEdit,
   onDelete,
 }) => {
+  const { getSessionEditability } = usePermissions();
+  const [activeTab, setActiveTab] = useState<"details" | "history">("details");
+  const history = useAuditHistory(
+    loadSessionHistory,
+    session?.id,
+    isOpen && activeTab === "history"
+  );
+
+  // Each session opens on its details
+  useEffect(() => {
+    setActiveTab("details");
+  }, [session?.id]);
+
   if (!session) return null;
 
+  const editability = getSessionEditability(session);
+
   // Footer configuration
   const footerConfig = {
     buttons: [
-      ...(onDelete
+      ...(onDelete && editability.allowed
         ? [
             {
               label: "Delete",
@@ -36,7 +61,7 @@ const SessionViewModal: React.FC<SessionViewModalProps> = ({
             },
           ]
         : []),
-      ...(onEdit
+      ...(onEdit && editability.allowed
         ? [
             {
               label: "Edit",
@@ -61,92 +86,166 @@ const SessionViewModal: React.FC<SessionViewModalProps> = ({
       title={`Session Details - ${session.patientName}`}
       footerConfig={footerConfig}
     >
-      <div className="space-y-4">
-        {/* Session Information */}
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-          <div>
-            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-              Patient
-            </label>
-            <p className="text-sm text-gray-900 dark:text-white">
-              {session.patientName}
-            </p>
-          </div>
+      {/* Tabs */}
+      <div className="flex border-b border-gray-200 dark:border-gray-700 mb-4">
+        {(["details", "history"] as const).map((tab) => (
+          <button
+            key={tab}
+            type="button"
+            onClick={() => setActiveTab(tab)}
+            className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px ${
+              activeTab === tab
+                ? "border-blue-600 text-blue-600 dark:text-blue-400"
+                : "border-transparent text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300"
+            }`}
+          >
+            {tab === "details" ? "Details" : "History"}
+          </button>
+        ))}
+      </div>
 
-          <div>
-            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-              Certification
-            </label>
-            <p className="text-sm text-gray-900 dark:text-white">
-              {session.certificationTitle}
-            </p>
-          </div>
+      {!editability.allowed && (
+        <div className="mb-4 p-3 bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-md text-sm text-gray-700 dark:text-gray-300">
+          {editability.reason}
+        </div>
+      )}
 
-          <div>
-            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-              Session Date
-            </label>
-            <p className="text-sm text-gray-900 dark:text-white">
-              {new Date(session.sessionDate).toLocaleDateString()}
-            </p>
-          </div>
+      {activeTab === "history" ? (
+        <AuditTimeline
+          entries={history.entries}
+          isLoading={history.isLoading}
+          error={history.error}
+        />
+      ) : (
+        <div className="space-y-4">
+          {/* Session Information */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Patient
+              </label>
+              <p className="text-sm text-gray-900 dark:text-white">
+                {session.patientName}
+              </p>
+            </div>
 
-          <div>
-            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-              Session Time
-            </label>
-            <p className="text-sm text-gray-900 dark:text-white">
-              {session.sessionTime || "Not specified"}
-            </p>
-          </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Certification
+              </label>
+              <p className="text-sm text-gray-900 dark:text-white">
+                {session.certificationTitle}
+              </p>
+            </div>
 
-          <div>
-            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-              Location
-            </label>
-            <p className="text-sm text-gray-900 dark:text-white">
-              {session.location || "Not specified"}
-            </p>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Session Date
+              </label>
+              <p className="text-sm text-gray-900 dark:text-white">
+                {new Date(session.sessionDate).toLocaleDateString()}
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Session Time
+              </label>
+              <p className="text-sm text-gray-900 dark:text-white">
+                {session.sessionTime || "Not specified"}
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Location
+              </label>
+              <p className="text-sm text-gray-900 dark:text-white">
+                {session.location || "Not specified"}
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Transportation Required
+              </label>
+              <p className="text-sm text-gray-900 dark:text-white">
+                {session.transportationRequired ? "Yes" : "No"}
+              </p>
+              {session.transportationOverride && (
+                <p className="mt-1 text-sm text-amber-600 dark:text-amber-400">
+                  Overridden: {session.transportationOverrideReason}
+                </p>
+              )}
+            </div>
           </div>
 
+          {/* Attendance */}
           <div>
             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-              Transportation Required
+              Attendance
             </label>
-            <p className="text-sm text-gray-900 dark:text-white">
-              {session.transportationRequired ? "Yes" : "No"}
-            </p>
+            <StatusBadge
+              status={getAttendanceStatus(session)}
+              type="attendance"
+              size="sm"
+            />
+            {session.attendanceReason && (
+              <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+                {session.attendanceReason}
+              </p>
+            )}
           </div>
-        </div>
 
-        {/* Notes */}
-        {session.notes && (
+          {/* Makeup Link */}
+          {session.isReposicion && (
+            <div className="bg-indigo-50 dark:bg-indigo-900/20 border border-indigo-200 dark:border-indigo-800 rounded-md p-3">
+              <p className="text-sm font-medium text-indigo-800 dark:text-indigo-200">
+                Makeup session (reposición)
+              </p>
+              <p className="text-sm text-indigo-700 dark:text-indigo-300">
+                {originalSession
+                  ? `Replaces the session on ${new Date(
+                      originalSession.sessionDate
+                    ).toLocaleDateString()} at ${
+                      originalSession.sessionTime || "an unspecified time"
+                    }`
+                  : "The original session could not be found"}
+              </p>
+            </div>
+          )}
+
+          {/* Notes */}
+          {session.notes && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Notes
+              </label>
+              <p className="text-sm text-gray-900 dark:text-white bg-gray-50 dark:bg-gray-800 p-3 rounded-md">
+                {session.notes}
+              </p>
+            </div>
+          )}
+
+          {/* Signature Status */}
           <div>
             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-              Notes
+              Parent Signature Status
             </label>
-            <p className="text-sm text-gray-900 dark:text-white bg-gray-50 dark:bg-gray-800 p-3 rounded-md">
-              {session.notes}
-            </p>
+            <span
+              className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                session.parentSignatureStatus === "signed"
+                  ? "bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400"
+                  : "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-400"
+              }`}
+            >
+              {session.parentSignatureStatus === "signed"
+                ? "Signed"
+                : "Pending"}
+            </span>
           </div>
-        )}
-
-        {/* Signature Status */}
-        <div>
-          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-            Parent Signature Status
-          </label>
-          <span
-            className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-              session.parentSignatureStatus === "signed"
-                ? "bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400"
-                : "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-400"
-            }`}
-          >
-            {session.parentSignatureStatus === "signed" ? "Signed" : "Pending"}
-          </span>
         </div>
-      </div>
+      )}
     </BaseModal>
   );
 };
@@ -1,11 +1,15 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import { sessionService } from "../services/sessionService";
+import { invalidateSessionQueries } from "../hooks/sessionQueries";
 import { SessionsList } from "./SessionsList";
 import { CertificationSelectionModal } from "./CertificationSelectionModal";
+import { CalendarExportModal } from "./CalendarExportModal";
+import { SyncStatusBanner } from "./SyncStatusBanner";
 
 import SessionViewModal from "./SessionViewModal";
 import SignatureModal from "../../../components/SignatureModal";
 import { useSignature } from "../hooks/useSignature";
+import { useSessionSync } from "../hooks/useSessionSync";
 import type { TherapySession } from "../types/session.types";
 import type { CertificationDocument } from "../../certifications/types/certification.types";
 import type { SessionStats } from "../types/session.types";
@@ -31,6 +35,13 @@ interface SessionWithDetails extends TherapySession {
   patientName: string;
 }
 
+const toSessionWithDetails = (session: TherapySession): SessionWithDetails => ({
+  ...session,
+  certificationTitle:
+    session.certificationDocumentTitle || "Unknown Certification",
+  patientName: session.patientName || "Unknown Patient",
+});
+
 export const SessionsDashboard: React.FC<SessionsDashboardProps> = ({
   stats,
   sessions: propSessions,
@@ -41,6 +52,7 @@ export const SessionsDashboard: React.FC<SessionsDashboardProps> = ({
   const [error, setError] = useState<string | null>(null);
   const [isCertificationSelectionOpen, setIsCertificationSelectionOpen] =
     useState(false);
+  const [isCalendarExportOpen, setIsCalendarExportOpen] = useState(false);
 
   const [selectedSession, setSelectedSession] =
     useState<SessionWithDetails | null>(null);
@@ -53,18 +65,19 @@ export const SessionsDashboard: React.FC<SessionsDashboardProps> = ({
   // Signature functionality
   const { signSession } = useSignature();
 
+  // Show changes still waiting in the offline queue
+  const { mergeSessions } = useSessionSync();
+  const displayedSessions = useMemo(
+    () => mergeSessions(sessions).map(toSessionWithDetails),
+    [sessions, mergeSessions]
+  );
+
   // Load sessions data - use prop sessions if available, otherwise load from API
   useEffect(() => {
     if (propSessions) {
       // Use sessions from props (even if empty array)
-      const sessionsWithDetails: SessionWithDetails[] = propSessions.map(
-        (session) => ({
-          ...session,
-          certificationTitle:
-            session.certificationDocumentTitle || "Unknown Certification",
-          patientName: session.patientName || "Unknown Patient",
-        })
-      );
+      const sessionsWithDetails: SessionWithDetails[] =
+        propSessions.map(toSessionWithDetails);
 
       // Sort sessions by date (newest first)
       sessionsWithDetails.sort(
@@ -92,14 +105,8 @@ export const SessionsDashboard: React.FC<SessionsDashboardProps> = ({
       const sessionsData = sessionsResponse.sessions || [];
 
       // Transform to SessionWithDetails format
-      const sessionsWithDetails: SessionWithDetails[] = sessionsData.map(
-        (session) => ({
-          ...session,
-          certificationTitle:
-            session.certificationDocumentTitle || "Unknown Certification",
-          patientName: session.patientName || "Unknown Patient",
-        })
-      );
+      const sessionsWithDetails: SessionWithDetails[] =
+        sessionsData.map(toSessionWithDetails);
 
       // Sort sessions by date (newest first)
       sessionsWithDetails.sort(
@@ -176,6 +183,7 @@ export const SessionsDashboard: React.FC<SessionsDashboardProps> = ({
 
     const success = await signSession(sessionToSign.id, signatureData);
     if (success) {
+      invalidateSessionQueries();
       // Reload sessions to show updated signature status
       await loadSessionsData();
       handleSignatureModalClose();
@@ -190,6 +198,7 @@ export const SessionsDashboard: React.FC<SessionsDashboardProps> = ({
   const handleSessionDelete = async (sessionId: string) => {
     try {
       await sessionService.deleteSession(sessionId);
+      invalidateSessionQueries();
       // Reload sessions after deletion
       loadSessionsData();
       handleSessionViewModalClose();
@@ -222,6 +231,13 @@ export const SessionsDashboard: React.FC<SessionsDashboardProps> = ({
             updatedSession.transportationRequired || false,
           parentSignatureStatus: "pending" as const,
           notes: updatedSession.notes || "",
+          isReposicion: updatedSession.isReposicion || false,
+          originalSessionId: updatedSession.originalSessionId,
+          attendanceStatus: updatedSession.attendanceStatus,
+          attendanceReason: updatedSession.attendanceReason,
+          transportationOverride: updatedSession.transportationOverride,
+          transportationOverrideReason:
+            updatedSession.transportationOverrideReason,
         };
 
         console.log(
@@ -230,6 +246,7 @@ export const SessionsDashboard: React.FC<SessionsDashboardProps> = ({
         );
 
         await sessionService.createSession(createRequest);
+        invalidateSessionQueries();
 
         // Reload sessions after creation
         await loadSessionsData();
@@ -257,6 +274,16 @@ export const SessionsDashboard: React.FC<SessionsDashboardProps> = ({
         signatureName: updatedSession.signatureName,
         signatureNotes: updatedSession.signatureNotes,
         parentSignatureStatus: updatedSession.parentSignatureStatus,
+        // Makeup link
+        isReposicion: updatedSession.isReposicion,
+        originalSessionId: updatedSession.originalSessionId,
+        // Attendance outcome
+        attendanceStatus: updatedSession.attendanceStatus,
+        attendanceReason: updatedSession.attendanceReason,
+        // Transportation override
+        transportationOverride: updatedSession.transportationOverride,
+        transportationOverrideReason:
+          updatedSession.transportationOverrideReason,
       };
 
       // Debug: Log the request payload
@@ -267,6 +294,7 @@ export const SessionsDashboard: React.FC<SessionsDashboardProps> = ({
       console.log("Updated session data:", updatedSession);
 
       await sessionService.updateSession(sessionId, updateRequest);
+      invalidateSessionQueries();
       // Reload sessions after update and get the fresh data
       const updatedSessions = await loadSessionsData();
 
@@ -302,7 +330,7 @@ export const SessionsDashboard: React.FC<SessionsDashboardProps> = ({
       <div className="flex-shrink-0 bg-gray-50 dark:bg-gray-900 border-b border-gray-200 dark:border-gray-700">
         {/* Stats Cards */}
         <div className="p-4">
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4 mb-4">
             {/* Total Sessions */}
             <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
               <div className="flex items-center">
@@ -418,6 +446,35 @@ export const SessionsDashboard: React.FC<SessionsDashboardProps> = ({
                 </div>
               </div>
             </div>
+
+            {/* Makeup Sessions */}
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+              <div className="flex items-center">
+                <div className="p-3 rounded-full bg-indigo-100 dark:bg-indigo-900">
+                  <svg
+                    className="w-6 h-6 text-indigo-600 dark:text-indigo-400"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
+                    />
+                  </svg>
+                </div>
+                <div className="ml-4">
+                  <p className="text-sm font-medium text-gray-600 dark:text-gray-400">
+                    Makeups
+                  </p>
+                  <p className="text-2xl font-semibold text-gray-900 dark:text-white">
+                    {stats?.reposicionSessions || 0}
+                  </p>
+                </div>
+              </div>
+            </div>
           </div>
 
           {/* Header with Title and Add Button */}
@@ -425,18 +482,28 @@ export const SessionsDashboard: React.FC<SessionsDashboardProps> = ({
             <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
               Therapy Sessions
             </h2>
-            <button
-              onClick={handleAddSession}
-              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
-            >
-              Add Session
-            </button>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setIsCalendarExportOpen(true)}
+                className="px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+              >
+                Export Calendar
+              </button>
+              <button
+                onClick={handleAddSession}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+              >
+                Add Session
+              </button>
+            </div>
           </div>
         </div>
       </div>
 
       {/* Scrollable Content Area - Only the table content scrolls */}
       <div className="flex-1 min-h-0">
+        <SyncStatusBanner />
+
         {error && (
           <div className="p-4 bg-red-100 border border-red-400 text-red-700 rounded mx-6 mt-4">
             {error}
@@ -456,7 +523,7 @@ export const SessionsDashboard: React.FC<SessionsDashboardProps> = ({
           <div className="h-full overflow-y-auto">
             <div className="pb-8">
               <SessionsList
-                sessions={sessions}
+                sessions={displayedSessions}
                 onSessionClick={handleSessionClick}
                 onSignatureClick={handleSignatureClick}
                 initialFilters={initialFilters}
@@ -473,8 +540,18 @@ export const SessionsDashboard: React.FC<SessionsDashboardProps> = ({
         onSelectCertification={handleSelectCertification}
       />
 
+      {isCalendarExportOpen && (
+        <CalendarExportModal
+          isOpen
+          onClose={() => setIsCalendarExportOpen(false)}
+        />
+      )}
+
       <SessionViewModal
         session={selectedSession}
+        originalSession={sessions.find(
+          (session) => session.id === selectedSession?.originalSessionId
+        )}
         isOpen={isSessionViewModalOpen}
         onClose={handleSessionViewModalClose}
         onEdit={handleSessionEdit}
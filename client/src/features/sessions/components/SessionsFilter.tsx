@@ -1,12 +1,17 @@
 import React from "react";
+import { TherapistPicker } from "../../users";
+import type { TherapistOption } from "../../users";
 
 interface SessionsFilterProps {
   filters: {
     patientName: string;
     status: "all" | "pending" | "completed";
     timeRange: "all" | "today" | "week" | "month";
+    therapistId?: string;
   };
   patientNames: string[];
+  // Options from useTherapistOptions; the picker is hidden when empty
+  therapists?: TherapistOption[];
   onFilterChange: (filters: Partial<SessionsFilterProps["filters"]>) => void;
   onRefresh: () => void;
 }
@@ -14,6 +19,7 @@ interface SessionsFilterProps {
 export const SessionsFilter: React.FC<SessionsFilterProps> = ({
   filters,
   patientNames,
+  therapists = [],
   onFilterChange,
   onRefresh,
 }) => {
@@ -79,6 +85,18 @@ export const SessionsFilter: React.FC<SessionsFilterProps> = ({
               <option value="month">This Month</option>
             </select>
           </div>
+
+          {/* Therapist Filter */}
+          {therapists.length > 0 && (
+            <div className="sm:w-48">
+              <TherapistPicker
+                id="sessions-filter-therapist"
+                therapists={therapists}
+                value={filters.therapistId || ""}
+                onChange={(therapistId) => onFilterChange({ therapistId })}
+              />
+            </div>
+          )}
         </div>
 
         {/* Action Buttons */}
@@ -89,6 +107,7 @@ export const SessionsFilter: React.FC<SessionsFilterProps> = ({
                 patientName: "",
                 status: "all",
                 timeRange: "all",
+                therapistId: "",
               })
             }
             className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors"
@@ -1,9 +1,17 @@
 import React, { useState, useMemo } from "react";
-import type { TherapySession } from "../types/session.types";
+import type { SyncEntryStatus, TherapySession } from "../types/session.types";
 import { ParentSignatureStatus as StatusConstants } from "../types/session.types";
 import { format } from "date-fns";
 import { MobileOptimizedTable } from "../../../components/MobileOptimizedTable";
 import { useResponsive } from "../../../hooks/useResponsive";
+import { StatusBadge } from "../../../shared/components/StatusBadge";
+import { ExportModal } from "../../../shared/components/ui/ExportModal";
+import { AttendanceStatus } from "../../../shared/constants/enums";
+import { useAttendanceStatusTranslation } from "../../../shared/hooks/useTranslation";
+import { getAttendanceStatus } from "../utils/attendance";
+import { SESSION_EXPORT_COLUMNS, exportSessions } from "../utils/sessionExport";
+import { usePermissions } from "../../auth";
+import { TherapistPicker, useTherapistOptions } from "../../users";
 
 interface SessionWithDetails extends TherapySession {
   certificationTitle: string;
@@ -26,10 +34,32 @@ interface SessionsListProps {
   };
 }
 
+// Sessions saved on this device that have not reached the server yet
+const SYNC_BADGES: Record<
+  SyncEntryStatus,
+  { label: string; className: string }
+> = {
+  pending: {
+    label: "Pending sync",
+    className:
+      "bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200",
+  },
+  conflict: {
+    label: "Sync conflict",
+    className: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
+  },
+  failed: {
+    label: "Sync failed",
+    className: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
+  },
+};
+
 interface SessionsFilter {
   search: string;
   status: "all" | "pending" | "completed";
+  attendance: "all" | `${AttendanceStatus}`;
   certificationId: string;
+  therapistId: string;
   dateRange: "all" | "today" | "week" | "month";
 }
 
@@ -40,17 +70,24 @@ export const SessionsList: React.FC<SessionsListProps> = ({
   initialFilters,
 }) => {
   const { isMobile } = useResponsive();
+  const { getAttendanceStatusOptions } = useAttendanceStatusTranslation();
+  const { getSessionEditability, canSelectTherapist } = usePermissions();
+  const { therapists } = useTherapistOptions();
+  const showTherapistPicker = canSelectTherapist() && therapists.length > 0;
   const [filter, setFilter] = useState<SessionsFilter>({
     search: initialFilters?.search || "",
     status:
       (initialFilters?.status as "all" | "pending" | "completed") || "all",
+    attendance: "all",
     certificationId: initialFilters?.certificationId || "",
+    therapistId: "",
     dateRange:
       (initialFilters?.timeRange as "all" | "today" | "week" | "month") ||
       "all",
   });
 
   const [currentPage, setCurrentPage] = useState(1);
+  const [isExportOpen, setIsExportOpen] = useState(false);
   const itemsPerPage = isMobile ? 5 : 10;
 
   // Filter and sort sessions
@@ -81,10 +118,17 @@ export const SessionsList: React.FC<SessionsListProps> = ({
         filter.status === "all" ||
         session.parentSignatureStatus === filter.status;
 
+      const matchesAttendance =
+        filter.attendance === "all" ||
+        getAttendanceStatus(session) === Number(filter.attendance);
+
       const matchesCertification =
         !filter.certificationId ||
         session.certificationDocumentId === filter.certificationId;
 
+      const matchesTherapist =
+        !filter.therapistId || session.therapistId === filter.therapistId;
+
       const matchesDateRange =
         filter.dateRange === "all" ||
         (() => {
@@ -120,7 +164,9 @@ export const SessionsList: React.FC<SessionsListProps> = ({
       return (
         matchesSearch &&
         matchesStatus &&
+        matchesAttendance &&
         matchesCertification &&
+        matchesTherapist &&
         matchesDateRange
       );
     });
@@ -149,6 +195,8 @@ export const SessionsList: React.FC<SessionsListProps> = ({
           className={`grid gap-4 ${
             isMobile
               ? "grid-cols-1"
+              : showTherapistPicker
+              ? "grid-cols-1 md:grid-cols-3 lg:grid-cols-6"
               : "grid-cols-1 md:grid-cols-2 lg:grid-cols-5"
           }`}
         >
@@ -182,6 +230,37 @@ export const SessionsList: React.FC<SessionsListProps> = ({
             </select>
           </div>
 
+          {/* Attendance Filter */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Attendance
+            </label>
+            <select
+              value={filter.attendance}
+              onChange={(e) => handleFilterChange("attendance", e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+            >
+              <option value="all">All Outcomes</option>
+              {getAttendanceStatusOptions().map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* Therapist Filter - admins and secretaries */}
+          {showTherapistPicker && (
+            <TherapistPicker
+              id="sessions-therapist"
+              therapists={therapists}
+              value={filter.therapistId}
+              onChange={(therapistId) =>
+                handleFilterChange("therapistId", therapistId)
+              }
+            />
+          )}
+
           {/* Date Range Filter */}
           <div>
             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
@@ -206,7 +285,9 @@ export const SessionsList: React.FC<SessionsListProps> = ({
                 setFilter({
                   search: "",
                   status: "all",
+                  attendance: "all",
                   certificationId: "",
+                  therapistId: "",
                   dateRange: "all",
                 });
                 setCurrentPage(1);
@@ -230,9 +311,18 @@ export const SessionsList: React.FC<SessionsListProps> = ({
             )}{" "}
             of {filteredAndSortedSessions.length} sessions
           </span>
-          <span className="text-sm text-gray-600 dark:text-gray-400">
-            Page {currentPage} of {totalPages}
-          </span>
+          <div className="flex items-center gap-4">
+            <span className="text-sm text-gray-600 dark:text-gray-400">
+              Page {currentPage} of {totalPages}
+            </span>
+            <button
+              onClick={() => setIsExportOpen(true)}
+              disabled={filteredAndSortedSessions.length === 0}
+              className="px-3 py-1 text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Export
+            </button>
+          </div>
         </div>
       </div>
 
@@ -248,6 +338,20 @@ export const SessionsList: React.FC<SessionsListProps> = ({
                 <div>
                   <div className="font-medium text-gray-900 dark:text-white">
                     {format(new Date(value), "MMM dd, yyyy")}
+                    {session.isReposicion && (
+                      <span className="ml-2 inline-flex px-2 py-0.5 text-xs font-semibold rounded-full bg-indigo-100 text-indigo-800 dark:bg-indigo-900 dark:text-indigo-200">
+                        Makeup
+                      </span>
+                    )}
+                    {session.syncStatus && (
+                      <span
+                        className={`ml-2 inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${
+                          SYNC_BADGES[session.syncStatus].className
+                        }`}
+                      >
+                        {SYNC_BADGES[session.syncStatus].label}
+                      </span>
+                    )}
                   </div>
                   <div className="text-sm text-gray-500 dark:text-gray-400">
                     {session.sessionTime} - {session.endTime}
@@ -288,17 +392,24 @@ export const SessionsList: React.FC<SessionsListProps> = ({
             {
               key: "parentSignatureStatus",
               label: "Status",
-              render: (value: string) => (
-                <span
-                  className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
-                    value === "completed"
-                      ? "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200"
-                      : "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200"
-                  }`}
-                >
-                  {value === "completed" ? "Completed" : "Pending"}
-                </span>
-              ),
+              render: (value: string, session: SessionWithDetails) =>
+                getAttendanceStatus(session) !== AttendanceStatus.ATTENDED ? (
+                  <StatusBadge
+                    status={getAttendanceStatus(session)}
+                    type="attendance"
+                    size="sm"
+                  />
+                ) : (
+                  <span
+                    className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                      value === "completed"
+                        ? "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200"
+                        : "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200"
+                    }`}
+                  >
+                    {value === "completed" ? "Completed" : "Pending"}
+                  </span>
+                ),
             },
             {
               key: "id" as keyof SessionWithDetails,
@@ -312,6 +423,33 @@ export const SessionsList: React.FC<SessionsListProps> = ({
                   (session.signatureImageData &&
                     session.signatureImageData.trim() !== "");
 
+                // Absences and cancellations have nothing to sign
+                if (
+                  getAttendanceStatus(session) !== AttendanceStatus.ATTENDED
+                ) {
+                  return (
+                    <div className="flex justify-center">
+                      <span className="px-3 py-1 text-sm font-medium text-gray-500 dark:text-gray-400">
+                        No signature
+                      </span>
+                    </div>
+                  );
+                }
+
+                const editability = getSessionEditability(session);
+                if (!isSigned && !editability.allowed) {
+                  return (
+                    <div className="flex justify-center">
+                      <span
+                        className="px-3 py-1 text-sm font-medium text-gray-500 dark:text-gray-400"
+                        title={editability.reason}
+                      >
+                        Locked
+                      </span>
+                    </div>
+                  );
+                }
+
                 return (
                   <div className="flex justify-center">
                     {!isSigned ? (
@@ -393,6 +531,20 @@ export const SessionsList: React.FC<SessionsListProps> = ({
           </div>
         </div>
       )}
+
+      {isExportOpen && (
+        <ExportModal
+          isOpen
+          onClose={() => setIsExportOpen(false)}
+          title="Export Sessions"
+          itemCount={filteredAndSortedSessions.length}
+          itemLabel="sessions"
+          columns={SESSION_EXPORT_COLUMNS}
+          onExport={async (options) =>
+            exportSessions(filteredAndSortedSessions, options)
+          }
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,116 @@
+import React from "react";
+import { format, parseISO } from "date-fns";
+import { useSessionSync } from "../hooks/useSessionSync";
+import type { SyncQueueEntry } from "../types/session.types";
+
+const describeEntry = (entry: SyncQueueEntry) =>
+  `${entry.session.patientName || "Session"} · ${format(
+    parseISO(entry.session.sessionDate),
+    "MMM d, yyyy"
+  )}`;
+
+/**
+ * SyncStatusBanner - offline notice, queued changes and conflicts to resolve
+ */
+export const SyncStatusBanner: React.FC = () => {
+  const {
+    pendingCount,
+    conflicts,
+    failed,
+    isOnline,
+    isSyncing,
+    syncNow,
+    resolveConflict,
+    discardEntry,
+  } = useSessionSync();
+
+  if (
+    isOnline &&
+    pendingCount === 0 &&
+    conflicts.length === 0 &&
+    failed.length === 0
+  ) {
+    return null;
+  }
+
+  const changes = `${pendingCount} ${
+    pendingCount === 1 ? "change" : "changes"
+  }`;
+
+  return (
+    <div className="mx-6 mt-4 space-y-2">
+      {!isOnline ? (
+        <div className="p-4 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 text-yellow-800 dark:text-yellow-200 rounded">
+          You're offline. Sessions and signatures are saved on this device
+          {pendingCount > 0 && ` (${changes} waiting)`} and will sync when the
+          connection returns.
+        </div>
+      ) : (
+        pendingCount > 0 && (
+          <div className="flex items-center justify-between gap-4 p-4 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 text-blue-800 dark:text-blue-200 rounded">
+            <span>
+              {isSyncing
+                ? `Syncing ${changes}...`
+                : `${changes} waiting to sync`}
+            </span>
+            <button
+              onClick={syncNow}
+              disabled={isSyncing}
+              className="px-3 py-1 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              Sync now
+            </button>
+          </div>
+        )
+      )}
+
+      {conflicts.map((entry) => (
+        <div
+          key={entry.id}
+          className="flex flex-col md:flex-row md:items-center md:justify-between gap-2 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-800 dark:text-red-200 rounded"
+        >
+          <span>
+            <span className="font-medium">{describeEntry(entry)}</span>:{" "}
+            {entry.error}
+          </span>
+          <div className="flex gap-2">
+            <button
+              onClick={() => resolveConflict(entry.id, "keepLocal")}
+              disabled={!isOnline || isSyncing}
+              className="px-3 py-1 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700 disabled:opacity-50"
+            >
+              Keep my changes
+            </button>
+            <button
+              onClick={() => resolveConflict(entry.id, "keepServer")}
+              disabled={isSyncing}
+              className="px-3 py-1 text-sm font-medium text-red-700 dark:text-red-200 border border-red-300 dark:border-red-700 rounded-md hover:bg-red-100 dark:hover:bg-red-900/40 disabled:opacity-50"
+            >
+              Use server version
+            </button>
+          </div>
+        </div>
+      ))}
+
+      {failed.map((entry) => (
+        <div
+          key={entry.id}
+          className="flex flex-col md:flex-row md:items-center md:justify-between gap-2 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-800 dark:text-red-200 rounded"
+        >
+          <span>
+            <span className="font-medium">{describeEntry(entry)}</span> could
+            not be synced: {entry.error}
+          </span>
+          <button
+            onClick={() => discardEntry(entry.id)}
+            className="px-3 py-1 text-sm font-medium text-red-700 dark:text-red-200 border border-red-300 dark:border-red-700 rounded-md hover:bg-red-100 dark:hover:bg-red-900/40"
+          >
+            Discard
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default SyncStatusBanner;
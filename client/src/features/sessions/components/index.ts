@@ -10,5 +10,9 @@ export { SessionView } from './SessionView';
 export { SessionsFilter } from './SessionsFilter';
 export { LargeSignatureModal } from './LargeSignatureModal';
 export { CertificationSelectionModal } from './CertificationSelectionModal';
+export { SessionConflictAlert } from './SessionConflictAlert';
+export { AvailabilitySettings } from './AvailabilitySettings';
+export { SessionCalendar } from './SessionCalendar';
+export { CalendarExportModal } from './CalendarExportModal';
 
 
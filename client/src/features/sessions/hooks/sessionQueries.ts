@@ -0,0 +1,39 @@
+// Session Queries - cache keys and invalidation for session data
+import { queryClient } from '../../../shared/utils/queryClient';
+import { invalidateCertificationQueries } from '../../certifications/hooks/certificationQueries';
+import { sessionService } from '../services/sessionService';
+import type { SessionsFilter, TherapySession } from '../types/session.types';
+
+export const sessionKeys = {
+  all: ['sessions'] as const,
+  lists: () => [...sessionKeys.all, 'list'] as const,
+  list: (filter: SessionsFilter) => [...sessionKeys.lists(), filter] as const,
+  stats: () => [...sessionKeys.all, 'stats'] as const,
+};
+
+/**
+ * Mark cached sessions stale after a session write, along with the certifications
+ * whose session counts and billable totals it changes
+ */
+export const invalidateSessionQueries = async (): Promise<void> => {
+  await Promise.all([
+    queryClient.invalidateQueries({ queryKey: sessionKeys.all }),
+    invalidateCertificationQueries(),
+  ]);
+};
+
+// Every session on a date, not just the current page, so conflict checks see them all
+const sameDayFilter = (date: string): SessionsFilter => ({ startDate: date, endDate: date, pageSize: 500 });
+
+export const sessionsOnDateQuery = (date: string) => ({
+  queryKey: sessionKeys.list(sameDayFilter(date)),
+  queryFn: ({ signal }: { signal: AbortSignal }) => sessionService.getSessions(sameDayFilter(date), { signal }),
+});
+
+/**
+ * Re-read a date's sessions from the server right before a write
+ */
+export const fetchSessionsOnDate = async (date: string): Promise<TherapySession[]> => {
+  const response = await queryClient.fetchQuery({ ...sessionsOnDateQuery(date), staleTime: 0 });
+  return response.sessions;
+};
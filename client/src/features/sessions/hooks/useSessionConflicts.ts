@@ -0,0 +1,41 @@
+// Session Conflicts Hook - checks a candidate session against every session on its date
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { sessionsOnDateQuery } from './sessionQueries';
+import { detectSessionConflicts } from '../utils/sessionConflicts';
+import { toDateOnly } from '../../../shared/utils/timeUtils';
+import type { ConflictCandidate, TherapySession } from '../types/session.types';
+
+const NO_SESSIONS: TherapySession[] = [];
+
+export function useSessionConflicts(
+  candidate: ConflictCandidate | null,
+  additionalSessions: TherapySession[] = []
+) {
+  const date = candidate?.sessionDate ? toDateOnly(candidate.sessionDate) : '';
+  const sameDayQuery = useQuery({ ...sessionsOnDateQuery(date), enabled: !!date });
+  const sessions = sameDayQuery.data?.sessions ?? NO_SESSIONS;
+
+  const conflicts = useMemo(() => {
+    if (!candidate) return [];
+
+    // Merge the date's sessions with extra ones (e.g. a certification's sessions), de-duplicated by id
+    const byId = new Map<string, TherapySession>();
+    [...sessions, ...additionalSessions].forEach((session) => byId.set(session.id, session));
+
+    return detectSessionConflicts(candidate, Array.from(byId.values()));
+  }, [candidate, sessions, additionalSessions]);
+
+  const errors = useMemo(() => conflicts.filter((c) => c.severity === 'error'), [conflicts]);
+  const warnings = useMemo(() => conflicts.filter((c) => c.severity === 'warning'), [conflicts]);
+
+  return {
+    conflicts,
+    errors,
+    warnings,
+    hasBlockingConflicts: errors.length > 0,
+    isChecking: sameDayQuery.isFetching,
+  };
+}
+
+export default useSessionConflicts;
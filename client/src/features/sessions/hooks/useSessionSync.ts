@@ -0,0 +1,87 @@
+// Session Sync Hook - offline queue state and conflict resolution for the UI
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { tokenService } from '@/features/auth/services/tokenService';
+import { offlineSessionStore } from '../services/offlineSessionStore';
+import { sessionSyncService } from '../services/sessionSyncService';
+import { mergeQueuedSessions } from '../utils/offlineSync';
+import { useOnlineStatus } from '../../../shared/hooks/useOnlineStatus';
+import type {
+  SyncConflictResolution,
+  SyncQueueEntry,
+  TherapySession,
+  UseSessionSyncReturn,
+} from '../types/session.types';
+
+export function useSessionSync(): UseSessionSyncReturn {
+  const [entries, setEntries] = useState<SyncQueueEntry[]>([]);
+  const isOnline = useOnlineStatus();
+  const [isSyncing, setIsSyncing] = useState(() => sessionSyncService.isSyncing());
+  const [lastSyncedAt, setLastSyncedAt] = useState(() => sessionSyncService.getLastSyncedAt());
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadQueue = async () => {
+      try {
+        const queue = await offlineSessionStore.getQueue(String(tokenService.getUserFromToken()?.id ?? ''));
+        if (!cancelled) setEntries(queue);
+      } catch (err) {
+        console.warn('Failed to read the offline sync queue:', err);
+      }
+    };
+    const updateSync = () => {
+      setIsSyncing(sessionSyncService.isSyncing());
+      setLastSyncedAt(sessionSyncService.getLastSyncedAt());
+    };
+
+    sessionSyncService.start();
+    loadQueue();
+    const unsubscribeQueue = offlineSessionStore.subscribe(loadQueue);
+    const unsubscribeSync = sessionSyncService.subscribe(updateSync);
+
+    return () => {
+      cancelled = true;
+      unsubscribeQueue();
+      unsubscribeSync();
+    };
+  }, []);
+
+  const syncNow = useCallback(async () => {
+    await sessionSyncService.sync();
+  }, []);
+
+  const resolveConflict = useCallback((entryId: number, resolution: SyncConflictResolution) => {
+    return sessionSyncService.resolveConflict(entryId, resolution);
+  }, []);
+
+  const discardEntry = useCallback((entryId: number) => {
+    return sessionSyncService.discardEntry(entryId);
+  }, []);
+
+  const mergeSessions = useCallback(
+    (sessions: TherapySession[]) => mergeQueuedSessions(sessions, entries),
+    [entries]
+  );
+
+  const { conflicts, failed, pendingCount } = useMemo(() => ({
+    conflicts: entries.filter((entry) => entry.status === 'conflict'),
+    failed: entries.filter((entry) => entry.status === 'failed'),
+    pendingCount: entries.filter((entry) => entry.status === 'pending').length,
+  }), [entries]);
+
+  return {
+    entries,
+    pendingCount,
+    conflicts,
+    failed,
+    isOnline,
+    isSyncing,
+    lastSyncedAt,
+    syncNow,
+    resolveConflict,
+    discardEntry,
+    mergeSessions,
+  };
+}
+
+export default useSessionSync;
@@ -1,28 +1,29 @@
 // Sessions Hook - State Management for Sessions Feature
 import { useState, useEffect, useCallback, useMemo } from 'react';
+import { keepPreviousData, useMutation, useQuery } from '@tanstack/react-query';
 import { sessionService } from '../services/sessionService';
+import { sessionSyncService } from '../services/sessionSyncService';
+import { sessionKeys, invalidateSessionQueries } from './sessionQueries';
+import { updateQueriesOptimistically } from '../../../shared/utils/queryClient';
 import type {
   TherapySession,
   CreateSessionRequest,
   UpdateSessionRequest,
   SessionsFilter,
-  SessionStats,
+  SessionsResponse,
+  SessionWriteOptions,
   UseSessionsOptions,
   UseSessionsReturn
 } from '../types/session.types';
 import { ParentSignatureStatus } from '../types/session.types';
+import { countBillableSessions } from '../utils/attendance';
+import { mergeSessionUpdate } from '../utils/offlineSync';
 
-// Global state to prevent duplicate API calls
-let globalSessions: TherapySession[] = [];
-let globalStats: SessionStats | null = null;
-let globalLoading = false;
-let globalError: string | null = null;
-const globalListeners: Set<() => void> = new Set();
+// Last offline sync already reloaded; every mounted hook hears about each sync
+let lastSyncedAt: string | null = null;
 
-// Function to notify all listeners of state changes
-const notifyListeners = () => {
-  globalListeners.forEach(listener => listener());
-};
+// Stable empty list so memoized utilities do not recompute while loading
+const NO_SESSIONS: TherapySession[] = [];
 
 const DEFAULT_FILTER: SessionsFilter = {
   page: 1,
@@ -31,6 +32,10 @@ const DEFAULT_FILTER: SessionsFilter = {
   sortDirection: 'desc',
 };
 
+// Apply a change to the sessions of every cached list
+const updateCachedSessions = (update: (sessions: TherapySession[]) => TherapySession[]) =>
+  updateQueriesOptimistically<SessionsResponse>(sessionKeys.lists(), (data) => ({ ...data, sessions: update(data.sessions) }));
+
 export function useSessions(options: UseSessionsOptions = {}): UseSessionsReturn {
   const { 
     filter: initialFilter = DEFAULT_FILTER,
@@ -40,141 +45,122 @@ export function useSessions(options: UseSessionsOptions = {}): UseSessionsReturn
 
   // Local state for component-specific data
   const [selectedSession, setSelectedSession] = useState<TherapySession | null>(null);
-  const [isCreating, setIsCreating] = useState(false);
-  const [isUpdating, setIsUpdating] = useState(false);
-  const [isDeleting, setIsDeleting] = useState(false);
   const [filter, setFilterState] = useState<SessionsFilter>(initialFilter);
-
-  // Local state that syncs with global state
-  const [sessions, setSessions] = useState<TherapySession[]>(globalSessions);
-  const [stats, setStats] = useState<SessionStats | null>(globalStats);
-  const [isLoading, setIsLoading] = useState(globalLoading);
-  const [error, setError] = useState<string | null>(globalError);
-
-  // Function to update local state from global state
-  const updateLocalState = useCallback(() => {
-    setSessions(globalSessions);
-    setStats(globalStats);
-    setIsLoading(globalLoading);
-    setError(globalError);
-  }, []);
-
-  // Subscribe to global state changes
-  useEffect(() => {
-    globalListeners.add(updateLocalState);
-    return () => {
-      globalListeners.delete(updateLocalState);
-    };
-  }, [updateLocalState]);
+  const [mutationError, setMutationError] = useState<string | null>(null);
+  const [dismissedError, setDismissedError] = useState<Error | null>(null);
+
+  // Hooks with the same filter share one cached list and one request
+  const sessionsQuery = useQuery({
+    queryKey: sessionKeys.list(filter),
+    queryFn: ({ signal }) => sessionService.getSessions(filter, { signal }),
+    placeholderData: keepPreviousData,
+    refetchInterval: autoRefresh ? refreshInterval : false,
+  });
+  const { refetch } = sessionsQuery;
+  const sessions = sessionsQuery.data?.sessions ?? NO_SESSIONS;
+  const queryError = sessionsQuery.error && sessionsQuery.error !== dismissedError ? sessionsQuery.error.message : null;
+  const error = mutationError ?? queryError;
+
+  // Falls back to stats computed from the loaded sessions when the endpoint fails
+  const statsQuery = useQuery({
+    queryKey: sessionKeys.stats(),
+    queryFn: () => sessionService.getSessionStats(),
+  });
+  const stats = statsQuery.data ?? null;
+
+  // Session writes also change their certification's session count and billable totals
+  const { mutateAsync: createSessionAsync, isPending: isCreating } = useMutation({
+    mutationFn: ({ data, writeOptions }: { data: CreateSessionRequest; writeOptions?: SessionWriteOptions }) =>
+      sessionService.createSession(data, writeOptions),
+    onSettled: () => invalidateSessionQueries(),
+  });
+
+  const { mutateAsync: updateSessionAsync, isPending: isUpdating } = useMutation({
+    mutationFn: ({ id, data, writeOptions }: { id: string; data: UpdateSessionRequest; writeOptions?: SessionWriteOptions }) =>
+      sessionService.updateSession(id, data, writeOptions),
+    // Show the change at once; the rollback restores the lists if the server rejects it
+    onMutate: ({ id, data }) => updateCachedSessions((cached) =>
+      cached.map(session => session.id === id ? mergeSessionUpdate(session, data) : session)
+    ),
+    onError: (_err, _variables, rollback) => rollback?.(),
+    onSettled: () => invalidateSessionQueries(),
+  });
+
+  const { mutateAsync: deleteSessionAsync, isPending: isDeleting } = useMutation({
+    mutationFn: ({ id, writeOptions }: { id: string; writeOptions?: SessionWriteOptions }) =>
+      sessionService.deleteSession(id, writeOptions),
+    onMutate: ({ id }) => updateCachedSessions((cached) => cached.filter(session => session.id !== id)),
+    onError: (_err, _variables, rollback) => rollback?.(),
+    onSettled: () => invalidateSessionQueries(),
+  });
 
   /**
    * Load sessions from API
    */
   const loadSessions = useCallback(async (filterOverride?: SessionsFilter) => {
-    const currentFilter = filterOverride || filter;
-    
-    // Only make API call if not already loading
-    if (globalLoading) return;
-    
-    globalLoading = true;
-    globalError = null;
-    notifyListeners();
-
-    try {
-      const response = await sessionService.getSessions(currentFilter);
-      globalSessions = response.sessions || [];
-      globalError = null;
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to load sessions';
-      globalError = errorMessage;
-      console.error('Load sessions error:', err);
-    } finally {
-      globalLoading = false;
-      notifyListeners();
+    if (filterOverride) {
+      setFilterState(filterOverride);
+      return;
     }
-  }, [filter]);
+    await refetch();
+  }, [refetch]);
 
   /**
    * Create new session
    */
-  const createSession = useCallback(async (data: CreateSessionRequest): Promise<TherapySession> => {
-    setIsCreating(true);
-    globalError = null;
-    notifyListeners();
+  const createSession = useCallback(async (data: CreateSessionRequest, writeOptions?: SessionWriteOptions): Promise<TherapySession> => {
+    setMutationError(null);
 
     try {
-      const newSession = await sessionService.createSession(data);
-      globalSessions = [newSession, ...globalSessions];
-      notifyListeners();
-      return newSession;
+      return await createSessionAsync({ data, writeOptions });
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to create session';
-      globalError = errorMessage;
-      notifyListeners();
+      setMutationError(errorMessage);
       throw err;
-    } finally {
-      setIsCreating(false);
     }
-  }, []);
+  }, [createSessionAsync]);
 
   /**
    * Update existing session
    */
-  const updateSession = useCallback(async (id: string, data: UpdateSessionRequest): Promise<TherapySession> => {
-    setIsUpdating(true);
-    globalError = null;
-    notifyListeners();
+  const updateSession = useCallback(async (
+    id: string,
+    data: UpdateSessionRequest,
+    writeOptions?: SessionWriteOptions
+  ): Promise<TherapySession> => {
+    setMutationError(null);
 
     try {
-      const updatedSession = await sessionService.updateSession(id, data);
-      globalSessions = globalSessions.map(session => 
-        session.id === id ? updatedSession : session
-      );
+      const updatedSession = await updateSessionAsync({ id, data, writeOptions });
       
       // Update selected session if it's the one being updated
-      if (selectedSession?.id === id) {
-        setSelectedSession(updatedSession);
-      }
+      setSelectedSession(current => current?.id === id ? updatedSession : current);
       
-      notifyListeners();
       return updatedSession;
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to update session';
-      globalError = errorMessage;
-      notifyListeners();
+      setMutationError(errorMessage);
       throw err;
-    } finally {
-      setIsUpdating(false);
     }
-  }, [selectedSession]);
+  }, [updateSessionAsync]);
 
   /**
    * Delete session
    */
-  const deleteSession = useCallback(async (id: string): Promise<void> => {
-    setIsDeleting(true);
-    globalError = null;
-    notifyListeners();
+  const deleteSession = useCallback(async (id: string, writeOptions?: SessionWriteOptions): Promise<void> => {
+    setMutationError(null);
 
     try {
-      await sessionService.deleteSession(id);
-      globalSessions = globalSessions.filter(session => session.id !== id);
+      await deleteSessionAsync({ id, writeOptions });
       
       // Clear selected session if it's the one being deleted
-      if (selectedSession?.id === id) {
-        setSelectedSession(null);
-      }
-      
-      notifyListeners();
+      setSelectedSession(current => current?.id === id ? null : current);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to delete session';
-      globalError = errorMessage;
-      notifyListeners();
+      setMutationError(errorMessage);
       throw err;
-    } finally {
-      setIsDeleting(false);
     }
-  }, [selectedSession]);
+  }, [deleteSessionAsync]);
 
   /**
    * Select session
@@ -184,42 +170,25 @@ export function useSessions(options: UseSessionsOptions = {}): UseSessionsReturn
   }, []);
 
   /**
-   * Set filter and reload sessions
+   * Set filter; the query for the new filter loads, or is served from the cache
    */
   const setFilter = useCallback((newFilter: SessionsFilter) => {
     setFilterState(newFilter);
-    loadSessions(newFilter);
-  }, [loadSessions]);
+  }, []);
 
   /**
    * Clear error
    */
   const clearError = useCallback(() => {
-    globalError = null;
-    notifyListeners();
-  }, []);
+    setMutationError(null);
+    setDismissedError(sessionsQuery.error);
+  }, [sessionsQuery.error]);
 
   /**
-   * Refresh sessions
+   * Refresh sessions everywhere they are shown
    */
   const refreshSessions = useCallback(() => {
-    return loadSessions();
-  }, [loadSessions]);
-
-  /**
-   * Load session statistics
-   */
-  const loadStats = useCallback(async () => {
-    try {
-      const sessionStats = await sessionService.getSessionStats();
-      globalStats = sessionStats;
-      notifyListeners();
-    } catch (err) {
-      console.warn('Failed to load session stats:', err);
-      // Fallback to computed stats from sessions data
-      globalStats = null; // Will use computed stats from useMemo
-      notifyListeners();
-    }
+    return invalidateSessionQueries();
   }, []);
 
   // Utility functions
@@ -252,36 +221,28 @@ export function useSessions(options: UseSessionsOptions = {}): UseSessionsReturn
     }).sort((a, b) => new Date(a.sessionDate).getTime() - new Date(b.sessionDate).getTime());
   }, [sessions]);
 
-  // Load initial data only if not already loaded
+  // Reload once changes captured offline reach the server
   useEffect(() => {
-    if (globalSessions.length === 0 && !globalLoading) {
-      loadSessions();
-    }
-    if (!globalStats && !globalLoading) {
-      loadStats();
-    }
-  }, [loadSessions, loadStats]);
-
-  // Auto refresh
-  useEffect(() => {
-    if (!autoRefresh) return;
-
-    const interval = setInterval(() => {
-      refreshSessions();
-    }, refreshInterval);
-
-    return () => clearInterval(interval);
-  }, [autoRefresh, refreshInterval, refreshSessions]);
+    return sessionSyncService.subscribe(() => {
+      const syncedAt = sessionSyncService.getLastSyncedAt();
+      if (syncedAt && syncedAt !== lastSyncedAt) {
+        lastSyncedAt = syncedAt;
+        invalidateSessionQueries();
+      }
+    });
+  }, []);
 
   // Memoized computed values
   const computedStats = useMemo(() => {
-    if (stats) return stats;
+    // Makeups are tracked client-side until the stats endpoint reports them
+    const reposicionSessions = sessions.filter(s => s.isReposicion).length;
+
+    if (stats) return { ...stats, reposicionSessions: stats.reposicionSessions ?? reposicionSessions };
 
     // Calculate basic stats from current sessions
     const totalSessions = sessions.length;
-    const completedSessions = sessions.filter(s => 
-      s.parentSignatureStatus === ParentSignatureStatus.SIGNED
-    ).length;
+    // Absences and cancellations are never counted as completed
+    const completedSessions = countBillableSessions(sessions);
     const pendingSessions = sessions.filter(s => 
       s.parentSignatureStatus === ParentSignatureStatus.PENDING
     ).length;
@@ -305,6 +266,7 @@ export function useSessions(options: UseSessionsOptions = {}): UseSessionsReturn
       thisWeekSessions,
       thisMonthSessions,
       averageSessionsPerWeek: thisWeekSessions,
+      reposicionSessions,
     };
   }, [sessions, stats]);
 
@@ -315,7 +277,7 @@ export function useSessions(options: UseSessionsOptions = {}): UseSessionsReturn
     stats: computedStats,
     
     // State
-    isLoading,
+    isLoading: sessionsQuery.isLoading,
     isCreating,
     isUpdating,
     isDeleting,
@@ -0,0 +1,52 @@
+// Therapist Availability Hook - loads and saves a therapist's working hours
+import { useState, useEffect, useCallback } from 'react';
+import { availabilityService } from '../services/availabilityService';
+import type { TherapistAvailability } from '../types/session.types';
+
+export function useTherapistAvailability(therapistId: string | null | undefined) {
+  const [availability, setAvailability] = useState<TherapistAvailability | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!therapistId) {
+      setAvailability(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    const load = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const result = await availabilityService.getAvailability(therapistId);
+        if (!cancelled) setAvailability(result);
+      } catch (err) {
+        // Pickers fall back to the default day when availability can't be read
+        if (!cancelled) {
+          setAvailability(null);
+          setError(err instanceof Error ? err.message : 'Failed to load availability');
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [therapistId]);
+
+  const saveAvailability = useCallback(async (next: TherapistAvailability) => {
+    const saved = await availabilityService.saveAvailability(next);
+    setAvailability(saved);
+    return saved;
+  }, []);
+
+  return { availability, isLoading, error, saveAvailability };
+}
+
+export default useTherapistAvailability;
@@ -0,0 +1,50 @@
+// Therapist Sessions Hook - a therapist's sessions between two dates, for slot checks
+import { useState, useEffect } from 'react';
+import { sessionService } from '../services/sessionService';
+import type { TherapySession } from '../types/session.types';
+
+export function useTherapistSessionsInRange(
+  therapistId: string | null | undefined,
+  startDate: string | null,
+  endDate: string | null
+) {
+  const [sessions, setSessions] = useState<TherapySession[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!therapistId || !startDate || !endDate) {
+      setSessions([]);
+      return;
+    }
+
+    const request = new AbortController();
+
+    const load = async () => {
+      setIsLoading(true);
+      try {
+        const response = await sessionService.getSessions({
+          therapistId,
+          startDate,
+          endDate,
+          pageSize: 500,
+        }, { signal: request.signal });
+        if (!request.signal.aborted) setSessions(response.sessions);
+      } catch {
+        // Callers still work; only taken-slot detection is lost
+        if (!request.signal.aborted) setSessions([]);
+      } finally {
+        if (!request.signal.aborted) setIsLoading(false);
+      }
+    };
+
+    load();
+
+    return () => {
+      request.abort();
+    };
+  }, [therapistId, startDate, endDate]);
+
+  return { sessions, isLoading };
+}
+
+export default useTherapistSessionsInRange;
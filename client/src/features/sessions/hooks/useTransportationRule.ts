@@ -0,0 +1,73 @@
+// Transportation Rule Hook - evaluates the transportation rules for a certification's sessions
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { certificationService } from '../../certifications/services/certificationService';
+import { patientService } from '../../patients/services/patientService';
+import { transportationRuleService } from '../services/transportationRuleService';
+import {
+  DEFAULT_TRANSPORTATION_RULES,
+  evaluateTransportationRules,
+} from '../utils/transportationRules';
+import type { TransportationContext, TransportationRule } from '../types/session.types';
+
+export function useTransportationRule(
+  certificationDocumentId: string | null | undefined,
+  location: string = ''
+) {
+  const [rules, setRules] = useState<TransportationRule[]>(DEFAULT_TRANSPORTATION_RULES);
+  const [flags, setFlags] = useState<TransportationContext['flags']>({});
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Rules and flags only change with the certification; location is evaluated locally
+  useEffect(() => {
+    if (!certificationDocumentId) return;
+
+    let cancelled = false;
+
+    const load = async () => {
+      setIsLoading(true);
+      const [rulesResult, flagsResult] = await Promise.allSettled([
+        transportationRuleService.getRules(),
+        (async () => {
+          const certification = await certificationService.getCertificationById(
+            certificationDocumentId
+          );
+          const patient = certification.patientId
+            ? await patientService.getPatientById(certification.patientId)
+            : null;
+          return {
+            requiresTransportation: !!patient?.requiresTransportation,
+            isPrivate: !!certification.isPrivate,
+            hasPrivatePlan: !!certification.hasPrivatePlan,
+            isProvisionalRemedy: !!certification.isProvisionalRemedy,
+          };
+        })(),
+      ]);
+      if (cancelled) return;
+
+      // Fall back to the default rules and no flags so the form stays usable
+      if (rulesResult.status === 'fulfilled') setRules(rulesResult.value);
+      else console.error('Failed to load transportation rules:', rulesResult.reason);
+      if (flagsResult.status === 'fulfilled') setFlags(flagsResult.value);
+      else console.error('Failed to load transportation flags:', flagsResult.reason);
+      setIsLoading(false);
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [certificationDocumentId]);
+
+  // Sessions generated in bulk each have their own location
+  const evaluate = useCallback(
+    (sessionLocation: string) => evaluateTransportationRules({ location: sessionLocation, flags }, rules),
+    [flags, rules]
+  );
+
+  const decision = useMemo(() => evaluate(location), [evaluate, location]);
+
+  return { decision, evaluate, isLoading };
+}
+
+export default useTransportationRule;
@@ -3,6 +3,12 @@
 
 // Hooks
 export { useSessions } from './hooks/useSessions';
+export { useSessionConflicts } from './hooks/useSessionConflicts';
+export { useTransportationRule } from './hooks/useTransportationRule';
+export { useTherapistAvailability } from './hooks/useTherapistAvailability';
+export { useTherapistSessionsInRange } from './hooks/useTherapistSessionsInRange';
+export { useSessionSync } from './hooks/useSessionSync';
+export { sessionKeys, invalidateSessionQueries } from './hooks/sessionQueries';
 
 // Components
 export { SessionsDashboard } from './components/SessionsDashboard';
@@ -14,12 +20,81 @@ export { SessionView } from './components/SessionView';
 export { SessionsFilter } from './components/SessionsFilter';
 export { LargeSignatureModal } from './components/LargeSignatureModal';
 export { CertificationSelectionModal } from './components/CertificationSelectionModal';
+export { SessionConflictAlert } from './components/SessionConflictAlert';
+export { AvailabilitySettings } from './components/AvailabilitySettings';
+export { SessionCalendar } from './components/SessionCalendar';
+export { CalendarExportModal } from './components/CalendarExportModal';
+export { SyncStatusBanner } from './components/SyncStatusBanner';
 
 // Pages
 export { default as SessionsPage } from './pages/SessionsPage';
+export { default as SessionsCalendarPage } from './pages/SessionsCalendarPage';
 
 // Services
 export { sessionService } from './services/sessionService';
+export { transportationRuleService } from './services/transportationRuleService';
+export { availabilityService } from './services/availabilityService';
+export { offlineSessionStore } from './services/offlineSessionStore';
+export { sessionSyncService } from './services/sessionSyncService';
+
+// Utils
+export {
+  detectSessionConflicts,
+  hasBlockingConflicts,
+  assertNoBlockingConflicts,
+} from './utils/sessionConflicts';
+export {
+  getAttendanceStatus,
+  requiresAttendanceReason,
+  isBillableSession,
+  countBillableSessions,
+} from './utils/attendance';
+export {
+  DEFAULT_TRANSPORTATION_RULES,
+  evaluateTransportationRules,
+  getTransportationOverrideError,
+} from './utils/transportationRules';
+export {
+  DEFAULT_DAY_START,
+  DEFAULT_DAY_END,
+  SLOT_STEP_MINUTES,
+  getWorkingWindows,
+  findBlockedPeriod,
+  getSlotStatus,
+  buildTimeSlots,
+  isSlotFree,
+} from './utils/availability';
+export type { SlotQuery } from './utils/availability';
+export {
+  getCalendarDays,
+  shiftCalendarAnchor,
+  getCalendarTitle,
+  groupSessionsByDate,
+  getSessionMinutes,
+  getRescheduledTimes,
+  isSessionSigned,
+  getSessionColorClasses,
+} from './utils/calendar';
+export {
+  escapeICalText,
+  foldICalLine,
+  formatICalDateTime,
+  getSessionUid,
+  buildICalendar,
+  downloadICalendar,
+} from './utils/icalendar';
+export type { ICalendarOptions } from './utils/icalendar';
+export {
+  isOffline,
+  isNetworkError,
+  isLocalSessionId,
+  mergeQueuedSessions,
+} from './utils/offlineSync';
+export {
+  SESSION_EXPORT_COLUMNS,
+  sortSessionsForExport,
+  exportSessions,
+} from './utils/sessionExport';
 
 // Types
 export type {
@@ -31,6 +106,22 @@ export type {
   SessionsFilter,
   SessionsResponse,
   SessionStats,
+  ConflictType,
+  ConflictSeverity,
+  ConflictInfo,
+  ConflictCandidate,
+  TransportationFlag,
+  TransportationRule,
+  TransportationContext,
+  TransportationDecision,
+  WorkingHours,
+  BlockedPeriod,
+  TherapistAvailability,
+  TimeSlotStatus,
+  TimeSlot,
+  CalendarView,
+  CalendarColorMode,
+  CalendarDropTarget,
   SessionsState,
   SessionModalProps,
   SessionFormProps,
@@ -42,6 +133,14 @@ export type {
   SignatureModalProps,
   UseSessionsOptions,
   UseSessionsReturn,
+  SyncEntryStatus,
+  SyncQueueEntry,
+  NewSyncQueueEntry,
+  SyncConflictResolution,
+  SessionReadOptions,
+  SessionWriteOptions,
+  SyncResult,
+  UseSessionSyncReturn,
 } from './types/session.types';
 
 
@@ -0,0 +1,326 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { useSessions } from "../hooks/useSessions";
+import { Navigation } from "../../../shared/components/layout";
+import { SessionCalendar } from "../components/SessionCalendar";
+import { SessionModal } from "../components/SessionModal";
+import { CertificationSelectionModal } from "../components/CertificationSelectionModal";
+import { assertNoBlockingConflicts } from "../utils/sessionConflicts";
+import { fetchSessionsOnDate } from "../hooks/sessionQueries";
+import {
+  getCalendarDays,
+  getCalendarTitle,
+  getRescheduledTimes,
+  shiftCalendarAnchor,
+} from "../utils/calendar";
+import { usePermissions } from "../../auth";
+import {
+  normalizeTime,
+  toDateKey,
+  toDateOnly,
+} from "../../../shared/utils/timeUtils";
+import type { SessionFormData } from "../../../shared/types/ModalTypes";
+import type { CertificationDocument } from "../../certifications/types/certification.types";
+import type {
+  CalendarColorMode,
+  CalendarDropTarget,
+  CalendarView,
+  SessionsFilter,
+  TherapySession,
+} from "../types/session.types";
+
+const VIEWS: Array<{ value: CalendarView; label: string }> = [
+  { value: "day", label: "Day" },
+  { value: "week", label: "Week" },
+  { value: "month", label: "Month" },
+];
+
+// Enough for a month of a full caseload in one request
+const CALENDAR_PAGE_SIZE = 500;
+
+const buildRangeFilter = (view: CalendarView, anchor: Date): SessionsFilter => {
+  const days = getCalendarDays(view, anchor);
+  return {
+    startDate: toDateKey(days[0]),
+    endDate: toDateKey(days[days.length - 1]),
+    page: 1,
+    pageSize: CALENDAR_PAGE_SIZE,
+    sortBy: "sessionDate",
+    sortDirection: "asc",
+  };
+};
+
+type ModalState =
+  | { mode: "view"; sessionId: string }
+  | {
+      mode: "create";
+      certificationId: string;
+      initialData: Partial<SessionFormData>;
+    };
+
+const SessionsCalendarPage: React.FC = () => {
+  const [view, setView] = useState<CalendarView>("week");
+  const [anchor, setAnchor] = useState(() => new Date());
+  const [colorMode, setColorMode] = useState<CalendarColorMode>("patient");
+  const [pendingSlot, setPendingSlot] = useState<CalendarDropTarget | null>(
+    null
+  );
+  const [modal, setModal] = useState<ModalState | null>(null);
+  const [modalKey, setModalKey] = useState(0);
+  const [notice, setNotice] = useState<{
+    type: "success" | "error";
+    text: string;
+  } | null>(null);
+
+  const rangeFilter = useMemo(
+    () => buildRangeFilter(view, anchor),
+    [view, anchor]
+  );
+  const { sessions, isLoading, error, loadSessions, updateSession } =
+    useSessions({ filter: rangeFilter });
+  const { getSessionEditability } = usePermissions();
+
+  // Reload whenever the visible range changes. loadSessions ignores calls
+  // while a load is running, so a range skipped then is loaded afterwards.
+  const { startDate, endDate } = rangeFilter;
+  const loadedRangeRef = useRef<string | null>(null);
+  useEffect(() => {
+    const rangeKey = `${rangeFilter.startDate}_${rangeFilter.endDate}`;
+    if (isLoading || loadedRangeRef.current === rangeKey) return;
+    loadedRangeRef.current = rangeKey;
+    loadSessions(rangeFilter);
+  }, [rangeFilter, isLoading, loadSessions]);
+
+  const visibleSessions = useMemo(
+    () =>
+      sessions.filter((session) => {
+        const date = toDateOnly(session.sessionDate);
+        return date >= (startDate || "") && date <= (endDate || "");
+      }),
+    [sessions, startDate, endDate]
+  );
+
+  const handleSessionDrop = async (
+    session: TherapySession,
+    target: CalendarDropTarget
+  ) => {
+    const times = getRescheduledTimes(session, target);
+    if (
+      times.sessionDate === toDateOnly(session.sessionDate) &&
+      times.sessionTime === normalizeTime(session.sessionTime)
+    ) {
+      return;
+    }
+
+    setNotice(null);
+    try {
+      assertNoBlockingConflicts(
+        {
+          id: session.id,
+          certificationDocumentId: session.certificationDocumentId,
+          sessionDate: times.sessionDate,
+          sessionTime: times.sessionTime,
+          endTime: times.endTime,
+          patientId: session.patientId,
+          patientName: session.patientName,
+          therapistId: session.therapistId,
+        },
+        await fetchSessionsOnDate(times.sessionDate)
+      );
+
+      await updateSession(session.id, {
+        id: session.id,
+        sessionDate: new Date(times.sessionDate),
+        sessionTime: `${times.sessionTime}:00`,
+        endTime: times.endTime ? `${times.endTime}:00` : undefined,
+        location: session.location,
+        transportationRequired: session.transportationRequired,
+        notes: session.notes,
+        parentSignatureStatus: session.parentSignatureStatus,
+        isReposicion: session.isReposicion,
+        originalSessionId: session.originalSessionId,
+        attendanceStatus: session.attendanceStatus,
+        attendanceReason: session.attendanceReason,
+        transportationOverride: session.transportationOverride,
+        transportationOverrideReason: session.transportationOverrideReason,
+      });
+      setNotice({
+        type: "success",
+        text: `${session.patientName || "Session"} moved to ${
+          times.sessionDate
+        } at ${times.sessionTime}`,
+      });
+    } catch (err) {
+      setNotice({
+        type: "error",
+        text: err instanceof Error ? err.message : "Failed to move session",
+      });
+    }
+  };
+
+  const handleSelectCertification = (certification: CertificationDocument) => {
+    if (!pendingSlot) return;
+    setModal({
+      mode: "create",
+      certificationId: certification.id,
+      initialData: {
+        sessionDate: pendingSlot.date,
+        ...(pendingSlot.time ? { sessionTime: pendingSlot.time } : {}),
+        ...(certification.location ? { location: certification.location } : {}),
+      },
+    });
+    setModalKey((key) => key + 1);
+    setPendingSlot(null);
+  };
+
+  const handleSessionClick = (session: TherapySession) => {
+    setModal({ mode: "view", sessionId: session.id });
+    setModalKey((key) => key + 1);
+  };
+
+  const handleDayClick = (date: Date) => {
+    setAnchor(date);
+    setView("day");
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 transition-colors duration-200">
+      <Navigation />
+      <main className="max-w-7xl mx-auto py-4 px-3 sm:py-6 sm:px-4 lg:px-8">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+            Calendar
+          </h1>
+          <p className="mt-2 text-gray-600 dark:text-gray-400">
+            Drag sessions to reschedule them, or click an empty slot to add one
+          </p>
+        </div>
+
+        {/* Toolbar */}
+        <div className="mb-4 flex flex-col lg:flex-row lg:items-center lg:justify-between gap-3">
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setAnchor(new Date())}
+              className="px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-100 dark:hover:bg-gray-800"
+            >
+              Today
+            </button>
+            <button
+              onClick={() => setAnchor(shiftCalendarAnchor(view, anchor, -1))}
+              aria-label="Previous"
+              className="px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-100 dark:hover:bg-gray-800"
+            >
+              &lsaquo;
+            </button>
+            <button
+              onClick={() => setAnchor(shiftCalendarAnchor(view, anchor, 1))}
+              aria-label="Next"
+              className="px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-100 dark:hover:bg-gray-800"
+            >
+              &rsaquo;
+            </button>
+            <h2 className="ml-2 text-lg font-semibold text-gray-900 dark:text-gray-100">
+              {getCalendarTitle(view, anchor)}
+            </h2>
+            {isLoading && (
+              <span className="text-sm text-gray-500 dark:text-gray-400">
+                Loading...
+              </span>
+            )}
+          </div>
+
+          <div className="flex items-center gap-3">
+            <select
+              value={colorMode}
+              onChange={(e) =>
+                setColorMode(e.target.value as CalendarColorMode)
+              }
+              className="px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+            >
+              <option value="patient">Color by patient</option>
+              <option value="signature">Color by signature status</option>
+            </select>
+            <div className="inline-flex rounded-md border border-gray-300 dark:border-gray-600 overflow-hidden">
+              {VIEWS.map((option) => (
+                <button
+                  key={option.value}
+                  onClick={() => setView(option.value)}
+                  className={`px-3 py-2 text-sm ${
+                    view === option.value
+                      ? "bg-blue-600 text-white"
+                      : "bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {colorMode === "signature" && (
+          <div className="mb-4 flex gap-4 text-xs text-gray-600 dark:text-gray-400">
+            <span className="flex items-center gap-1">
+              <span className="w-3 h-3 rounded bg-green-200 border border-green-400" />
+              Signed
+            </span>
+            <span className="flex items-center gap-1">
+              <span className="w-3 h-3 rounded bg-yellow-200 border border-yellow-400" />
+              Pending signature
+            </span>
+            <span className="flex items-center gap-1">
+              <span className="w-3 h-3 rounded bg-gray-200 border border-gray-400" />
+              Absent or cancelled
+            </span>
+          </div>
+        )}
+
+        {(notice || error) && (
+          <div
+            className={`mb-4 px-4 py-3 rounded-md border ${
+              notice?.type === "success"
+                ? "bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800 text-green-700 dark:text-green-400"
+                : "bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800 text-red-700 dark:text-red-400"
+            }`}
+          >
+            {notice?.text || error}
+          </div>
+        )}
+
+        <SessionCalendar
+          view={view}
+          anchor={anchor}
+          sessions={visibleSessions}
+          colorMode={colorMode}
+          onSessionClick={handleSessionClick}
+          onSlotClick={setPendingSlot}
+          onSessionDrop={handleSessionDrop}
+          onDayClick={handleDayClick}
+          canDrag={(session) => getSessionEditability(session).allowed}
+        />
+      </main>
+
+      <CertificationSelectionModal
+        isOpen={!!pendingSlot}
+        onClose={() => setPendingSlot(null)}
+        onSelectCertification={handleSelectCertification}
+      />
+
+      {modal && (
+        <SessionModal
+          key={modalKey}
+          isOpen
+          onClose={() => setModal(null)}
+          mode={modal.mode}
+          sessionId={modal.mode === "view" ? modal.sessionId : undefined}
+          certificationId={
+            modal.mode === "create" ? modal.certificationId : undefined
+          }
+          initialData={modal.mode === "create" ? modal.initialData : undefined}
+          onSaved={() => loadSessions(rangeFilter)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default SessionsCalendarPage;
@@ -0,0 +1,53 @@
+// Availability Service - API Communication Layer
+import { apiClient, ApiError } from '@/services/apiClient';
+import type { TherapistAvailability } from '../types/session.types';
+
+class AvailabilityService {
+  private readonly usersURL = '/api/User'; // Backend uses singular 'User'
+
+  /**
+   * Get a therapist's working hours and blocked periods; null when never configured
+   */
+  async getAvailability(therapistId: string): Promise<TherapistAvailability | null> {
+    try {
+      const data = await apiClient.request<Partial<TherapistAvailability>>({
+        url: `${this.usersURL}/${therapistId}/availability`,
+        errorMessage: 'Failed to fetch availability',
+      });
+
+      return {
+        therapistId,
+        workingHours: data.workingHours || [],
+        blockedPeriods: data.blockedPeriods || [],
+      };
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 404) {
+        return null;
+      }
+      console.error('Get availability error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Save a therapist's working hours and blocked periods
+   */
+  async saveAvailability(availability: TherapistAvailability): Promise<TherapistAvailability> {
+    try {
+      const data = await apiClient.request<Partial<TherapistAvailability>>({
+        url: `${this.usersURL}/${availability.therapistId}/availability`,
+        method: 'PUT',
+        body: availability,
+        errorMessage: 'Failed to save availability',
+      });
+      return { ...availability, ...data };
+    } catch (error) {
+      console.error('Save availability error:', error);
+      throw error;
+    }
+  }
+}
+
+// Singleton instance
+export const availabilityService = new AvailabilityService();
+export default availabilityService;
@@ -0,0 +1,147 @@
+// Offline Session Store - IndexedDB storage for the sync queue and the last known server sessions
+import type { NewSyncQueueEntry, SyncQueueEntry, TherapySession } from '../types/session.types';
+
+const DB_NAME = 'therapyflow-offline';
+const DB_VERSION = 1;
+const QUEUE_STORE = 'syncQueue';
+const SESSIONS_STORE = 'sessions';
+
+// Server copies are kept per user, like the in-memory caches of the other services
+interface CachedSessionRecord {
+  id: string;
+  ownerId: string;
+  session: TherapySession;
+}
+
+const toPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+class OfflineSessionStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private listeners = new Set<() => void>();
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      if (typeof indexedDB === 'undefined') {
+        return Promise.reject(new Error('Offline storage is not available in this browser'));
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+          // Auto-increment keys keep the queue in the order changes were made
+          db.createObjectStore(QUEUE_STORE, { keyPath: 'id', autoIncrement: true });
+        }
+        if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+          db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+        }
+      };
+      this.dbPromise = toPromise(request).catch((error) => {
+        this.dbPromise = null;
+        throw error;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * Be notified whenever the queue changes
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+
+  /**
+   * The user's queued changes in the order they were made
+   */
+  async getQueue(ownerId: string): Promise<SyncQueueEntry[]> {
+    const db = await this.open();
+    const entries: SyncQueueEntry[] = await toPromise(db.transaction(QUEUE_STORE).objectStore(QUEUE_STORE).getAll());
+    return entries.filter((entry) => entry.ownerId === ownerId).sort((a, b) => a.id - b.id);
+  }
+
+  /**
+   * Add a change to the end of the queue
+   */
+  async enqueue(entry: NewSyncQueueEntry): Promise<SyncQueueEntry> {
+    const db = await this.open();
+    const record = { ...entry, queuedAt: new Date().toISOString(), status: 'pending' as const };
+    const id = await toPromise(db.transaction(QUEUE_STORE, 'readwrite').objectStore(QUEUE_STORE).add(record));
+    this.notify();
+    return { ...record, id: id as number } as SyncQueueEntry;
+  }
+
+  /**
+   * Replace queued entries, e.g. after a status change or an id remap
+   */
+  async updateEntries(entries: SyncQueueEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+    const db = await this.open();
+    const transaction = db.transaction(QUEUE_STORE, 'readwrite');
+    const store = transaction.objectStore(QUEUE_STORE);
+    entries.forEach((entry) => store.put(entry));
+    await transactionDone(transaction);
+    this.notify();
+  }
+
+  async removeEntries(ids: number[]): Promise<void> {
+    if (ids.length === 0) return;
+    const db = await this.open();
+    const transaction = db.transaction(QUEUE_STORE, 'readwrite');
+    const store = transaction.objectStore(QUEUE_STORE);
+    ids.forEach((id) => store.delete(id));
+    await transactionDone(transaction);
+    this.notify();
+  }
+
+  /**
+   * Remember server copies so lists and conflict checks work without a network
+   */
+  async cacheSessions(ownerId: string, sessions: TherapySession[]): Promise<void> {
+    if (sessions.length === 0) return;
+    const db = await this.open();
+    const transaction = db.transaction(SESSIONS_STORE, 'readwrite');
+    const store = transaction.objectStore(SESSIONS_STORE);
+    sessions.forEach((session) => store.put({ id: session.id, ownerId, session } satisfies CachedSessionRecord));
+    await transactionDone(transaction);
+  }
+
+  async getCachedSessions(ownerId: string): Promise<TherapySession[]> {
+    const db = await this.open();
+    const records: CachedSessionRecord[] = await toPromise(db.transaction(SESSIONS_STORE).objectStore(SESSIONS_STORE).getAll());
+    return records.filter((record) => record.ownerId === ownerId).map((record) => record.session);
+  }
+
+  async getCachedSession(ownerId: string, id: string): Promise<TherapySession | null> {
+    const db = await this.open();
+    const record: CachedSessionRecord | undefined = await toPromise(db.transaction(SESSIONS_STORE).objectStore(SESSIONS_STORE).get(id));
+    return record?.ownerId === ownerId ? record.session : null;
+  }
+
+  async removeCachedSession(id: string): Promise<void> {
+    const db = await this.open();
+    await toPromise(db.transaction(SESSIONS_STORE, 'readwrite').objectStore(SESSIONS_STORE).delete(id));
+  }
+}
+
+// Singleton instance
+export const offlineSessionStore = new OfflineSessionStore();
+export default offlineSessionStore;
@@ -1,14 +1,49 @@
 // Session Service - API Communication Layer
 import { tokenService } from '@/features/auth/services/tokenService';
-import { authService } from '@/features/auth/services/authService';
+import { apiClient, ApiError } from '@/services/apiClient';
+import type { PagedPayload, RequestOptions } from '../../../shared/types/api';
 import type {
   TherapySession,
   CreateSessionRequest,
   UpdateSessionRequest,
   SessionsFilter,
   SessionsResponse,
-  SessionStats
+  SessionStats,
+  SessionReadOptions,
+  SessionWriteOptions
 } from '../types/session.types';
+import { ParentSignatureStatus } from '../types/session.types';
+import { buildMockAuditHistory, isAuditHistoryMockEnabled } from '../../../shared/utils/auditHistoryMock';
+import type { AuditEntry } from '../../../shared/types/audit';
+import {
+  assertCertificationEditable,
+  assertSessionEditable,
+  assertSessionSignable,
+  hasKnownCertificationStatus,
+  normalizeCertificationStatus,
+} from '../../../shared/utils/editPolicy';
+import { certificationService } from '../../certifications/services/certificationService';
+import { offlineSessionStore } from './offlineSessionStore';
+import {
+  applySessionUpdate,
+  buildLocalSession,
+  createLocalSessionId,
+  filterCachedSessions,
+  isLocalSessionId,
+  isNetworkError,
+  isOffline,
+} from '../utils/offlineSync';
+
+type SessionsPayload = TherapySession[] | (PagedPayload<TherapySession> & { sessions?: TherapySession[] });
+
+type CertificationStatusSource = { certificationStatus?: number | string | null };
+
+// Transport options for apiClient, without the service's own write options
+const toRequestOptions = ({ signal, timeout, retries }: RequestOptions): RequestOptions => ({ signal, timeout, retries });
+
+const NOT_FOUND = { 404: 'Session not found' };
+// The server refuses writes to sessions of locked certifications
+const LOCKED = { 403: "This session's certification is locked or you cannot change it." };
 
 class SessionService {
   private readonly baseURL = '/api/TherapySessions';
@@ -16,51 +51,41 @@ class SessionService {
   /**
    * Get sessions with filtering and pagination
    */
-  async getSessions(filter: SessionsFilter = {}): Promise<SessionsResponse> {
-    const token = await tokenService.getValidToken();
-    if (!token) {
-      throw new Error('No valid token available');
+  async getSessions(filter: SessionsFilter = {}, options: SessionReadOptions = {}): Promise<SessionsResponse> {
+    const { offlineFallback = true, ...requestOptions } = options;
+    if (offlineFallback && isOffline()) {
+      return this.getCachedSessions(filter);
     }
 
     try {
-      const queryParams = new URLSearchParams();
-      
-      // Add filter parameters
-      if (filter.certificationId) queryParams.append('certificationId', filter.certificationId);
-      if (filter.startDate) queryParams.append('startDate', filter.startDate);
-      if (filter.endDate) queryParams.append('endDate', filter.endDate);
-      if (filter.therapistId) queryParams.append('therapistId', filter.therapistId);
-      if (filter.patientName) queryParams.append('patientName', filter.patientName);
-      if (filter.location) queryParams.append('location', filter.location);
-      if (filter.signatureStatus) queryParams.append('signatureStatus', filter.signatureStatus.toString());
-      if (filter.search) queryParams.append('search', filter.search);
-      if (filter.page) queryParams.append('page', filter.page.toString());
-      if (filter.pageSize) queryParams.append('pageSize', filter.pageSize.toString());
-      if (filter.sortBy) queryParams.append('sortBy', filter.sortBy);
-      if (filter.sortDirection) queryParams.append('sortDirection', filter.sortDirection);
-
-      const url = queryParams.toString() ? `${this.baseURL}?${queryParams}` : this.baseURL;
-      
-      const data = await authService.authenticatedRequest(url);
-      
-      console.log('SessionService: Raw response data:', data);
-
-      // The authenticatedRequest returns the unwrapped data, so we need to check for the actual data structure
-      if (data && (data.items || data.sessions || Array.isArray(data))) {
-        const sessions = data.items || data.sessions || data;
+      const data = await apiClient.request<SessionsPayload>({
+        url: this.baseURL,
+        params: filter,
+        errorMessage: 'Failed to fetch sessions',
+        ...requestOptions,
+      });
+
+      const sessions = Array.isArray(data) ? data : data.items || data.sessions;
+      if (sessions) {
+        const meta: PagedPayload<TherapySession> = Array.isArray(data) ? {} : data;
+        this.cacheSessions(sessions);
         return {
           sessions: sessions,
-          totalCount: data.totalCount || data.pagination?.totalItems || sessions.length,
-          page: data.page || data.pagination?.page || 1,
-          pageSize: data.pageSize || data.pagination?.pageSize || sessions.length,
-          totalPages: data.totalPages || data.pagination?.totalPages || 1,
-          hasNext: data.hasNext || data.pagination?.hasNext || false,
-          hasPrevious: data.hasPrevious || data.pagination?.hasPrevious || false,
+          totalCount: meta.totalCount || meta.pagination?.totalItems || sessions.length,
+          page: meta.page || meta.pagination?.page || 1,
+          pageSize: meta.pageSize || meta.pagination?.pageSize || sessions.length,
+          totalPages: meta.totalPages || meta.pagination?.totalPages || 1,
+          hasNext: meta.hasNext || meta.pagination?.hasNext || false,
+          hasPrevious: meta.hasPrevious || meta.pagination?.hasPrevious || false,
         };
       }
 
       throw new Error('Invalid sessions response');
     } catch (error) {
+      // The connection dropped while the request was in flight
+      if (offlineFallback && isOffline()) {
+        return this.getCachedSessions(filter);
+      }
       console.error('Get sessions error:', error);
       throw error;
     }
@@ -70,36 +95,13 @@ class SessionService {
    * Get recent sessions
    */
   async getRecentSessions(count: number = 10): Promise<TherapySession[]> {
-    const token = await tokenService.getValidToken();
-    if (!token) {
-      throw new Error('No valid token available');
-    }
-
     try {
-      const response = await fetch(`${this.baseURL}/recent?count=${count}`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        credentials: 'include',
+      const data = await apiClient.request<TherapySession[] | TherapySession>({
+        url: `${this.baseURL}/recent`,
+        params: { count },
+        errorMessage: 'Failed to fetch recent sessions',
       });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        if (response.status === 401) {
-          tokenService.logout();
-          throw new Error('Session expired');
-        }
-        throw new Error(data.message || 'Failed to fetch recent sessions');
-      }
-
-      if (data.status === 200 && data.data) {
-        return Array.isArray(data.data) ? data.data : [data.data];
-      }
-
-      throw new Error('Invalid recent sessions response');
+      return Array.isArray(data) ? data : [data];
     } catch (error) {
       console.error('Get recent sessions error:', error);
       throw error;
@@ -109,40 +111,20 @@ class SessionService {
   /**
    * Get session by ID
    */
-  async getSessionById(id: string): Promise<TherapySession> {
-    const token = await tokenService.getValidToken();
-    if (!token) {
-      throw new Error('No valid token available');
+  async getSessionById(id: string, options: RequestOptions = {}): Promise<TherapySession> {
+    if (isLocalSessionId(id) || isOffline()) {
+      return this.getLocalSession(id);
     }
 
     try {
-      const response = await fetch(`${this.baseURL}/${id}`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        credentials: 'include',
+      const session = await apiClient.request<TherapySession>({
+        url: `${this.baseURL}/${id}`,
+        errorMessages: NOT_FOUND,
+        errorMessage: 'Failed to fetch session',
+        ...options,
       });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        if (response.status === 401) {
-          tokenService.logout();
-          throw new Error('Session expired');
-        }
-        if (response.status === 404) {
-          throw new Error('Session not found');
-        }
-        throw new Error(data.message || 'Failed to fetch session');
-      }
-
-      if (data.status === 200 && data.data) {
-        return data.data;
-      }
-
-      throw new Error('Invalid session response');
+      this.cacheSessions([session]);
+      return session;
     } catch (error) {
       console.error('Get session error:', error);
       throw error;
@@ -150,41 +132,49 @@ class SessionService {
   }
 
   /**
-   * Create new session
+   * Get the change history of a session, newest first
    */
-  async createSession(sessionData: CreateSessionRequest): Promise<TherapySession> {
-    const token = await tokenService.getValidToken();
-    if (!token) {
-      throw new Error('No valid token available');
+  async getSessionHistory(id: string): Promise<AuditEntry[]> {
+    if (isAuditHistoryMockEnabled()) {
+      return buildMockAuditHistory('session', await this.getSessionById(id));
     }
 
     try {
-      const response = await fetch(this.baseURL, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        credentials: 'include',
-        body: JSON.stringify(sessionData),
+      return await apiClient.request<AuditEntry[]>({
+        url: `${this.baseURL}/${id}/history`,
+        errorMessages: NOT_FOUND,
+        errorMessage: 'Failed to fetch session history',
       });
+    } catch (error) {
+      console.error('Get session history error:', error);
+      throw error;
+    }
+  }
 
-      const data = await response.json();
-
-      if (!response.ok) {
-        if (response.status === 401) {
-          tokenService.logout();
-          throw new Error('Session expired');
-        }
-        throw new Error(data.message || 'Failed to create session');
-      }
+  /**
+   * Create new session
+   */
+  async createSession(sessionData: CreateSessionRequest, options: SessionWriteOptions = {}): Promise<TherapySession> {
+    const queueOffline = options.queueOffline !== false;
+    if (queueOffline && isOffline()) {
+      return this.queueCreate(sessionData, options);
+    }
 
-      if (data.status === 201 && data.data) {
-        return data.data;
-      }
+    try {
+      assertCertificationEditable(await this.resolveCertificationStatus(sessionData.certificationDocumentId, options));
 
-      throw new Error('Invalid create session response');
+      return await apiClient.request<TherapySession>({
+        url: this.baseURL,
+        method: 'POST',
+        body: sessionData,
+        errorMessages: LOCKED,
+        errorMessage: 'Failed to create session',
+        ...toRequestOptions(options),
+      });
     } catch (error) {
+      if (queueOffline && isNetworkError(error)) {
+        return this.queueCreate(sessionData, options);
+      }
       console.error('Create session error:', error);
       throw error;
     }
@@ -193,78 +183,78 @@ class SessionService {
   /**
    * Update existing session
    */
-  async updateSession(id: string, sessionData: UpdateSessionRequest): Promise<TherapySession> {
-    const token = await tokenService.getValidToken();
-    if (!token) {
-      throw new Error('No valid token available');
+  async updateSession(id: string, sessionData: UpdateSessionRequest, options: SessionWriteOptions = {}): Promise<TherapySession> {
+    const queueOffline = options.queueOffline !== false;
+    // Changes to a session created offline wait behind its creation
+    if (queueOffline && (isOffline() || isLocalSessionId(id))) {
+      return this.queueUpdate(id, sessionData);
     }
 
     try {
-      const response = await fetch(`${this.baseURL}/${id}`, {
-        method: 'PUT',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        credentials: 'include',
-        body: JSON.stringify(sessionData),
-      });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        if (response.status === 401) {
-          tokenService.logout();
-          throw new Error('Session expired');
-        }
-        if (response.status === 404) {
-          throw new Error('Session not found');
-        }
-        throw new Error(data.message || 'Failed to update session');
+      assertSessionEditable(await this.resolveSessionStatus(id, options));
+      return await this.putSession(id, sessionData, options);
+    } catch (error) {
+      if (queueOffline && isNetworkError(error)) {
+        return this.queueUpdate(id, sessionData);
       }
+      console.error('Update session error:', error);
+      throw error;
+    }
+  }
 
-      if (data.status === 200 && data.data) {
-        return data.data;
-      }
+  /**
+   * Store a parent signature; parents may sign sessions they cannot otherwise edit
+   */
+  async signSession(id: string, signatureImageData: string, options: SessionWriteOptions = {}): Promise<TherapySession> {
+    const queueOffline = options.queueOffline !== false;
+    if (queueOffline && (isOffline() || isLocalSessionId(id))) {
+      return this.queueSignature(id, signatureImageData);
+    }
 
-      throw new Error('Invalid update session response');
+    try {
+      assertSessionSignable(await this.resolveSessionStatus(id, options));
+      return await this.putSession(id, {
+        id,
+        signatureImageData,
+        parentSignatureStatus: ParentSignatureStatus.SIGNED,
+      }, options);
     } catch (error) {
-      console.error('Update session error:', error);
+      if (queueOffline && isNetworkError(error)) {
+        return this.queueSignature(id, signatureImageData);
+      }
+      console.error('Sign session error:', error);
       throw error;
     }
   }
 
   /**
-   * Delete session
+   * PUT a session update once the caller has checked the edit policy
    */
-  async deleteSession(id: string): Promise<void> {
-    const token = await tokenService.getValidToken();
-    if (!token) {
-      throw new Error('No valid token available');
-    }
+  private putSession(id: string, sessionData: UpdateSessionRequest, options: RequestOptions): Promise<TherapySession> {
+    return apiClient.request<TherapySession>({
+      url: `${this.baseURL}/${id}`,
+      method: 'PUT',
+      body: sessionData,
+      errorMessages: { ...NOT_FOUND, ...LOCKED },
+      errorMessage: 'Failed to update session',
+      ...toRequestOptions(options),
+    });
+  }
 
+  /**
+   * Delete session
+   */
+  async deleteSession(id: string, options: Omit<SessionWriteOptions, 'queueOffline'> = {}): Promise<void> {
     try {
-      const response = await fetch(`${this.baseURL}/${id}`, {
+      assertSessionEditable(await this.resolveSessionStatus(id, options));
+
+      await apiClient.send({
+        url: `${this.baseURL}/${id}`,
         method: 'DELETE',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        credentials: 'include',
+        errorMessages: { ...NOT_FOUND, ...LOCKED },
+        errorMessage: 'Failed to delete session',
+        ...toRequestOptions(options),
       });
-
-      if (!response.ok) {
-        if (response.status === 401) {
-          tokenService.logout();
-          throw new Error('Session expired');
-        }
-        if (response.status === 404) {
-          throw new Error('Session not found');
-        }
-        
-        const data = await response.json();
-        throw new Error(data.message || 'Failed to delete session');
-      }
     } catch (error) {
       console.error('Delete session error:', error);
       throw error;
@@ -275,36 +265,12 @@ class SessionService {
    * Get sessions by certification ID
    */
   async getSessionsByCertification(certificationId: string): Promise<TherapySession[]> {
-    const token = await tokenService.getValidToken();
-    if (!token) {
-      throw new Error('No valid token available');
-    }
-
     try {
-      const response = await fetch(`${this.baseURL}/certification/${certificationId}`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        credentials: 'include',
+      const data = await apiClient.request<TherapySession[] | TherapySession>({
+        url: `${this.baseURL}/certification/${certificationId}`,
+        errorMessage: 'Failed to fetch sessions for certification',
       });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        if (response.status === 401) {
-          tokenService.logout();
-          throw new Error('Session expired');
-        }
-        throw new Error(data.message || 'Failed to fetch sessions for certification');
-      }
-
-      if (data.status === 200 && data.data) {
-        return Array.isArray(data.data) ? data.data : [data.data];
-      }
-
-      throw new Error('Invalid certification sessions response');
+      return Array.isArray(data) ? data : [data];
     } catch (error) {
       console.error('Get sessions by certification error:', error);
       throw error;
@@ -315,41 +281,188 @@ class SessionService {
    * Get session statistics
    */
   async getSessionStats(): Promise<SessionStats> {
-    const token = await tokenService.getValidToken();
-    if (!token) {
-      throw new Error('No valid token available');
+    try {
+      return await apiClient.request<SessionStats>({
+        url: `${this.baseURL}/stats`,
+        errorMessage: 'Failed to fetch session statistics',
+      });
+    } catch (error) {
+      console.error('Get session stats error:', error);
+      throw error;
     }
+  }
 
+  /**
+   * Get the current user's private iCalendar subscription URL; null when feeds are unavailable
+   */
+  async getCalendarFeedUrl(regenerate = false): Promise<string | null> {
     try {
-      const response = await fetch(`${this.baseURL}/stats`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        credentials: 'include',
+      const data = await apiClient.request<{ url?: string }>({
+        url: `${this.baseURL}/calendar-feed`,
+        // POST issues a new secret URL and revokes the previous one
+        method: regenerate ? 'POST' : 'GET',
+        errorMessage: 'Failed to get calendar feed',
       });
 
-      const data = await response.json();
-
-      if (!response.ok) {
-        if (response.status === 401) {
-          tokenService.logout();
-          throw new Error('Session expired');
-        }
-        throw new Error(data.message || 'Failed to fetch session statistics');
-      }
-
-      if (data.status === 200 && data.data) {
-        return data.data;
+      if (data.url) {
+        return data.url;
       }
 
-      throw new Error('Invalid session stats response');
+      throw new Error('Invalid calendar feed response');
     } catch (error) {
-      console.error('Get session stats error:', error);
+      if (error instanceof ApiError && error.status === 404) {
+        return null;
+      }
+      console.error('Get calendar feed error:', error);
       throw error;
     }
   }
+
+  /**
+   * A session's certification status for the edit policy: the caller's, then this
+   * device's copy, then the server's. One that stays unknown locks the session.
+   */
+  private async resolveSessionStatus(id: string, options: SessionWriteOptions): Promise<CertificationStatusSource> {
+    if (hasKnownCertificationStatus(options)) return options;
+
+    const cached = await offlineSessionStore.getCachedSession(this.getOwnerId(), id);
+    if (cached && hasKnownCertificationStatus(cached)) return cached;
+
+    const session = await this.getSessionById(id, toRequestOptions(options));
+    if (hasKnownCertificationStatus(session)) return session;
+
+    const certification = await certificationService.getCertificationById(
+      session.certificationDocumentId,
+      toRequestOptions(options)
+    );
+    return { certificationStatus: certification.status };
+  }
+
+  /**
+   * A certification's status before creating a session in it, looked up the same way
+   */
+  private async resolveCertificationStatus(
+    certificationId: string,
+    options: SessionWriteOptions
+  ): Promise<CertificationStatusSource['certificationStatus']> {
+    if (hasKnownCertificationStatus(options)) return options.certificationStatus;
+
+    const known = await this.findCachedCertificationStatus(certificationId);
+    if (known !== null) return known;
+
+    return (await certificationService.getCertificationById(certificationId, toRequestOptions(options))).status;
+  }
+
+  /**
+   * Certification status carried by a cached session of that certification
+   */
+  private async findCachedCertificationStatus(certificationId: string): Promise<number | null> {
+    const cached = await offlineSessionStore.getCachedSessions(this.getOwnerId());
+    const session = cached.find(
+      (entry) => entry.certificationDocumentId === certificationId && hasKnownCertificationStatus(entry)
+    );
+    return session?.certificationStatus ?? null;
+  }
+
+  private getOwnerId(): string {
+    return String(tokenService.getUserFromToken()?.id ?? '');
+  }
+
+  private cacheSessions(sessions: TherapySession[]): void {
+    offlineSessionStore.cacheSessions(this.getOwnerId(), sessions).catch((error) => {
+      console.warn('Failed to cache sessions for offline use:', error);
+    });
+  }
+
+  /**
+   * Last known sessions while offline, with the filters that can be applied locally
+   */
+  private async getCachedSessions(filter: SessionsFilter): Promise<SessionsResponse> {
+    const cached = await offlineSessionStore.getCachedSessions(this.getOwnerId());
+    const sessions = filterCachedSessions(cached, filter).sort((a, b) => b.sessionDate.localeCompare(a.sessionDate));
+    return {
+      sessions,
+      totalCount: sessions.length,
+      page: 1,
+      pageSize: sessions.length,
+      totalPages: 1,
+      hasNext: false,
+      hasPrevious: false,
+    };
+  }
+
+  /**
+   * The newest queued copy of a session, or its last known server copy
+   */
+  private async getLocalSession(id: string): Promise<TherapySession> {
+    const ownerId = this.getOwnerId();
+    const queued = (await offlineSessionStore.getQueue(ownerId)).filter((entry) => entry.sessionId === id);
+    const session = queued.length > 0
+      ? queued[queued.length - 1].session
+      : await offlineSessionStore.getCachedSession(ownerId, id);
+    if (!session) {
+      throw new Error('This session is not available offline');
+    }
+    return session;
+  }
+
+  private async queueCreate(sessionData: CreateSessionRequest, options: SessionWriteOptions): Promise<TherapySession> {
+    // Offline the server can't be asked; a status this device doesn't know locks the create
+    const certificationStatus = hasKnownCertificationStatus(options)
+      ? options.certificationStatus
+      : await this.findCachedCertificationStatus(sessionData.certificationDocumentId);
+    assertCertificationEditable(certificationStatus);
+
+    const ownerId = this.getOwnerId();
+    const id = createLocalSessionId();
+    // Keep the known status so the local copy stays editable until it syncs
+    const session = {
+      ...buildLocalSession(id, sessionData, ownerId),
+      certificationStatus: normalizeCertificationStatus(certificationStatus) ?? undefined,
+    };
+    await offlineSessionStore.enqueue({ type: 'create', ownerId, sessionId: id, payload: sessionData, session });
+    return session;
+  }
+
+  private async queueUpdate(id: string, sessionData: UpdateSessionRequest): Promise<TherapySession> {
+    const ownerId = this.getOwnerId();
+    const current = await this.getLocalSession(id);
+    assertSessionEditable(current);
+
+    const session = applySessionUpdate(current, sessionData);
+    const base = await offlineSessionStore.getCachedSession(ownerId, id);
+    await offlineSessionStore.enqueue({
+      type: 'update',
+      ownerId,
+      sessionId: id,
+      payload: sessionData,
+      session,
+      baseModifiedAt: base?.lastModifiedAt,
+    });
+    return session;
+  }
+
+  private async queueSignature(id: string, signatureImageData: string): Promise<TherapySession> {
+    const ownerId = this.getOwnerId();
+    const current = await this.getLocalSession(id);
+    assertSessionSignable(current);
+
+    const session = applySessionUpdate(current, {
+      id,
+      signatureImageData,
+      parentSignatureStatus: ParentSignatureStatus.SIGNED,
+    });
+    const base = await offlineSessionStore.getCachedSession(ownerId, id);
+    await offlineSessionStore.enqueue({
+      type: 'sign',
+      ownerId,
+      sessionId: id,
+      payload: { signatureImageData },
+      session,
+      baseModifiedAt: base?.lastModifiedAt,
+    });
+    return session;
+  }
 }
 
 // Singleton instance
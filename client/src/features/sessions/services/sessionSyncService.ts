@@ -0,0 +1,183 @@
+// Session Sync Service - replays changes captured offline once the connection returns
+import { tokenService } from '@/features/auth/services/tokenService';
+import { sessionService } from './sessionService';
+import { offlineSessionStore } from './offlineSessionStore';
+import { isNetworkError, isOffline } from '../utils/offlineSync';
+import type {
+  SyncConflictResolution,
+  SyncQueueEntry,
+  SyncResult,
+  TherapySession,
+} from '../types/session.types';
+
+const CONFLICT_MESSAGE = 'This session was changed on the server after it was edited offline';
+
+// Errors that mean the whole queue has to wait, not just one entry
+const isRetryLater = (error: unknown): boolean =>
+  isNetworkError(error) ||
+  (error instanceof Error && (error.message === 'Session expired' || error.message === 'No valid token available'));
+
+class SessionSyncService {
+  private syncPromise: Promise<SyncResult> | null = null;
+  private lastSyncedAt: string | null = null;
+  private listeners = new Set<() => void>();
+  private started = false;
+
+  /**
+   * Sync whenever the browser comes back online or a change is queued while online.
+   * Safe to call more than once.
+   */
+  start(): void {
+    if (this.started || typeof window === 'undefined') return;
+    this.started = true;
+
+    window.addEventListener('online', () => {
+      this.sync();
+    });
+    offlineSessionStore.subscribe(() => {
+      if (!isOffline() && !this.syncPromise) this.sync();
+    });
+    if (!isOffline()) this.sync();
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+
+  isSyncing(): boolean {
+    return this.syncPromise !== null;
+  }
+
+  getLastSyncedAt(): string | null {
+    return this.lastSyncedAt;
+  }
+
+  /**
+   * Replay pending changes in the order they were made. Concurrent calls share one run.
+   */
+  sync(): Promise<SyncResult> {
+    if (!this.syncPromise) {
+      this.syncPromise = this.replay().finally(() => {
+        this.syncPromise = null;
+        this.notify();
+      });
+      this.notify();
+    }
+    return this.syncPromise;
+  }
+
+  /**
+   * Keep the local copy and overwrite the server, or drop every queued change to the session
+   */
+  async resolveConflict(entryId: number, resolution: SyncConflictResolution): Promise<void> {
+    const queue = await offlineSessionStore.getQueue(this.getOwnerId());
+    const entry = queue.find((e) => e.id === entryId);
+    if (!entry) return;
+
+    if (resolution === 'keepLocal') {
+      await offlineSessionStore.updateEntries([{ ...entry, status: 'pending', error: undefined, overwrite: true }]);
+    } else {
+      await offlineSessionStore.removeEntries(queue.filter((e) => e.sessionId === entry.sessionId).map((e) => e.id));
+    }
+    await this.sync();
+  }
+
+  /**
+   * Drop a change the server rejected
+   */
+  async discardEntry(entryId: number): Promise<void> {
+    await offlineSessionStore.removeEntries([entryId]);
+  }
+
+  private getOwnerId(): string {
+    return String(tokenService.getUserFromToken()?.id ?? '');
+  }
+
+  private async replay(): Promise<SyncResult> {
+    const result: SyncResult = { synced: 0, conflicts: 0, failed: 0, remaining: 0 };
+    if (isOffline()) return this.countRemaining(result);
+
+    const queue = await offlineSessionStore.getQueue(this.getOwnerId());
+    // Later changes to a session wait while an earlier one needs attention
+    const blocked = new Set<string>();
+
+    for (let i = 0; i < queue.length; i++) {
+      const entry = queue[i];
+      if (entry.status !== 'pending' || blocked.has(entry.sessionId)) {
+        blocked.add(entry.sessionId);
+        continue;
+      }
+
+      try {
+        const serverCopy = entry.type === 'create' ? null : await sessionService.getSessionById(entry.sessionId);
+        if (serverCopy && !entry.overwrite && entry.baseModifiedAt && serverCopy.lastModifiedAt !== entry.baseModifiedAt) {
+          await offlineSessionStore.updateEntries([{ ...entry, status: 'conflict', error: CONFLICT_MESSAGE }]);
+          blocked.add(entry.sessionId);
+          result.conflicts++;
+          continue;
+        }
+
+        const saved = await this.apply(entry);
+        await offlineSessionStore.removeEntries([entry.id]);
+        await this.rebaseLaterEntries(queue.slice(i + 1), entry.sessionId, saved);
+        result.synced++;
+      } catch (error) {
+        if (isRetryLater(error)) break;
+        await offlineSessionStore.updateEntries([{
+          ...entry,
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Failed to sync this change',
+        }]);
+        blocked.add(entry.sessionId);
+        result.failed++;
+      }
+    }
+
+    if (result.synced > 0) this.lastSyncedAt = new Date().toISOString();
+    return this.countRemaining(result);
+  }
+
+  private apply(entry: SyncQueueEntry): Promise<TherapySession> {
+    const options = { queueOffline: false };
+    switch (entry.type) {
+      case 'create':
+        return sessionService.createSession(entry.payload, options);
+      case 'update':
+        return sessionService.updateSession(entry.sessionId, { ...entry.payload, id: entry.sessionId }, options);
+      case 'sign':
+        return sessionService.signSession(entry.sessionId, entry.payload.signatureImageData, options);
+    }
+  }
+
+  /**
+   * Point later changes at the saved session: the server id for sessions created offline,
+   * and its new lastModifiedAt so our own change does not count as a conflict
+   */
+  private async rebaseLaterEntries(later: SyncQueueEntry[], sessionId: string, saved: TherapySession): Promise<void> {
+    const rebased = later
+      .filter((entry) => entry.sessionId === sessionId)
+      .map((entry) => {
+        entry.sessionId = saved.id;
+        entry.session = { ...entry.session, id: saved.id };
+        entry.baseModifiedAt = saved.lastModifiedAt;
+        return entry;
+      });
+    await offlineSessionStore.updateEntries(rebased);
+  }
+
+  private async countRemaining(result: SyncResult): Promise<SyncResult> {
+    const queue = await offlineSessionStore.getQueue(this.getOwnerId());
+    return { ...result, remaining: queue.filter((entry) => entry.status === 'pending').length };
+  }
+}
+
+// Singleton instance
+export const sessionSyncService = new SessionSyncService();
+export default sessionSyncService;
@@ -16,17 +16,12 @@ class SignatureService implements ISignatureService {
    */
   async signSession(sessionId: string, signatureData: string): Promise<void> {
     try {
-      // Only update signature-related fields to avoid overwriting other session data
-      const updateRequest = {
-        id: sessionId,
-        signatureImageData: signatureData,
-        parentSignatureStatus: "completed" as const,
-      };
-
-      await sessionService.updateSession(sessionId, updateRequest);
+      // Only signature-related fields are sent, so other session data is not overwritten
+      await sessionService.signSession(sessionId, signatureData);
     } catch (error) {
       console.error('Failed to sign session:', error);
-      throw new Error('Failed to sign session. Please try again.');
+      // Keep the edit policy's explanation when the session is locked
+      throw new Error(error instanceof Error && error.message ? error.message : 'Failed to sign session. Please try again.');
     }
   }
 
@@ -49,7 +44,7 @@ class SignatureService implements ISignatureService {
       return updatedSession;
     } catch (error) {
       console.error('Failed to update session signature:', error);
-      throw new Error('Failed to update signature. Please try again.');
+      throw new Error(error instanceof Error && error.message ? error.message : 'Failed to update signature. Please try again.');
     }
   }
 }
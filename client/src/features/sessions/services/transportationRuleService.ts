@@ -0,0 +1,49 @@
+// Transportation Rule Service - API Communication Layer
+import { apiClient, ApiError } from '@/services/apiClient';
+import { DEFAULT_TRANSPORTATION_RULES } from '../utils/transportationRules';
+import type { TransportationRule } from '../types/session.types';
+
+class TransportationRuleService {
+  private readonly baseURL = '/api/transportation-rules';
+
+  /**
+   * Get the configured rules, or the built-in defaults when none are configured
+   */
+  async getRules(): Promise<TransportationRule[]> {
+    try {
+      const rules = await apiClient.request<TransportationRule[]>({
+        url: this.baseURL,
+        errorMessage: 'Failed to fetch transportation rules',
+      });
+      return Array.isArray(rules) && rules.length > 0 ? rules : DEFAULT_TRANSPORTATION_RULES;
+    } catch (error) {
+      // No rules configured on the server yet
+      if (error instanceof ApiError && error.status === 404) {
+        return DEFAULT_TRANSPORTATION_RULES;
+      }
+      console.error('Get transportation rules error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replace the rule set (admin only)
+   */
+  async saveRules(rules: TransportationRule[]): Promise<TransportationRule[]> {
+    try {
+      return await apiClient.request<TransportationRule[]>({
+        url: this.baseURL,
+        method: 'PUT',
+        body: rules,
+        errorMessage: 'Failed to save transportation rules',
+      });
+    } catch (error) {
+      console.error('Save transportation rules error:', error);
+      throw error;
+    }
+  }
+}
+
+// Singleton instance
+export const transportationRuleService = new TransportationRuleService();
+export default transportationRuleService;
@@ -1,4 +1,6 @@
 // Session Feature Types - Comprehensive Type System
+import type { AttendanceStatus } from '../../../shared/constants/enums';
+import type { RequestOptions } from '../../../shared/types/api';
 
 export interface TherapySession {
   id: string;
@@ -27,6 +29,17 @@ export interface TherapySession {
   certificationStatus?: number;
   fileNumber?: string;
   certificationLocation?: string;
+  // Makeup ("reposición") tracking
+  isReposicion?: boolean;
+  originalSessionId?: string;
+  // Attendance outcome
+  attendanceStatus?: AttendanceStatus;
+  attendanceReason?: string;
+  // Set when transportation differs from the transportation rules
+  transportationOverride?: boolean;
+  transportationOverrideReason?: string;
+  // Client-only: set on local copies still waiting in the offline sync queue
+  syncStatus?: SyncEntryStatus;
 }
 
 export const ParentSignatureStatus = {
@@ -52,6 +65,12 @@ export interface SessionFormData {
   signatureImageData?: string;
   signatureName?: string;
   signatureNotes?: string;
+  isReposicion?: boolean;
+  originalSessionId?: string;
+  attendanceStatus?: AttendanceStatus;
+  attendanceReason?: string;
+  transportationOverride?: boolean;
+  transportationOverrideReason?: string;
 }
 
 export type CreateSessionRequest = SessionFormData;
@@ -69,6 +88,15 @@ export interface UpdateSessionRequest {
   signatureImageData?: string;
   signatureName?: string;
   signatureNotes?: string;
+  // Makeup fields
+  isReposicion?: boolean;
+  originalSessionId?: string;
+  // Attendance fields
+  attendanceStatus?: AttendanceStatus;
+  attendanceReason?: string;
+  // Transportation override fields
+  transportationOverride?: boolean;
+  transportationOverrideReason?: string;
 }
 
 export interface SessionsFilter {
@@ -79,6 +107,7 @@ export interface SessionsFilter {
   patientName?: string;
   location?: string;
   signatureStatus?: ParentSignatureStatus;
+  attendanceStatus?: AttendanceStatus;
   search?: string;
   page?: number;
   pageSize?: number;
@@ -96,6 +125,107 @@ export interface SessionsResponse {
   hasPrevious: boolean;
 }
 
+// Conflict Types
+export type ConflictType = 'time_overlap' | 'patient_double_booking' | 'therapist_overlap';
+
+export type ConflictSeverity = 'error' | 'warning';
+
+export interface ConflictInfo {
+  type: ConflictType;
+  severity: ConflictSeverity;
+  conflictingSessionId: string;
+  conflictingTherapist?: string;
+  conflictingPatient?: string;
+  timeRange: {
+    start: string;
+    end: string;
+  };
+  message: string;
+}
+
+// Session being validated before create/update
+export interface ConflictCandidate {
+  id?: string;
+  certificationDocumentId?: string;
+  sessionDate: string;
+  sessionTime: string;
+  endTime?: string;
+  patientId?: string;
+  patientName?: string;
+  therapistId?: string;
+}
+
+// Transportation Rule Types
+// Patient and certification flags a rule can require
+export type TransportationFlag =
+  | 'requiresTransportation'
+  | 'isPrivate'
+  | 'hasPrivatePlan'
+  | 'isProvisionalRemedy';
+
+export interface TransportationRule {
+  id: string;
+  name: string;
+  locations: string[]; // Matched case-insensitively; empty matches every location
+  requiredFlags?: TransportationFlag[];
+  transportationRequired: boolean;
+  isActive?: boolean;
+}
+
+export interface TransportationContext {
+  location: string;
+  flags: Partial<Record<TransportationFlag, boolean>>;
+}
+
+export interface TransportationDecision {
+  transportationRequired: boolean;
+  rule: TransportationRule | null;
+}
+
+// Availability Types
+// One working window on a weekday; a day without windows is a day off
+export interface WorkingHours {
+  dayOfWeek: number; // 0 = Sunday
+  start: string; // HH:mm
+  end: string; // HH:mm
+}
+
+// Vacation, holiday or appointment; all-day when no times are set
+export interface BlockedPeriod {
+  id: string;
+  startDate: string; // yyyy-MM-dd
+  endDate: string; // yyyy-MM-dd, inclusive
+  startTime?: string; // HH:mm
+  endTime?: string; // HH:mm
+  reason?: string;
+}
+
+export interface TherapistAvailability {
+  therapistId: string;
+  workingHours: WorkingHours[];
+  blockedPeriods: BlockedPeriod[];
+}
+
+export type TimeSlotStatus = 'free' | 'taken' | 'blocked' | 'outside_hours';
+
+export interface TimeSlot {
+  time: string; // HH:mm
+  status: TimeSlotStatus;
+  reason?: string;
+  sessionId?: string;
+}
+
+// Calendar Types
+export type CalendarView = 'day' | 'week' | 'month';
+
+export type CalendarColorMode = 'patient' | 'signature';
+
+// Date and time a session is dropped on; no time keeps the session's own
+export interface CalendarDropTarget {
+  date: string; // yyyy-MM-dd
+  time?: string; // HH:mm
+}
+
 export interface SessionStats {
   totalSessions: number;
   completedSessions: number;
@@ -103,6 +233,7 @@ export interface SessionStats {
   thisWeekSessions: number;
   thisMonthSessions: number;
   averageSessionsPerWeek: number;
+  reposicionSessions: number;
 }
 
 // UI State Types
@@ -212,9 +343,9 @@ export interface UseSessionsReturn {
   
   // Actions
   loadSessions: (filter?: SessionsFilter) => Promise<void>;
-  createSession: (data: CreateSessionRequest) => Promise<TherapySession>;
-  updateSession: (id: string, data: UpdateSessionRequest) => Promise<TherapySession>;
-  deleteSession: (id: string) => Promise<void>;
+  createSession: (data: CreateSessionRequest, options?: SessionWriteOptions) => Promise<TherapySession>;
+  updateSession: (id: string, data: UpdateSessionRequest, options?: SessionWriteOptions) => Promise<TherapySession>;
+  deleteSession: (id: string, options?: SessionWriteOptions) => Promise<void>;
   selectSession: (session: TherapySession | null) => void;
   setFilter: (filter: SessionsFilter) => void;
   clearError: () => void;
@@ -227,3 +358,68 @@ export interface UseSessionsReturn {
   getTodaySessions: () => TherapySession[];
   getUpcomingSessions: () => TherapySession[];
 }
+
+// Offline Sync Types
+export type SyncEntryStatus = 'pending' | 'conflict' | 'failed';
+
+interface SyncQueueEntryBase {
+  id: number; // Assigned by IndexedDB; replay follows this order
+  ownerId: string; // User who made the change; only they replay it
+  // Server id, or a local id for sessions created offline
+  sessionId: string;
+  // Local copy of the session with the change applied, shown until it syncs
+  session: TherapySession;
+  // lastModifiedAt of the server copy the change was made against
+  baseModifiedAt?: string;
+  queuedAt: string;
+  status: SyncEntryStatus;
+  error?: string;
+  // Set when the user keeps their copy after a conflict
+  overwrite?: boolean;
+}
+
+export type SyncQueueEntry = SyncQueueEntryBase & (
+  | { type: 'create'; payload: CreateSessionRequest }
+  | { type: 'update'; payload: UpdateSessionRequest }
+  | { type: 'sign'; payload: { signatureImageData: string } }
+);
+
+// Distributes over the entry types so each payload stays tied to its type
+type WithoutQueueFields<Entry> = Entry extends SyncQueueEntry ? Omit<Entry, 'id' | 'queuedAt' | 'status'> : never;
+export type NewSyncQueueEntry = WithoutQueueFields<SyncQueueEntry>;
+
+export type SyncConflictResolution = 'keepLocal' | 'keepServer';
+
+export interface SessionReadOptions extends RequestOptions {
+  // Answer from the sessions cached on this device when offline; off where partial data would mislead
+  offlineFallback?: boolean;
+}
+
+export interface SessionWriteOptions extends RequestOptions {
+  // Queue the change when the network is down; the sync queue itself replays with this off
+  queueOffline?: boolean;
+  // Status of the session's certification when the caller has it, checked before the request
+  certificationStatus?: number | string | null;
+}
+
+export interface SyncResult {
+  synced: number;
+  conflicts: number;
+  failed: number;
+  remaining: number;
+}
+
+export interface UseSessionSyncReturn {
+  entries: SyncQueueEntry[];
+  pendingCount: number;
+  conflicts: SyncQueueEntry[];
+  failed: SyncQueueEntry[];
+  isOnline: boolean;
+  isSyncing: boolean;
+  lastSyncedAt: string | null;
+  syncNow: () => Promise<void>;
+  resolveConflict: (entryId: number, resolution: SyncConflictResolution) => Promise<void>;
+  discardEntry: (entryId: number) => Promise<void>;
+  // Server sessions with queued changes applied, plus sessions created offline
+  mergeSessions: (sessions: TherapySession[]) => TherapySession[];
+}
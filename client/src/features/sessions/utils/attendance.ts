@@ -0,0 +1,41 @@
+// Session Attendance - outcome rules shared by sessions and certifications
+import { AttendanceStatus } from '../../../shared/constants/enums';
+import { ParentSignatureStatus, type TherapySession } from '../types/session.types';
+
+type AttendanceFields = Pick<TherapySession, 'attendanceStatus'> & {
+  parentSignatureStatus?: number | string;
+};
+
+/**
+ * Resolve the attendance outcome of a session.
+ * Sessions recorded before outcomes existed are treated as attended.
+ */
+export const getAttendanceStatus = (session: AttendanceFields): AttendanceStatus =>
+  session.attendanceStatus ?? AttendanceStatus.ATTENDED;
+
+/**
+ * Whether an outcome is an absence or cancellation and needs a reason
+ */
+export const requiresAttendanceReason = (status?: AttendanceStatus): boolean =>
+  !!status && status !== AttendanceStatus.ATTENDED;
+
+/**
+ * Billable sessions were attended and signed by the parent
+ */
+export const isBillableSession = (session: AttendanceFields): boolean => {
+  if (getAttendanceStatus(session) !== AttendanceStatus.ATTENDED) return false;
+
+  const signature = session.parentSignatureStatus;
+  return (
+    signature === ParentSignatureStatus.SIGNED ||
+    signature === ParentSignatureStatus.APPROVED ||
+    signature === 'completed' ||
+    signature === 'signed'
+  );
+};
+
+/**
+ * Count the sessions that go toward a certification's completed total
+ */
+export const countBillableSessions = (sessions: AttendanceFields[] = []): number =>
+  sessions.filter(isBillableSession).length;
@@ -0,0 +1,155 @@
+// Availability - therapist working hours, blocked periods and free time slots
+import type {
+  BlockedPeriod,
+  TherapistAvailability,
+  TherapySession,
+  TimeSlot,
+} from '../types/session.types';
+import { AttendanceStatus } from '../../../shared/constants/enums';
+import { getAttendanceStatus } from './attendance';
+import {
+  minutesToTime,
+  normalizeTime,
+  timeToMinutes,
+  toDateOnly,
+} from '../../../shared/utils/timeUtils';
+
+// Hours offered before a therapist configures their own
+export const DEFAULT_DAY_START = '07:00';
+export const DEFAULT_DAY_END = '20:00';
+export const SLOT_STEP_MINUTES = 15;
+const DEFAULT_SESSION_MINUTES = 30;
+
+type SlotSession = Pick<
+  TherapySession,
+  'id' | 'sessionDate' | 'sessionTime' | 'endTime' | 'patientName' | 'attendanceStatus'
+>;
+
+export interface SlotQuery {
+  time: string;
+  duration?: number;
+  dayOfWeek?: number; // Weekly schedules: checks every session on that weekday
+  date?: string; // yyyy-MM-dd; takes precedence over dayOfWeek
+  availability?: TherapistAvailability | null;
+  sessions?: SlotSession[];
+  excludeSessionId?: string;
+}
+
+const dayOfWeekFromDate = (date: string): number => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day).getDay();
+};
+
+const overlaps = (startA: number, endA: number, startB: number, endB: number) =>
+  startA < endB && startB < endA;
+
+/**
+ * Working windows for a weekday; unconfigured availability means the default day
+ */
+export const getWorkingWindows = (
+  availability: TherapistAvailability | null | undefined,
+  dayOfWeek: number
+): Array<{ start: string; end: string }> => {
+  if (!availability || availability.workingHours.length === 0) {
+    return [{ start: DEFAULT_DAY_START, end: DEFAULT_DAY_END }];
+  }
+  return availability.workingHours.filter((hours) => hours.dayOfWeek === dayOfWeek);
+};
+
+/**
+ * Blocked period covering a date and time range, if any
+ */
+export const findBlockedPeriod = (
+  availability: TherapistAvailability | null | undefined,
+  date: string,
+  start: number,
+  end: number
+): BlockedPeriod | undefined =>
+  availability?.blockedPeriods.find((period) => {
+    if (date < period.startDate || date > period.endDate) return false;
+    if (!period.startTime || !period.endTime) return true;
+    return overlaps(start, end, timeToMinutes(period.startTime), timeToMinutes(period.endTime));
+  });
+
+/**
+ * Classify one start time as free, taken, blocked or outside working hours
+ */
+export const getSlotStatus = ({
+  time,
+  duration = DEFAULT_SESSION_MINUTES,
+  dayOfWeek,
+  date,
+  availability,
+  sessions = [],
+  excludeSessionId,
+}: SlotQuery): TimeSlot => {
+  const slotTime = normalizeTime(time);
+  const start = timeToMinutes(slotTime);
+  const end = start + duration;
+  const weekday = date ? dayOfWeekFromDate(date) : dayOfWeek;
+
+  if (weekday === undefined) {
+    return { time: slotTime, status: 'free' };
+  }
+
+  const insideHours = getWorkingWindows(availability, weekday).some(
+    (window) => start >= timeToMinutes(window.start) && end <= timeToMinutes(window.end)
+  );
+  if (!insideHours) {
+    return { time: slotTime, status: 'outside_hours', reason: 'Outside working hours' };
+  }
+
+  const blocked = date ? findBlockedPeriod(availability, date, start, end) : undefined;
+  if (blocked) {
+    return { time: slotTime, status: 'blocked', reason: blocked.reason || 'Blocked' };
+  }
+
+  // Cancelled sessions free their slot
+  const taken = sessions.find((session) => {
+    if (session.id === excludeSessionId || !session.sessionTime) return false;
+    if (getAttendanceStatus(session) === AttendanceStatus.CANCELLED_BY_THERAPIST) return false;
+
+    const sessionDate = toDateOnly(session.sessionDate);
+    if (date ? sessionDate !== date : dayOfWeekFromDate(sessionDate) !== weekday) return false;
+
+    const sessionStart = timeToMinutes(session.sessionTime);
+    const sessionEnd = session.endTime
+      ? timeToMinutes(session.endTime)
+      : sessionStart + DEFAULT_SESSION_MINUTES;
+    return overlaps(start, end, sessionStart, sessionEnd);
+  });
+  if (taken) {
+    return {
+      time: slotTime,
+      status: 'taken',
+      reason: `Taken by ${taken.patientName || 'another session'}`,
+      sessionId: taken.id,
+    };
+  }
+
+  return { time: slotTime, status: 'free' };
+};
+
+/**
+ * Start times for a day in SLOT_STEP_MINUTES steps, each with its status.
+ * The range covers the default day plus any longer working window.
+ */
+export const buildTimeSlots = (query: Omit<SlotQuery, 'time'>): TimeSlot[] => {
+  const weekday = query.date ? dayOfWeekFromDate(query.date) : query.dayOfWeek;
+  const windows = weekday === undefined ? [] : getWorkingWindows(query.availability, weekday);
+  const duration = query.duration || DEFAULT_SESSION_MINUTES;
+
+  const first = Math.min(timeToMinutes(DEFAULT_DAY_START), ...windows.map((w) => timeToMinutes(w.start)));
+  const last = Math.max(timeToMinutes(DEFAULT_DAY_END), ...windows.map((w) => timeToMinutes(w.end)));
+
+  const slots: TimeSlot[] = [];
+  for (let minutes = first; minutes + duration <= last; minutes += SLOT_STEP_MINUTES) {
+    slots.push(getSlotStatus({ ...query, time: minutesToTime(minutes) }));
+  }
+  return slots;
+};
+
+/**
+ * Whether a session at this date and time fits the therapist's availability
+ */
+export const isSlotFree = (query: SlotQuery): boolean => getSlotStatus(query).status === 'free';
@@ -0,0 +1,154 @@
+// Calendar - date ranges, placement and colours for the sessions calendar
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import type {
+  CalendarColorMode,
+  CalendarDropTarget,
+  CalendarView,
+  TherapySession,
+} from '../types/session.types';
+import { ParentSignatureStatus } from '../types/session.types';
+import { AttendanceStatus } from '../../../shared/constants/enums';
+import { getAttendanceStatus } from './attendance';
+import {
+  minutesToTime,
+  normalizeTime,
+  timeToMinutes,
+  toDateOnly,
+} from '../../../shared/utils/timeUtils';
+
+const DEFAULT_SESSION_MINUTES = 30;
+
+// Tailwind classes per patient; picked by a stable hash of the patient
+const PATIENT_COLORS = [
+  'bg-blue-100 border-blue-400 text-blue-900 dark:bg-blue-900/40 dark:border-blue-500 dark:text-blue-100',
+  'bg-emerald-100 border-emerald-400 text-emerald-900 dark:bg-emerald-900/40 dark:border-emerald-500 dark:text-emerald-100',
+  'bg-purple-100 border-purple-400 text-purple-900 dark:bg-purple-900/40 dark:border-purple-500 dark:text-purple-100',
+  'bg-amber-100 border-amber-400 text-amber-900 dark:bg-amber-900/40 dark:border-amber-500 dark:text-amber-100',
+  'bg-pink-100 border-pink-400 text-pink-900 dark:bg-pink-900/40 dark:border-pink-500 dark:text-pink-100',
+  'bg-cyan-100 border-cyan-400 text-cyan-900 dark:bg-cyan-900/40 dark:border-cyan-500 dark:text-cyan-100',
+  'bg-orange-100 border-orange-400 text-orange-900 dark:bg-orange-900/40 dark:border-orange-500 dark:text-orange-100',
+  'bg-indigo-100 border-indigo-400 text-indigo-900 dark:bg-indigo-900/40 dark:border-indigo-500 dark:text-indigo-100',
+];
+
+const SIGNATURE_COLORS = {
+  signed: 'bg-green-100 border-green-400 text-green-900 dark:bg-green-900/40 dark:border-green-500 dark:text-green-100',
+  pending: 'bg-yellow-100 border-yellow-400 text-yellow-900 dark:bg-yellow-900/40 dark:border-yellow-500 dark:text-yellow-100',
+  notAttended: 'bg-gray-100 border-gray-400 text-gray-600 dark:bg-gray-700 dark:border-gray-500 dark:text-gray-300',
+};
+
+/**
+ * Days shown by a view; weeks run Sunday-Saturday and months are padded to full weeks
+ */
+export const getCalendarDays = (view: CalendarView, anchor: Date): Date[] => {
+  if (view === 'day') return [anchor];
+  if (view === 'week') {
+    const start = startOfWeek(anchor);
+    return Array.from({ length: 7 }, (_, index) => addDays(start, index));
+  }
+  return eachDayOfInterval({
+    start: startOfWeek(startOfMonth(anchor)),
+    end: endOfWeek(endOfMonth(anchor)),
+  });
+};
+
+/**
+ * Move the anchor date one view length back or forward
+ */
+export const shiftCalendarAnchor = (view: CalendarView, anchor: Date, direction: 1 | -1): Date => {
+  if (view === 'day') return addDays(anchor, direction);
+  if (view === 'week') return addWeeks(anchor, direction);
+  return addMonths(anchor, direction);
+};
+
+/**
+ * Heading for the visible range
+ */
+export const getCalendarTitle = (view: CalendarView, anchor: Date): string => {
+  if (view === 'day') return format(anchor, 'EEEE, MMMM d, yyyy');
+  if (view === 'month') return format(anchor, 'MMMM yyyy');
+
+  const start = startOfWeek(anchor);
+  const end = endOfWeek(anchor);
+  return start.getMonth() === end.getMonth()
+    ? `${format(start, 'MMM d')} - ${format(end, 'd, yyyy')}`
+    : `${format(start, 'MMM d')} - ${format(end, 'MMM d, yyyy')}`;
+};
+
+/**
+ * Sessions keyed by yyyy-MM-dd, each day sorted by start time
+ */
+export const groupSessionsByDate = (sessions: TherapySession[]): Map<string, TherapySession[]> => {
+  const byDate = new Map<string, TherapySession[]>();
+  sessions.forEach((session) => {
+    const date = toDateOnly(session.sessionDate);
+    byDate.set(date, [...(byDate.get(date) || []), session]);
+  });
+  byDate.forEach((daySessions) =>
+    daySessions.sort((a, b) => (a.sessionTime || '').localeCompare(b.sessionTime || ''))
+  );
+  return byDate;
+};
+
+/**
+ * Start and end of a session in minutes since midnight
+ */
+export const getSessionMinutes = (session: Pick<TherapySession, 'sessionTime' | 'endTime'>) => {
+  const start = timeToMinutes(session.sessionTime || '00:00');
+  const end = session.endTime ? timeToMinutes(session.endTime) : start + DEFAULT_SESSION_MINUTES;
+  return { start, end: end > start ? end : start + DEFAULT_SESSION_MINUTES };
+};
+
+/**
+ * New date and times for a dropped session, keeping its duration
+ */
+export const getRescheduledTimes = (
+  session: Pick<TherapySession, 'sessionTime' | 'endTime'>,
+  target: CalendarDropTarget
+): { sessionDate: string; sessionTime: string; endTime?: string } => {
+  const sessionTime = target.time ? normalizeTime(target.time) : normalizeTime(session.sessionTime);
+  if (!session.endTime) {
+    return { sessionDate: target.date, sessionTime };
+  }
+
+  const { start, end } = getSessionMinutes(session);
+  const newStart = timeToMinutes(sessionTime);
+  return {
+    sessionDate: target.date,
+    sessionTime,
+    endTime: minutesToTime(Math.min(newStart + (end - start), 23 * 60 + 59)),
+  };
+};
+
+export const isSessionSigned = (session: TherapySession): boolean =>
+  session.parentSignatureStatus === ParentSignatureStatus.SIGNED ||
+  session.parentSignatureStatus === ParentSignatureStatus.APPROVED ||
+  !!session.signatureImageData?.trim();
+
+/**
+ * Tailwind classes for a session block
+ */
+export const getSessionColorClasses = (session: TherapySession, mode: CalendarColorMode): string => {
+  if (mode === 'signature') {
+    if (getAttendanceStatus(session) !== AttendanceStatus.ATTENDED) {
+      return SIGNATURE_COLORS.notAttended;
+    }
+    return isSessionSigned(session) ? SIGNATURE_COLORS.signed : SIGNATURE_COLORS.pending;
+  }
+
+  const key = session.patientId || session.patientName || session.certificationDocumentId;
+  let hash = 0;
+  for (let i = 0; i < key.length; i++) {
+    hash = (hash * 31 + key.charCodeAt(i)) >>> 0;
+  }
+  return PATIENT_COLORS[hash % PATIENT_COLORS.length];
+};
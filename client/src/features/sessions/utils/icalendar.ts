@@ -0,0 +1,211 @@
+// iCalendar - RFC 5545 export of sessions and recurring certification schedules
+import type { TherapySession } from '../types/session.types';
+import type {
+  CertificationDocument,
+  Schedule,
+} from '../../certifications/types/certification.types';
+import { AttendanceStatus } from '../../../shared/constants/enums';
+import { getAttendanceStatus } from './attendance';
+import { getSessionMinutes } from './calendar';
+import { getCertificationMonthRange } from '../../certifications/utils/sessionGeneration';
+import { toDateKey, toDateOnly } from '../../../shared/utils/timeUtils';
+import { downloadBlob } from '../../../shared/utils/download';
+
+// Part of every UID; changing it makes calendars treat all events as new
+const UID_DOMAIN = 'therapyflow';
+const PRODUCT_ID = '-//TherapyFlow//Therapy Sessions//EN';
+const MAX_LINE_OCTETS = 75;
+const BYDAY = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const DEFAULT_SCHEDULE_MINUTES = 30;
+
+export interface ICalendarOptions {
+  calendarName?: string;
+  sessions: TherapySession[];
+  // Weekly schedules are only emitted for certifications without exported sessions
+  certifications?: CertificationDocument[];
+  range?: { startDate: string; endDate: string }; // yyyy-MM-dd, inclusive
+}
+
+/**
+ * Escape a TEXT value (backslash, semicolon, comma and newlines)
+ */
+export const escapeICalText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+/**
+ * Fold a content line at 75 octets, continuing with a leading space
+ */
+export const foldICalLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+};
+
+const formatICalTimestamp = (value: Date): string =>
+  value.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+/**
+ * Local yyyy-MM-dd plus minutes since midnight as a UTC DATE-TIME (yyyyMMddTHHmmssZ)
+ */
+export const formatICalDateTime = (date: string, minutes: number): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  const local = new Date(year, month - 1, day, Math.floor(minutes / 60), minutes % 60);
+  return formatICalTimestamp(local);
+};
+
+const parseTimestamp = (value?: string): Date | null => {
+  if (!value) return null;
+  const parsed = new Date(value);
+  return isNaN(parsed.getTime()) ? null : parsed;
+};
+
+const toLines = (properties: Array<[string, string | undefined]>): string[] =>
+  properties
+    .filter((property): property is [string, string] => !!property[1])
+    .map(([name, value]) => `${name}:${value}`);
+
+/**
+ * Stable UID per session id, so re-importing updates the event instead of duplicating it
+ */
+export const getSessionUid = (sessionId: string): string => `session-${sessionId}@${UID_DOMAIN}`;
+
+const sessionToVEvent = (session: TherapySession, stamp: string): string[] => {
+  const date = toDateOnly(session.sessionDate);
+  const { start, end } = getSessionMinutes(session);
+  const patient = session.patientName || 'Patient';
+  const isCancelled = getAttendanceStatus(session) === AttendanceStatus.CANCELLED_BY_THERAPIST;
+  const modified = parseTimestamp(session.lastModifiedAt || session.createdAt);
+  const description = [
+    session.isReposicion ? 'Makeup session' : '',
+    session.certificationDocumentTitle || '',
+    session.notes || '',
+  ]
+    .filter(Boolean)
+    .join('\n');
+
+  return [
+    'BEGIN:VEVENT',
+    ...toLines([
+      ['UID', getSessionUid(session.id)],
+      ['DTSTAMP', modified ? formatICalTimestamp(modified) : stamp],
+      ['LAST-MODIFIED', modified ? formatICalTimestamp(modified) : undefined],
+      ['DTSTART', formatICalDateTime(date, start)],
+      ['DTEND', formatICalDateTime(date, end)],
+      ['SUMMARY', escapeICalText(`Therapy: ${patient}`)],
+      ['LOCATION', session.location ? escapeICalText(session.location) : undefined],
+      ['DESCRIPTION', description ? escapeICalText(description) : undefined],
+      ['STATUS', isCancelled ? 'CANCELLED' : 'CONFIRMED'],
+    ]),
+    'END:VEVENT',
+  ];
+};
+
+const scheduleToVEvent = (
+  certification: CertificationDocument,
+  schedule: Schedule,
+  range: { startDate: string; endDate: string },
+  stamp: string
+): string[] => {
+  // First matching weekday inside the range
+  const [year, month, day] = range.startDate.split('-').map(Number);
+  const first = new Date(year, month - 1, day);
+  first.setDate(first.getDate() + ((schedule.dayOfWeek - first.getDay() + 7) % 7));
+  const firstDate = toDateKey(first);
+  if (firstDate > range.endDate) return [];
+
+  const [startHours, startMinutes] = schedule.startTime.split(':').map(Number);
+  const start = startHours * 60 + startMinutes;
+  const end = start + (certification.duration || DEFAULT_SCHEDULE_MINUTES);
+  const patient = certification.patientName || certification.patient?.fullName || 'Patient';
+  const location = schedule.location || certification.location;
+  const scheduleKey = schedule.id || `${certification.id}-${schedule.dayOfWeek}-${schedule.startTime}`;
+
+  return [
+    'BEGIN:VEVENT',
+    ...toLines([
+      ['UID', `schedule-${scheduleKey}@${UID_DOMAIN}`],
+      ['DTSTAMP', stamp],
+      ['DTSTART', formatICalDateTime(firstDate, start)],
+      ['DTEND', formatICalDateTime(firstDate, end)],
+      ['RRULE', `FREQ=WEEKLY;BYDAY=${BYDAY[schedule.dayOfWeek]};UNTIL=${formatICalDateTime(range.endDate, 24 * 60 - 1)}`],
+      ['SUMMARY', escapeICalText(`Therapy: ${patient}`)],
+      ['LOCATION', location ? escapeICalText(location) : undefined],
+      ['DESCRIPTION', escapeICalText('Recurring schedule; sessions not generated yet')],
+      ['STATUS', 'TENTATIVE'],
+    ]),
+    'END:VEVENT',
+  ];
+};
+
+/**
+ * Build a VCALENDAR document with CRLF line endings
+ */
+export const buildICalendar = ({
+  calendarName = 'Therapy Sessions',
+  sessions,
+  certifications = [],
+  range,
+}: ICalendarOptions): string => {
+  const stamp = formatICalTimestamp(new Date());
+  const exportedCertifications = new Set(sessions.map((session) => session.certificationDocumentId));
+
+  const scheduleEvents = certifications
+    .filter((certification) => !exportedCertifications.has(certification.id))
+    .flatMap((certification) => {
+      const monthRange = getCertificationMonthRange(certification);
+      if (!monthRange) return [];
+      // Clip the certification month to the export range
+      const scheduleRange = {
+        startDate: range && range.startDate > monthRange.startDate ? range.startDate : monthRange.startDate,
+        endDate: range && range.endDate < monthRange.endDate ? range.endDate : monthRange.endDate,
+      };
+      if (scheduleRange.startDate > scheduleRange.endDate) return [];
+      return (certification.schedules || [])
+        .filter((schedule) => schedule.isActive !== false)
+        .flatMap((schedule) => scheduleToVEvent(certification, schedule, scheduleRange, stamp));
+    });
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeICalText(calendarName)}`,
+    ...sessions
+      .filter((session) => session.sessionDate && session.sessionTime)
+      .flatMap((session) => sessionToVEvent(session, stamp)),
+    ...scheduleEvents,
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldICalLine).join('\r\n') + '\r\n';
+};
+
+/**
+ * Save an iCalendar document as a .ics file
+ */
+export const downloadICalendar = (content: string, filename: string): void => {
+  const blob = new Blob([content], { type: 'text/calendar;charset=utf-8' });
+  downloadBlob(blob, filename.endsWith('.ics') ? filename : `${filename}.ics`);
+};
@@ -0,0 +1,100 @@
+// Offline Sync - helpers for sessions captured without a network connection
+import type {
+  CreateSessionRequest,
+  SessionsFilter,
+  SyncQueueEntry,
+  TherapySession,
+  UpdateSessionRequest,
+} from '../types/session.types';
+import { toDateOnly } from '../../../shared/utils/timeUtils';
+import { ApiError } from '../../../services/apiError';
+
+const LOCAL_ID_PREFIX = 'local-';
+
+export const isOffline = (): boolean => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+/**
+ * The request never reached the server; the API client reports this as a NETWORK_ERROR
+ */
+export const isNetworkError = (error: unknown): boolean =>
+  (error instanceof ApiError && error.isNetworkError) ||
+  (error instanceof TypeError && /fetch|network|load failed/i.test(error.message));
+
+export const createLocalSessionId = (): string => `${LOCAL_ID_PREFIX}${crypto.randomUUID()}`;
+
+/**
+ * Sessions created offline keep a local id until the server assigns one
+ */
+export const isLocalSessionId = (id: string): boolean => id.startsWith(LOCAL_ID_PREFIX);
+
+/**
+ * The session a create request will produce, for display until it syncs
+ */
+export const buildLocalSession = (id: string, data: CreateSessionRequest, therapistId: string): TherapySession => ({
+  ...data,
+  id,
+  therapistId,
+  createdAt: new Date().toISOString(),
+  syncStatus: 'pending',
+});
+
+/**
+ * A session with an update request applied
+ */
+export const mergeSessionUpdate = (session: TherapySession, data: UpdateSessionRequest): TherapySession => {
+  const { sessionDate, ...changes } = data;
+  const defined = Object.fromEntries(
+    Object.entries(changes).filter(([, value]) => value !== undefined)
+  ) as Partial<TherapySession>;
+  return {
+    ...session,
+    ...defined,
+    // Requests carry the day as UTC midnight; local getters would shift it in UTC- zones
+    ...(sessionDate ? { sessionDate: toDateOnly(new Date(sessionDate).toISOString()) } : {}),
+    id: session.id,
+  };
+};
+
+/**
+ * A local session copy with an update applied that still has to reach the server
+ */
+export const applySessionUpdate = (session: TherapySession, data: UpdateSessionRequest): TherapySession => ({
+  ...mergeSessionUpdate(session, data),
+  syncStatus: 'pending',
+});
+
+/**
+ * Cached sessions narrowed to the filter fields that can be checked locally
+ */
+export const filterCachedSessions = (sessions: TherapySession[], filter: SessionsFilter): TherapySession[] =>
+  sessions.filter((session) => {
+    const date = toDateOnly(session.sessionDate);
+    return (
+      (!filter.certificationId || session.certificationDocumentId === filter.certificationId) &&
+      (!filter.therapistId || session.therapistId === filter.therapistId) &&
+      (!filter.startDate || date >= filter.startDate) &&
+      (!filter.endDate || date <= filter.endDate)
+    );
+  });
+
+/**
+ * Replace server sessions with their queued local copies and add sessions created offline.
+ * The newest entry of a session wins; a conflict or failure on any entry is what the badge shows.
+ */
+export const mergeQueuedSessions = (sessions: TherapySession[], entries: SyncQueueEntry[]): TherapySession[] => {
+  const localCopies = new Map<string, TherapySession>();
+  entries.forEach((entry) => {
+    const previous = localCopies.get(entry.sessionId);
+    const status = previous && previous.syncStatus !== 'pending' ? previous.syncStatus : entry.status;
+    localCopies.set(entry.sessionId, { ...entry.session, syncStatus: status });
+  });
+  if (localCopies.size === 0) return sessions;
+
+  const merged = sessions.map((session) => {
+    const local = localCopies.get(session.id);
+    if (!local) return session;
+    localCopies.delete(session.id);
+    return local;
+  });
+  return [...localCopies.values(), ...merged];
+};
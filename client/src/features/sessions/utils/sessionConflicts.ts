@@ -0,0 +1,148 @@
+// Session Conflict Engine - detects overlaps between a candidate and loaded sessions
+import type {
+  ConflictCandidate,
+  ConflictInfo,
+  TherapySession,
+} from '../types/session.types';
+import {
+  addMinutesToTime,
+  normalizeTime,
+  timeToMinutes,
+  toDateOnly,
+} from '../../../shared/utils/timeUtils';
+import { AttendanceStatus } from '../../../shared/constants/enums';
+import { getAttendanceStatus } from './attendance';
+
+// Sessions without an end time are assumed to last this long
+export const DEFAULT_SESSION_DURATION_MINUTES = 30;
+
+interface TimeRange {
+  start: string;
+  end: string;
+}
+
+const getTimeRange = (sessionTime: string, endTime?: string): TimeRange => {
+  const start = normalizeTime(sessionTime);
+  const end =
+    endTime && timeToMinutes(endTime) > timeToMinutes(start)
+      ? normalizeTime(endTime)
+      : addMinutesToTime(start, DEFAULT_SESSION_DURATION_MINUTES);
+  return { start, end };
+};
+
+const rangesOverlap = (a: TimeRange, b: TimeRange): boolean =>
+  timeToMinutes(a.start) < timeToMinutes(b.end) &&
+  timeToMinutes(b.start) < timeToMinutes(a.end);
+
+const isSamePatient = (candidate: ConflictCandidate, session: TherapySession): boolean => {
+  if (candidate.patientId && session.patientId) {
+    return candidate.patientId === session.patientId;
+  }
+  if (candidate.certificationDocumentId && session.certificationDocumentId) {
+    if (candidate.certificationDocumentId === session.certificationDocumentId) {
+      return true;
+    }
+  }
+  if (candidate.patientName && session.patientName) {
+    return candidate.patientName.trim().toLowerCase() === session.patientName.trim().toLowerCase();
+  }
+  return false;
+};
+
+// Absences and cancellations free their slot for another booking
+const occupiesSlot = (session: TherapySession): boolean =>
+  getAttendanceStatus(session) === AttendanceStatus.ATTENDED;
+
+const isSameTherapist = (candidate: ConflictCandidate, session: TherapySession): boolean =>
+  !!candidate.therapistId && !!session.therapistId && candidate.therapistId === session.therapistId;
+
+/**
+ * Check a candidate session against existing sessions.
+ * Overlaps with the same patient or the same therapist are blocking errors;
+ * other overlaps and same-day bookings for the patient are warnings.
+ * Absent and cancelled sessions are ignored.
+ */
+export const detectSessionConflicts = (
+  candidate: ConflictCandidate,
+  sessions: TherapySession[]
+): ConflictInfo[] => {
+  if (!candidate.sessionDate || !candidate.sessionTime) return [];
+
+  const candidateDate = toDateOnly(candidate.sessionDate);
+  const candidateRange = getTimeRange(candidate.sessionTime, candidate.endTime);
+  const conflicts: ConflictInfo[] = [];
+
+  sessions.forEach((session) => {
+    if (!session.sessionDate || !session.sessionTime) return;
+    if (candidate.id && session.id === candidate.id) return;
+    if (!occupiesSlot(session)) return;
+    if (toDateOnly(session.sessionDate) !== candidateDate) return;
+
+    const sessionRange = getTimeRange(session.sessionTime, session.endTime);
+    const overlaps = rangesOverlap(candidateRange, sessionRange);
+    const samePatient = isSamePatient(candidate, session);
+    const sameTherapist = isSameTherapist(candidate, session);
+    const patientLabel = session.patientName || 'this patient';
+    const timeLabel = `${sessionRange.start}-${sessionRange.end}`;
+
+    const base = {
+      conflictingSessionId: session.id,
+      conflictingTherapist: session.therapistName || session.therapistId,
+      conflictingPatient: session.patientName,
+      timeRange: sessionRange,
+    };
+
+    if (overlaps && samePatient) {
+      conflicts.push({
+        ...base,
+        type: 'patient_double_booking',
+        severity: 'error',
+        message: `${patientLabel} already has a session at ${timeLabel}`,
+      });
+    } else if (overlaps && sameTherapist) {
+      conflicts.push({
+        ...base,
+        type: 'therapist_overlap',
+        severity: 'error',
+        message: `Overlaps your session with ${patientLabel} at ${timeLabel}`,
+      });
+    } else if (overlaps) {
+      conflicts.push({
+        ...base,
+        type: 'time_overlap',
+        severity: 'warning',
+        message: `Overlaps a session with ${patientLabel} at ${timeLabel}`,
+      });
+    } else if (samePatient) {
+      conflicts.push({
+        ...base,
+        type: 'patient_double_booking',
+        severity: 'warning',
+        message: `${patientLabel} already has another session this day at ${timeLabel}`,
+      });
+    }
+  });
+
+  return conflicts;
+};
+
+/**
+ * Whether any of the conflicts must block saving
+ */
+export const hasBlockingConflicts = (conflicts: ConflictInfo[]): boolean =>
+  conflicts.some((conflict) => conflict.severity === 'error');
+
+/**
+ * Throw before create/update when the candidate has blocking conflicts
+ */
+export const assertNoBlockingConflicts = (
+  candidate: ConflictCandidate,
+  sessions: TherapySession[]
+): void => {
+  const blocking = detectSessionConflicts(candidate, sessions).filter(
+    (conflict) => conflict.severity === 'error'
+  );
+  if (blocking.length > 0) {
+    throw new Error(`Scheduling conflict: ${blocking[0].message}`);
+  }
+};
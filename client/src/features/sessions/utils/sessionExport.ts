@@ -0,0 +1,67 @@
+// Session Export - columns and CSV/XLSX export of session lists
+import type { TherapySession } from '../types/session.types';
+import { AttendanceStatus } from '../../../shared/constants/enums';
+import { translationService } from '../../../shared/constants/translations';
+import { getAttendanceStatus } from './attendance';
+import { isSessionSigned } from './calendar';
+import {
+  buildCsv,
+  buildXlsx,
+  getExportFilename,
+  selectExportColumns,
+  toExportRows,
+  type ExportColumn,
+  type TableExportOptions,
+} from '../../../shared/utils/tableExport';
+import { downloadBlob } from '../../../shared/utils/download';
+import { normalizeTime, toDateOnly } from '../../../shared/utils/timeUtils';
+
+const toLocalDate = (value?: string): Date | null =>
+  value ? new Date(`${toDateOnly(value)}T00:00:00`) : null;
+
+const getSignatureLabel = (session: TherapySession): string => {
+  if (getAttendanceStatus(session) !== AttendanceStatus.ATTENDED) return 'Not required';
+  return isSessionSigned(session) ? 'Signed' : 'Pending';
+};
+
+export const SESSION_EXPORT_COLUMNS: ExportColumn<TherapySession>[] = [
+  { key: 'sessionDate', label: 'Date', value: (session) => toLocalDate(session.sessionDate) },
+  { key: 'sessionTime', label: 'Start Time', value: (session) => session.sessionTime && normalizeTime(session.sessionTime) },
+  { key: 'endTime', label: 'End Time', value: (session) => session.endTime && normalizeTime(session.endTime) },
+  { key: 'patientName', label: 'Patient', value: (session) => session.patientName },
+  { key: 'therapistName', label: 'Therapist', value: (session) => session.therapistName },
+  { key: 'certification', label: 'Certification', value: (session) => session.certificationDocumentTitle },
+  { key: 'fileNumber', label: 'File Number', value: (session) => session.fileNumber },
+  { key: 'location', label: 'Location', value: (session) => session.location },
+  { key: 'transportationRequired', label: 'Transportation', value: (session) => session.transportationRequired },
+  {
+    key: 'attendance',
+    label: 'Attendance',
+    value: (session) => translationService.getAttendanceStatusName(getAttendanceStatus(session)),
+  },
+  { key: 'attendanceReason', label: 'Absence Reason', value: (session) => session.attendanceReason },
+  { key: 'isReposicion', label: 'Makeup', value: (session) => !!session.isReposicion },
+  { key: 'signature', label: 'Parent Signature', value: getSignatureLabel },
+  { key: 'notes', label: 'Notes', value: (session) => session.notes },
+];
+
+/**
+ * Oldest first, by date then start time
+ */
+export const sortSessionsForExport = <T extends TherapySession>(sessions: T[]): T[] =>
+  [...sessions].sort(
+    (a, b) =>
+      toDateOnly(a.sessionDate).localeCompare(toDateOnly(b.sessionDate)) ||
+      (a.sessionTime || '').localeCompare(b.sessionTime || '')
+  );
+
+/**
+ * Download the given sessions as a CSV or single-sheet XLSX file
+ */
+export const exportSessions = (sessions: TherapySession[], options: TableExportOptions): void => {
+  const columns = selectExportColumns(SESSION_EXPORT_COLUMNS, options.columns);
+  const rows = toExportRows(sortSessionsForExport(sessions), columns);
+  const blob =
+    options.format === 'csv' ? buildCsv(rows, options.locale) : buildXlsx([{ name: 'Sessions', rows }]);
+  downloadBlob(blob, getExportFilename('sessions', options.format));
+};
@@ -0,0 +1,64 @@
+// Transportation Rules - decide whether a session needs transportation
+import type {
+  TransportationContext,
+  TransportationDecision,
+  TransportationRule,
+} from '../types/session.types';
+import { parseLocation } from '../../schools/utils/schoolDirectory';
+
+/**
+ * Used until rules are configured on the server. Evaluated in order; the first match wins.
+ */
+export const DEFAULT_TRANSPORTATION_RULES: TransportationRule[] = [
+  {
+    id: 'virtual-never',
+    name: 'Virtual sessions never need transportation',
+    locations: ['Virtual'],
+    transportationRequired: false,
+  },
+  {
+    id: 'school-or-center-with-transport',
+    name: 'School or center sessions for patients who need transportation',
+    locations: ['Escuela', 'School', 'Centro', 'Center'],
+    requiredFlags: ['requiresTransportation'],
+    transportationRequired: true,
+  },
+];
+
+const normalizeLocation = (location: string) => location.trim().toLowerCase();
+
+const matchesRule = (rule: TransportationRule, context: TransportationContext): boolean => {
+  if (rule.isActive === false) return false;
+
+  // A school visit matches the rule on its place, whichever school it is
+  const location = normalizeLocation(parseLocation(context.location).place);
+  if (rule.locations.length > 0 && !rule.locations.some((l) => normalizeLocation(l) === location)) {
+    return false;
+  }
+
+  return (rule.requiredFlags || []).every((flag) => !!context.flags[flag]);
+};
+
+/**
+ * Evaluate the rules for a session; no matching rule means no transportation
+ */
+export const evaluateTransportationRules = (
+  context: TransportationContext,
+  rules: TransportationRule[] = DEFAULT_TRANSPORTATION_RULES
+): TransportationDecision => {
+  if (!context.location) {
+    return { transportationRequired: false, rule: null };
+  }
+
+  const rule = rules.find((candidate) => matchesRule(candidate, context)) || null;
+  return { transportationRequired: rule?.transportationRequired ?? false, rule };
+};
+
+/**
+ * Validate an override; a reason is required whenever the rules are overridden
+ */
+export const getTransportationOverrideError = (
+  override: boolean | undefined,
+  reason: string | undefined
+): string | null =>
+  override && !reason?.trim() ? 'Please explain why transportation differs from the rules' : null;
@@ -0,0 +1,51 @@
+import React from "react";
+import type { TherapistOption } from "../types/user.types";
+
+interface AssignedTherapistsFieldProps {
+  therapists: TherapistOption[];
+  selectedIds: string[];
+  onChange: (therapistIds: string[]) => void;
+  disabled?: boolean;
+}
+
+export const AssignedTherapistsField: React.FC<
+  AssignedTherapistsFieldProps
+> = ({ therapists, selectedIds, onChange, disabled = false }) => {
+  const toggle = (therapistId: string) => {
+    onChange(
+      selectedIds.includes(therapistId)
+        ? selectedIds.filter((id) => id !== therapistId)
+        : [...selectedIds, therapistId]
+    );
+  };
+
+  if (therapists.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        No therapists to assign yet.
+      </p>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2">
+      {therapists.map((therapist) => (
+        <label
+          key={therapist.id}
+          className="flex items-center text-sm text-gray-700 dark:text-gray-300"
+        >
+          <input
+            type="checkbox"
+            checked={selectedIds.includes(therapist.id)}
+            onChange={() => toggle(therapist.id)}
+            disabled={disabled}
+            className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500 mr-2"
+          />
+          {therapist.fullName}
+        </label>
+      ))}
+    </div>
+  );
+};
+
+export default AssignedTherapistsField;
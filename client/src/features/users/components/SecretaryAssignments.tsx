@@ -0,0 +1,129 @@
+import React, { useState } from "react";
+import { AssignedTherapistsField } from "./AssignedTherapistsField";
+import { useStaffUsers } from "../hooks/useStaffUsers";
+
+const sameIds = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((id) => b.includes(id));
+
+export const SecretaryAssignments: React.FC = () => {
+  const {
+    therapists,
+    secretaries,
+    isLoading,
+    error,
+    loadUsers,
+    updateAssignedTherapists,
+  } = useStaffUsers();
+  // Unsaved selections, keyed by secretary ID
+  const [drafts, setDrafts] = useState<Record<string, string[]>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const handleSave = async (secretaryId: string, fullName: string) => {
+    const therapistIds = drafts[secretaryId];
+    if (!therapistIds) return;
+
+    setSavingId(secretaryId);
+    setSaveError(null);
+    setSuccess(null);
+    try {
+      await updateAssignedTherapists(secretaryId, therapistIds);
+      setDrafts((prev) => {
+        const next = { ...prev };
+        delete next[secretaryId];
+        return next;
+      });
+      setSuccess(`Assignments saved for ${fullName}`);
+    } catch (err) {
+      setSaveError(
+        err instanceof Error ? err.message : "Failed to save assignments"
+      );
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 shadow-md rounded-lg overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 bg-purple-50 dark:bg-purple-900/20 flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">
+            Secretary Assignments
+          </h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+            Secretaries manage sessions and certifications only for the
+            therapists assigned to them
+          </p>
+        </div>
+        <button
+          onClick={() => loadUsers(true)}
+          disabled={isLoading}
+          className="text-sm text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+        >
+          Refresh
+        </button>
+      </div>
+
+      {(error || saveError) && (
+        <div className="m-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+          {saveError || error}
+        </div>
+      )}
+      {success && (
+        <div className="m-4 bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-md">
+          {success}
+        </div>
+      )}
+
+      {isLoading && secretaries.length === 0 ? (
+        <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+          Loading users...
+        </div>
+      ) : secretaries.length === 0 ? (
+        <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+          No secretaries yet. Invite one with the Secretary role.
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {secretaries.map((secretary) => {
+            const selectedIds =
+              drafts[secretary.id] ?? secretary.assignedTherapists;
+            const isDirty = !sameIds(selectedIds, secretary.assignedTherapists);
+            return (
+              <li key={secretary.id} className="px-6 py-4">
+                <div className="flex items-center justify-between mb-3">
+                  <div>
+                    <div className="text-sm font-medium text-gray-900 dark:text-gray-100">
+                      {secretary.fullName}
+                    </div>
+                    <div className="text-sm text-gray-500 dark:text-gray-400">
+                      {secretary.email}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => handleSave(secretary.id, secretary.fullName)}
+                    disabled={!isDirty || savingId === secretary.id}
+                    className="px-3 py-1 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {savingId === secretary.id ? "Saving..." : "Save"}
+                  </button>
+                </div>
+                <AssignedTherapistsField
+                  therapists={therapists}
+                  selectedIds={selectedIds}
+                  onChange={(ids) =>
+                    setDrafts((prev) => ({ ...prev, [secretary.id]: ids }))
+                  }
+                  disabled={savingId === secretary.id}
+                />
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SecretaryAssignments;
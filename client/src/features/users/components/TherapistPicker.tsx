@@ -0,0 +1,38 @@
+import React from "react";
+import type { TherapistPickerProps } from "../types/user.types";
+
+export const TherapistPicker: React.FC<TherapistPickerProps> = ({
+  therapists,
+  value,
+  onChange,
+  id = "therapist",
+  label = "Therapist",
+  emptyLabel = "All Therapists",
+  disabled = false,
+  className = "w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white",
+}) => (
+  <div>
+    <label
+      htmlFor={id}
+      className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+    >
+      {label}
+    </label>
+    <select
+      id={id}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      disabled={disabled}
+      className={className}
+    >
+      <option value="">{emptyLabel}</option>
+      {therapists.map((therapist) => (
+        <option key={therapist.id} value={therapist.id}>
+          {therapist.fullName}
+        </option>
+      ))}
+    </select>
+  </div>
+);
+
+export default TherapistPicker;
@@ -0,0 +1,4 @@
+// User Components Exports
+export { TherapistPicker } from './TherapistPicker';
+export { AssignedTherapistsField } from './AssignedTherapistsField';
+export { SecretaryAssignments } from './SecretaryAssignments';
@@ -0,0 +1,49 @@
+// Staff Users Hook - State Management for user roles and secretary assignments
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { UserRole } from '../../auth/types/auth.types';
+import { userService } from '../services/userService';
+import type { StaffUser, UseStaffUsersReturn } from '../types/user.types';
+
+const byName = (a: StaffUser, b: StaffUser) => a.fullName.localeCompare(b.fullName);
+
+export function useStaffUsers(): UseStaffUsersReturn {
+  const [users, setUsers] = useState<StaffUser[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadUsers = useCallback(async (forceRefresh = false) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setUsers(await userService.getUsers(forceRefresh));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load users');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadUsers();
+  }, [loadUsers]);
+
+  const updateAssignedTherapists = useCallback(async (secretaryId: string, therapistIds: string[]) => {
+    const assigned = await userService.updateAssignedTherapists(secretaryId, therapistIds);
+    setUsers((prev) =>
+      prev.map((user) => (user.id === secretaryId ? { ...user, assignedTherapists: assigned } : user))
+    );
+  }, []);
+
+  const therapists = useMemo(
+    () => users.filter((user) => user.role === UserRole.THERAPIST).sort(byName),
+    [users]
+  );
+  const secretaries = useMemo(
+    () => users.filter((user) => user.role === UserRole.SECRETARY).sort(byName),
+    [users]
+  );
+
+  return { users, therapists, secretaries, isLoading, error, loadUsers, updateAssignedTherapists };
+}
+
+export default useStaffUsers;
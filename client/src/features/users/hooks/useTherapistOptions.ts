@@ -0,0 +1,61 @@
+// Therapist Options Hook - therapists the current user may pick in filters and forms
+import { useState, useEffect, useMemo } from 'react';
+import { usePermissions } from '../../auth';
+import { UserRole } from '../../auth/types/auth.types';
+import { userService } from '../services/userService';
+import type { StaffUser, UseTherapistOptionsReturn } from '../types/user.types';
+
+export function useTherapistOptions(): UseTherapistOptionsReturn {
+  const { canSelectTherapist, assignedTherapistIds } = usePermissions();
+  const [users, setUsers] = useState<StaffUser[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Therapists only ever work on their own records, so they get no picker
+  const enabled = canSelectTherapist();
+
+  useEffect(() => {
+    if (!enabled) {
+      setUsers([]);
+      return;
+    }
+
+    let cancelled = false;
+
+    const load = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const result = await userService.getUsers();
+        if (!cancelled) setUsers(result);
+      } catch (err) {
+        if (!cancelled) {
+          setUsers([]);
+          setError(err instanceof Error ? err.message : 'Failed to load therapists');
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled]);
+
+  const therapists = useMemo(
+    () =>
+      users
+        .filter((user) => user.role === UserRole.THERAPIST && user.isActive)
+        .filter((user) => assignedTherapistIds === null || assignedTherapistIds.includes(user.id))
+        .map((user) => ({ id: user.id, fullName: user.fullName }))
+        .sort((a, b) => a.fullName.localeCompare(b.fullName)),
+    [users, assignedTherapistIds]
+  );
+
+  return { therapists, isLoading, error };
+}
+
+export default useTherapistOptions;
@@ -0,0 +1,18 @@
+// Users Feature Exports
+export { useStaffUsers } from './hooks/useStaffUsers';
+export { useTherapistOptions } from './hooks/useTherapistOptions';
+export { TherapistPicker, AssignedTherapistsField, SecretaryAssignments } from './components';
+export { userService } from './services/userService';
+export { invitationService } from './services/invitationService';
+export type {
+  StaffUser,
+  TherapistOption,
+  TherapistPickerProps,
+  UseTherapistOptionsReturn,
+  UseStaffUsersReturn,
+  UserInvitation,
+  CreateUserInvitationRequest,
+  InvitationInfo,
+  AcceptInvitationRequest,
+  InvitationPasswordResetRequest,
+} from './types/user.types';
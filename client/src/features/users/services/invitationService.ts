@@ -0,0 +1,157 @@
+// Invitation Service - account and password reset invitations
+import { apiClient } from '@/services/apiClient';
+import type {
+  AcceptInvitationRequest,
+  CreateUserInvitationRequest,
+  InvitationInfo,
+  InvitationPasswordResetRequest,
+  UserInvitation,
+} from '../types/user.types';
+
+class InvitationService {
+  private readonly baseURL = '/api/user';
+
+  /**
+   * Get all invitations (admin only)
+   */
+  async getInvitations(): Promise<UserInvitation[]> {
+    try {
+      const data = await apiClient.send<{ data?: UserInvitation[] } | undefined>({
+        url: `${this.baseURL}/invitations`,
+        errorMessages: { 403: 'Access denied. Admin privileges required.' },
+        errorMessage: 'Failed to fetch invitations',
+      });
+      return data?.data || [];
+    } catch (error) {
+      console.error('Get invitations error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Invite someone to create an account
+   */
+  async createInvitation(invitation: CreateUserInvitationRequest): Promise<void> {
+    try {
+      await apiClient.send({
+        url: `${this.baseURL}/invitations`,
+        method: 'POST',
+        body: {
+          ...invitation,
+          // Only secretaries work for assigned therapists
+          assignedTherapistIds: invitation.userRole === 'secretary' ? invitation.assignedTherapistIds : undefined,
+        },
+        errorMessage: 'Failed to create invitation',
+      });
+    } catch (error) {
+      console.error('Create invitation error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Send an existing user a password reset invitation
+   */
+  async createPasswordResetInvitation(email: string): Promise<void> {
+    try {
+      await apiClient.send({
+        url: `${this.baseURL}/password-reset`,
+        method: 'POST',
+        body: email,
+        errorMessage: 'Failed to create password reset invitation',
+      });
+    } catch (error) {
+      console.error('Create password reset invitation error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete an invitation
+   */
+  async deleteInvitation(id: string): Promise<void> {
+    try {
+      await apiClient.send({
+        url: `${this.baseURL}/invitations/${id}`,
+        method: 'DELETE',
+        errorMessage: 'Failed to delete invitation',
+      });
+    } catch (error) {
+      console.error('Delete invitation error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Send an invitation email again
+   */
+  async resendInvitation(id: string): Promise<void> {
+    try {
+      await apiClient.send({
+        url: `${this.baseURL}/invitations/${id}/resend`,
+        method: 'POST',
+        errorMessage: 'Failed to resend invitation',
+      });
+    } catch (error) {
+      console.error('Resend invitation error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Check an invitation link before showing its form; the visitor is not signed in
+   */
+  async getInvitationInfo(token: string, email: string): Promise<InvitationInfo> {
+    try {
+      return await apiClient.request<InvitationInfo>({
+        url: `${this.baseURL}/invitations/info`,
+        params: { token, email },
+        auth: false,
+        errorMessage: 'Invalid or expired invitation',
+      });
+    } catch (error) {
+      console.error('Get invitation info error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create the account an invitation was sent for
+   */
+  async acceptInvitation(request: AcceptInvitationRequest): Promise<void> {
+    try {
+      await apiClient.request({
+        url: `${this.baseURL}/invitations/accept`,
+        method: 'POST',
+        body: request,
+        auth: false,
+        errorMessage: 'Failed to create account',
+      });
+    } catch (error) {
+      console.error('Accept invitation error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Set a new password from a password reset invitation
+   */
+  async resetPassword(request: InvitationPasswordResetRequest): Promise<void> {
+    try {
+      await apiClient.request({
+        url: `${this.baseURL}/invitations/reset-password`,
+        method: 'POST',
+        body: request,
+        auth: false,
+        errorMessage: 'Failed to reset password',
+      });
+    } catch (error) {
+      console.error('Reset password with invitation error:', error);
+      throw error;
+    }
+  }
+}
+
+// Singleton instance
+export const invitationService = new InvitationService();
+export default invitationService;
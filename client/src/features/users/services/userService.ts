@@ -0,0 +1,105 @@
+// User Service - API Communication Layer
+import { tokenService } from '@/features/auth/services/tokenService';
+import { apiClient } from '@/services/apiClient';
+import type { ApiResponse } from '../../../shared/types/api';
+import { UserRole } from '../../auth/types/auth.types';
+import type { StaffUser } from '../types/user.types';
+
+// Pickers on several pages read the same directory
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+// User payload as returned by the API
+interface UserResponse {
+  id: string;
+  email: string;
+  fullName?: string;
+  firstName?: string;
+  lastName?: string;
+  role?: string;
+  isActive?: boolean;
+  assignedTherapists?: string[];
+}
+
+const toRole = (role: unknown): UserRole | undefined => {
+  if (typeof role !== 'string') return undefined;
+  const value = role.toLowerCase();
+  return (Object.values(UserRole) as string[]).includes(value) ? (value as UserRole) : undefined;
+};
+
+class UserService {
+  private readonly baseURL = '/api/User'; // Backend uses singular 'User'
+  private cache: StaffUser[] | null = null;
+  private cachedAt = 0;
+  private cacheOwner: unknown = null; // Secretaries only see their own therapists
+
+  /**
+   * Get staff users, served from the cache while it is fresh
+   */
+  async getUsers(forceRefresh = false): Promise<StaffUser[]> {
+    const isFresh = Date.now() - this.cachedAt < CACHE_TTL_MS;
+    const owner = tokenService.getUserFromToken()?.id ?? null;
+    if (!forceRefresh && this.cache && isFresh && this.cacheOwner === owner) {
+      return this.cache;
+    }
+
+    try {
+      const data = await apiClient.request<UserResponse[] | UserResponse>({
+        url: this.baseURL,
+        errorMessage: 'Failed to fetch users',
+      });
+
+      const users = Array.isArray(data) ? data : [data];
+      this.cache = users.map((user): StaffUser => ({
+        id: user.id,
+        fullName: user.fullName || [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email,
+        email: user.email,
+        role: toRole(user.role),
+        isActive: user.isActive !== false,
+        assignedTherapists: user.assignedTherapists || [],
+      }));
+      this.cachedAt = Date.now();
+      this.cacheOwner = owner;
+      return this.cache;
+    } catch (error) {
+      console.error('Get users error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replace the therapists a secretary works for
+   */
+  async updateAssignedTherapists(secretaryId: string, therapistIds: string[]): Promise<string[]> {
+    try {
+      const data = await apiClient.send<ApiResponse<{ assignedTherapists?: string[] } | null>>({
+        url: `${this.baseURL}/${secretaryId}/assigned-therapists`,
+        method: 'PUT',
+        body: { therapistIds },
+        errorMessages: { 404: 'Secretary not found' },
+        errorMessage: 'Failed to update assigned therapists',
+      });
+
+      const assigned = data?.data?.assignedTherapists || therapistIds;
+      this.cache =
+        this.cache?.map((user) => (user.id === secretaryId ? { ...user, assignedTherapists: assigned } : user)) ??
+        null;
+      return assigned;
+    } catch (error) {
+      console.error('Update assigned therapists error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Drop cached users so the next read goes to the API
+   */
+  clearCache(): void {
+    this.cache = null;
+    this.cachedAt = 0;
+    this.cacheOwner = null;
+  }
+}
+
+// Singleton instance
+export const userService = new UserService();
+export default userService;
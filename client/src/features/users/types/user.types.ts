@@ -0,0 +1,94 @@
+// Users Feature Types - staff directory and secretary assignments
+import type { UserRole } from '../../auth/types/auth.types';
+
+export interface StaffUser {
+  id: string;
+  fullName: string;
+  email: string;
+  role?: UserRole; // Older user payloads have no role
+  isActive: boolean;
+  assignedTherapists: string[]; // Only used for secretaries
+}
+
+export interface TherapistOption {
+  id: string;
+  fullName: string;
+}
+
+// Invitation Types
+export interface UserInvitation {
+  id: string;
+  email: string;
+  userRole: string;
+  invitationType: string;
+  expiryDate: string;
+  isUsed: boolean;
+  createdAt: string;
+  createdByUserName: string;
+  notes: string;
+  invitationLink: string;
+}
+
+export interface CreateUserInvitationRequest {
+  email: string;
+  userRole: string;
+  invitationType: string;
+  expiryDays: number;
+  notes: string;
+  assignedTherapistIds?: string[]; // Secretary invitations only
+}
+
+export interface InvitationInfo {
+  email: string;
+  userRole: string;
+  invitationType: string;
+  expiryDate: string;
+}
+
+export interface AcceptInvitationRequest {
+  invitationToken: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  specialty: string;
+  licenseNumber: string;
+  phoneNumber: string;
+  password: string;
+  confirmPassword: string;
+}
+
+export interface InvitationPasswordResetRequest {
+  InvitationToken: string;
+  Email: string;
+  NewPassword: string;
+  ConfirmNewPassword: string;
+}
+
+// Component Types
+export interface TherapistPickerProps {
+  therapists: TherapistOption[];
+  value: string;
+  onChange: (therapistId: string) => void;
+  id?: string;
+  label?: string;
+  emptyLabel?: string;
+  disabled?: boolean;
+  className?: string;
+}
+
+// Hook Types
+export interface UseTherapistOptionsReturn {
+  therapists: TherapistOption[]; // Limited to the therapists the user may work for
+  isLoading: boolean;
+  error: string | null;
+}
+
+export interface UseStaffUsersReturn {
+  users: StaffUser[];
+  therapists: StaffUser[];
+  secretaries: StaffUser[];
+  isLoading: boolean;
+  error: string | null;
+  loadUsers: (forceRefresh?: boolean) => Promise<void>;
+  updateAssignedTherapists: (secretaryId: string, therapistIds: string[]) => Promise<void>;
+}
@@ -1,12 +1,13 @@
 import React from "react";
-import { useAuth } from "../features/auth";
+import { Navigate } from "react-router-dom";
+import { useAuth, UserRole } from "../features/auth";
 import { useSessions } from "../features/sessions";
 import { useCertifications } from "../features/certifications";
 import { usePatients } from "../features/patients";
 import { Navigation } from "../shared/components/layout";
 import { useResponsive } from "../hooks/useResponsive";
 
-const Dashboard: React.FC = () => {
+const StaffDashboard: React.FC = () => {
   const { user } = useAuth();
   const { stats: sessionStats, getTodaySessions } = useSessions();
   const { stats: certificationStats } = useCertifications();
@@ -346,4 +347,15 @@ const Dashboard: React.FC = () => {
   );
 };
 
+// Parents have their own portal; the staff dashboard's hooks load clinician data
+const Dashboard: React.FC = () => {
+  const { user } = useAuth();
+
+  if (user?.role === UserRole.PATIENT) {
+    return <Navigate to="/portal" replace />;
+  }
+
+  return <StaffDashboard />;
+};
+
 export default Dashboard;
@@ -1,14 +1,8 @@
 import React, { useState, useEffect } from "react";
 import { useSearchParams, useNavigate } from "react-router-dom";
 import { useAuth } from "../features/auth";
-import { authService } from "../features/auth/services/authService";
-
-interface InvitationInfo {
-  email: string;
-  userRole: string;
-  invitationType: string;
-  expiryDate: string;
-}
+import { invitationService } from "../features/users";
+import type { InvitationInfo } from "../features/users";
 
 const InviteCreate: React.FC = () => {
   const [searchParams] = useSearchParams();
@@ -47,30 +41,16 @@ const InviteCreate: React.FC = () => {
 
   const validateInvitation = async () => {
     try {
-      const baseURL = authService.getBaseURL();
-      console.log("Validating invitation with:", {
-        token,
-        email,
-        role,
-        baseURL,
-      });
-
-      const response = await fetch(
-        `${baseURL}/user/invitations/info?token=${token}&email=${email}`
-      );
-      const result = await response.json();
-
-      console.log("Validation response:", { status: response.status, result });
-
-      if (response.ok && result.data) {
-        setInvitationInfo(result.data);
-        setFormData((prev) => ({ ...prev, email: result.data.email }));
-      } else {
-        setError(result.message || "Invalid or expired invitation");
-      }
+      const info = await invitationService.getInvitationInfo(token!, email!);
+      setInvitationInfo(info);
+      setFormData((prev) => ({ ...prev, email: info.email }));
     } catch (err) {
       console.error("Validation error:", err);
-      setError("Failed to validate invitation. Please try again.");
+      setError(
+        err instanceof Error
+          ? err.message
+          : "Failed to validate invitation. Please try again."
+      );
     } finally {
       setLoading(false);
     }
@@ -98,51 +78,31 @@ const InviteCreate: React.FC = () => {
     setError(null);
 
     try {
-      const baseURL = authService.getBaseURL();
-      const response = await fetch(`${baseURL}/user/invitations/accept`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          invitationToken: token,
-          email: email,
-          firstName: formData.firstName,
-          lastName: formData.lastName,
-          specialty: formData.specialty,
-          licenseNumber: formData.licenseNumber,
-          phoneNumber: formData.phoneNumber,
-          password: formData.password,
-          confirmPassword: formData.confirmPassword,
-        }),
+      await invitationService.acceptInvitation({
+        invitationToken: token!,
+        email: email!,
+        firstName: formData.firstName,
+        lastName: formData.lastName,
+        specialty: formData.specialty,
+        licenseNumber: formData.licenseNumber,
+        phoneNumber: formData.phoneNumber,
+        password: formData.password,
+        confirmPassword: formData.confirmPassword,
       });
 
-      const result = await response.json();
-
-      console.log("Account creation response:", {
-        status: response.status,
-        result,
-      });
+      // Auto-login the user
+      await login(email!, formData.password);
 
-      if (response.ok && result.data) {
-        // Auto-login the user
-        await login(email!, formData.password);
-
-        // Show success message and redirect to dashboard
-        alert("Account created successfully! You are now logged in.");
-        navigate("/dashboard");
-      } else {
-        console.error("Account creation failed:", {
-          status: response.status,
-          result,
-        });
-        setError(
-          result.message || `Failed to create account (${response.status})`
-        );
-      }
+      // Show success message and redirect to dashboard
+      alert("Account created successfully! You are now logged in.");
+      navigate("/dashboard");
     } catch (err) {
       console.error("Account creation error:", err);
-      setError("Failed to create account. Please try again.");
+      setError(
+        err instanceof Error
+          ? err.message
+          : "Failed to create account. Please try again."
+      );
     } finally {
       setSubmitting(false);
     }
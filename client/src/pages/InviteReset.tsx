@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from "react";
 import { useSearchParams, useNavigate } from "react-router-dom";
-import { authService } from "../features/auth/services/authService";
+import { invitationService } from "../features/users";
 
 const InviteReset: React.FC = () => {
   const [searchParams] = useSearchParams();
@@ -40,31 +40,15 @@ const InviteReset: React.FC = () => {
 
   const validateInvitation = async () => {
     try {
-      const baseURL = authService.getBaseURL();
-      console.log("Validating password reset invitation with:", {
-        token,
-        email,
-        baseURL,
-      });
-
-      const response = await fetch(
-        `${baseURL}/user/invitations/info?token=${token}&email=${email}`
-      );
-      const result = await response.json();
-
-      console.log("Password reset validation response:", {
-        status: response.status,
-        result,
-      });
-
-      if (response.ok && result.data) {
-        // Invitation is valid
-      } else {
-        setError(result.message || "Invalid or expired invitation");
-      }
+      // Throws when the invitation is invalid or expired
+      await invitationService.getInvitationInfo(token!, email!);
     } catch (err) {
       console.error("Password reset validation error:", err);
-      setError("Failed to validate invitation. Please try again.");
+      setError(
+        err instanceof Error
+          ? err.message
+          : "Failed to validate invitation. Please try again."
+      );
     } finally {
       setLoading(false);
     }
@@ -132,53 +116,33 @@ const InviteReset: React.FC = () => {
     setError(null);
 
     try {
-      const baseURL = authService.getBaseURL();
-
-      const requestBody = {
-        InvitationToken: token,
-        Email: email,
+      await invitationService.resetPassword({
+        InvitationToken: token!,
+        Email: email!,
         NewPassword: formData.password,
         ConfirmNewPassword: formData.confirmPassword,
-      };
+      });
 
-      const response = await fetch(
-        `${baseURL}/user/invitations/reset-password`,
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify(requestBody),
-        }
+      // Password reset successful - clear any existing auth and redirect to login
+      console.log(
+        "✅ Password reset successful, clearing auth and redirecting to login"
       );
 
-      const result = await response.json();
+      // Clear any existing authentication data for security
+      localStorage.removeItem("jwt_token");
+      localStorage.removeItem("refresh_token");
+      localStorage.removeItem("user_data");
 
-      if (response.ok && result.data) {
-        // Password reset successful - clear any existing auth and redirect to login
-        console.log(
-          "✅ Password reset successful, clearing auth and redirecting to login"
-        );
-
-        // Clear any existing authentication data for security
-        localStorage.removeItem("jwt_token");
-        localStorage.removeItem("refresh_token");
-        localStorage.removeItem("user_data");
-
-        // Show success message and redirect to login
-        alert(
-          "Password reset successful! Please log in with your new password."
-        );
-        navigate("/login");
-      } else {
-        console.error("Password reset failed:", result);
-        setError(
-          result.message || `Failed to reset password (${response.status})`
-        );
-      }
+      // Show success message and redirect to login
+      alert("Password reset successful! Please log in with your new password.");
+      navigate("/login");
     } catch (err) {
       console.error("Password reset error:", err);
-      setError("Failed to reset password. Please try again.");
+      setError(
+        err instanceof Error
+          ? err.message
+          : "Failed to reset password. Please try again."
+      );
     } finally {
       setSubmitting(false);
     }
@@ -3,32 +3,23 @@ import { useAuth } from "../features/auth";
 import { Navigation } from "../shared/components/layout/Navigation";
 import { authService } from "../features/auth/services/authService";
 import { useNavigate } from "react-router-dom";
-
-interface UserInvitationResponse {
-  id: string;
-  email: string;
-  userRole: string;
-  invitationType: string;
-  expiryDate: string;
-  isUsed: boolean;
-  createdAt: string;
-  createdByUserName: string;
-  notes: string;
-  invitationLink: string;
-}
-
-interface CreateUserInvitationRequest {
-  email: string;
-  userRole: string;
-  invitationType: string;
-  expiryDays: number;
-  notes: string;
-}
+import {
+  AssignedTherapistsField,
+  SecretaryAssignments,
+  invitationService,
+  useTherapistOptions,
+} from "../features/users";
+import type {
+  CreateUserInvitationRequest,
+  UserInvitation,
+} from "../features/users";
+import { ApiError } from "../services/apiClient";
 
 const UserManagement: React.FC = () => {
   const { user } = useAuth();
   const navigate = useNavigate();
-  const [invitations, setInvitations] = useState<UserInvitationResponse[]>([]);
+  const { therapists } = useTherapistOptions();
+  const [invitations, setInvitations] = useState<UserInvitation[]>([]);
   const [loading, setLoading] = useState(true);
   const [showCreateForm, setShowCreateForm] = useState(false);
   const [showPasswordResetForm, setShowPasswordResetForm] = useState(false);
@@ -58,55 +49,24 @@ const UserManagement: React.FC = () => {
     }
   }, [user, loading, navigate]);
 
+  // Rejected credentials send the admin back to the login page
+  const handleRequestError = (err: unknown, fallback: string) => {
+    if (err instanceof ApiError && err.status === 401) {
+      setError("Authentication failed. Please log in again.");
+      authService.logout();
+      setTimeout(() => navigate("/login"), 2000);
+    } else if (err instanceof ApiError && err.isNetworkError) {
+      setError(`Network error: ${fallback}`);
+    } else {
+      setError(err instanceof Error ? err.message : fallback);
+    }
+  };
+
   const fetchInvitations = async () => {
     try {
-      const baseURL = authService.getBaseURL();
-      const token = authService.getToken();
-
-      if (!token) {
-        setError("Authentication token not found. Please log in again.");
-        // Redirect to login after a short delay
-        setTimeout(() => navigate("/login"), 2000);
-        return;
-      }
-
-      const response = await fetch(`${baseURL}/user/invitations`, {
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
-      });
-
-      if (response.ok) {
-        const result = await response.json();
-        setInvitations(result.data || []);
-      } else if (response.status === 401) {
-        setError("Authentication failed. Please log in again.");
-        // Clear invalid auth data and redirect to login
-        authService.logout();
-        setTimeout(() => navigate("/login"), 2000);
-      } else if (response.status === 403) {
-        setError("Access denied. Admin privileges required.");
-      } else {
-        const errorData = await response.json().catch(() => ({}));
-        setError(
-          errorData.message ||
-            `Failed to fetch invitations (${response.status})`
-        );
-      }
+      setInvitations(await invitationService.getInvitations());
     } catch (err) {
-      console.error("Fetch invitations error:", err);
-
-      // Check if it's an authentication error from authService
-      if (err instanceof Error && err.message === "Authentication required") {
-        setError("Authentication failed. Please log in again.");
-        // Clear invalid auth data and redirect to login
-        authService.logout();
-        setTimeout(() => navigate("/login"), 2000);
-      } else {
-        setError(
-          "Network error: Failed to fetch invitations. Please check if the backend is running."
-        );
-      }
+      handleRequestError(err, "Failed to fetch invitations");
     } finally {
       setLoading(false);
     }
@@ -128,51 +88,19 @@ const UserManagement: React.FC = () => {
     setSuccess(null);
 
     try {
-      const response = await fetch(
-        `${authService.getBaseURL()}/user/invitations`,
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${authService.getToken()}`,
-          },
-          body: JSON.stringify(formData),
-        }
-      );
-
-      const result = await response.json();
-
-      if (response.ok) {
-        setSuccess("Invitation created successfully!");
-        setFormData({
-          email: "",
-          userRole: "therapist",
-          invitationType: "createaccount",
-          expiryDays: 7,
-          notes: "",
-        });
-        setShowCreateForm(false);
-        fetchInvitations();
-      } else if (response.status === 401) {
-        setError("Authentication failed. Please log in again.");
-        // Clear invalid auth data and redirect to login
-        authService.logout();
-        setTimeout(() => navigate("/login"), 2000);
-      } else {
-        setError(result.message || "Failed to create invitation");
-      }
+      await invitationService.createInvitation(formData);
+      setSuccess("Invitation created successfully!");
+      setFormData({
+        email: "",
+        userRole: "therapist",
+        invitationType: "createaccount",
+        expiryDays: 7,
+        notes: "",
+      });
+      setShowCreateForm(false);
+      fetchInvitations();
     } catch (err) {
-      console.error("Create invitation error:", err);
-
-      // Check if it's an authentication error
-      if (err instanceof Error && err.message === "Authentication required") {
-        setError("Authentication failed. Please log in again.");
-        // Clear invalid auth data and redirect to login
-        authService.logout();
-        setTimeout(() => navigate("/login"), 2000);
-      } else {
-        setError("Network error: Failed to create invitation");
-      }
+      handleRequestError(err, "Failed to create invitation");
     } finally {
       setSubmitting(false);
     }
@@ -190,47 +118,13 @@ const UserManagement: React.FC = () => {
     setSuccess(null);
 
     try {
-      const response = await fetch(
-        `${authService.getBaseURL()}/user/password-reset`,
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${authService.getToken()}`,
-          },
-          body: JSON.stringify(passwordResetEmail),
-        }
-      );
-
-      const result = await response.json();
-
-      if (response.ok) {
-        setSuccess("Password reset invitation created successfully!");
-        setPasswordResetEmail("");
-        setShowPasswordResetForm(false);
-        fetchInvitations();
-      } else if (response.status === 401) {
-        setError("Authentication failed. Please log in again.");
-        // Clear invalid auth data and redirect to login
-        authService.logout();
-        setTimeout(() => navigate("/login"), 2000);
-      } else {
-        setError(
-          result.message || "Failed to create password reset invitation"
-        );
-      }
+      await invitationService.createPasswordResetInvitation(passwordResetEmail);
+      setSuccess("Password reset invitation created successfully!");
+      setPasswordResetEmail("");
+      setShowPasswordResetForm(false);
+      fetchInvitations();
     } catch (err) {
-      console.error("Password reset error:", err);
-
-      // Check if it's an authentication error
-      if (err instanceof Error && err.message === "Authentication required") {
-        setError("Authentication failed. Please log in again.");
-        // Clear invalid auth data and redirect to login
-        authService.logout();
-        setTimeout(() => navigate("/login"), 2000);
-      } else {
-        setError("Network error: Failed to create password reset invitation");
-      }
+      handleRequestError(err, "Failed to create password reset invitation");
     } finally {
       setSubmitting(false);
     }
@@ -240,65 +134,21 @@ const UserManagement: React.FC = () => {
     if (!confirm("Are you sure you want to delete this invitation?")) return;
 
     try {
-      const response = await fetch(
-        `${authService.getBaseURL()}/user/invitations/${id}`,
-        {
-          method: "DELETE",
-          headers: {
-            Authorization: `Bearer ${authService.getToken()}`,
-          },
-        }
-      );
-
-      if (response.ok) {
-        setSuccess("Invitation deleted successfully!");
-        fetchInvitations();
-      } else if (response.status === 401) {
-        setError("Authentication failed. Please log in again.");
-        // Clear invalid auth data and redirect to login
-        authService.logout();
-        setTimeout(() => navigate("/login"), 2000);
-      } else {
-        const errorData = await response.json().catch(() => ({}));
-        setError(errorData.message || "Failed to delete invitation");
-      }
+      await invitationService.deleteInvitation(id);
+      setSuccess("Invitation deleted successfully!");
+      fetchInvitations();
     } catch (err) {
-      console.error("Delete invitation error:", err);
-
-      // Check if it's an authentication error
-      if (err instanceof Error && err.message === "Authentication required") {
-        setError("Authentication failed. Please log in again.");
-        // Clear invalid auth data and redirect to login
-        authService.logout();
-        setTimeout(() => navigate("/login"), 2000);
-      } else {
-        setError("Network error: Failed to delete invitation");
-      }
+      handleRequestError(err, "Failed to delete invitation");
     }
   };
 
   const handleResend = async (id: string) => {
     try {
-      const response = await fetch(
-        `${authService.getBaseURL()}/user/invitations/${id}/resend`,
-        {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${authService.getToken()}`,
-          },
-        }
-      );
-
-      if (response.ok) {
-        setSuccess("Invitation resent successfully!");
-        fetchInvitations();
-      } else {
-        const errorData = await response.json().catch(() => ({}));
-        setError(errorData.message || "Failed to resend invitation");
-      }
+      await invitationService.resendInvitation(id);
+      setSuccess("Invitation resent successfully!");
+      fetchInvitations();
     } catch (err) {
-      console.error("Resend invitation error:", err);
-      setError("Network error: Failed to resend invitation");
+      handleRequestError(err, "Failed to resend invitation");
     }
   };
 
@@ -516,6 +366,7 @@ const UserManagement: React.FC = () => {
                     className="mt-1 block w-full border border-gray-300 dark:border-gray-600 rounded-md px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
                   >
                     <option value="therapist">Therapist</option>
+                    <option value="secretary">Secretary</option>
                     <option value="admin">Admin</option>
                   </select>
                 </div>
@@ -535,6 +386,23 @@ const UserManagement: React.FC = () => {
                   />
                 </div>
               </div>
+              {formData.userRole === "secretary" && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Assigned Therapists
+                  </label>
+                  <AssignedTherapistsField
+                    therapists={therapists}
+                    selectedIds={formData.assignedTherapistIds || []}
+                    onChange={(ids) =>
+                      setFormData((prev) => ({
+                        ...prev,
+                        assignedTherapistIds: ids,
+                      }))
+                    }
+                  />
+                </div>
+              )}
               <div>
                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
                   Notes
@@ -568,6 +436,11 @@ const UserManagement: React.FC = () => {
           </div>
         )}
 
+        {/* Secretary Assignments */}
+        <div className="mb-8">
+          <SecretaryAssignments />
+        </div>
+
         {/* Account Creation Invitations */}
         <div className="mb-8 bg-white dark:bg-gray-800 shadow-md rounded-lg overflow-hidden">
           <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 bg-blue-50 dark:bg-blue-900">
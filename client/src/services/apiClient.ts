@@ -1,290 +1,230 @@
-import { tokenService } from '../features/auth/services/tokenService';
-import type { 
+import { API_CONFIG } from '../config/api';
+import { ApiError, createErrorResponse } from './apiError';
+import {
+  addRequestId,
+  attachAuthToken,
+  logRequest,
+  logResponse,
+  normalizeErrors,
+  refreshOnUnauthorized
+} from './apiInterceptors';
+import type {
   ApiResponse,
-  ApiErrorResponse, 
-  PagedApiResponse, 
-  ApiResult
+  PagedApiResponse,
+  ApiResult,
+  ApiRequestConfig,
+  HttpMethod,
+  RequestInterceptor,
+  ResponseInterceptor
 } from '../shared/types/api';
 
+export { ApiError } from './apiError';
+
+// Safe to send twice, so they are retried by default
+const IDEMPOTENT_METHODS: HttpMethod[] = ['GET', 'PUT', 'DELETE'];
+
+const abortedError = () => new ApiError(createErrorResponse(0, 'Request cancelled', 'ABORTED'));
+
 /**
- * Industry-standard API client with automatic response handling
+ * Industry-standard API client: every request goes through one pipeline of
+ * request interceptors, fetch, and response interceptors
  */
 export class ApiClient {
   private baseUrl: string;
+  private requestInterceptors: RequestInterceptor[] = [];
+  private responseInterceptors: ResponseInterceptor[] = [];
 
   constructor(baseUrl: string = '/api') {
     this.baseUrl = baseUrl;
   }
 
   /**
-   * Generic GET request with automatic response unwrapping
+   * Add a step run before each request, in registration order. Returns a function that removes it.
    */
-  async get<T>(endpoint: string, params?: Record<string, any>): Promise<ApiResult<T>> {
-    try {
-      const url = this.buildUrl(endpoint, params);
-      const token = await tokenService.getValidToken();
-      
-      if (!token) {
-        throw new Error('No valid token available');
-      }
+  useRequestInterceptor(interceptor: RequestInterceptor): () => void {
+    this.requestInterceptors.push(interceptor);
+    return () => {
+      this.requestInterceptors = this.requestInterceptors.filter((i) => i !== interceptor);
+    };
+  }
+
+  /**
+   * Add a step run on each response, in registration order. Returns a function that removes it.
+   */
+  useResponseInterceptor(interceptor: ResponseInterceptor): () => void {
+    this.responseInterceptors.push(interceptor);
+    return () => {
+      this.responseInterceptors = this.responseInterceptors.filter((i) => i !== interceptor);
+    };
+  }
 
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        credentials: 'include',
-      });
-
-      if (!response.ok) {
-        if (response.status === 401) {
-          // Token might be expired, try to refresh
-          const refreshedToken = await tokenService.getValidToken();
-          if (refreshedToken) {
-            // Retry with refreshed token
-            const retryResponse = await fetch(url, {
-              method: 'GET',
-              headers: {
-                'Authorization': `Bearer ${refreshedToken}`,
-                'Content-Type': 'application/json',
-              },
-              credentials: 'include',
-            });
-
-            if (!retryResponse.ok) {
-              throw new Error(`Request failed: ${retryResponse.status}`);
-            }
-
-            const retryData = await retryResponse.json();
-            return this.handleResponse(retryData);
-          }
+  /**
+   * Send a request and return the parsed body (a Blob for `responseType: 'blob'`).
+   * Idempotent requests are retried with backoff after network errors, timeouts and 5xx responses.
+   */
+  async send<T>(config: ApiRequestConfig): Promise<T> {
+    const retries = config.retries ?? (IDEMPOTENT_METHODS.includes(config.method ?? 'GET') ? API_CONFIG.RETRIES : 0);
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.attempt<T>(config);
+      } catch (error) {
+        if (attempt >= retries || !this.isRetryable(error)) {
+          throw error;
         }
-        throw new Error(`Request failed: ${response.status}`);
+        await this.backoff(attempt, config.signal);
       }
-
-      const data = await response.json();
-      return this.handleResponse(data);
-    } catch (error) {
-      return this.handleError(error);
     }
   }
 
   /**
-   * Generic GET request for paginated data
+   * Send a request and return the `data` of the standard response envelope
    */
-  async getPaginated<T>(endpoint: string, params?: Record<string, any>): Promise<ApiResult<T[]>> {
-    try {
-      const url = this.buildUrl(endpoint, params);
-      const token = await tokenService.getValidToken();
-      
-      if (!token) {
-        throw new Error('No valid token available');
-      }
+  async request<T>(config: ApiRequestConfig): Promise<T> {
+    const body = await this.send<unknown>(config);
+    if (!this.isApiResponse(body) || body.data === null || body.data === undefined) {
+      throw new ApiError(createErrorResponse(502, config.errorMessage ?? 'Invalid response from the server', 'INVALID_RESPONSE'));
+    }
+    return body.data as T;
+  }
 
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        credentials: 'include',
-      });
-
-      if (!response.ok) {
-        if (response.status === 401) {
-          // Token might be expired, try to refresh
-          const refreshedToken = await tokenService.getValidToken();
-          if (refreshedToken) {
-            // Retry with refreshed token
-            const retryResponse = await fetch(url, {
-              method: 'GET',
-              headers: {
-                'Authorization': `Bearer ${refreshedToken}`,
-                'Content-Type': 'application/json',
-              },
-              credentials: 'include',
-            });
-
-            if (!retryResponse.ok) {
-              throw new Error(`Request failed: ${retryResponse.status}`);
-            }
-
-            const retryData = await retryResponse.json();
-            return this.handlePaginatedResponse(retryData);
-          }
-        }
-        throw new Error(`Request failed: ${response.status}`);
-      }
+  /**
+   * Generic GET request with automatic response unwrapping
+   */
+  async get<T>(endpoint: string, params?: object): Promise<ApiResult<T>> {
+    return this.toResult(() => this.send({ url: endpoint, params }), (body) => this.handleResponse<T>(body));
+  }
 
-      const data = await response.json();
-      return this.handlePaginatedResponse(data);
-    } catch (error) {
-      return this.handleError(error);
-    }
+  /**
+   * Generic GET request for paginated data
+   */
+  async getPaginated<T>(endpoint: string, params?: object): Promise<ApiResult<T[]>> {
+    return this.toResult(() => this.send({ url: endpoint, params }), (body) => this.handlePaginatedResponse<T>(body));
   }
 
   /**
    * Generic POST request
    */
-  async post<T>(endpoint: string, data: any): Promise<ApiResult<T>> {
-    try {
-      const url = this.buildUrl(endpoint);
-      const token = await tokenService.getValidToken();
-      
-      if (!token) {
-        throw new Error('No valid token available');
-      }
+  async post<T>(endpoint: string, data: unknown): Promise<ApiResult<T>> {
+    return this.toResult(() => this.send({ url: endpoint, method: 'POST', body: data }), (body) => this.handleResponse<T>(body));
+  }
 
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        credentials: 'include',
-        body: JSON.stringify(data)
-      });
-
-      if (!response.ok) {
-        if (response.status === 401) {
-          // Token might be expired, try to refresh
-          const refreshedToken = await tokenService.getValidToken();
-          if (refreshedToken) {
-            // Retry with refreshed token
-            const retryResponse = await fetch(url, {
-              method: 'POST',
-              headers: {
-                'Authorization': `Bearer ${refreshedToken}`,
-                'Content-Type': 'application/json',
-              },
-              credentials: 'include',
-              body: JSON.stringify(data)
-            });
-
-            if (!retryResponse.ok) {
-              throw new Error(`Request failed: ${retryResponse.status}`);
-            }
-
-            const retryData = await retryResponse.json();
-            return this.handleResponse(retryData);
-          }
-        }
-        throw new Error(`Request failed: ${response.status}`);
-      }
+  /**
+   * Generic PUT request
+   */
+  async put<T>(endpoint: string, data: unknown): Promise<ApiResult<T>> {
+    return this.toResult(() => this.send({ url: endpoint, method: 'PUT', body: data }), (body) => this.handleResponse<T>(body));
+  }
 
-      const responseData = await response.json();
-      return this.handleResponse(responseData);
-    } catch (error) {
-      return this.handleError(error);
-    }
+  /**
+   * Generic DELETE request
+   */
+  async delete(endpoint: string): Promise<ApiResult<void>> {
+    return this.toResult(() => this.send({ url: endpoint, method: 'DELETE' }), (body) => this.handleResponse<void>(body));
   }
 
   /**
-   * Generic PUT request
+   * Send once, cut off by the caller's signal or the timeout
    */
-  async put<T>(endpoint: string, data: any): Promise<ApiResult<T>> {
+  private async attempt<T>(config: ApiRequestConfig): Promise<T> {
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    if (config.signal?.aborted) {
+      throw abortedError();
+    }
+    config.signal?.addEventListener('abort', abort);
+
+    const timeout = config.timeout ?? API_CONFIG.TIMEOUT;
+    const timer = timeout > 0 ? setTimeout(abort, timeout) : undefined;
+
     try {
-      const url = this.buildUrl(endpoint);
-      const token = await tokenService.getValidToken();
-      
-      if (!token) {
-        throw new Error('No valid token available');
+      const sent = await this.dispatch(config, controller.signal);
+      let response = sent.response;
+      const context = {
+        config: sent.config,
+        retry: async (next: ApiRequestConfig) => (await this.dispatch(next, controller.signal)).response,
+      };
+      for (const interceptor of this.responseInterceptors) {
+        response = await interceptor(response, context);
       }
-
-      const response = await fetch(url, {
-        method: 'PUT',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        credentials: 'include',
-        body: JSON.stringify(data)
-      });
-
-      if (!response.ok) {
-        if (response.status === 401) {
-          // Token might be expired, try to refresh
-          const refreshedToken = await tokenService.getValidToken();
-          if (refreshedToken) {
-            // Retry with refreshed token
-            const retryResponse = await fetch(url, {
-              method: 'PUT',
-              headers: {
-                'Authorization': `Bearer ${refreshedToken}`,
-                'Content-Type': 'application/json',
-              },
-              credentials: 'include',
-              body: JSON.stringify(data)
-            });
-
-            if (!retryResponse.ok) {
-              throw new Error(`Request failed: ${retryResponse.status}`);
-            }
-
-            const retryData = await retryResponse.json();
-            return this.handleResponse(retryData);
-          }
-        }
-        throw new Error(`Request failed: ${response.status}`);
+      return await this.parseBody<T>(response, config);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw config.signal?.aborted
+          ? abortedError()
+          : new ApiError(createErrorResponse(0, 'The server took too long to respond', 'TIMEOUT'));
+      }
+      // fetch rejects with a TypeError when the server cannot be reached
+      if (error instanceof TypeError) {
+        throw new ApiError(createErrorResponse(0, 'Unable to reach the server', 'NETWORK_ERROR'));
       }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      config.signal?.removeEventListener('abort', abort);
+    }
+  }
 
-      const responseData = await response.json();
-      return this.handleResponse(responseData);
-    } catch (error) {
-      return this.handleError(error);
+  /**
+   * Run the request interceptors and send the request; response interceptors run in `attempt`
+   */
+  private async dispatch(config: ApiRequestConfig, signal: AbortSignal): Promise<{ response: Response; config: ApiRequestConfig }> {
+    let prepared = config;
+    for (const interceptor of this.requestInterceptors) {
+      prepared = await interceptor(prepared);
     }
+
+    const headers: Record<string, string> = { ...prepared.headers };
+    if (prepared.body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
+
+    const response = await fetch(this.buildUrl(prepared.url, prepared.params), {
+      method: prepared.method ?? 'GET',
+      headers,
+      credentials: 'include',
+      body: prepared.body === undefined ? undefined : JSON.stringify(prepared.body),
+      signal,
+    });
+    return { response, config: prepared };
+  }
+
+  // A timed-out request is retried like a dropped connection; a cancelled one never is
+  private isRetryable(error: unknown): boolean {
+    return error instanceof ApiError && (error.isNetworkError || error.isTimeout || error.status >= 500);
   }
 
   /**
-   * Generic DELETE request
+   * Wait before the next attempt: exponential backoff with jitter, cut short when the caller cancels
    */
-  async delete(endpoint: string): Promise<ApiResult<void>> {
-    try {
-      const url = this.buildUrl(endpoint);
-      const token = await tokenService.getValidToken();
-      
-      if (!token) {
-        throw new Error('No valid token available');
-      }
+  private backoff(attempt: number, signal?: AbortSignal): Promise<void> {
+    const ceiling = Math.min(API_CONFIG.RETRY_MAX_DELAY, API_CONFIG.RETRY_BASE_DELAY * 2 ** attempt);
+    const delay = ceiling / 2 + Math.random() * (ceiling / 2);
+
+    return new Promise((resolve, reject) => {
+      const cancel = () => {
+        clearTimeout(timer);
+        reject(abortedError());
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', cancel);
+        resolve();
+      }, delay);
+      signal?.addEventListener('abort', cancel, { once: true });
+    });
+  }
 
-      const response = await fetch(url, {
-        method: 'DELETE',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        credentials: 'include'
-      });
-
-      if (!response.ok) {
-        if (response.status === 401) {
-          // Token might be expired, try to refresh
-          const refreshedToken = await tokenService.getValidToken();
-          if (refreshedToken) {
-            // Retry with refreshed token
-            const retryResponse = await fetch(url, {
-              method: 'DELETE',
-              headers: {
-                'Authorization': `Bearer ${refreshedToken}`,
-                'Content-Type': 'application/json',
-              },
-              credentials: 'include'
-            });
-
-            if (!retryResponse.ok) {
-              throw new Error(`Request failed: ${retryResponse.status}`);
-            }
-
-            const retryData = await retryResponse.json();
-            return this.handleResponse(retryData);
-          }
-        }
-        throw new Error(`Request failed: ${response.status}`);
-      }
+  private async parseBody<T>(response: Response, config: ApiRequestConfig): Promise<T> {
+    if (config.responseType === 'blob') {
+      return (await response.blob()) as T;
+    }
+    const text = await response.text();
+    return (text ? JSON.parse(text) : undefined) as T;
+  }
 
-      const responseData = await response.json();
-      return this.handleResponse(responseData);
+  private async toResult<T>(send: () => Promise<unknown>, handle: (body: unknown) => ApiResult<T>): Promise<ApiResult<T>> {
+    try {
+      return handle(await send());
     } catch (error) {
       return this.handleError(error);
     }
@@ -293,13 +233,13 @@ export class ApiClient {
   /**
    * Handles successful API responses
    */
-  private handleResponse<T>(response: any): ApiResult<T> {
+  private handleResponse<T>(response: unknown): ApiResult<T> {
     // Check if it's a standard API response
     if (this.isApiResponse(response)) {
       return {
         success: response.status >= 200 && response.status < 300,
-        data: response.data,
-        error: response.status >= 400 ? response as unknown as ApiErrorResponse : undefined
+        data: response.data as T,
+        error: response.status >= 400 ? createErrorResponse(response.status, response.message, `HTTP_${response.status}`, response.requestId) : undefined
       };
     }
 
@@ -313,40 +253,28 @@ export class ApiClient {
   /**
    * Handles paginated response data
    */
-  private handlePaginatedResponse<T>(response: any): ApiResult<T[]> {
-    if (this.isPagedResponse(response)) {
+  private handlePaginatedResponse<T>(response: unknown): ApiResult<T[]> {
+    if (this.isPagedResponse<T>(response)) {
       return {
         success: true,
         data: response.data,
         pagination: response.pagination
       };
     }
-    
-    // Handle legacy direct array responses
-    if (Array.isArray(response)) {
-      return {
-        success: true,
-        data: response as T[],
-        pagination: {
-          page: 1,
-          pageSize: response.length,
-          totalItems: response.length,
-          totalPages: 1,
-          hasNext: false,
-          hasPrevious: false
-        }
-      };
-    }
 
-    // Handle wrapped array responses
-    if (this.isApiResponse(response) && Array.isArray(response.data)) {
+    // Handle legacy direct array responses, and wrapped array responses
+    const items = Array.isArray(response)
+      ? response
+      : this.isApiResponse(response) && Array.isArray(response.data) ? response.data : null;
+
+    if (items) {
       return {
         success: true,
-        data: response.data as unknown as T[],
+        data: items as T[],
         pagination: {
           page: 1,
-          pageSize: response.data.length,
-          totalItems: response.data.length,
+          pageSize: items.length,
+          totalItems: items.length,
           totalPages: 1,
           hasNext: false,
           hasPrevious: false
@@ -360,45 +288,36 @@ export class ApiClient {
   /**
    * Handles API errors
    */
-  private handleError<T>(error: any): ApiResult<T> {
+  private handleError<T>(error: unknown): ApiResult<T> {
     console.error('API Error:', error);
 
-    // Check if it's a structured API error response
-    if (error && typeof error === 'object' && 'status' in error && 'errorCode' in error) {
+    if (error instanceof ApiError) {
       return {
         success: false,
-        error: error as ApiErrorResponse
+        error: error.response
       };
     }
 
-    // Handle network or other errors
     return {
       success: false,
-      error: {
-        status: 500,
-        message: error?.message || 'An unexpected error occurred',
-        errorCode: 'NETWORK_ERROR',
-        errors: [],
-        requestId: '',
-        timestamp: new Date().toISOString()
-      }
+      error: createErrorResponse(500, error instanceof Error ? error.message : 'An unexpected error occurred', 'UNKNOWN_ERROR')
     };
   }
 
   /**
-   * Builds URL with query parameters
+   * Builds URL with query parameters; paths starting with / or http are used as given
    */
-  private buildUrl(endpoint: string, params?: Record<string, any>): string {
-    const url = endpoint.startsWith('http') ? endpoint : `${this.baseUrl}/${endpoint}`;
-    
-    if (!params || Object.keys(params).length === 0) {
+  private buildUrl(endpoint: string, params?: object): string {
+    const url = endpoint.startsWith('http') || endpoint.startsWith('/') ? endpoint : `${this.baseUrl}/${endpoint}`;
+
+    if (!params) {
       return url;
     }
 
     const searchParams = new URLSearchParams();
     Object.entries(params).forEach(([key, value]) => {
       if (value !== undefined && value !== null && value !== '') {
-        searchParams.append(key, value.toString());
+        searchParams.append(key, String(value));
       }
     });
 
@@ -409,10 +328,10 @@ export class ApiClient {
   /**
    * Type guard for API response
    */
-  private isApiResponse(response: any): response is ApiResponse<any> {
-    return response && 
-           typeof response === 'object' && 
-           'status' in response && 
+  private isApiResponse(response: unknown): response is ApiResponse<unknown> {
+    return !!response &&
+           typeof response === 'object' &&
+           'status' in response &&
            'message' in response &&
            'data' in response;
   }
@@ -420,9 +339,8 @@ export class ApiClient {
   /**
    * Type guard for paged API response
    */
-  private isPagedResponse<T>(response: any): response is PagedApiResponse<T> {
-    return this.isApiResponse(response) && 
-           'data' in response && 
+  private isPagedResponse<T>(response: unknown): response is PagedApiResponse<T> {
+    return this.isApiResponse(response) &&
            'pagination' in response &&
            Array.isArray(response.data);
   }
@@ -430,3 +348,11 @@ export class ApiClient {
 
 // Export singleton instance
 export const apiClient = new ApiClient();
+
+apiClient.useRequestInterceptor(addRequestId());
+apiClient.useRequestInterceptor(attachAuthToken());
+apiClient.useRequestInterceptor(logRequest());
+
+apiClient.useResponseInterceptor(logResponse());
+apiClient.useResponseInterceptor(refreshOnUnauthorized());
+apiClient.useResponseInterceptor(normalizeErrors());
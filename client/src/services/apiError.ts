@@ -0,0 +1,55 @@
+import type { ApiErrorResponse } from '../shared/types/api';
+
+/**
+ * Error thrown by the API client, carrying the normalized error response
+ */
+export class ApiError extends Error {
+  readonly response: ApiErrorResponse;
+
+  constructor(response: ApiErrorResponse) {
+    super(response.message);
+    this.name = 'ApiError';
+    this.response = response;
+  }
+
+  get status(): number {
+    return this.response.status;
+  }
+
+  get errorCode(): string {
+    return this.response.errorCode;
+  }
+
+  /**
+   * The request never reached the server
+   */
+  get isNetworkError(): boolean {
+    return this.response.errorCode === 'NETWORK_ERROR';
+  }
+
+  /**
+   * The caller cancelled the request
+   */
+  get isAborted(): boolean {
+    return this.response.errorCode === 'ABORTED';
+  }
+
+  /**
+   * The server did not answer within the request timeout
+   */
+  get isTimeout(): boolean {
+    return this.response.errorCode === 'TIMEOUT';
+  }
+}
+
+/**
+ * Build an error response for failures the server did not describe
+ */
+export const createErrorResponse = (status: number, message: string, errorCode: string, requestId = ''): ApiErrorResponse => ({
+  status,
+  message,
+  errorCode,
+  errors: [],
+  requestId,
+  timestamp: new Date().toISOString(),
+});
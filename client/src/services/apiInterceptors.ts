@@ -0,0 +1,128 @@
+// API Interceptors - the steps every request and response passes through
+import { tokenService } from '../features/auth/services/tokenService';
+import { ApiError } from './apiError';
+import type {
+  ErrorDetail,
+  RequestInterceptor,
+  ResponseInterceptor
+} from '../shared/types/api';
+
+const REQUEST_ID_HEADER = 'X-Request-Id';
+
+// Fixed messages the UI and the offline sync rely on; 401 only applies to authenticated requests
+const STATUS_MESSAGES: Partial<Record<number, string>> = {
+  403: 'Insufficient permissions',
+};
+
+interface ErrorBody {
+  message?: string;
+  title?: string;
+  errorCode?: string;
+  errors?: ErrorDetail[] | Record<string, string | string[]>;
+  requestId?: string;
+  traceId?: string;
+  timestamp?: string;
+}
+
+/**
+ * Tag each request so client logs and server logs can be matched
+ */
+export const addRequestId = (): RequestInterceptor => (config) => ({
+  ...config,
+  headers: { [REQUEST_ID_HEADER]: crypto.randomUUID(), ...config.headers },
+});
+
+/**
+ * Attach the access token, refreshing it first when it is about to expire
+ */
+export const attachAuthToken = (): RequestInterceptor => async (config) => {
+  if (config.auth === false) return config;
+
+  const token = await tokenService.getValidToken();
+  if (!token) {
+    throw new Error('No valid token available');
+  }
+  return { ...config, headers: { ...config.headers, Authorization: `Bearer ${token}` } };
+};
+
+/**
+ * Retry once with a fresh token when the server rejects the current one
+ */
+export const refreshOnUnauthorized = (): ResponseInterceptor => async (response, { config, retry }) => {
+  if (response.status !== 401 || config.auth === false) return response;
+
+  const token = await tokenService.refreshToken();
+  const retried = token ? await retry(config) : response;
+  if (retried.status === 401) {
+    tokenService.logout();
+  }
+  return retried;
+};
+
+/**
+ * Turn failed responses into an ApiError with a standard error response
+ */
+export const normalizeErrors = (): ResponseInterceptor => async (response, { config }) => {
+  if (response.ok) return response;
+
+  const body = await readErrorBody(response);
+  const status = response.status;
+  const message =
+    config.errorMessages?.[status] ??
+    (status === 401 && config.auth !== false ? 'Session expired' : undefined) ??
+    STATUS_MESSAGES[status] ??
+    body.message ??
+    body.title ??
+    config.errorMessage ??
+    `Request failed (${status})`;
+
+  throw new ApiError({
+    status,
+    message,
+    errorCode: body.errorCode ?? `HTTP_${status}`,
+    errors: toErrorDetails(body.errors),
+    requestId: body.requestId ?? body.traceId ?? config.headers?.[REQUEST_ID_HEADER] ?? '',
+    timestamp: body.timestamp ?? new Date().toISOString(),
+  });
+};
+
+/**
+ * Log requests and their outcome during development
+ */
+export const logRequest = (): RequestInterceptor => (config) => {
+  if (import.meta.env.DEV) {
+    console.log(`API → ${config.method ?? 'GET'} ${config.url}`, config.headers?.[REQUEST_ID_HEADER] ?? '');
+  }
+  return config;
+};
+
+export const logResponse = (): ResponseInterceptor => (response, { config }) => {
+  if (import.meta.env.DEV) {
+    const log = response.ok ? console.log : console.warn;
+    log(`API ← ${response.status} ${config.method ?? 'GET'} ${config.url}`, config.headers?.[REQUEST_ID_HEADER] ?? '');
+  }
+  return response;
+};
+
+const readErrorBody = async (response: Response): Promise<ErrorBody> => {
+  try {
+    const text = await response.text();
+    return text ? JSON.parse(text) : {};
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Accept both our error details and ASP.NET validation problem details ({ field: [messages] })
+ */
+const toErrorDetails = (errors: ErrorBody['errors']): ErrorDetail[] => {
+  if (!errors) return [];
+  if (Array.isArray(errors)) return errors;
+
+  return Object.entries(errors).map(([field, messages]) => ({
+    field,
+    message: Array.isArray(messages) ? messages.join(', ') : String(messages),
+    code: 'VALIDATION_ERROR',
+  }));
+};
@@ -2,15 +2,20 @@
 // This follows patterns used by GitHub, Linear, Notion, etc.
 
 import React from "react";
-import { CertificationStatus, SignatureStatus } from "../constants/enums";
 import {
+  AttendanceStatus,
+  CertificationStatus,
+  SignatureStatus,
+} from "../constants/enums";
+import {
+  useAttendanceStatusTranslation,
   useCertificationStatusTranslation,
   useSignatureStatusTranslation,
 } from "../hooks/useTranslation";
 
 interface StatusBadgeProps {
-  status: CertificationStatus | SignatureStatus;
-  type: "certification" | "signature";
+  status: CertificationStatus | SignatureStatus | AttendanceStatus;
+  type: "certification" | "signature" | "attendance";
   size?: "sm" | "md" | "lg";
   className?: string;
 }
@@ -24,15 +29,37 @@ export const StatusBadge: React.FC<StatusBadgeProps> = ({
 }) => {
   const { getCertificationStatusName } = useCertificationStatusTranslation();
   const { getSignatureStatusName } = useSignatureStatusTranslation();
+  const { getAttendanceStatusName } = useAttendanceStatusTranslation();
 
   const getStatusName = () => {
     if (type === "certification") {
       return getCertificationStatusName(status as CertificationStatus);
     }
+    if (type === "attendance") {
+      return getAttendanceStatusName(status as AttendanceStatus);
+    }
     return getSignatureStatusName(status as SignatureStatus);
   };
 
   const getStatusColor = () => {
+    // Attendance values overlap numerically with the other statuses
+    if (type === "attendance") {
+      const attendanceMap: Record<number, string> = {
+        [AttendanceStatus.ATTENDED]:
+          "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300",
+        [AttendanceStatus.EXCUSED_ABSENCE]:
+          "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300",
+        [AttendanceStatus.UNEXCUSED_ABSENCE]:
+          "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300",
+        [AttendanceStatus.CANCELLED_BY_THERAPIST]:
+          "bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-300",
+      };
+      return (
+        attendanceMap[status] ||
+        "bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300"
+      );
+    }
+
     const statusMap = {
       [CertificationStatus.DRAFT]:
         "bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300",
@@ -0,0 +1,28 @@
+import React, { useEffect } from "react";
+import { useNotifications } from "../ui/NotificationSystem";
+import { applyUpdate, onUpdateAvailable } from "../../utils/serviceWorker";
+
+/**
+ * AppUpdatePrompt - tells the user when a new build is ready and reloads on request
+ */
+export const AppUpdatePrompt: React.FC = () => {
+  const { showNotification } = useNotifications();
+
+  useEffect(
+    () =>
+      onUpdateAvailable(() =>
+        showNotification({
+          type: "info",
+          title: "Update available",
+          message: "A new version of TherapyFlow is ready.",
+          duration: 0,
+          action: { label: "Reload", onClick: applyUpdate },
+        })
+      ),
+    [showNotification]
+  );
+
+  return null;
+};
+
+export default AppUpdatePrompt;
@@ -2,6 +2,7 @@
 // Export all feedback components from this file
 
 export { default as ErrorBoundary } from './ErrorBoundary';
+export { default as AppUpdatePrompt } from './AppUpdatePrompt';
 // More feedback components will be added here as we migrate
 
 
@@ -2,24 +2,35 @@ import React, { useState } from "react";
 import { Link, useLocation } from "react-router-dom";
 import { useAuth } from "../../../features/auth";
 import ThemeToggle from "../ui/ThemeToggle";
+import { useOnlineStatus } from "../../hooks/useOnlineStatus";
 
 export const Navigation: React.FC = () => {
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const [isUserMenuOpen, setIsUserMenuOpen] = useState(false);
   const location = useLocation();
   const { isAuthenticated, user, logout } = useAuth();
+  const isOnline = useOnlineStatus();
 
   const isActive = (path: string) => location.pathname === path;
 
-  const navItems = [
+  // Parents only see their portal
+  const patientNavItems = [{ path: "/portal", label: "My Portal" }];
+
+  const staffNavItems = [
     { path: "/dashboard", label: "Dashboard" },
     { path: "/patients", label: "Patients" },
     { path: "/certifications", label: "Certifications" },
     { path: "/sessions", label: "Sessions" },
+    { path: "/sessions/calendar", label: "Calendar" },
   ];
 
+  const navItems = user?.role === "patient" ? patientNavItems : staffNavItems;
+
   // Admin-only navigation items
   const adminNavItems = [
+    { path: "/certifications/review", label: "Review" },
+    { path: "/schools", label: "Schools" },
+    { path: "/reports", label: "Reports" },
     { path: "/user-management", label: "User Management" },
   ];
 
@@ -34,7 +45,10 @@ export const Navigation: React.FC = () => {
         <div className="flex justify-between h-16">
           {/* Logo/Brand */}
           <div className="flex items-center">
-            <Link to="/dashboard" className="relative group">
+            <Link
+              to={user?.role === "patient" ? "/portal" : "/dashboard"}
+              className="relative group"
+            >
               <div className="bg-gradient-to-r from-blue-600 via-blue-500 to-indigo-600 bg-clip-text text-transparent font-extrabold text-lg sm:text-xl tracking-tight">
                 TherapyFlow
               </div>
@@ -77,6 +91,15 @@ export const Navigation: React.FC = () => {
 
           {/* Theme Toggle and Authentication */}
           <div className="flex items-center space-x-2 sm:space-x-4">
+            {/* Cached pages stay readable while offline */}
+            {!isOnline && (
+              <span
+                className="px-2 py-1 text-xs font-medium rounded-full bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200"
+                title="Showing saved data. Changes other than sessions and signatures need a connection."
+              >
+                Offline · read-only
+              </span>
+            )}
             <ThemeToggle />
 
             {/* Authentication and User Menu */}
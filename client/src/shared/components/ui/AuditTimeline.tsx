@@ -0,0 +1,123 @@
+import React from "react";
+import { format } from "date-fns";
+import LoadingSpinner from "./LoadingSpinner";
+import type { AuditAction, AuditEntry, AuditValue } from "../../types/audit";
+
+interface AuditTimelineProps {
+  entries: AuditEntry[];
+  isLoading?: boolean;
+  error?: string | null;
+  className?: string;
+}
+
+const ACTION_STYLES: Record<AuditAction, { label: string; dot: string }> = {
+  created: { label: "Created", dot: "bg-gray-400" },
+  updated: { label: "Edited", dot: "bg-blue-500" },
+  submitted: { label: "Submitted", dot: "bg-indigo-500" },
+  approved: { label: "Approved", dot: "bg-green-500" },
+  rejected: { label: "Rejected", dot: "bg-red-500" },
+  revisionRequested: { label: "Revision requested", dot: "bg-orange-500" },
+  signed: { label: "Signed", dot: "bg-teal-500" },
+  deleted: { label: "Deleted", dot: "bg-red-700" },
+};
+
+// "parentSignatureStatus" -> "Parent signature status"
+const formatFieldName = (field: string) => {
+  const words = field.replace(/([a-z])([A-Z])/g, "$1 $2").toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+const formatValue = (value: AuditValue) => {
+  if (value === null || value === "") return "(empty)";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  return String(value);
+};
+
+const AuditTimeline: React.FC<AuditTimelineProps> = ({
+  entries,
+  isLoading = false,
+  error,
+  className = "",
+}) => {
+  if (isLoading) {
+    return (
+      <LoadingSpinner size="sm" text="Loading history..." className="py-8" />
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="p-4 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 rounded-md text-sm">
+        {error}
+      </div>
+    );
+  }
+
+  if (entries.length === 0) {
+    return (
+      <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+        No history recorded yet.
+      </div>
+    );
+  }
+
+  return (
+    <ol
+      className={`relative border-l border-gray-200 dark:border-gray-700 ml-2 space-y-6 ${className}`}
+    >
+      {entries.map((entry) => {
+        const style = ACTION_STYLES[entry.action] || ACTION_STYLES.updated;
+
+        return (
+          <li key={entry.id} className="ml-4">
+            <span
+              className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border-2 border-white dark:border-gray-800 ${style.dot}`}
+            />
+            <div className="flex flex-wrap items-baseline gap-x-2">
+              <span className="text-sm font-medium text-gray-900 dark:text-white">
+                {style.label}
+              </span>
+              <span className="text-sm text-gray-600 dark:text-gray-400">
+                by {entry.performedByName || entry.performedBy || "System"}
+              </span>
+              <time className="text-xs text-gray-500 dark:text-gray-400">
+                {format(new Date(entry.performedAt), "MMM dd, yyyy h:mm a")}
+              </time>
+            </div>
+
+            {entry.note && (
+              <p className="mt-1 text-sm text-gray-700 dark:text-gray-300">
+                {entry.note}
+              </p>
+            )}
+
+            {entry.changes && entry.changes.length > 0 && (
+              <table className="mt-2 w-full text-xs">
+                <tbody>
+                  {entry.changes.map((change) => (
+                    <tr
+                      key={change.field}
+                      className="align-top border-t border-gray-100 dark:border-gray-700"
+                    >
+                      <td className="py-1 pr-3 font-medium text-gray-700 dark:text-gray-300 whitespace-nowrap">
+                        {formatFieldName(change.field)}
+                      </td>
+                      <td className="py-1 pr-3 text-red-700 dark:text-red-400 line-through break-all">
+                        {formatValue(change.oldValue)}
+                      </td>
+                      <td className="py-1 text-green-700 dark:text-green-400 break-all">
+                        {formatValue(change.newValue)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default AuditTimeline;
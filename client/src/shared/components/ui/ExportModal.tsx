@@ -0,0 +1,193 @@
+import React, { useState } from "react";
+import BaseModal from "./BaseModal";
+import type { ExportFormat, TableExportOptions } from "../../utils/tableExport";
+
+interface ExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  title: string;
+  itemCount: number;
+  itemLabel: string; // Plural, e.g. "sessions"
+  columns: Array<{ key: string; label: string }>;
+  defaultColumns?: string[];
+  // Shows the "include sessions" option, with a hint on how it is exported
+  includeSessionsHint?: string;
+  onExport: (options: TableExportOptions) => Promise<void>;
+}
+
+const FORMATS: Array<{ value: ExportFormat; label: string }> = [
+  { value: "excel", label: "Excel (.xlsx)" },
+  { value: "csv", label: "CSV (.csv)" },
+];
+
+export const ExportModal: React.FC<ExportModalProps> = ({
+  isOpen,
+  onClose,
+  title,
+  itemCount,
+  itemLabel,
+  columns,
+  defaultColumns,
+  includeSessionsHint,
+  onExport,
+}) => {
+  const [format, setFormat] = useState<ExportFormat>("excel");
+  const [selectedColumns, setSelectedColumns] = useState<string[]>(
+    () => defaultColumns || columns.map((column) => column.key)
+  );
+  const [includeSessions, setIncludeSessions] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleColumn = (key: string) => {
+    setSelectedColumns((prev) =>
+      prev.includes(key) ? prev.filter((k) => k !== key) : [...prev, key]
+    );
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      await onExport({
+        format,
+        // Keep the column order of the definitions
+        columns: columns
+          .map((column) => column.key)
+          .filter((key) => selectedColumns.includes(key)),
+        includeSessions: !!includeSessionsHint && includeSessions,
+        locale: navigator.language,
+      });
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Export failed");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const footerConfig = {
+    buttons: [
+      {
+        label: "Cancel",
+        variant: "secondary" as const,
+        onClick: onClose,
+        disabled: isExporting,
+      },
+      {
+        label: isExporting ? "Exporting..." : "Export",
+        variant: "primary" as const,
+        onClick: handleExport,
+        loading: isExporting,
+        disabled:
+          isExporting || selectedColumns.length === 0 || itemCount === 0,
+      },
+    ],
+    buttonAlignment: "right" as const,
+  };
+
+  return (
+    <BaseModal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={title}
+      subtitle={`${itemCount} ${itemLabel} in the current list`}
+      footerConfig={footerConfig}
+      error={error}
+    >
+      <div className="space-y-6">
+        {/* Format */}
+        <div>
+          <h4 className="text-sm font-medium text-gray-900 dark:text-gray-100 mb-2">
+            Format
+          </h4>
+          <div className="flex gap-4">
+            {FORMATS.map((option) => (
+              <label
+                key={option.value}
+                className="flex items-center text-sm text-gray-700 dark:text-gray-300"
+              >
+                <input
+                  type="radio"
+                  name="export-format"
+                  value={option.value}
+                  checked={format === option.value}
+                  onChange={() => setFormat(option.value)}
+                  className="h-4 w-4 text-blue-600 border-gray-300 focus:ring-blue-500 mr-2"
+                />
+                {option.label}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {/* Columns */}
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <h4 className="text-sm font-medium text-gray-900 dark:text-gray-100">
+              Columns
+            </h4>
+            <div className="flex gap-3 text-sm">
+              <button
+                type="button"
+                onClick={() =>
+                  setSelectedColumns(columns.map((column) => column.key))
+                }
+                className="text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                Select all
+              </button>
+              <button
+                type="button"
+                onClick={() => setSelectedColumns([])}
+                className="text-gray-600 dark:text-gray-400 hover:underline"
+              >
+                Clear
+              </button>
+            </div>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {columns.map((column) => (
+              <label
+                key={column.key}
+                className="flex items-center text-sm text-gray-700 dark:text-gray-300"
+              >
+                <input
+                  type="checkbox"
+                  checked={selectedColumns.includes(column.key)}
+                  onChange={() => toggleColumn(column.key)}
+                  className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500 mr-2"
+                />
+                {column.label}
+              </label>
+            ))}
+          </div>
+          {selectedColumns.length === 0 && (
+            <p className="mt-2 text-sm text-red-600 dark:text-red-400">
+              Select at least one column
+            </p>
+          )}
+        </div>
+
+        {includeSessionsHint && (
+          <label className="flex items-start text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={includeSessions}
+              onChange={(e) => setIncludeSessions(e.target.checked)}
+              className="mt-0.5 h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500 mr-2"
+            />
+            <span>
+              Include sessions
+              <span className="block text-gray-500 dark:text-gray-400">
+                {includeSessionsHint}
+              </span>
+            </span>
+          </label>
+        )}
+      </div>
+    </BaseModal>
+  );
+};
+
+export default ExportModal;
@@ -15,6 +15,12 @@ export interface Notification {
   title: string;
   message: string;
   duration?: number; // Auto-dismiss duration in ms, 0 = no auto-dismiss
+  action?: NotificationAction;
+}
+
+export interface NotificationAction {
+  label: string;
+  onClick: () => void;
 }
 
 interface NotificationContextType {
@@ -234,6 +240,17 @@ const NotificationItem: React.FC<NotificationItemProps> = ({
           <p className={`${styles.message} text-sm mt-1`}>
             {notification.message}
           </p>
+          {notification.action && (
+            <button
+              onClick={() => {
+                notification.action?.onClick();
+                onHide(notification.id);
+              }}
+              className={`${styles.title} mt-2 text-sm font-medium underline hover:no-underline`}
+            >
+              {notification.action.label}
+            </button>
+          )}
         </div>
         <button
           onClick={() => onHide(notification.id)}
@@ -6,6 +6,8 @@ export { default as BaseModal } from './BaseModal';
 export { default as ModalHeader } from './ModalHeader';
 export { default as ModalFooter } from './ModalFooter';
 export { default as ThemeToggle } from './ThemeToggle';
+export { default as AuditTimeline } from './AuditTimeline';
+export { default as ExportModal } from './ExportModal';
 export { Skeleton, DashboardSkeleton } from './SkeletonLoader';
 export { 
   PatientsPageSkeleton, 
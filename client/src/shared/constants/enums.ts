@@ -39,8 +39,18 @@ export enum SignatureStatus {
   APPROVED = 3
 }
 
+export const AttendanceStatus = {
+  ATTENDED: 1,
+  EXCUSED_ABSENCE: 2,
+  UNEXCUSED_ABSENCE: 3,
+  CANCELLED_BY_THERAPIST: 4
+} as const;
+
+export type AttendanceStatus = typeof AttendanceStatus[keyof typeof AttendanceStatus];
+
 // Type-safe enum arrays for iteration
 export const MONTHS = Object.values(Month).filter(v => typeof v === 'number') as Month[];
 export const THERAPY_TYPES = Object.values(TherapyType).filter(v => typeof v === 'number') as TherapyType[];
 export const CERTIFICATION_STATUSES = Object.values(CertificationStatus).filter(v => typeof v === 'number') as CertificationStatus[];
 export const SIGNATURE_STATUSES = Object.values(SignatureStatus).filter(v => typeof v === 'number') as SignatureStatus[];
+export const ATTENDANCE_STATUSES = Object.values(AttendanceStatus) as AttendanceStatus[];
@@ -1,7 +1,7 @@
 // Industry-standard translation management
 // This follows patterns used by companies like Airbnb, Uber, and other international apps
 
-import { Month, TherapyType, CertificationStatus, SignatureStatus } from './enums';
+import { Month, TherapyType, CertificationStatus, SignatureStatus, AttendanceStatus } from './enums';
 
 // Translation maps - this is how major apps handle i18n
 export const TRANSLATIONS = {
@@ -39,6 +39,12 @@ export const TRANSLATIONS = {
       [SignatureStatus.PENDING]: 'Pending',
       [SignatureStatus.COMPLETED]: 'Completed',
       [SignatureStatus.APPROVED]: 'Approved'
+    },
+    attendanceStatuses: {
+      [AttendanceStatus.ATTENDED]: 'Attended & Signed',
+      [AttendanceStatus.EXCUSED_ABSENCE]: 'Excused Absence',
+      [AttendanceStatus.UNEXCUSED_ABSENCE]: 'Unexcused Absence',
+      [AttendanceStatus.CANCELLED_BY_THERAPIST]: 'Cancelled by Therapist'
     }
   },
   es: {
@@ -75,6 +81,12 @@ export const TRANSLATIONS = {
       [SignatureStatus.PENDING]: 'Pendiente',
       [SignatureStatus.COMPLETED]: 'Completado',
       [SignatureStatus.APPROVED]: 'Aprobado'
+    },
+    attendanceStatuses: {
+      [AttendanceStatus.ATTENDED]: 'Asistió y Firmó',
+      [AttendanceStatus.EXCUSED_ABSENCE]: 'Ausencia Excusada',
+      [AttendanceStatus.UNEXCUSED_ABSENCE]: 'Ausencia Injustificada',
+      [AttendanceStatus.CANCELLED_BY_THERAPIST]: 'Cancelada por Terapeuta'
     }
   }
 } as const;
@@ -122,6 +134,10 @@ export class TranslationService {
     return this.translate('signatureStatuses', status);
   }
 
+  getAttendanceStatusName(status: AttendanceStatus): string {
+    return this.translate('attendanceStatuses', status);
+  }
+
   // Get all options for dropdowns (industry standard pattern)
   getMonthOptions(): Array<{ value: Month; label: string }> {
     return Object.values(Month)
@@ -158,6 +174,13 @@ export class TranslationService {
         label: this.getSignatureStatusName(status as SignatureStatus)
       }));
   }
+
+  getAttendanceStatusOptions(): Array<{ value: AttendanceStatus; label: string }> {
+    return Object.values(AttendanceStatus).map(status => ({
+      value: status,
+      label: this.getAttendanceStatusName(status)
+    }));
+  }
 }
 
 // Singleton instance (industry standard pattern)
@@ -4,6 +4,8 @@
 export { default as useApi } from './useApi';
 export { default as useForm } from './useForm';
 export { default as useModal } from './useModal';
+export { default as useAuditHistory } from './useAuditHistory';
+export { default as useOnlineStatus } from './useOnlineStatus';
 // More hooks will be added here as we migrate
 
 
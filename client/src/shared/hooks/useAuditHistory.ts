@@ -0,0 +1,52 @@
+import { useState, useEffect } from 'react';
+import type { AuditEntry } from '../types/audit';
+
+/**
+ * Load an entity's change history while `enabled` (e.g. its history tab is open).
+ * `loadHistory` should be a stable, module-level function.
+ */
+export const useAuditHistory = (
+  loadHistory: (id: string) => Promise<AuditEntry[]>,
+  entityId: string | null | undefined,
+  enabled = true
+) => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!enabled || !entityId) return;
+
+    // Ignore responses for an entity that is no longer shown
+    let cancelled = false;
+
+    const load = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const history = await loadHistory(entityId);
+        if (!cancelled) {
+          setEntries(history);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load history');
+        }
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [loadHistory, entityId, enabled]);
+
+  return { entries, isLoading, error };
+};
+
+export default useAuditHistory;
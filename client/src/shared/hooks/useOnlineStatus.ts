@@ -0,0 +1,22 @@
+import { useState, useEffect } from 'react';
+
+/**
+ * Whether the browser reports a network connection; updates on online/offline events
+ */
+export const useOnlineStatus = (): boolean => {
+  const [isOnline, setIsOnline] = useState(() => typeof navigator === 'undefined' || navigator.onLine);
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  return isOnline;
+};
+
+export default useOnlineStatus;
@@ -67,3 +67,11 @@ export const useSignatureStatusTranslation = () => {
     getSignatureStatusOptions: t.getSignatureStatusOptions.bind(t)
   };
 };
+
+export const useAttendanceStatusTranslation = () => {
+  const { t } = useTranslation();
+  return {
+    getAttendanceStatusName: t.getAttendanceStatusName.bind(t),
+    getAttendanceStatusOptions: t.getAttendanceStatusOptions.bind(t)
+  };
+};
@@ -1,4 +1,5 @@
 import type { CertificationDocument, BackendTherapySession } from './TherapyTypes';
+import type { AttendanceStatus } from '../constants/enums';
 
 // Modal State Machine Types
 export type ModalState = 
@@ -124,11 +125,18 @@ export interface SessionFormData {
   certificationDocumentId: string;
   sessionDate: string;
   sessionTime: string;
+  endTime?: string;
   location: string;
   transportationRequired: boolean;
   parentSignatureStatus: 'pending' | 'completed';
   signatureImageData?: string;
   notes?: string;
+  isReposicion?: boolean;
+  originalSessionId?: string;
+  attendanceStatus?: AttendanceStatus;
+  attendanceReason?: string;
+  transportationOverride?: boolean;
+  transportationOverrideReason?: string;
 }
 
 // Loading States
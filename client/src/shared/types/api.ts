@@ -56,6 +56,20 @@ export interface PagedApiResponse<T> extends BaseApiResponse {
   pagination: PaginationMeta;
 }
 
+/**
+ * List payload inside a response envelope, for endpoints that page without the standard envelope
+ */
+export interface PagedPayload<T> {
+  items?: T[];
+  totalCount?: number;
+  page?: number;
+  pageSize?: number;
+  totalPages?: number;
+  hasNext?: boolean;
+  hasPrevious?: boolean;
+  pagination?: PaginationMeta;
+}
+
 /**
  * Pagination request parameters
  */
@@ -124,3 +138,57 @@ export interface ApiService<T, TCreate, TUpdate, TPagination extends PaginationR
   update(id: string, data: TUpdate): Promise<ApiResponse<T>>;
   delete(id: string): Promise<ApiResponse<void>>;
 }
+
+/**
+ * HTTP methods sent through the API client
+ */
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * A request as it passes through the API client pipeline
+ */
+export interface ApiRequestConfig {
+  url: string;
+  method?: HttpMethod;
+  /** Query string values; undefined, null and empty values are left out */
+  params?: object;
+  body?: unknown;
+  headers?: Record<string, string>;
+  /** Attach the bearer token; false for login, registration and invitation links */
+  auth?: boolean;
+  responseType?: 'json' | 'blob';
+  /** Messages for specific statuses, used instead of the server's message */
+  errorMessages?: Partial<Record<number, string>>;
+  /** Message when the server does not send one */
+  errorMessage?: string;
+  /** Cancels the request, which then rejects with errorCode 'ABORTED' */
+  signal?: AbortSignal;
+  /** Milliseconds per attempt before rejecting with errorCode 'TIMEOUT'; defaults to API_CONFIG.TIMEOUT, 0 waits forever */
+  timeout?: number;
+  /** Extra attempts after network errors and 5xx responses; defaults to API_CONFIG.RETRIES for GET, PUT and DELETE, 0 otherwise */
+  retries?: number;
+}
+
+/**
+ * Per-call transport options services accept from their callers
+ */
+export type RequestOptions = Pick<ApiRequestConfig, 'signal' | 'timeout' | 'retries'>;
+
+/**
+ * Runs before a request is sent and returns the config to send
+ */
+export type RequestInterceptor = (config: ApiRequestConfig) => ApiRequestConfig | Promise<ApiRequestConfig>;
+
+/**
+ * What a response interceptor knows about the request that produced the response
+ */
+export interface ResponseContext {
+  config: ApiRequestConfig;
+  /** Send the request again through the request interceptors */
+  retry: (config: ApiRequestConfig) => Promise<Response>;
+}
+
+/**
+ * Runs on every response and returns the response to hand on, or throws
+ */
+export type ResponseInterceptor = (response: Response, context: ResponseContext) => Response | Promise<Response>;
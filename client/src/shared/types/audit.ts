@@ -0,0 +1,39 @@
+// Audit trail types shared by certifications and sessions
+
+export type AuditEntityType = 'certification' | 'session';
+
+export type AuditAction =
+  | 'created'
+  | 'updated'
+  | 'submitted'
+  | 'approved'
+  | 'rejected'
+  | 'revisionRequested'
+  | 'signed'
+  | 'deleted';
+
+export type AuditValue = string | number | boolean | null;
+
+/**
+ * Old and new value of a single edited field
+ */
+export interface AuditFieldChange {
+  field: string;
+  oldValue: AuditValue;
+  newValue: AuditValue;
+}
+
+/**
+ * One entry of an entity's change history, newest first when returned by the API
+ */
+export interface AuditEntry {
+  id: string;
+  entityType: AuditEntityType;
+  entityId: string;
+  action: AuditAction;
+  performedBy?: string;
+  performedByName?: string;
+  performedAt: string;
+  changes?: AuditFieldChange[];
+  note?: string;
+}
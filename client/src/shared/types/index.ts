@@ -17,5 +17,16 @@ export {
   ApiService
 } from './api';
 
+export type {
+  PagedPayload,
+  HttpMethod,
+  ApiRequestConfig,
+  RequestOptions,
+  RequestInterceptor,
+  ResponseContext,
+  ResponseInterceptor
+} from './api';
+
 export * from './ModalTypes';
+export * from './audit';
 // More types will be added here as we migrate
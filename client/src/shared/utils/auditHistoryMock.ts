@@ -0,0 +1,95 @@
+// Audit History Mock - local change history for testing without the history endpoint
+import type {
+  AuditAction,
+  AuditEntityType,
+  AuditEntry,
+  AuditFieldChange,
+} from '../types/audit';
+
+// Timestamps and actors carried by certifications and sessions
+interface AuditableEntity {
+  id: string;
+  status?: number;
+  createdAt?: string;
+  createdBy?: string;
+  lastModifiedAt?: string;
+  lastModifiedBy?: string;
+  submittedAt?: string;
+  approvedAt?: string;
+  rejectedAt?: string;
+  rejectionReason?: string;
+  revisionRequestedAt?: string;
+  revisionReason?: string;
+  signatureDate?: string;
+  signatureName?: string;
+  notes?: string;
+}
+
+/**
+ * Enabled with VITE_AUDIT_HISTORY_MOCK=true in a local .env file
+ */
+export const isAuditHistoryMockEnabled = (): boolean =>
+  import.meta.env.VITE_AUDIT_HISTORY_MOCK === 'true';
+
+/**
+ * Reconstruct a plausible history from the timestamps an entity already carries
+ */
+export const buildMockAuditHistory = (
+  entityType: AuditEntityType,
+  entity: AuditableEntity
+): AuditEntry[] => {
+  const entries: AuditEntry[] = [];
+  const add = (
+    action: AuditAction,
+    performedAt: string | undefined,
+    extra: Partial<AuditEntry> = {}
+  ) => {
+    if (!performedAt) return;
+    entries.push({
+      id: `${entity.id}-${action}-${entries.length}`,
+      entityType,
+      entityId: entity.id,
+      action,
+      performedAt,
+      ...extra,
+    });
+  };
+  const statusChange = (from: string, to: string): AuditFieldChange[] => [
+    { field: 'status', oldValue: from, newValue: to },
+  ];
+
+  add('created', entity.createdAt, { performedByName: entity.createdBy });
+  add('submitted', entity.submittedAt, {
+    performedByName: entity.createdBy,
+    changes: statusChange('Draft', 'Submitted'),
+  });
+  add('approved', entity.approvedAt, {
+    performedByName: entity.lastModifiedBy,
+    changes: statusChange('Submitted', 'Approved'),
+  });
+  add('rejected', entity.rejectedAt, {
+    performedByName: entity.lastModifiedBy,
+    changes: statusChange('Submitted', 'Rejected'),
+    note: entity.rejectionReason,
+  });
+  add('revisionRequested', entity.revisionRequestedAt, {
+    performedByName: entity.lastModifiedBy,
+    changes: statusChange('Submitted', 'Draft'),
+    note: entity.revisionReason,
+  });
+  add('signed', entity.signatureDate, {
+    performedByName: entity.signatureName,
+    changes: [{ field: 'parentSignatureStatus', oldValue: 'Pending', newValue: 'Signed' }],
+  });
+
+  // Only report an edit when it isn't just the timestamp of a transition above
+  const transitionTimes = new Set(entries.map((entry) => entry.performedAt));
+  if (entity.lastModifiedAt && !transitionTimes.has(entity.lastModifiedAt)) {
+    add('updated', entity.lastModifiedAt, {
+      performedByName: entity.lastModifiedBy,
+      changes: [{ field: 'notes', oldValue: null, newValue: entity.notes ?? '' }],
+    });
+  }
+
+  return entries.sort((a, b) => b.performedAt.localeCompare(a.performedAt));
+};
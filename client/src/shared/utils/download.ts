@@ -0,0 +1,25 @@
+// File Download - save files built or fetched in the browser
+
+/**
+ * Save a URL the page already holds (e.g. a preview's object URL) under a file name
+ */
+export const downloadUrl = (url: string, filename: string): void => {
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+/**
+ * Save a generated file
+ */
+export const downloadBlob = (blob: Blob, filename: string): void => {
+  const url = window.URL.createObjectURL(blob);
+  try {
+    downloadUrl(url, filename);
+  } finally {
+    window.URL.revokeObjectURL(url);
+  }
+};
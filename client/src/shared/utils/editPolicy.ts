@@ -0,0 +1,138 @@
+// Edit Policy - who may change certifications and sessions in each certification status
+import { CertificationStatus } from '../constants/enums';
+import { UserRole } from '../../features/auth/types/auth.types';
+import { tokenService } from '../../features/auth/services/tokenService';
+
+export interface EditPolicyDecision {
+  allowed: boolean;
+  reason?: string;
+}
+
+const STATUS_NAMES: Record<string, CertificationStatus> = {
+  draft: CertificationStatus.DRAFT,
+  submitted: CertificationStatus.SUBMITTED,
+  approved: CertificationStatus.APPROVED,
+  rejected: CertificationStatus.REJECTED,
+};
+
+const ALLOWED: EditPolicyDecision = { allowed: true };
+
+/**
+ * Certification status as a number; the API returns numbers, older payloads names
+ */
+export const normalizeCertificationStatus = (
+  status: number | string | null | undefined
+): CertificationStatus | null => {
+  if (status === null || status === undefined || status === '') return null;
+  if (typeof status === 'number') return status;
+
+  const numeric = parseInt(status, 10);
+  return isNaN(numeric) ? STATUS_NAMES[status.toLowerCase()] ?? null : numeric;
+};
+
+/**
+ * Whether a status was provided that the policy can check
+ */
+export const hasKnownCertificationStatus = (source: {
+  certificationStatus?: number | string | null;
+}): boolean => normalizeCertificationStatus(source.certificationStatus) !== null;
+
+const normalizeRole = (role: unknown): UserRole | null => {
+  if (typeof role !== 'string') return null;
+  const value = role.toLowerCase();
+  return (Object.values(UserRole) as string[]).includes(value) ? (value as UserRole) : null;
+};
+
+/**
+ * Whether a certification in the given status can be changed by the role.
+ * Drafts and rejected certifications stay editable; once submitted or approved
+ * only admins may change them. Secretaries follow the therapist rules, and a
+ * missing or unknown status is treated as locked.
+ */
+export const getCertificationEditPolicy = (
+  status: number | string | null | undefined,
+  role: UserRole | string | null | undefined
+): EditPolicyDecision => {
+  const userRole = normalizeRole(role);
+  if (userRole !== UserRole.ADMIN && userRole !== UserRole.THERAPIST && userRole !== UserRole.SECRETARY) {
+    return { allowed: false, reason: 'You do not have permission to change certifications.' };
+  }
+
+  const certificationStatus = normalizeCertificationStatus(status);
+  if (userRole === UserRole.ADMIN) return ALLOWED;
+
+  if (certificationStatus === CertificationStatus.SUBMITTED) {
+    return {
+      allowed: false,
+      reason: 'This certification has been submitted for approval and is locked. Ask an admin to request a revision.',
+    };
+  }
+  if (certificationStatus === CertificationStatus.APPROVED) {
+    return {
+      allowed: false,
+      reason: 'This certification has been approved and is locked. Contact an admin to make corrections.',
+    };
+  }
+  if (certificationStatus === CertificationStatus.DRAFT || certificationStatus === CertificationStatus.REJECTED) {
+    return ALLOWED;
+  }
+
+  return {
+    allowed: false,
+    reason: 'The status of this certification is unknown, so it cannot be changed. Reload and try again.',
+  };
+};
+
+/**
+ * Sessions follow the status of their certification
+ */
+export const getSessionEditPolicy = (
+  session: { certificationStatus?: number | string | null },
+  role: UserRole | string | null | undefined
+): EditPolicyDecision => {
+  const decision = getCertificationEditPolicy(session.certificationStatus, role);
+  return decision.allowed
+    ? decision
+    : { allowed: false, reason: decision.reason?.replace('This certification', "This session's certification") };
+};
+
+/**
+ * Parents may sign their child's sessions under the same status locks as
+ * therapists; everyone else needs to be able to edit the session
+ */
+export const getSessionSignaturePolicy = (
+  session: { certificationStatus?: number | string | null },
+  role: UserRole | string | null | undefined
+): EditPolicyDecision => {
+  const userRole = normalizeRole(role);
+  return getSessionEditPolicy(session, userRole === UserRole.PATIENT ? UserRole.THERAPIST : userRole);
+};
+
+// Services can't reach AuthContext. An unreadable role claim falls back to the
+// therapist rules so status locks still apply; the backend enforces real access.
+const getTokenRole = (): UserRole =>
+  normalizeRole(tokenService.getUserFromToken()?.role) ?? UserRole.THERAPIST;
+
+const assertAllowed = (decision: EditPolicyDecision): void => {
+  if (!decision.allowed) {
+    throw new Error(decision.reason || 'This record is locked and cannot be changed.');
+  }
+};
+
+/**
+ * Throw before a service call that would change a locked certification
+ */
+export const assertCertificationEditable = (status: number | string | null | undefined): void =>
+  assertAllowed(getCertificationEditPolicy(status, getTokenRole()));
+
+/**
+ * Throw before a service call that would change a session of a locked certification
+ */
+export const assertSessionEditable = (session: { certificationStatus?: number | string | null }): void =>
+  assertAllowed(getSessionEditPolicy(session, getTokenRole()));
+
+/**
+ * Throw before a service call that would sign a session of a locked certification
+ */
+export const assertSessionSignable = (session: { certificationStatus?: number | string | null }): void =>
+  assertAllowed(getSessionSignaturePolicy(session, getTokenRole()));
@@ -2,6 +2,13 @@
 // Export all utility functions from this file
 
 export * from './modalHelpers';
+export * from './timeUtils';
+export * from './pdfDocument';
+export * from './zipArchive';
+export * from './tableExport';
+export * from './download';
+export * from './serviceWorker';
+export * from './queryClient';
 // More utilities will be added here as we migrate
 
 
@@ -0,0 +1,308 @@
+// PDF Document - minimal PDF 1.4 writer for text, lines and JPEG images.
+// Coordinates are in points from the top-left corner; text y is the baseline.
+
+export type PdfFont = 'regular' | 'bold';
+
+export interface PdfImage {
+  data: Uint8Array; // JPEG bytes
+  width: number;
+  height: number;
+}
+
+export interface PdfTextOptions {
+  size?: number;
+  font?: PdfFont;
+  align?: 'left' | 'center' | 'right';
+  gray?: number; // 0 = black, 1 = white
+}
+
+export interface PdfDocumentOptions {
+  title?: string;
+  width?: number;
+  height?: number;
+}
+
+// US Letter
+const DEFAULT_WIDTH = 612;
+const DEFAULT_HEIGHT = 792;
+const DEFAULT_FONT_SIZE = 10;
+
+// Standard 14 font metrics (1/1000 em) for characters 32-126
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+const FALLBACK_WIDTH = 556;
+
+// WinAnsiEncoding positions for common characters outside Latin-1
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '…': 0x85,
+  '‘': 0x91,
+  '’': 0x92,
+  '“': 0x93,
+  '”': 0x94,
+  '•': 0x95,
+  '–': 0x96,
+  '—': 0x97,
+};
+
+const FONT_NAMES: Record<PdfFont, string> = { regular: 'F1', bold: 'F2' };
+
+const toWinAnsi = (value: string): string =>
+  Array.from(value)
+    .map((char) => {
+      if (WIN_ANSI_EXTRAS[char]) return String.fromCharCode(WIN_ANSI_EXTRAS[char]);
+      const code = char.charCodeAt(0);
+      return code >= 32 && code < 256 && (code < 127 || code > 159) ? char : '?';
+    })
+    .join('');
+
+const escapePdfString = (value: string): string => value.replace(/([\\()])/g, '\\$1');
+
+const toBytes = (value: string): Uint8Array => {
+  const bytes = new Uint8Array(value.length);
+  for (let i = 0; i < value.length; i++) {
+    bytes[i] = value.charCodeAt(i) & 0xff;
+  }
+  return bytes;
+};
+
+const formatNumber = (value: number): string => String(Math.round(value * 100) / 100);
+
+export class PdfDocument {
+  readonly width: number;
+  readonly height: number;
+  private readonly title?: string;
+  private pages: string[][] = [];
+  private currentPage = -1;
+  private images: PdfImage[] = [];
+
+  constructor({ title, width = DEFAULT_WIDTH, height = DEFAULT_HEIGHT }: PdfDocumentOptions = {}) {
+    this.title = title;
+    this.width = width;
+    this.height = height;
+    this.addPage();
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+    this.currentPage = this.pages.length - 1;
+  }
+
+  /**
+   * Switch drawing to an existing page (0-based), e.g. to add page numbers
+   */
+  setPage(index: number): void {
+    if (index < 0 || index >= this.pages.length) {
+      throw new Error(`Page ${index + 1} does not exist`);
+    }
+    this.currentPage = index;
+  }
+
+  /**
+   * Width of a string in points
+   */
+  measureText(value: string, size = DEFAULT_FONT_SIZE, font: PdfFont = 'regular'): number {
+    const widths = font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+    let total = 0;
+    for (const char of value) {
+      const code = char.charCodeAt(0);
+      total += code >= 32 && code <= 126 ? widths[code - 32] : FALLBACK_WIDTH;
+    }
+    return (total * size) / 1000;
+  }
+
+  /**
+   * Shorten a string with an ellipsis so it fits the width
+   */
+  fitText(value: string, maxWidth: number, size = DEFAULT_FONT_SIZE, font: PdfFont = 'regular'): string {
+    if (this.measureText(value, size, font) <= maxWidth) return value;
+    let fitted = value;
+    while (fitted && this.measureText(`${fitted}…`, size, font) > maxWidth) {
+      fitted = fitted.slice(0, -1);
+    }
+    return fitted ? `${fitted.trimEnd()}…` : '';
+  }
+
+  /**
+   * Split text into lines no wider than maxWidth, keeping explicit line breaks
+   */
+  wrapText(value: string, maxWidth: number, size = DEFAULT_FONT_SIZE, font: PdfFont = 'regular'): string[] {
+    return value.split(/\r?\n/).flatMap((paragraph) => {
+      const lines: string[] = [];
+      let line = '';
+      paragraph.split(/\s+/).filter(Boolean).forEach((word) => {
+        const candidate = line ? `${line} ${word}` : word;
+        if (!line || this.measureText(candidate, size, font) <= maxWidth) {
+          line = candidate;
+        } else {
+          lines.push(line);
+          line = word;
+        }
+      });
+      lines.push(this.fitText(line, maxWidth, size, font));
+      return lines;
+    });
+  }
+
+  text(value: string, x: number, y: number, { size = DEFAULT_FONT_SIZE, font = 'regular', align = 'left', gray = 0 }: PdfTextOptions = {}): void {
+    if (!value) return;
+    const width = this.measureText(value, size, font);
+    const left = align === 'center' ? x - width / 2 : align === 'right' ? x - width : x;
+    this.write(
+      `BT ${formatNumber(gray)} g /${FONT_NAMES[font]} ${size} Tf ${formatNumber(left)} ${formatNumber(this.height - y)} Td (${escapePdfString(toWinAnsi(value))}) Tj ET`
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, lineWidth = 0.5, gray = 0): void {
+    this.write(
+      `${formatNumber(lineWidth)} w ${formatNumber(gray)} G ${formatNumber(x1)} ${formatNumber(this.height - y1)} m ${formatNumber(x2)} ${formatNumber(this.height - y2)} l S`
+    );
+  }
+
+  /**
+   * Rectangle by its top-left corner; filled with a gray level or stroked
+   */
+  rect(x: number, y: number, width: number, height: number, { fill, lineWidth = 0.5 }: { fill?: number; lineWidth?: number } = {}): void {
+    const box = `${formatNumber(x)} ${formatNumber(this.height - y - height)} ${formatNumber(width)} ${formatNumber(height)} re`;
+    this.write(
+      fill !== undefined
+        ? `${formatNumber(fill)} g ${box} f`
+        : `${formatNumber(lineWidth)} w 0 G ${box} S`
+    );
+  }
+
+  /**
+   * Draw an image scaled to fit inside the box, keeping its aspect ratio
+   */
+  image(image: PdfImage, x: number, y: number, maxWidth: number, maxHeight: number): void {
+    let index = this.images.indexOf(image);
+    if (index === -1) {
+      this.images.push(image);
+      index = this.images.length - 1;
+    }
+
+    const scale = Math.min(maxWidth / image.width, maxHeight / image.height);
+    const width = image.width * scale;
+    const height = image.height * scale;
+    const left = x + (maxWidth - width) / 2;
+    const bottom = this.height - y - (maxHeight + height) / 2;
+    this.write(
+      `q ${formatNumber(width)} 0 0 ${formatNumber(height)} ${formatNumber(left)} ${formatNumber(bottom)} cm /Im${index + 1} Do Q`
+    );
+  }
+
+  /**
+   * Serialize the document
+   */
+  toBlob(): Blob {
+    const chunks: Uint8Array[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+    const push = (chunk: Uint8Array | string) => {
+      const bytes = typeof chunk === 'string' ? toBytes(chunk) : chunk;
+      chunks.push(bytes);
+      length += bytes.length;
+    };
+    const object = (id: number, body: string, stream?: Uint8Array) => {
+      offsets[id] = length;
+      push(`${id} 0 obj\n${body}\n`);
+      if (stream) {
+        push('stream\n');
+        push(stream);
+        push('\nendstream\n');
+      }
+      push('endobj\n');
+    };
+
+    // 1 catalog, 2 page tree, 3-4 fonts, 5 resources, 6 info, then images and pages
+    const firstImageId = 7;
+    const firstPageId = firstImageId + this.images.length;
+    const pageIds = this.pages.map((_, index) => firstPageId + index * 2);
+
+    push('%PDF-1.4\n%âãÏÓ\n');
+    object(1, '<< /Type /Catalog /Pages 2 0 R >>');
+    object(2, `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+    object(3, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    object(4, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+    const xObjects = this.images.map((_, index) => `/Im${index + 1} ${firstImageId + index} 0 R`).join(' ');
+    object(5, `<< /Font << /F1 3 0 R /F2 4 0 R >> /XObject << ${xObjects} >> >>`);
+    object(6, `<< /Producer (TherapyFlow)${this.title ? ` /Title (${escapePdfString(toWinAnsi(this.title))})` : ''} >>`);
+
+    this.images.forEach((image, index) => {
+      object(
+        firstImageId + index,
+        `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.data.length} >>`,
+        image.data
+      );
+    });
+
+    this.pages.forEach((operations, index) => {
+      const content = toBytes(operations.join('\n'));
+      const pageId = pageIds[index];
+      object(
+        pageId,
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${this.width} ${this.height}] /Resources 5 0 R /Contents ${pageId + 1} 0 R >>`
+      );
+      object(pageId + 1, `<< /Length ${content.length} >>`, content);
+    });
+
+    const objectCount = firstPageId + this.pages.length * 2;
+    const xrefOffset = length;
+    push(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+    for (let id = 1; id < objectCount; id++) {
+      push(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+    }
+    push(`trailer\n<< /Size ${objectCount} /Root 1 0 R /Info 6 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+    return new Blob(chunks as BlobPart[], { type: 'application/pdf' });
+  }
+
+  private write(operation: string): void {
+    this.pages[this.currentPage].push(operation);
+  }
+}
+
+/**
+ * Load an image (URL or data URL, e.g. a signature) as a JPEG on a white background
+ */
+export const loadPdfImage = (source: string): Promise<PdfImage> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = image.naturalWidth || 1;
+      canvas.height = image.naturalHeight || 1;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('Canvas is not supported'));
+        return;
+      }
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      context.drawImage(image, 0, 0);
+
+      const base64 = canvas.toDataURL('image/jpeg', 0.9).split(',')[1] || '';
+      resolve({ data: toBytes(atob(base64)), width: canvas.width, height: canvas.height });
+    };
+    image.onerror = () => reject(new Error('Failed to load image'));
+    image.src = source.startsWith('data:') || /^(https?:|blob:|\/)/.test(source)
+      ? source
+      : `data:image/png;base64,${source}`;
+  });
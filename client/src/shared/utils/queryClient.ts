@@ -0,0 +1,31 @@
+// Query Client - the one TanStack Query cache shared by every feature hook
+import { QueryClient } from '@tanstack/react-query';
+import type { QueryKey } from '@tanstack/react-query';
+
+export const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      staleTime: 30 * 1000, // cached data is shown at once and refetched in the background after 30 seconds
+      refetchOnWindowFocus: true,
+      // ApiClient already retries network errors and 5xx with backoff
+      retry: false,
+      // Services answer from their own offline caches, so requests must not pause while offline
+      networkMode: 'always',
+    },
+    mutations: {
+      retry: false,
+      networkMode: 'always', // offline session writes are queued by the session service
+    },
+  },
+});
+
+/**
+ * Apply an optimistic change to every cached query under a key; returns a function that undoes it
+ */
+export const updateQueriesOptimistically = async <T>(queryKey: QueryKey, update: (data: T) => T): Promise<() => void> => {
+  // A refetch in flight would overwrite the optimistic data
+  await queryClient.cancelQueries({ queryKey });
+  const previous = queryClient.getQueriesData<T>({ queryKey });
+  queryClient.setQueriesData<T>({ queryKey }, (data) => (data === undefined ? data : update(data)));
+  return () => previous.forEach(([key, data]) => queryClient.setQueryData(key, data));
+};
@@ -0,0 +1,82 @@
+// Service Worker - registration, update detection and cache control for the PWA
+
+type UpdateListener = () => void;
+
+const updateListeners = new Set<UpdateListener>();
+let waitingWorker: ServiceWorker | null = null;
+let updateRequested = false;
+
+const isSupported = (): boolean => typeof navigator !== 'undefined' && 'serviceWorker' in navigator;
+
+const setWaitingWorker = (worker: ServiceWorker): void => {
+  waitingWorker = worker;
+  updateListeners.forEach((listener) => listener());
+};
+
+/**
+ * Register /sw.js for production builds; the dev server serves modules the worker would cache
+ */
+export const registerServiceWorker = (): void => {
+  if (!isSupported() || !import.meta.env.PROD) return;
+
+  window.addEventListener('load', async () => {
+    try {
+      // The first install claims the page too; only a replaced build needs a reload
+      const hadController = !!navigator.serviceWorker.controller;
+      const registration = await navigator.serviceWorker.register(`/sw.js?build=${__APP_BUILD_ID__}`);
+
+      // A worker from an earlier visit may already be waiting
+      if (registration.waiting && navigator.serviceWorker.controller) {
+        setWaitingWorker(registration.waiting);
+      }
+
+      registration.addEventListener('updatefound', () => {
+        const installing = registration.installing;
+        installing?.addEventListener('statechange', () => {
+          // The first install has no controller and needs no prompt
+          if (installing.state === 'installed' && navigator.serviceWorker.controller) {
+            setWaitingWorker(installing);
+          }
+        });
+      });
+
+      // Reload once the new worker takes over so the page runs the new build
+      let reloading = false;
+      navigator.serviceWorker.addEventListener('controllerchange', () => {
+        if (reloading || !(updateRequested || hadController)) return;
+        reloading = true;
+        window.location.reload();
+      });
+    } catch (error) {
+      console.error('Service worker registration failed:', error);
+    }
+  });
+};
+
+/**
+ * Be notified when a new build has been installed and is waiting
+ */
+export const onUpdateAvailable = (listener: UpdateListener): (() => void) => {
+  updateListeners.add(listener);
+  if (waitingWorker) listener();
+  return () => {
+    updateListeners.delete(listener);
+  };
+};
+
+/**
+ * Switch to the waiting build; the page reloads when it takes over
+ */
+export const applyUpdate = (): void => {
+  if (!waitingWorker) return;
+  updateRequested = true;
+  waitingWorker.postMessage({ type: 'SKIP_WAITING' });
+};
+
+/**
+ * Drop cached API responses, e.g. when the user signs out
+ */
+export const clearApiCache = (): void => {
+  if (!isSupported()) return;
+  navigator.serviceWorker.controller?.postMessage({ type: 'CLEAR_API_CACHE' });
+};
@@ -0,0 +1,264 @@
+// Table Export - CSV and XLSX files built in the browser
+import { createZip } from './zipArchive';
+
+export type ExportFormat = 'csv' | 'excel';
+
+export type ExportCellValue = string | number | boolean | Date | null | undefined;
+
+export interface ExportColumn<T> {
+  key: string;
+  label: string;
+  value: (row: T) => ExportCellValue;
+}
+
+export interface TableExportOptions {
+  format: ExportFormat;
+  columns: string[]; // Column keys to include
+  includeSessions?: boolean;
+  locale?: string;
+}
+
+export interface ExportSheet {
+  name: string;
+  rows: ExportCellValue[][];
+  headerRows?: number[]; // Row indexes shown in bold; defaults to the first row
+}
+
+const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+const MAX_SHEET_NAME_LENGTH = 31;
+const MAX_COLUMN_WIDTH = 60;
+
+// Excel serial day 0 is 1899-12-30
+const EXCEL_EPOCH_OFFSET_DAYS = 25569;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// styles.xml cellXfs indexes
+const STYLE_HEADER = 1;
+const STYLE_DATE = 2;
+const STYLE_DATE_TIME = 3;
+
+const hasTime = (value: Date): boolean =>
+  value.getHours() !== 0 || value.getMinutes() !== 0 || value.getSeconds() !== 0;
+
+/**
+ * Keep only the chosen columns, in the order of the column definitions
+ */
+export const selectExportColumns = <T>(columns: ExportColumn<T>[], keys?: string[]): ExportColumn<T>[] =>
+  keys ? columns.filter((column) => keys.includes(column.key)) : columns;
+
+/**
+ * Header row followed by one row per item
+ */
+export const toExportRows = <T>(items: T[], columns: ExportColumn<T>[]): ExportCellValue[][] => [
+  columns.map((column) => column.label),
+  ...items.map((item) => columns.map((column) => column.value(item))),
+];
+
+/**
+ * Display text for a cell; dates follow the given locale
+ */
+export const formatExportValue = (value: ExportCellValue, locale?: string): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) return '';
+    return hasTime(value)
+      ? value.toLocaleString(locale, { dateStyle: 'short', timeStyle: 'short' })
+      : value.toLocaleDateString(locale);
+  }
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+};
+
+const escapeCsvValue = (value: string): string => {
+  // Leading formula characters would be evaluated by spreadsheet apps
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) || safe !== safe.trim() ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+/**
+ * RFC 4180 CSV with a BOM so Excel opens it as UTF-8
+ */
+export const buildCsv = (rows: ExportCellValue[][], locale = navigator.language): Blob => {
+  const content = rows
+    .map((row) => row.map((value) => escapeCsvValue(formatExportValue(value, locale))).join(','))
+    .join('\r\n');
+  return new Blob([`\ufeff${content}\r\n`], { type: 'text/csv;charset=utf-8' });
+};
+
+const escapeXml = (value: string): string =>
+  value
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const getColumnName = (index: number): string => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+const toExcelSerial = (value: Date): number =>
+  (value.getTime() - value.getTimezoneOffset() * 60 * 1000) / MS_PER_DAY + EXCEL_EPOCH_OFFSET_DAYS;
+
+const buildCell = (value: ExportCellValue, reference: string, isHeader: boolean): string => {
+  const style = isHeader ? ` s="${STYLE_HEADER}"` : '';
+  if (value === null || value === undefined || value === '') return '';
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) return '';
+    const dateStyle = hasTime(value) ? STYLE_DATE_TIME : STYLE_DATE;
+    return `<c r="${reference}" s="${dateStyle}"><v>${toExcelSerial(value)}</v></c>`;
+  }
+  if (typeof value === 'number' && isFinite(value)) {
+    return `<c r="${reference}"${style}><v>${value}</v></c>`;
+  }
+  const text = escapeXml(formatExportValue(value));
+  return `<c r="${reference}" t="inlineStr"${style}><is><t xml:space="preserve">${text}</t></is></c>`;
+};
+
+const buildWorksheet = ({ rows, headerRows = [0] }: ExportSheet): string => {
+  const columnCount = Math.max(0, ...rows.map((row) => row.length));
+  const widths = Array.from({ length: columnCount }, (_, column) =>
+    Math.min(
+      MAX_COLUMN_WIDTH,
+      Math.max(10, ...rows.map((row) => formatExportValue(row[column]).length + 2))
+    )
+  );
+
+  const cols = columnCount
+    ? `<cols>${widths
+        .map((width, index) => `<col min="${index + 1}" max="${index + 1}" width="${width}" customWidth="1"/>`)
+        .join('')}</cols>`
+    : '';
+  const sheetRows = rows
+    .map((row, rowIndex) => {
+      const cells = row
+        .map((value, column) =>
+          buildCell(value, `${getColumnName(column)}${rowIndex + 1}`, headerRows.includes(rowIndex))
+        )
+        .join('');
+      return `<row r="${rowIndex + 1}">${cells}</row>`;
+    })
+    .join('');
+
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    `${cols}<sheetData>${sheetRows}</sheetData></worksheet>`
+  );
+};
+
+/**
+ * Sheet names must be unique, at most 31 characters, free of []:*?/\ and not
+ * wrapped in apostrophes
+ */
+const getSheetNames = (sheets: ExportSheet[]): string[] => {
+  const used = new Set<string>();
+  return sheets.map((sheet, index) => {
+    const base =
+      sheet.name
+        .replace(/[[\]:*?/\\]/g, ' ')
+        .replace(/\s+/g, ' ')
+        .replace(/^'+|'+$/g, '')
+        .trim() || `Sheet${index + 1}`;
+    let name = base.slice(0, MAX_SHEET_NAME_LENGTH).trim();
+    for (let copy = 2; used.has(name.toLowerCase()); copy++) {
+      const suffix = ` (${copy})`;
+      name = `${base.slice(0, MAX_SHEET_NAME_LENGTH - suffix.length).trim()}${suffix}`;
+    }
+    used.add(name.toLowerCase());
+    return name;
+  });
+};
+
+const STYLES_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+  '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="4">' +
+  '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+  '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +
+  '<xf numFmtId="14" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '<xf numFmtId="22" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '</cellXfs></styleSheet>';
+
+/**
+ * XLSX workbook with one worksheet per sheet. Dates are stored as Excel dates,
+ * so they display in the spreadsheet user's locale.
+ */
+export const buildXlsx = (sheets: ExportSheet[]): Blob => {
+  const names = getSheetNames(sheets);
+  const sheetList = sheets.length ? sheets : [{ name: 'Sheet1', rows: [] }];
+
+  const contentTypes =
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+    sheetList
+      .map(
+        (_, index) =>
+          `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+      )
+      .join('') +
+    '</Types>';
+
+  const rootRels =
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+    '</Relationships>';
+
+  const workbook =
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>' +
+    sheetList
+      .map(
+        (_, index) =>
+          `<sheet name="${escapeXml(names[index] || 'Sheet1')}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`
+      )
+      .join('') +
+    '</sheets></workbook>';
+
+  const workbookRels =
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    sheetList
+      .map(
+        (_, index) =>
+          `<Relationship Id="rId${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`
+      )
+      .join('') +
+    `<Relationship Id="rId${sheetList.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+    '</Relationships>';
+
+  return createZip(
+    [
+      { path: '[Content_Types].xml', content: contentTypes },
+      { path: '_rels/.rels', content: rootRels },
+      { path: 'xl/workbook.xml', content: workbook },
+      { path: 'xl/_rels/workbook.xml.rels', content: workbookRels },
+      { path: 'xl/styles.xml', content: STYLES_XML },
+      ...sheetList.map((sheet, index) => ({
+        path: `xl/worksheets/sheet${index + 1}.xml`,
+        content: buildWorksheet(sheet),
+      })),
+    ],
+    XLSX_MIME_TYPE
+  );
+};
+
+/**
+ * File name such as sessions-2025-03-14.xlsx
+ */
+export const getExportFilename = (baseName: string, format: ExportFormat): string =>
+  `${baseName}-${new Date().toISOString().split('T')[0]}.${format === 'csv' ? 'csv' : 'xlsx'}`;
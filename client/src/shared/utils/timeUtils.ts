@@ -0,0 +1,47 @@
+// Time utilities for "HH:mm" session times and yyyy-MM-dd session dates
+
+/**
+ * Normalize "HH:mm:ss" or "H:mm" to "HH:mm"
+ */
+export const normalizeTime = (time: string): string => {
+  const [hours = '0', minutes = '0'] = time.split(':');
+  return `${hours.padStart(2, '0')}:${minutes.padStart(2, '0')}`;
+};
+
+/**
+ * Convert an "HH:mm" or "HH:mm:ss" time to minutes since midnight
+ */
+export const timeToMinutes = (time: string): number => {
+  const [hours, minutes] = normalizeTime(time).split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Convert minutes since midnight back to "HH:mm"
+ */
+export const minutesToTime = (totalMinutes: number): string => {
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Add minutes to an "HH:mm" time, clamped to the same day
+ */
+export const addMinutesToTime = (time: string, minutes: number): string => {
+  return minutesToTime(Math.min(timeToMinutes(time) + minutes, 23 * 60 + 59));
+};
+
+/**
+ * Format a local date as yyyy-MM-dd without timezone conversion
+ */
+export const toDateKey = (date: Date): string => {
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * Strip the time part from an ISO date string ("2025-03-04T00:00:00" -> "2025-03-04")
+ */
+export const toDateOnly = (dateString: string): string => dateString.split('T')[0];